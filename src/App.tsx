@@ -1,4 +1,5 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { Routes, Route, Navigate, useLocation, useNavigate, useParams } from 'react-router-dom';
 import { StorefrontHome } from './components/storefront/StorefrontHome';
 import { ProductDetail } from './components/ProductDetail';
 import { Cart } from './components/Cart';
@@ -10,17 +11,26 @@ import { Footer } from './components/Footer';
 import Header from './components/Header';
 import { BottomNav } from './components/BottomNav';
 import { Rewards } from './components/Rewards';
+import { Wishlist } from './components/Wishlist';
 import { Checkout } from './components/Checkout';
+import { PaymentResult } from './components/PaymentResult';
+import { TrackOrder } from './components/TrackOrder';
 import { Toaster } from './components/ui/sonner';
 import { Button } from './components/ui/button';
 import { Card, CardContent } from './components/ui/card';
 import { Badge } from './components/ui/badge';
-import { Star, Heart, Filter, Grid, List } from 'lucide-react';
+import { Slider } from './components/ui/slider';
+import { Checkbox } from './components/ui/checkbox';
+import { Star, Heart, Filter, Grid, List, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { ThemeProvider } from './utils/ThemeContext';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { ProductProvider, useProducts } from './contexts/ProductContext';
+import type { CatalogPage } from './contexts/ProductContext';
+import { findCategory, getCategoryFamilyNames, getSubcategories, getTopLevelCategories } from './utils/categories';
+import type { Category, CatalogQuery, CatalogSort } from './utils/supabase/client';
 import { CartProvider, useCart } from './contexts/CartContext';
+import { WishlistProvider, useWishlist } from './contexts/WishlistContext';
 import { ContentProvider } from './contexts/ContentContext';
 import { AuthModal } from './components/AuthModal';
 import { ProductImage } from './components/ui/responsive-image';
@@ -28,13 +38,21 @@ import { BottomSpacer } from './components/ui/bottom-spacer';
 import { ToastProvider } from './components/notifications/ToastProvider';
 import { ImageDebugger } from './components/debug/ImageDebugger';
 import { FloatingChatButton } from './components/ChatNotificationBell';
+import {
+  DEFAULT_CATALOG_FILTERS,
+  countActiveCatalogFilters,
+  getFacetOptions,
+  hasActiveCatalogFilters
+} from './utils/catalogFilters';
+import type { CatalogFacetCounts, CatalogFilters } from './utils/catalogFilters';
 
 export type User = {
   id: string;
   email: string;
   name: string;
   phone?: string;
-  membershipTier: 'Bronze' | 'Silver' | 'Gold';
+  membershipTier: string; // Name of an admin-configured tier, e.g. 'Gold'
+  tierPerks?: TierPerks;
   points: number;
   created_at?: string;
   last_login?: string;
@@ -45,10 +63,18 @@ export type User = {
   };
 };
 
+// Perks of the member's current tier, applied by the database at checkout
+export type TierPerks = {
+  color: string;
+  earnMultiplier: number;
+  freeShipping: boolean;
+  earlyAccess: boolean;
+};
+
 export type Product = {
   id: string;
   name: string;
-  category: 'Shoes' | 'Casual' | 'Outwear' | 'Party' | 'Dresses' | 'Accessories';
+  category: string; // Display name of a row in the categories table
   price: number;
   originalPrice?: number;
   images: string[];
@@ -57,7 +83,16 @@ export type Product = {
   description: string;
   reviews: Review[];
   rating: number;
+  reviewCount?: number; // Number of approved reviews behind `rating`
   inStock: boolean;
+  variants?: ProductVariant[]; // Per size/color stock; empty or missing means stock is not tracked per variant
+  earlyAccessUntil?: string; // Until this date only members whose tier has early access can order it
+};
+
+export type ProductVariant = {
+  size: string;
+  color: string;
+  stock: number;
 };
 
 export type Review = {
@@ -65,8 +100,11 @@ export type Review = {
   userId: string;
   userName: string;
   rating: number;
+  title?: string;
   comment: string;
   date: string;
+  photos?: string[];
+  response?: string;
 };
 
 export type CartItem = {
@@ -81,59 +119,141 @@ export type CartItem = {
 function ProductCatalog({
   searchQuery,
   selectedCategory,
+  filters,
   onViewProduct,
-  onCategoryChange
+  onCategoryChange,
+  onFiltersChange,
+  onClearSearch
 }: {
   searchQuery: string;
   selectedCategory: string;
+  filters: CatalogFilters;
   onViewProduct: (product: Product) => void;
   onCategoryChange: (category: string) => void;
+  onFiltersChange: (filters: CatalogFilters) => void;
+  onClearSearch?: () => void;
 }) {
-  const { products, loading } = useProducts();
-  const [sortBy, setSortBy] = useState('featured');
+  const { categories, fetchCatalogPage, getCachedCatalogPage } = useProducts();
+  const [sortBy, setSortBy] = useState<CatalogSort>('featured');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [likedProducts, setLikedProducts] = useState<Set<string>>(new Set());
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const [showFilters, setShowFilters] = useState(hasActiveCatalogFilters(filters));
+  // The first page plus any pages loaded after it by scrolling
+  const [page, setPage] = useState<CatalogPage | null>(null);
+  const [loadingPage, setLoadingPage] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+  // Slider position while dragging; the filter is only applied on release
+  const [draftPriceRange, setDraftPriceRange] = useState<[number, number] | null>(null);
+  const requestId = useRef(0);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
-  const filteredProducts = useMemo(() => {
-    let filtered = [...products];
+  // Searching, filtering and sorting happen in the database, one page at a time
+  const query = useMemo((): CatalogQuery => ({
+    categories: selectedCategory && selectedCategory !== 'All' ? getCategoryFamilyNames(categories, selectedCategory) : null,
+    search: searchQuery.trim(),
+    sizes: filters.sizes,
+    colors: filters.colors,
+    priceRange: filters.priceRange,
+    onSaleOnly: filters.onSaleOnly,
+    sort: sortBy
+  }), [selectedCategory, categories, searchQuery, filters, sortBy]);
+  const queryKey = JSON.stringify(query);
 
-    if (searchQuery) {
-      filtered = filtered.filter(product =>
-        product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        product.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        product.description.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
+  // Show cached results from an earlier visit straight away while the first page loads
+  useEffect(() => {
+    const id = ++requestId.current;
+    setPage(getCachedCatalogPage(query));
+    setLoadingPage(true);
+    setLoadError(false);
+    setDraftPriceRange(null);
 
-    if (selectedCategory && selectedCategory !== 'All') {
-      filtered = filtered.filter(product => product.category === selectedCategory);
-    }
+    fetchCatalogPage(query).then(firstPage => {
+      if (id !== requestId.current) return;
+      if (firstPage) {
+        setPage(firstPage);
+      } else {
+        setLoadError(true);
+      }
+      setLoadingPage(false);
+    });
+  }, [queryKey]);
 
-    switch (sortBy) {
-      case 'price-low':
-        filtered = filtered.sort((a, b) => a.price - b.price);
-        break;
-      case 'price-high':
-        filtered = filtered.sort((a, b) => b.price - a.price);
-        break;
-      case 'rating':
-        filtered = filtered.sort((a, b) => b.rating - a.rating);
-        break;
-      default:
-        break;
+  const loadMore = async () => {
+    if (!page?.nextCursor || loadingPage || loadingMore) return;
+    const id = requestId.current;
+    setLoadingMore(true);
+    const nextPage = await fetchCatalogPage(query, page.nextCursor);
+    // Ignore pages for a query that has since changed
+    if (nextPage && id === requestId.current) {
+      setPage(current => current && {
+        ...current,
+        products: [...current.products, ...nextPage.products],
+        nextCursor: nextPage.nextCursor
+      });
     }
+    setLoadingMore(false);
+  };
 
-    return filtered;
-  }, [products, searchQuery, selectedCategory, sortBy]);
+  // Infinite scroll: load the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !page?.nextCursor || loadingPage || loadingMore) return;
 
-  const toggleLike = (productId: string) => {
-    const newLiked = new Set(likedProducts);
-    if (newLiked.has(productId)) {
-      newLiked.delete(productId);
-    } else {
-      newLiked.add(productId);
-    }
-    setLikedProducts(newLiked);
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [page?.nextCursor, loadingPage, loadingMore]);
+
+  // Top-level categories, plus the subcategories of the one being browsed
+  const activeCategory = findCategory(categories, selectedCategory);
+  const topLevelCategories = getTopLevelCategories(categories);
+  const parentCategory = activeCategory?.parent_id
+    ? categories.find(category => category.id === activeCategory.parent_id) || null
+    : activeCategory;
+  const subcategories = parentCategory ? getSubcategories(categories, parentCategory.id) : [];
+
+  const catalogProducts = page?.products || [];
+  const facets = page?.facets;
+  const facetCounts: CatalogFacetCounts = {
+    sizes: facets?.sizes || {},
+    colors: facets?.colors || {},
+    onSale: facets?.on_sale || 0
+  };
+  const facetOptions = getFacetOptions(facetCounts);
+  const minPrice = facets?.min_price ?? 0;
+  const maxPrice = facets?.max_price ?? 0;
+  // Clamp a saved range to the current bounds, e.g. after switching category
+  const appliedPriceRange = draftPriceRange || filters.priceRange;
+  const priceRange: [number, number] = appliedPriceRange
+    ? [Math.max(minPrice, appliedPriceRange[0]), Math.min(maxPrice, appliedPriceRange[1])]
+    : [minPrice, maxPrice];
+  const activeFilterCount = countActiveCatalogFilters(filters);
+  const productCount = facets?.total ?? catalogProducts.length;
+
+  const toggleFacetValue = (facet: 'sizes' | 'colors', value: string) => {
+    const current = filters[facet];
+    onFiltersChange({
+      ...filters,
+      [facet]: current.includes(value) ? current.filter(v => v !== value) : [...current, value]
+    });
+  };
+
+  const handlePriceCommit = (value: number[]) => {
+    const [min, max] = value;
+    setDraftPriceRange(null);
+    // Dragging the slider back to the full range removes the price filter
+    onFiltersChange({
+      ...filters,
+      priceRange: min <= minPrice && max >= maxPrice ? null : [min, max]
+    });
+  };
+
+  const clearAllFilters = () => {
+    onFiltersChange(DEFAULT_CATALOG_FILTERS);
+    onCategoryChange('All');
   };
 
   return (
@@ -143,8 +263,19 @@ function ProductCatalog({
           <h2 className="text-2xl font-bold">
             {selectedCategory === 'All' ? 'All Products' : selectedCategory}
           </h2>
+          {searchQuery.trim() && (
+            <div className="flex items-center gap-2 mt-1">
+              <span className="text-sm">Results for "{searchQuery.trim()}"</span>
+              {onClearSearch && (
+                <Button variant="ghost" size="sm" className="h-6 px-2" onClick={onClearSearch}>
+                  <X className="h-3 w-3 mr-1" />
+                  Clear search
+                </Button>
+              )}
+            </div>
+          )}
           <p className="text-muted-foreground">
-            {filteredProducts.length} products found
+            {loadingPage && !page ? 'Loading products...' : `${productCount} products found`}
           </p>
         </div>
 
@@ -168,7 +299,7 @@ function ProductCatalog({
 
           <select
             value={sortBy}
-            onChange={(e) => setSortBy(e.target.value)}
+            onChange={(e) => setSortBy(e.target.value as CatalogSort)}
             className="px-3 py-2 border rounded-md bg-background"
           >
             <option value="featured">Featured</option>
@@ -178,18 +309,179 @@ function ProductCatalog({
             <option value="rating">Highest Rated</option>
           </select>
 
-          <Button variant="outline" size="sm">
+          <Button
+            variant={showFilters || activeFilterCount > 0 ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setShowFilters(!showFilters)}
+          >
             <Filter className="h-4 w-4 mr-2" />
             Filter
+            {activeFilterCount > 0 && (
+              <Badge variant="secondary" className="ml-2 h-5 px-1.5">
+                {activeFilterCount}
+              </Badge>
+            )}
           </Button>
         </div>
       </div>
 
+      {categories.length > 0 && (
+        <div className="mb-6 space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={selectedCategory === 'All' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onCategoryChange('All')}
+            >
+              All
+            </Button>
+            {topLevelCategories.map(category => (
+              <Button
+                key={category.id}
+                variant={parentCategory?.id === category.id ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => onCategoryChange(category.name)}
+              >
+                {category.name}
+              </Button>
+            ))}
+          </div>
+          {subcategories.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {subcategories.map(category => (
+                <Button
+                  key={category.id}
+                  variant={activeCategory?.id === category.id ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => onCategoryChange(category.name)}
+                >
+                  {category.name}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showFilters && (
+        <Card className="mb-6">
+          <CardContent className="p-4 space-y-5">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <h4 className="text-sm font-medium mb-2">Size</h4>
+                <div className="flex flex-wrap gap-2">
+                  {facetOptions.sizes.map(size => {
+                    const count = facetCounts.sizes[size] || 0;
+                    const selected = filters.sizes.includes(size);
+                    return (
+                      <Button
+                        key={size}
+                        variant={selected ? 'default' : 'outline'}
+                        size="sm"
+                        disabled={!selected && count === 0}
+                        onClick={() => toggleFacetValue('sizes', size)}
+                      >
+                        {size}
+                        <span className="ml-1 text-xs opacity-70">({count})</span>
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium mb-2">Color</h4>
+                <div className="flex flex-wrap gap-2">
+                  {facetOptions.colors.map(color => {
+                    const count = facetCounts.colors[color] || 0;
+                    const selected = filters.colors.includes(color);
+                    return (
+                      <Button
+                        key={color}
+                        variant={selected ? 'default' : 'outline'}
+                        size="sm"
+                        disabled={!selected && count === 0}
+                        onClick={() => toggleFacetValue('colors', color)}
+                      >
+                        {color}
+                        <span className="ml-1 text-xs opacity-70">({count})</span>
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-sm font-medium">Price</h4>
+                    <span className="text-sm text-muted-foreground">
+                      R{priceRange[0]} – R{priceRange[1]}
+                    </span>
+                  </div>
+                  <Slider
+                    min={minPrice}
+                    max={maxPrice}
+                    step={10}
+                    value={priceRange}
+                    onValueChange={(value) => setDraftPriceRange([value[0], value[1]])}
+                    onValueCommit={handlePriceCommit}
+                    disabled={minPrice === maxPrice}
+                  />
+                </div>
+
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={filters.onSaleOnly}
+                    disabled={!filters.onSaleOnly && facetCounts.onSale === 0}
+                    onCheckedChange={(checked) => onFiltersChange({ ...filters, onSaleOnly: checked === true })}
+                  />
+                  On sale
+                  <span className="text-xs text-muted-foreground">({facetCounts.onSale})</span>
+                </label>
+              </div>
+            </div>
+
+            {activeFilterCount > 0 && (
+              <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+                {filters.sizes.map(size => (
+                  <Badge key={`size-${size}`} variant="secondary" className="cursor-pointer" onClick={() => toggleFacetValue('sizes', size)}>
+                    Size {size}
+                    <X className="h-3 w-3 ml-1" />
+                  </Badge>
+                ))}
+                {filters.colors.map(color => (
+                  <Badge key={`color-${color}`} variant="secondary" className="cursor-pointer" onClick={() => toggleFacetValue('colors', color)}>
+                    {color}
+                    <X className="h-3 w-3 ml-1" />
+                  </Badge>
+                ))}
+                {filters.priceRange && (
+                  <Badge variant="secondary" className="cursor-pointer" onClick={() => onFiltersChange({ ...filters, priceRange: null })}>
+                    R{filters.priceRange[0]} – R{filters.priceRange[1]}
+                    <X className="h-3 w-3 ml-1" />
+                  </Badge>
+                )}
+                {filters.onSaleOnly && (
+                  <Badge variant="secondary" className="cursor-pointer" onClick={() => onFiltersChange({ ...filters, onSaleOnly: false })}>
+                    On sale
+                    <X className="h-3 w-3 ml-1" />
+                  </Badge>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => onFiltersChange(DEFAULT_CATALOG_FILTERS)}>
+                  Clear all
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <div className={viewMode === 'grid'
         ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 pb-24"
         : "space-y-4 pb-24"
       }>
-        {filteredProducts.map((product) => (
+        {catalogProducts.map((product) => (
           <Card
             key={product.id}
             className={`group cursor-pointer hover:shadow-lg transition-all duration-300 ${viewMode === 'list' ? 'flex' : 'flex flex-col h-full'
@@ -211,10 +503,11 @@ function ProductCatalog({
                   className="absolute top-2 right-2 bg-background/80 backdrop-blur-sm hover:bg-background"
                   onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
                     e.stopPropagation();
-                    toggleLike(product.id);
+                    toggleWishlist(product.id);
                   }}
+                  aria-label={isWishlisted(product.id) ? 'Remove from wishlist' : 'Add to wishlist'}
                 >
-                  <Heart className={`h-4 w-4 ${likedProducts.has(product.id) ? 'fill-red-500 text-red-500' : ''}`} />
+                  <Heart className={`h-4 w-4 ${isWishlisted(product.id) ? 'fill-red-500 text-red-500' : ''}`} />
                 </Button>
                 {product.originalPrice && product.originalPrice !== product.price && (
                   <Badge className="absolute top-2 left-2 bg-destructive text-destructive-foreground">
@@ -264,7 +557,7 @@ function ProductCatalog({
                 <div className="flex items-center gap-1">
                   <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
                   <span className="text-sm text-muted-foreground">
-                    {product.rating} ({product.reviews.length})
+                    {product.rating} ({product.reviewCount ?? product.reviews.length})
                   </span>
                 </div>
 
@@ -306,14 +599,34 @@ function ProductCatalog({
         ))}
       </div>
 
-      {filteredProducts.length === 0 && (
+      {page?.nextCursor && (
+        <div ref={loadMoreRef} className="flex justify-center -mt-16 mb-24">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
+
+      {loadError && catalogProducts.length === 0 && (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium mb-2">Could not load products</h3>
+          <p className="text-muted-foreground mb-4">
+            Please check your connection and try again
+          </p>
+          <Button onClick={() => window.location.reload()}>
+            Try again
+          </Button>
+        </div>
+      )}
+
+      {!loadingPage && !loadError && catalogProducts.length === 0 && (
         <div className="text-center py-12">
           <div className="text-4xl mb-4">🔍</div>
           <h3 className="text-lg font-medium mb-2">No products found</h3>
           <p className="text-muted-foreground mb-4">
             Try adjusting your search or filter criteria
           </p>
-          <Button onClick={() => onCategoryChange('All')}>
+          <Button onClick={clearAllFilters}>
             Clear filters
           </Button>
         </div>
@@ -324,22 +637,171 @@ function ProductCatalog({
   );
 }
 
+type Page = 'home' | 'catalog' | 'product' | 'cart' | 'wishlist' | 'profile' | 'rewards' | 'checkout' | 'track' | 'admin' | 'info' | 'debug';
+
+// URL for each top-level page; categories, products, admin tabs and info pages add a segment
+const PAGE_PATHS: Record<Page, string> = {
+  home: '/',
+  catalog: '/shop',
+  product: '/shop',
+  cart: '/cart',
+  wishlist: '/wishlist',
+  profile: '/profile',
+  rewards: '/rewards',
+  checkout: '/checkout',
+  track: '/track',
+  admin: '/admin',
+  info: '/info',
+  debug: '/debug'
+};
+
+const getPageFromPath = (pathname: string): Page => {
+  const segment = pathname.split('/').filter(Boolean)[0] || '';
+  switch (segment) {
+    case '': return 'home';
+    case 'shop': return 'catalog';
+    case 'product': return 'product';
+    case 'cart': return 'cart';
+    case 'wishlist': return 'wishlist';
+    case 'profile': return 'profile';
+    case 'rewards': return 'rewards';
+    case 'checkout': return 'checkout';
+    case 'track': return 'track';
+    case 'admin': return 'admin';
+    case 'info': return 'info';
+    case 'debug': return 'debug';
+    default: return 'home';
+  }
+};
+
+export const getProductPath = (productId: string) => `/product/${productId}`;
+
+// Categories are linked by slug; a name without a matching category is used as-is
+export const getCategoryPath = (category: string, categories: Category[] = []) =>
+  !category || category === 'All'
+    ? PAGE_PATHS.catalog
+    : `${PAGE_PATHS.catalog}/${encodeURIComponent(findCategory(categories, category)?.slug ?? category)}`;
+
+// Resolves /product/:productId, using the loaded catalog first and the database for deep links
+function ProductRoute(props: Omit<React.ComponentProps<typeof ProductDetail>, 'product'>) {
+  const { productId } = useParams();
+  const { products, fetchProduct } = useProducts();
+  const [fetchedProduct, setFetchedProduct] = useState<Product | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const cachedProduct = products.find(p => p.id === productId) || null;
+  const product = cachedProduct || (fetchedProduct?.id === productId ? fetchedProduct : null);
+
+  useEffect(() => {
+    if (!productId || cachedProduct) return;
+
+    let isMounted = true;
+    setNotFound(false);
+    fetchProduct(productId).then(result => {
+      if (!isMounted) return;
+      if (result) {
+        setFetchedProduct(result);
+      } else {
+        setNotFound(true);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [productId, !!cachedProduct]);
+
+  if (notFound) {
+    return (
+      <div className="container mx-auto px-6 py-12 text-center">
+        <h3 className="text-lg font-medium mb-2">Product not found</h3>
+        <p className="text-muted-foreground mb-4">This product may have been removed or is no longer available.</p>
+        <Button onClick={props.onBack}>Back to shop</Button>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return <div className="text-center py-12">Loading product...</div>;
+  }
+
+  return <ProductDetail {...props} product={product} />;
+}
+
+function CatalogRoute(props: Omit<React.ComponentProps<typeof ProductCatalog>, 'selectedCategory' | 'onCategoryChange'>) {
+  const { category } = useParams();
+  const navigate = useNavigate();
+  const { categories } = useProducts();
+  const categoryParam = category ? decodeURIComponent(category) : 'All';
+
+  return (
+    <ProductCatalog
+      {...props}
+      selectedCategory={findCategory(categories, categoryParam)?.name ?? categoryParam}
+      onCategoryChange={(nextCategory) => navigate(getCategoryPath(nextCategory, categories))}
+    />
+  );
+}
+
+function AdminRoute() {
+  const { tab } = useParams();
+  const navigate = useNavigate();
+
+  return (
+    <AdminDashboard
+      activeTab={tab || 'overview'}
+      onTabChange={(nextTab) => navigate(nextTab === 'overview' ? PAGE_PATHS.admin : `${PAGE_PATHS.admin}/${nextTab}`)}
+    />
+  );
+}
+
+function InfoRoute() {
+  const { page } = useParams();
+  const navigate = useNavigate();
+
+  return (
+    <InformationCenter
+      onBack={() => navigate(PAGE_PATHS.home)}
+      initialPage={page || 'about'}
+      onNavigate={(nextPage) => navigate(`${PAGE_PATHS.info}/${nextPage}`)}
+    />
+  );
+}
+
 function AppContent() {
-  const { user, isAdmin } = useAuth();
-  const { products } = useProducts();
-  const { items, addItem, updateItemQuantity, removeItem, fetchCart } = useCart();
-  const [currentPage, setCurrentPage] = useState<'home' | 'catalog' | 'product' | 'cart' | 'profile' | 'rewards' | 'checkout' | 'admin' | 'info' | 'debug'>('home');
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const { user, isAdmin, loading: authLoading } = useAuth();
+  const { items, addItem, updateItemQuantity, removeItem, fetchCart, revalidateCart } = useCart();
+  const { categories } = useProducts();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const currentPage = getPageFromPath(location.pathname);
   const [searchQuery, setSearchQuery] = useState<string>('');
-  const [selectedCategory, setSelectedCategory] = useState<string>('All');
+  // Lives here rather than in the catalog so filters survive viewing a product and coming back
+  const [catalogFilters, setCatalogFilters] = useState<CatalogFilters>(DEFAULT_CATALOG_FILTERS);
   const [showAuthModal, setShowAuthModal] = useState<boolean>(false);
-  const [infoPage, setInfoPage] = useState<string>('about');
   const [authModalConfig, setAuthModalConfig] = useState({
     mode: 'login' as 'login' | 'signup',
     title: 'Sign In Required',
     description: 'Please sign in to continue'
   });
 
+  // Start each page at the top, like a normal page load
+  useEffect(() => {
+    window.scrollTo({ top: 0 });
+  }, [location.pathname]);
+
+  // Signed-out visitors opening /profile or /rewards directly are asked to sign in
+  useEffect(() => {
+    if (authLoading || user) return;
+    if (currentPage === 'profile') {
+      setAuthModalConfig({ mode: 'login', title: 'My Account', description: 'Please sign in to view your profile.' });
+      setShowAuthModal(true);
+    } else if (currentPage === 'rewards') {
+      setAuthModalConfig({ mode: 'login', title: 'My Rewards', description: 'Please sign in to view your rewards.' });
+      setShowAuthModal(true);
+    }
+  }, [authLoading, user, currentPage]);
+
   const requireAuth = (action: () => void, title?: string, description?: string) => {
     if (user) {
       action();
@@ -354,55 +816,76 @@ function AppContent() {
   };
 
   const viewProduct = (product: Product) => {
-    setSelectedProduct(product);
-    setCurrentPage('product');
+    navigate(getProductPath(product.id));
   };
 
   const navigateToCategory = (category: string) => {
-    setSelectedCategory(category);
-    setCurrentPage('catalog');
+    navigate(getCategoryPath(category, categories));
+  };
+
+  // Searches from the header show their results across the whole catalog
+  const searchCatalog = (query: string) => {
+    setSearchQuery(query);
+    navigate(PAGE_PATHS.catalog);
   };
 
   const navigateToHomeSection = (sectionId: string) => {
-    setCurrentPage('home');
+    navigate(PAGE_PATHS.home);
     setTimeout(() => {
       document.getElementById(sectionId)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
     }, 60);
   };
 
-  const handleProceedToCheckout = () => {
+  // Go back within the app when possible, otherwise (deep link) fall back to the shop
+  const goBackOr = (fallbackPath: string) => {
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate(fallbackPath);
+    }
+  };
+
+  const handleProceedToCheckout = async () => {
+    // Prices and stock may have changed since the cart loaded; let the shopper
+    // review any changes before checking out
+    const issues = await revalidateCart();
+    if (issues.length > 0) {
+      toast.info('Some items in your cart changed. Please review them before checking out.');
+      return;
+    }
+
     // Allow guest checkout - no authentication required
-    setCurrentPage('checkout');
+    navigate(PAGE_PATHS.checkout);
   };
 
   const handleProfileClick = () => {
-    requireAuth(() => setCurrentPage('profile'), 'My Account', 'Please sign in to view your profile.');
+    requireAuth(() => navigate(PAGE_PATHS.profile), 'My Account', 'Please sign in to view your profile.');
   };
 
   const handleRewardsClick = () => {
-    requireAuth(() => setCurrentPage('rewards'), 'My Rewards', 'Please sign in to view your rewards.');
+    requireAuth(() => navigate(PAGE_PATHS.rewards), 'My Rewards', 'Please sign in to view your rewards.');
   };
 
   const handleAuthSuccess = (mode: 'login' | 'signup') => {
     setShowAuthModal(false);
     toast.success(mode === 'signup' ? 'Account created! Welcome to Rosemama!' : 'Welcome back!');
     if (authModalConfig.title.includes('Checkout')) {
-      setCurrentPage('checkout');
-    } else if (authModalConfig.title.includes('Profile')) {
-      setCurrentPage('profile');
+      navigate(PAGE_PATHS.checkout);
+    } else if (authModalConfig.title.includes('Account')) {
+      navigate(PAGE_PATHS.profile);
     } else if (authModalConfig.title.includes('Rewards')) {
-      setCurrentPage('rewards');
+      navigate(PAGE_PATHS.rewards);
     }
   };
 
   const handlePageChange = (page: string) => {
-    const targetPage = page as typeof currentPage;
+    const targetPage = page as Page;
     if (['profile', 'rewards', 'admin'].includes(targetPage)) {
       if (targetPage === 'profile') handleProfileClick();
       if (targetPage === 'rewards') handleRewardsClick();
-      if (targetPage === 'admin' && isAdmin) setCurrentPage('admin');
+      if (targetPage === 'admin' && isAdmin) navigate(PAGE_PATHS.admin);
     } else {
-      setCurrentPage(targetPage);
+      navigate(PAGE_PATHS[targetPage] || PAGE_PATHS.home);
     }
   };
 
@@ -463,111 +946,147 @@ function AppContent() {
   };
 
   const handleNavigateToInfo = (page: string) => {
-    setInfoPage(page);
-    setCurrentPage('info');
-  };
-
-  const renderCurrentPage = () => {
-    switch (currentPage) {
-      case 'home':
-        return (
-          <StorefrontHome
-            onViewProduct={viewProduct}
-            onNavigateToCategory={navigateToCategory}
-            onShopAll={() => setCurrentPage('catalog')}
-          />
-        );
-      case 'catalog':
-        return (
-          <ProductCatalog
-            searchQuery={searchQuery}
-            selectedCategory={selectedCategory}
-            onViewProduct={viewProduct}
-            onCategoryChange={setSelectedCategory}
-          />
-        );
-      case 'product':
-        return selectedProduct ? (
-          <ProductDetail
-            product={selectedProduct}
-            onBack={() => setCurrentPage('catalog')}
-            onAddToCart={addItem}
-            onViewProduct={viewProduct}
-            onGoToCart={() => setCurrentPage('cart')}
-            onGoToCheckout={() => setCurrentPage('checkout')}
-          />
-        ) : null;
-      case 'cart':
-        return (
-          <Cart
-            items={items}
-            onUpdateQuantity={handleUpdateQuantity}
-            onRemoveItem={handleRemoveItem}
-            onProceedToCheckout={handleProceedToCheckout}
-            onContinueShopping={() => setCurrentPage('catalog')}
-          />
-        );
-      case 'checkout':
-        return (
-          <Checkout
-            user={user} // Can be null for guest checkout
-            items={items}
-            onOrderComplete={() => {
-              setCurrentPage('home');
-              toast.success('Order placed successfully!');
-            }}
-            onBack={() => setCurrentPage('cart')}
-          />
-        );
-      case 'profile':
-        return user ? (
-          isAdmin ? (
-            <AdminAccountSettings />
-          ) : (
-            <Profile
-              onLogout={() => { }}
-              onNavigateToInfo={handleNavigateToInfo}
-            />
-          )
-        ) : null;
-      case 'rewards':
-        return user ? <Rewards /> : null;
-      case 'admin':
-        return isAdmin ? <AdminDashboard /> : null;
-      case 'info':
-        return <InformationCenter onBack={() => setCurrentPage('home')} initialPage={infoPage} />;
-      case 'debug':
-        return <ImageDebugger />;
-      default:
-        return null;
-    }
+    navigate(`${PAGE_PATHS.info}/${page}`);
   };
 
   return (
     <div className="flex flex-col min-h-screen bg-background text-foreground">
       {currentPage !== 'home' && (
         <Header
-          onSearch={setSearchQuery}
+          onSearch={searchCatalog}
+          onViewProduct={viewProduct}
           onProfileClick={handleProfileClick}
+          onWishlistClick={() => navigate(PAGE_PATHS.wishlist)}
           onNavigateToCategory={navigateToCategory}
           onSectionNavigate={navigateToHomeSection}
-          onInfoClick={() => {
-            setInfoPage('about');
-            setCurrentPage('info');
-          }}
+          onInfoClick={() => handleNavigateToInfo('about')}
         />
       )}
 
       <main className={`flex-1 ${currentPage === 'home' ? 'pt-14' : 'pb-32 md:pb-24'}`}>
-        {renderCurrentPage()}
+        <Routes>
+          <Route
+            path="/"
+            element={
+              <StorefrontHome
+                onViewProduct={viewProduct}
+                onNavigateToCategory={navigateToCategory}
+                onShopAll={() => navigate(PAGE_PATHS.catalog)}
+              />
+            }
+          />
+          {['/shop', '/shop/:category'].map(path => (
+            <Route
+              key={path}
+              path={path}
+              element={
+                <CatalogRoute
+                  searchQuery={searchQuery}
+                  filters={catalogFilters}
+                  onViewProduct={viewProduct}
+                  onFiltersChange={setCatalogFilters}
+                  onClearSearch={() => setSearchQuery('')}
+                />
+              }
+            />
+          ))}
+          <Route
+            path="/product/:productId"
+            element={
+              <ProductRoute
+                onBack={() => goBackOr(PAGE_PATHS.catalog)}
+                onAddToCart={addItem}
+                onViewProduct={viewProduct}
+                onGoToCart={() => navigate(PAGE_PATHS.cart)}
+                onGoToCheckout={() => navigate(PAGE_PATHS.checkout)}
+              />
+            }
+          />
+          <Route
+            path="/cart"
+            element={
+              <Cart
+                items={items}
+                onUpdateQuantity={handleUpdateQuantity}
+                onRemoveItem={handleRemoveItem}
+                onProceedToCheckout={handleProceedToCheckout}
+                onContinueShopping={() => navigate(PAGE_PATHS.catalog)}
+              />
+            }
+          />
+          <Route
+            path="/wishlist"
+            element={
+              <Wishlist
+                onViewProduct={viewProduct}
+                onAddToCart={addItem}
+                onContinueShopping={() => navigate(PAGE_PATHS.catalog)}
+              />
+            }
+          />
+          <Route
+            path="/checkout"
+            element={
+              <Checkout
+                user={user} // Can be null for guest checkout
+                items={items}
+                onOrderComplete={() => {
+                  navigate(PAGE_PATHS.home);
+                  toast.success('Order placed successfully!');
+                }}
+                onBack={() => navigate(PAGE_PATHS.cart)}
+              />
+            }
+          />
+          <Route
+            path="/checkout/payment"
+            element={
+              <PaymentResult
+                onContinueShopping={() => navigate(PAGE_PATHS.catalog)}
+                onViewOrders={user && !isAdmin ? () => navigate(PAGE_PATHS.profile) : undefined}
+              />
+            }
+          />
+          <Route
+            path="/track"
+            element={<TrackOrder onContinueShopping={() => navigate(PAGE_PATHS.catalog)} />}
+          />
+          <Route
+            path="/profile"
+            element={
+              user ? (
+                isAdmin ? (
+                  <AdminAccountSettings />
+                ) : (
+                  <Profile
+                    onLogout={() => { }}
+                    onNavigateToInfo={handleNavigateToInfo}
+                    onViewWishlist={() => navigate(PAGE_PATHS.wishlist)}
+                  />
+                )
+              ) : null
+            }
+          />
+          <Route path="/rewards" element={user ? <Rewards /> : null} />
+          {['/admin', '/admin/:tab'].map(path => (
+            <Route
+              key={path}
+              path={path}
+              element={isAdmin ? <AdminRoute /> : authLoading ? null : <Navigate to={PAGE_PATHS.home} replace />}
+            />
+          ))}
+          {['/info', '/info/:page'].map(path => (
+            <Route key={path} path={path} element={<InfoRoute />} />
+          ))}
+          <Route path="/debug" element={<ImageDebugger />} />
+          <Route path="*" element={<Navigate to={PAGE_PATHS.home} replace />} />
+        </Routes>
       </main>
 
       <Footer
         onNavigateToCategory={navigateToCategory}
-        onInfoClick={(page) => {
-          setInfoPage(page);
-          setCurrentPage('info');
-        }}
+        onInfoClick={handleNavigateToInfo}
+        onTrackOrder={() => navigate(PAGE_PATHS.track)}
       />
 
       <BottomNav
@@ -599,6 +1118,7 @@ export default function App() {
     <AuthProvider>
       <ProductProvider>
         <CartProvider>
+          <WishlistProvider>
           <ContentProvider>
             <ThemeProvider>
               <ToastProvider position="top-right" maxToasts={5}>
@@ -606,6 +1126,7 @@ export default function App() {
               </ToastProvider>
             </ThemeProvider>
           </ContentProvider>
+          </WishlistProvider>
         </CartProvider>
       </ProductProvider>
     </AuthProvider>
@@ -0,0 +1,229 @@
+import { useState, useEffect } from 'react';
+import { MapPin, Plus, Edit, Trash2, Star, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { AddressFields } from './AddressFields';
+import { getUserAddresses, saveUserAddress, setDefaultAddress, deleteUserAddress } from '../utils/supabase/client';
+import type { SavedAddress } from '../utils/supabase/client';
+import type { Address } from '../types/invoice';
+import { validateAddress, formatAddressLine, fromSavedAddress, toSavedAddressInput } from '../utils/address';
+
+interface AddressBookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: { name: string; phone?: string };
+}
+
+const emptyAddress = (user: { name: string; phone?: string }): Address => ({
+  firstName: user.name.split(' ')[0] || '',
+  lastName: user.name.split(' ').slice(1).join(' '),
+  phone: user.phone || '',
+  address: '',
+  city: '',
+  state: '',
+  zipCode: '',
+  country: 'South Africa'
+});
+
+export function AddressBookDialog({ open, onOpenChange, user }: AddressBookDialogProps) {
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // null while browsing the list, 'new' or an address id while the form is open
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [form, setForm] = useState<Address>(() => emptyAddress(user));
+
+  const loadAddresses = async () => {
+    setLoading(true);
+    setAddresses(await getUserAddresses());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadAddresses();
+    } else {
+      setEditingId(null);
+    }
+  }, [open]);
+
+  const startEditing = (address?: SavedAddress) => {
+    setEditingId(address?.id || 'new');
+    setLabel(address?.label || (addresses.length === 0 ? 'Home' : ''));
+    setIsDefault(address?.is_default || false);
+    setForm(address ? fromSavedAddress(address) : emptyAddress(user));
+  };
+
+  const handleSave = async () => {
+    if (!label.trim()) {
+      toast.error('Please give the address a label, e.g. Home');
+      return;
+    }
+    const problem = validateAddress(form);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveUserAddress(
+      toSavedAddressInput(form, label, isDefault),
+      editingId === 'new' ? undefined : editingId || undefined
+    );
+    setSaving(false);
+
+    if (saved) {
+      toast.success('Address saved');
+      setEditingId(null);
+      loadAddresses();
+    } else {
+      toast.error('Failed to save address');
+    }
+  };
+
+  const handleSetDefault = async (address: SavedAddress) => {
+    if (await setDefaultAddress(address.id)) {
+      toast.success(`${address.label} is now your default address`);
+      loadAddresses();
+    } else {
+      toast.error('Failed to update default address');
+    }
+  };
+
+  const handleDelete = async (address: SavedAddress) => {
+    if (!window.confirm(`Delete the address "${address.label}"?`)) return;
+
+    if (await deleteUserAddress(address.id)) {
+      toast.success('Address deleted');
+      loadAddresses();
+    } else {
+      toast.error('Failed to delete address');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editingId ? (editingId === 'new' ? 'Add Address' : 'Edit Address') : 'My Addresses'}</DialogTitle>
+        </DialogHeader>
+
+        {editingId ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="addressLabel">Label</Label>
+              <Input
+                id="addressLabel"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="e.g. Home, Work"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="addressFirstName">First Name</Label>
+                <Input
+                  id="addressFirstName"
+                  value={form.firstName}
+                  onChange={(e) => setForm(prev => ({ ...prev, firstName: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="addressLastName">Last Name</Label>
+                <Input
+                  id="addressLastName"
+                  value={form.lastName}
+                  onChange={(e) => setForm(prev => ({ ...prev, lastName: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="addressPhone">Phone</Label>
+              <Input
+                id="addressPhone"
+                type="tel"
+                value={form.phone}
+                onChange={(e) => setForm(prev => ({ ...prev, phone: e.target.value }))}
+              />
+            </div>
+
+            <AddressFields value={form} onChange={setForm} idPrefix="book-" />
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="addressDefault"
+                checked={isDefault}
+                onCheckedChange={(checked) => setIsDefault(checked as boolean)}
+              />
+              <Label htmlFor="addressDefault">Use as my default delivery address</Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Address'}
+              </Button>
+              <Button variant="outline" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : loading ? (
+          <div className="text-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+            Loading your addresses...
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {addresses.length === 0 && (
+              <p className="text-center py-6 text-muted-foreground">
+                No saved addresses yet. Add one to fill in checkout faster.
+              </p>
+            )}
+
+            {addresses.map(address => (
+              <div key={address.id} className="p-4 border rounded-lg flex items-start gap-3">
+                <MapPin className="h-5 w-5 text-muted-foreground mt-0.5" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{address.label}</span>
+                    {address.is_default && <Badge variant="secondary">Default</Badge>}
+                  </div>
+                  <p className="text-sm">{address.first_name} {address.last_name}{address.phone && ` · ${address.phone}`}</p>
+                  <p className="text-sm text-muted-foreground">{formatAddressLine(fromSavedAddress(address))}</p>
+                </div>
+                <div className="flex gap-1">
+                  {!address.is_default && (
+                    <Button variant="ghost" size="sm" onClick={() => handleSetDefault(address)} title="Make default">
+                      <Star className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(address)} title="Edit">
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="text-red-500 hover:text-red-600" onClick={() => handleDelete(address)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <Button variant="outline" className="w-full" onClick={() => startEditing()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Address
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
@@ -0,0 +1,68 @@
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { Address } from '../types/invoice';
+import { SA_PROVINCES } from '../utils/address';
+
+interface AddressFieldsProps {
+  value: Address;
+  onChange: (address: Address) => void;
+  idPrefix?: string; // keeps label ids unique when two forms are on the page
+}
+
+// Street, city, province and postal code inputs shared by checkout and the address book
+export function AddressFields({ value, onChange, idPrefix = '' }: AddressFieldsProps) {
+  const update = (field: keyof Address, fieldValue: string) => onChange({ ...value, [field]: fieldValue });
+
+  return (
+    <>
+      <div>
+        <Label htmlFor={`${idPrefix}address`}>Address</Label>
+        <Input
+          id={`${idPrefix}address`}
+          value={value.address}
+          onChange={(e) => update('address', e.target.value)}
+          placeholder="Street address"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor={`${idPrefix}city`}>City</Label>
+          <Input
+            id={`${idPrefix}city`}
+            value={value.city}
+            onChange={(e) => update('city', e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}state`}>Province</Label>
+          <Select value={value.state} onValueChange={(province: string) => update('state', province)}>
+            <SelectTrigger id={`${idPrefix}state`}>
+              <SelectValue placeholder="Select province" />
+            </SelectTrigger>
+            <SelectContent>
+              {SA_PROVINCES.map(province => (
+                <SelectItem key={province.code} value={province.code}>{province.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor={`${idPrefix}zipCode`}>Postal Code</Label>
+          <Input
+            id={`${idPrefix}zipCode`}
+            value={value.zipCode}
+            onChange={(e) => update('zipCode', e.target.value.replace(/\D/g, ''))}
+            inputMode="numeric"
+            maxLength={4}
+            placeholder="0000"
+            required
+          />
+        </div>
+      </div>
+    </>
+  );
+}
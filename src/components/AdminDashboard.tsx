@@ -4,6 +4,9 @@ import {
   Package,
   ShoppingBag,
   Star,
+  Truck,
+  Tag,
+  Crown,
   BarChart3,
   FileText,
   MessageSquare,
@@ -15,11 +18,17 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } f
 import { MetricsCards } from './admin/MetricsCards';
 import { SalesChart } from './admin/SalesChart';
 import { CategoryChart } from './admin/CategoryChart';
+import { SearchMisses } from './admin/SearchMisses';
 import { OrdersTable } from './admin/OrdersTable';
+import { BankTransferQueue } from './admin/BankTransferQueue';
+import { ReturnsQueue } from './admin/ReturnsQueue';
 import { ProductForm } from './admin/ProductForm';
 import { ProductTabs } from './admin/ProductTabs';
 import { AdminAccountSettings } from './admin/AdminAccountSettings';
 import { ReviewManagement } from './admin/ReviewManagement';
+import { ShippingMethodManager } from './admin/ShippingMethodManager';
+import { CouponManager } from './admin/CouponManager';
+import { MembershipTierManager } from './admin/MembershipTierManager';
 import { ContentManager } from './info/admin/ContentManager';
 import AdminChatDashboard from './admin/AdminChatDashboard';
 import { ImageCropper } from './admin/ImageCropper';
@@ -31,9 +40,11 @@ import { BottomSpacer } from './ui/bottom-spacer';
 
 interface AdminDashboardProps {
   defaultTab?: string;
+  activeTab?: string; // Controlled tab, e.g. from the /admin/:tab route
+  onTabChange?: (tab: string) => void;
 }
 
-export function AdminDashboard({ defaultTab = "overview" }: AdminDashboardProps) {
+export function AdminDashboard({ defaultTab = "overview", activeTab, onTabChange }: AdminDashboardProps) {
   const { products, fetchAllProducts } = useProducts();
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [showEditForm, setShowEditForm] = useState(false);
@@ -113,7 +124,12 @@ export function AdminDashboard({ defaultTab = "overview" }: AdminDashboardProps)
         <p className="text-muted-foreground">Manage your store and view analytics</p>
       </div>
 
-      <Tabs defaultValue={defaultTab} className="space-y-6">
+      <Tabs
+        defaultValue={activeTab === undefined ? defaultTab : undefined}
+        value={activeTab}
+        onValueChange={onTabChange}
+        className="space-y-6"
+      >
         <div className="w-full overflow-x-auto pb-2 scrollbar-hide">
           <TabsList className="inline-flex h-auto p-1 bg-muted rounded-lg min-w-full lg:min-w-0">
             <TabsTrigger value="overview" className="flex items-center gap-2 data-[state=active]:bg-background data-[state=active]:text-foreground px-4 py-2">
@@ -132,6 +148,18 @@ export function AdminDashboard({ defaultTab = "overview" }: AdminDashboardProps)
               <Star className="h-4 w-4" />
               <span>Reviews</span>
             </TabsTrigger>
+            <TabsTrigger value="shipping" className="flex items-center gap-2 data-[state=active]:bg-background data-[state=active]:text-foreground px-4 py-2">
+              <Truck className="h-4 w-4" />
+              <span>Shipping</span>
+            </TabsTrigger>
+            <TabsTrigger value="coupons" className="flex items-center gap-2 data-[state=active]:bg-background data-[state=active]:text-foreground px-4 py-2">
+              <Tag className="h-4 w-4" />
+              <span>Coupons</span>
+            </TabsTrigger>
+            <TabsTrigger value="membership" className="flex items-center gap-2 data-[state=active]:bg-background data-[state=active]:text-foreground px-4 py-2">
+              <Crown className="h-4 w-4" />
+              <span>Membership</span>
+            </TabsTrigger>
             <TabsTrigger value="analytics" className="flex items-center gap-2 data-[state=active]:bg-background data-[state=active]:text-foreground px-4 py-2">
               <BarChart3 className="h-4 w-4" />
               <span>Analytics</span>
@@ -216,13 +244,21 @@ export function AdminDashboard({ defaultTab = "overview" }: AdminDashboardProps)
             </CardHeader>
             <CardContent className="p-6">
               <Tabs defaultValue="active" className="w-full">
-                <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsList className="grid w-full grid-cols-4 mb-6">
                   <TabsTrigger value="active">Active Orders</TabsTrigger>
+                  <TabsTrigger value="transfers">Bank Transfers</TabsTrigger>
+                  <TabsTrigger value="returns">Returns</TabsTrigger>
                   <TabsTrigger value="archived">Archived Orders</TabsTrigger>
                 </TabsList>
                 <TabsContent value="active" className="mt-0">
                   <OrdersTable showActions={true} showArchived={false} />
                 </TabsContent>
+                <TabsContent value="transfers" className="mt-0">
+                  <BankTransferQueue />
+                </TabsContent>
+                <TabsContent value="returns" className="mt-0">
+                  <ReturnsQueue />
+                </TabsContent>
                 <TabsContent value="archived" className="mt-0">
                   <OrdersTable showActions={true} showArchived={true} />
                 </TabsContent>
@@ -235,10 +271,23 @@ export function AdminDashboard({ defaultTab = "overview" }: AdminDashboardProps)
           <ReviewManagement />
         </TabsContent>
 
+        <TabsContent value="shipping">
+          <ShippingMethodManager />
+        </TabsContent>
+
+        <TabsContent value="coupons">
+          <CouponManager />
+        </TabsContent>
+
+        <TabsContent value="membership">
+          <MembershipTierManager />
+        </TabsContent>
+
         <TabsContent value="analytics">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <SalesChart />
             <CategoryChart />
+            <SearchMisses />
           </div>
         </TabsContent>
 
@@ -1,13 +1,17 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { Input } from './ui/input';
 import { Separator } from './ui/separator';
-import { Plus, Minus, Trash2, ShoppingBag, Tag, Sparkles } from 'lucide-react';
-import { toast } from 'sonner';
+import { Plus, Minus, Trash2, ShoppingBag, Tag, Sparkles, AlertTriangle, X } from 'lucide-react';
 import type { CartItem } from '../App';
 import { BottomSpacer } from './ui/bottom-spacer';
-import { useProducts } from '../contexts/ProductContext';
+import { useProductList } from '../contexts/ProductContext';
+import { getShippingMethods } from '../utils/supabase/client';
+import type { ShippingMethod } from '../utils/supabase/client';
+import { getCheapestShippingFee, getAmountUntilFreeShipping } from '../utils/shipping';
+import { useAuth } from '../contexts/AuthContext';
+import { useCart } from '../contexts/CartContext';
+import type { CartIssue } from '../utils/cartRevalidation';
 
 interface CartProps {
   items: CartItem[];
@@ -17,46 +21,59 @@ interface CartProps {
   onContinueShopping?: () => void;
 }
 
+// What changed in the cart since the shopper last saw it
+function CartIssuesNotice({ issues, onDismiss }: { issues: CartIssue[]; onDismiss: () => void }) {
+  return (
+    <div className="mb-6 p-4 border border-amber-200 bg-amber-50 rounded-lg text-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0" />
+          <div>
+            <p className="font-medium text-amber-900">Your cart was updated to match our latest prices and stock</p>
+            <ul className="mt-1 space-y-1 text-amber-800">
+              {issues.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss} className="p-1 h-auto" aria-label="Dismiss">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export function Cart({ items, onUpdateQuantity, onRemoveItem, onProceedToCheckout, onContinueShopping }: CartProps) {
-  const [discountCode, setDiscountCode] = useState('');
-  const [appliedDiscount, setAppliedDiscount] = useState<{ code: string; amount: number } | null>(null);
-  const { products } = useProducts();
+  const { products } = useProductList({}, 8);
+  const { user } = useAuth();
+  const { cartIssues, dismissCartIssues } = useCart();
+  const [shippingMethods, setShippingMethods] = useState<ShippingMethod[]>([]);
+
+  useEffect(() => {
+    getShippingMethods().then(setShippingMethods);
+  }, []);
 
   // Calculate order totals - prices already include VAT
-  const productsTotal = items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
-  const discount = appliedDiscount?.amount || 0;
-  const subtotal = productsTotal - discount; // Subtotal after discount
+  const subtotal = items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
   
-  // Shipping calculation: FREE for orders ≥ R3500 subtotal, R110 otherwise
-  const shippingCost = subtotal >= 3500 ? 0 : 110;
-  const shipping = shippingCost;
+  // Shipping estimate: cheapest delivery method; the customer picks the actual one at checkout
+  const memberFreeShipping = user?.tierPerks?.freeShipping ?? false;
+  const shipping = getCheapestShippingFee(shippingMethods, subtotal, memberFreeShipping) ?? 0;
+  const amountUntilFreeShipping = memberFreeShipping ? null : getAmountUntilFreeShipping(shippingMethods, subtotal);
   
   // Final total: subtotal + shipping
   const total = subtotal + shipping;
 
-  const applyDiscount = () => {
-    const discountCodes = {
-      'WELCOME10': 10,
-      'SAVE20': 20,
-      'MEMBER15': 15,
-      'FREESHIP': 9.99
-    };
-
-    const code = discountCode.toUpperCase();
-    if (discountCodes[code as keyof typeof discountCodes]) {
-      setAppliedDiscount({
-        code,
-        amount: discountCodes[code as keyof typeof discountCodes]
-      });
-      toast.success(`Discount code ${code} applied!`);
-    } else {
-      toast.error('Invalid discount code');
-    }
-  };
-
   if (items.length === 0) {
     return (
       <div className="container mx-auto px-6 py-12 pb-24">
+        {cartIssues.length > 0 && (
+          <div className="max-w-md mx-auto">
+            <CartIssuesNotice issues={cartIssues} onDismiss={dismissCartIssues} />
+          </div>
+        )}
         <div className="text-center max-w-md mx-auto">
           <ShoppingBag className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
           <h2 className="text-2xl font-semibold mb-2">Your cart is empty</h2>
@@ -81,6 +98,10 @@ export function Cart({ items, onUpdateQuantity, onRemoveItem, onProceedToCheckou
     <div className="container mx-auto px-6 py-6 pb-24">
       <h1 className="text-2xl font-bold mb-6">Shopping Cart ({items.length} items)</h1>
 
+      {cartIssues.length > 0 && (
+        <CartIssuesNotice issues={cartIssues} onDismiss={dismissCartIssues} />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Cart Items */}
         <div className="lg:col-span-2 space-y-4">
@@ -101,6 +122,11 @@ export function Cart({ items, onUpdateQuantity, onRemoveItem, onProceedToCheckou
                         <p className="text-sm text-muted-foreground">
                           Size: {item.size} • Color: {item.color}
                         </p>
+                        {cartIssues
+                          .filter(issue => issue.productId === item.productId && issue.size === item.size && issue.color === item.color)
+                          .map((issue, index) => (
+                            <p key={index} className="text-xs text-amber-700 mt-1">{issue.message}</p>
+                          ))}
                       </div>
                       <Button
                         variant="ghost"
@@ -159,26 +185,10 @@ export function Cart({ items, onUpdateQuantity, onRemoveItem, onProceedToCheckou
               <CardTitle>Order Summary</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              {/* Discount Code */}
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Discount Code</label>
-                <div className="flex gap-2">
-                  <Input
-                    placeholder="Enter code"
-                    value={discountCode}
-                    onChange={(e) => setDiscountCode(e.target.value)}
-                    className="flex-1"
-                  />
-                  <Button variant="outline" size="sm" onClick={applyDiscount}>
-                    <Tag className="h-4 w-4" />
-                  </Button>
-                </div>
-                {appliedDiscount && (
-                  <div className="flex items-center justify-between text-sm text-green-600">
-                    <span>Code: {appliedDiscount.code}</span>
-                    <span>-R{appliedDiscount.amount.toFixed(2)}</span>
-                  </div>
-                )}
+              {/* Discount codes are checked against the final order at checkout */}
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Tag className="h-4 w-4" />
+                <span>Have a discount code? Apply it at checkout.</span>
               </div>
 
               <Separator />
@@ -190,20 +200,15 @@ export function Cart({ items, onUpdateQuantity, onRemoveItem, onProceedToCheckou
                   <span>R{subtotal.toFixed(2)}</span>
                 </div>
 
-                {discount > 0 && (
-                  <div className="flex justify-between text-sm text-green-600">
-                    <span>Discount</span>
-                    <span>-R{discount.toFixed(2)}</span>
-                  </div>
-                )}
-
                 <div className="flex justify-between text-sm">
                   <span>Shipping</span>
                   <span>
-                    {shipping === 0 ? (
+                    {shippingMethods.length === 0 ? (
+                      <span className="text-muted-foreground">Calculated at checkout</span>
+                    ) : shipping === 0 ? (
                       <span className="text-green-600">FREE</span>
                     ) : (
-                      `R${shipping.toFixed(2)}`
+                      `From R${shipping.toFixed(2)}`
                     )}
                   </span>
                 </div>
@@ -216,10 +221,10 @@ export function Cart({ items, onUpdateQuantity, onRemoveItem, onProceedToCheckou
                 <span>R{total.toFixed(2)}</span>
               </div>
 
-              {subtotal < 3500 && (
+              {amountUntilFreeShipping !== null && amountUntilFreeShipping > 0 && (
                 <div className="bg-blue-50 p-3 rounded-lg">
                   <p className="text-sm text-blue-600">
-                    Add R{(3500 - subtotal).toFixed(2)} more for FREE shipping!
+                    Add R{amountUntilFreeShipping.toFixed(2)} more for FREE shipping!
                   </p>
                 </div>
               )}
@@ -1,4 +1,5 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
@@ -7,12 +8,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { RadioGroup, RadioGroupItem } from './ui/radio-group';
 import { Separator } from './ui/separator';
 import { Checkbox } from './ui/checkbox';
-import { ArrowLeft, CreditCard, Sparkles, Lock, ShieldCheck } from 'lucide-react';
+import { ArrowLeft, CreditCard, Sparkles, Lock, ShieldCheck, Truck, Tag, X } from 'lucide-react';
 import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from './ui/accordion';
 import { toast } from 'sonner';
-import { createOrderFromCart, createGuestOrder } from '../utils/supabase/client';
+import { createOrderFromCart, createGuestOrder, getShippingMethods, validateCoupon, startCardPayment, getUserAddresses, saveUserAddress } from '../utils/supabase/client';
+import type { ShippingMethod, AppliedCoupon, SavedAddress } from '../utils/supabase/client';
+import { getShippingFee, formatDeliveryEstimate } from '../utils/shipping';
+import { BANK_DETAILS } from '../utils/bankTransfer';
+import { validateAddress, formatAddressLine, fromSavedAddress, toSavedAddressInput } from '../utils/address';
+import { AddressFields } from './AddressFields';
 import { trackPurchaseCompletion } from '../utils/trustpilot';
 import { useCart } from '../contexts/CartContext';
+import { useAuth } from '../contexts/AuthContext';
 import type { CartItem, User } from '../App';
 import { BottomSpacer } from './ui/bottom-spacer';
 
@@ -24,7 +31,9 @@ interface CheckoutProps {
 }
 
 export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps) {
-  const { isGuestCart } = useCart(); // Access cart context for clearing after order
+  const navigate = useNavigate();
+  const { isGuestCart, revalidateCart } = useCart(); // Access cart context for clearing after order
+  const { refreshPoints } = useAuth();
   const [shippingForm, setShippingForm] = useState({
     firstName: user?.name.split(' ')[0] || '',
     lastName: user?.name.split(' ')[1] || '',
@@ -37,13 +46,13 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
     country: 'South Africa'
   });
 
+  // Signed-in shoppers start from their default address and can save a new one
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([]);
+  const [selectedAddressId, setSelectedAddressId] = useState('new');
+  const [saveNewAddress, setSaveNewAddress] = useState(false);
+  const [newAddressLabel, setNewAddressLabel] = useState('');
+
   const [paymentMethod, setPaymentMethod] = useState('bank-transfer');
-  const [paymentForm, setPaymentForm] = useState({
-    cardNumber: '',
-    expiryDate: '',
-    cvv: '',
-    cardholderName: ''
-  });
 
   const [createAccount, setCreateAccount] = useState(false); // For guest users
   const [accountForm, setAccountForm] = useState({
@@ -54,10 +63,74 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
   const [usePointsDiscount, setUsePointsDiscount] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  const [shippingMethods, setShippingMethods] = useState<ShippingMethod[]>([]);
+  const [shippingMethodId, setShippingMethodId] = useState('');
+  const [loadingShippingMethods, setLoadingShippingMethods] = useState(true);
+
+  const [couponInput, setCouponInput] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+
+  useEffect(() => {
+    const loadShippingMethods = async () => {
+      const methods = await getShippingMethods();
+      setShippingMethods(methods);
+      if (methods.length > 0) setShippingMethodId(methods[0].id);
+      setLoadingShippingMethods(false);
+    };
+    loadShippingMethods();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const loadAddresses = async () => {
+      const addresses = await getUserAddresses();
+      setSavedAddresses(addresses);
+      const defaultAddress = addresses.find(address => address.is_default);
+      if (defaultAddress) selectSavedAddress(defaultAddress);
+    };
+    loadAddresses();
+  }, [user?.id]);
+
+  const selectSavedAddress = (address: SavedAddress) => {
+    setSelectedAddressId(address.id);
+    setShippingForm(prev => ({ ...prev, ...fromSavedAddress(address), phone: address.phone || prev.phone }));
+  };
+
   const subtotal = items.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
-  const pointsDiscount = usePointsDiscount && user ? Math.min(user.points * 0.01, subtotal * 0.2) : 0; // 1 cent per point, max 20% off
-  const shipping = subtotal > 100 ? 0 : 9.99;
-  const total = subtotal - pointsDiscount + shipping;
+  const selectedShippingMethod = shippingMethods.find(method => method.id === shippingMethodId);
+  // Shown for the customer's information; the database charges the same fee when the order is placed
+  const memberFreeShipping = user?.tierPerks?.freeShipping ?? false;
+  const shipping = selectedShippingMethod ? getShippingFee(selectedShippingMethod, subtotal, memberFreeShipping) : 0;
+  // Free-shipping codes follow the selected method; other discounts were priced by the server
+  const couponDiscount = appliedCoupon
+    ? (appliedCoupon.discount_type === 'free_shipping' ? shipping : appliedCoupon.discount_amount)
+    : 0;
+  // Mirrors public.apply_order_points: 1 cent per point, at most 20% of the items and
+  // never more than the items left after the coupon. The database debits the points.
+  const couponItemDiscount = appliedCoupon && appliedCoupon.discount_type !== 'free_shipping' ? appliedCoupon.discount_amount : 0;
+  const maxPointsDiscount = user
+    ? Math.floor(Math.min(user.points * 0.01, subtotal * 0.2, Math.max(subtotal - couponItemDiscount, 0)) * 100) / 100
+    : 0;
+  const pointsDiscount = usePointsDiscount ? maxPointsDiscount : 0;
+  const total = Math.max(subtotal - pointsDiscount - couponDiscount + shipping, 0);
+
+  const handleApplyCoupon = async () => {
+    const code = couponInput.trim();
+    if (!code) return;
+
+    setApplyingCoupon(true);
+    try {
+      const coupon = await validateCoupon(code, items, shippingMethodId || null, user?.email || shippingForm.email);
+      setAppliedCoupon(coupon);
+      setCouponInput('');
+      toast.success(`Discount code ${coupon.code} applied`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Discount code is not valid');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -65,14 +138,15 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
 
     try {
       // Validate forms
-      if (!shippingForm.address || !shippingForm.city || !shippingForm.state || !shippingForm.zipCode) {
-        toast.error('Please fill in all shipping address fields');
+      const addressProblem = validateAddress(shippingForm);
+      if (addressProblem) {
+        toast.error(addressProblem);
         setIsProcessing(false);
         return;
       }
 
-      if (paymentMethod === 'credit-card' && (!paymentForm.cardNumber || !paymentForm.expiryDate || !paymentForm.cvv)) {
-        toast.error('Please fill in all payment details');
+      if (!selectedShippingMethod) {
+        toast.error('Please choose a delivery method');
         setIsProcessing(false);
         return;
       }
@@ -92,6 +166,16 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
         }
       }
 
+      // Recheck prices and stock so the shopper pays for what the summary shows
+      const cartIssues = await revalidateCart();
+      if (cartIssues.length > 0) {
+        toast.error(cartIssues.length === 1
+          ? cartIssues[0].message
+          : 'Some items in your cart changed. Please review your order summary before placing it.');
+        setIsProcessing(false);
+        return;
+      }
+
       // Create shipping address object
       const shippingAddress = {
         firstName: shippingForm.firstName,
@@ -103,16 +187,19 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
         state: shippingForm.state,
         zipCode: shippingForm.zipCode,
         country: shippingForm.country,
-        paymentMethod: paymentMethod,
-        usePointsDiscount: usePointsDiscount,
-        pointsUsed: usePointsDiscount && user ? Math.min(user.points, Math.floor(subtotal * 20)) : 0
+        paymentMethod: paymentMethod
       };
 
       let orderId;
 
       if (user) {
         // Authenticated user - use existing cart-based order creation
-        orderId = await createOrderFromCart(shippingAddress);
+        orderId = await createOrderFromCart(
+          shippingAddress,
+          selectedShippingMethod.id,
+          appliedCoupon?.code,
+          usePointsDiscount ? Math.round(maxPointsDiscount * 100) : 0
+        );
       } else {
         // Guest user - create order directly from cart items
         const customerInfo = {
@@ -125,9 +212,11 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
         orderId = await createGuestOrder(
           items, 
           shippingAddress, 
+          selectedShippingMethod.id,
           customerInfo, 
           createAccount, 
-          createAccount ? accountForm.password : undefined
+          createAccount ? accountForm.password : undefined,
+          appliedCoupon?.code
         );
       }
 
@@ -135,6 +224,16 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
         throw new Error('Failed to create order');
       }
 
+      // The order already has its copy of the address, so a failed save is only logged
+      if (user && selectedAddressId === 'new' && saveNewAddress) {
+        await saveUserAddress(toSavedAddressInput(shippingForm, newAddressLabel.trim() || 'Home'));
+      }
+
+      // The points were debited with the order
+      if (pointsDiscount > 0) {
+        refreshPoints();
+      }
+
       // Send Trustpilot review invitations
       try {
         const customerName = `${shippingForm.firstName} ${shippingForm.lastName}`;
@@ -163,6 +262,19 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
       }
       // For authenticated users, the cart will be cleared by the backend
 
+      // Card details are entered on the provider's hosted page; the order is
+      // marked paid once the provider notifies us
+      if (paymentMethod === 'credit-card') {
+        try {
+          window.location.assign(await startCardPayment(orderId));
+        } catch (paymentError) {
+          toast.error(paymentError instanceof Error ? paymentError.message : 'Could not start the card payment');
+          // The order is saved; the payment page lets the shopper try again
+          navigate(`/checkout/payment?order=${orderId}&result=error`);
+        }
+        return;
+      }
+
       // Show success message based on payment method
       let successMessage = 'Order placed successfully!';
       
@@ -177,12 +289,19 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
           successMessage += ' Check your email to verify your account.';
         }
       } else if (paymentMethod === 'bank-transfer') {
-        successMessage = `Order placed successfully! Please send R${total.toFixed(2)} to our bank account.`;
+        successMessage = `Order placed successfully! Please send R${total.toFixed(2)} using your order's payment reference.`;
         if (!user && createAccount) {
           successMessage += ' Check your email to verify your account.';
         }
-      } else {
-        successMessage = `Order placed successfully! Payment processed via ${paymentMethod}.`;
+        toast.success(successMessage);
+        // Shows the bank details with the order's unique reference
+        navigate(`/checkout/payment?order=${orderId}&method=bank-transfer`);
+        return;
+      }
+
+      // Guests look their order up later with its number and their email
+      if (!user) {
+        successMessage += ` Your order number is #${orderId.slice(-8).toUpperCase()}; use it under Track My Order.`;
       }
 
       toast.success(successMessage);
@@ -214,6 +333,32 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
             <AccordionItem value="shipping" className="border bg-card text-card-foreground rounded-lg shadow-sm px-6">
               <AccordionTrigger className="hover:no-underline py-4 text-xl font-semibold">1. Shipping Information</AccordionTrigger>
               <AccordionContent className="pt-0 pb-6 space-y-4">
+                {savedAddresses.length > 0 && (
+                  <div>
+                    <Label htmlFor="savedAddress">Saved Address</Label>
+                    <Select
+                      value={selectedAddressId}
+                      onValueChange={(value: string) => {
+                        const address = savedAddresses.find(saved => saved.id === value);
+                        if (address) selectSavedAddress(address);
+                        else setSelectedAddressId('new');
+                      }}
+                    >
+                      <SelectTrigger id="savedAddress">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {savedAddresses.map(address => (
+                          <SelectItem key={address.id} value={address.id}>
+                            {address.label} - {formatAddressLine(fromSavedAddress(address))}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="new">Enter a new address</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <Label htmlFor="firstName">First Name</Label>
@@ -257,66 +402,85 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
                   </div>
                 </div>
 
-                <div>
-                  <Label htmlFor="address">Address</Label>
-                  <Input
-                    id="address"
-                    value={shippingForm.address}
-                    onChange={(e) => setShippingForm(prev => ({ ...prev, address: e.target.value }))}
-                    placeholder="Street address"
-                    required
-                  />
-                </div>
-
-                <div className="grid grid-cols-3 gap-4">
-                  <div>
-                    <Label htmlFor="city">City</Label>
-                    <Input
-                      id="city"
-                      value={shippingForm.city}
-                      onChange={(e) => setShippingForm(prev => ({ ...prev, city: e.target.value }))}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="state">Province</Label>
-                    <Select
-                      value={shippingForm.state}
-                      onValueChange={(value: string) => setShippingForm(prev => ({ ...prev, state: value }))}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select province" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="EC">Eastern Cape</SelectItem>
-                        <SelectItem value="FS">Free State</SelectItem>
-                        <SelectItem value="GP">Gauteng</SelectItem>
-                        <SelectItem value="KZN">KwaZulu-Natal</SelectItem>
-                        <SelectItem value="LP">Limpopo</SelectItem>
-                        <SelectItem value="MP">Mpumalanga</SelectItem>
-                        <SelectItem value="NC">Northern Cape</SelectItem>
-                        <SelectItem value="NW">North West</SelectItem>
-                        <SelectItem value="WC">Western Cape</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Label htmlFor="zipCode">Postal Code</Label>
-                    <Input
-                      id="zipCode"
-                      value={shippingForm.zipCode}
-                      onChange={(e) => setShippingForm(prev => ({ ...prev, zipCode: e.target.value }))}
-                      required
-                    />
+                <AddressFields
+                  value={shippingForm}
+                  onChange={(address) => {
+                    // Editing a saved address turns it into a new one that can be saved
+                    setSelectedAddressId('new');
+                    setShippingForm(prev => ({ ...prev, ...address }));
+                  }}
+                />
+
+                {user && selectedAddressId === 'new' && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="saveNewAddress"
+                        checked={saveNewAddress}
+                        onCheckedChange={(checked) => setSaveNewAddress(checked as boolean)}
+                      />
+                      <Label htmlFor="saveNewAddress">Save to my address book</Label>
+                    </div>
+                    {saveNewAddress && (
+                      <Input
+                        value={newAddressLabel}
+                        onChange={(e) => setNewAddressLabel(e.target.value)}
+                        placeholder="Label, e.g. Home"
+                        className="max-w-[180px]"
+                      />
+                    )}
                   </div>
-                </div>
+                )}
+              </AccordionContent>
+            </AccordionItem>
+
+            {/* Delivery Method */}
+            <AccordionItem value="delivery" className="border bg-card text-card-foreground rounded-lg shadow-sm px-6">
+              <AccordionTrigger className="hover:no-underline py-4 text-xl font-semibold">2. Delivery Method</AccordionTrigger>
+              <AccordionContent className="pt-0 pb-6 space-y-4">
+                {loadingShippingMethods ? (
+                  <p className="text-sm text-muted-foreground">Loading delivery options...</p>
+                ) : shippingMethods.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Delivery options are unavailable right now. Please try again shortly.
+                  </p>
+                ) : (
+                  <RadioGroup value={shippingMethodId} onValueChange={setShippingMethodId}>
+                    {shippingMethods.map((method) => {
+                      const fee = getShippingFee(method, subtotal, memberFreeShipping);
+                      return (
+                        <div key={method.id} className="flex items-center space-x-2 p-3 border rounded-lg">
+                          <RadioGroupItem value={method.id} id={`shipping-${method.id}`} />
+                          <Label htmlFor={`shipping-${method.id}`} className="flex items-center gap-3 flex-1 cursor-pointer">
+                            <Truck className="h-4 w-4 text-muted-foreground" />
+                            <div className="flex-1">
+                              <div className="font-medium">{method.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {formatDeliveryEstimate(method)}
+                                {method.description && ` • ${method.description}`}
+                              </div>
+                            </div>
+                            <span className="text-sm font-medium">
+                              {fee === 0 ? <span className="text-green-600">FREE</span> : `R${fee.toFixed(2)}`}
+                            </span>
+                          </Label>
+                        </div>
+                      );
+                    })}
+                  </RadioGroup>
+                )}
+                {memberFreeShipping && shippingMethods.length > 0 && (
+                  <p className="text-sm text-green-600">
+                    Free delivery is one of your {user?.membershipTier} member perks.
+                  </p>
+                )}
               </AccordionContent>
             </AccordionItem>
 
             {/* Guest Account Creation Option */}
             {!user && (
               <AccordionItem value="account" className="border bg-card text-card-foreground rounded-lg shadow-sm px-6">
-                <AccordionTrigger className="hover:no-underline py-4 text-xl font-semibold">2. Account Options (Optional)</AccordionTrigger>
+                <AccordionTrigger className="hover:no-underline py-4 text-xl font-semibold">3. Account Options (Optional)</AccordionTrigger>
                 <AccordionContent className="pt-0 pb-6 space-y-4">
                   <div className="flex items-center space-x-2">
                     <Checkbox
@@ -361,7 +525,7 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
 
             {/* Payment Method */}
             <AccordionItem value="payment" className="border bg-card text-card-foreground rounded-lg shadow-sm px-6">
-              <AccordionTrigger className="hover:no-underline py-4 text-xl font-semibold">{user ? "2" : "3"}. Payment Method</AccordionTrigger>
+              <AccordionTrigger className="hover:no-underline py-4 text-xl font-semibold">{user ? "3" : "4"}. Payment Method</AccordionTrigger>
               <AccordionContent className="pt-0 pb-6 space-y-4">
                 <RadioGroup value={paymentMethod} onValueChange={setPaymentMethod}>
                   <div className="flex items-center space-x-2 p-3 border rounded-lg">
@@ -382,59 +546,20 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
                     <div className="mt-4 p-4 border rounded-lg bg-gray-50">
                       <h4 className="font-medium mb-2 text-sm">Bank Transfer Details:</h4>
                       <div className="text-sm space-y-1">
-                        <p><strong>Account Name:</strong> CLARA RANYAMA</p>
-                        <p><strong>Bank:</strong> FNB</p>
-                        <p><strong>Account Number:</strong> 62804733766</p>
-                        <p><strong>Branch Code:</strong> 250655</p>
-                        <p className="text-blue-600 mt-2"><strong>Reference:</strong> Dolls send me proof of payment ✌</p>
+                        <p><strong>Account Name:</strong> {BANK_DETAILS.accountName}</p>
+                        <p><strong>Bank:</strong> {BANK_DETAILS.bank}</p>
+                        <p><strong>Account Number:</strong> {BANK_DETAILS.accountNumber}</p>
+                        <p><strong>Branch Code:</strong> {BANK_DETAILS.branchCode}</p>
+                        <p className="text-blue-600 mt-2"><strong>Reference:</strong> your order gets its own payment reference once placed. Use it so we can match your transfer, then upload your proof of payment ✌</p>
                       </div>
                     </div>
                   )}
                 </RadioGroup>
 
                 {paymentMethod === 'credit-card' && (
-                  <div className="space-y-4 mt-4 p-4 border rounded-lg">
-                    <div>
-                      <Label htmlFor="cardNumber">Card Number</Label>
-                      <Input
-                        id="cardNumber"
-                        placeholder="1234 5678 9012 3456"
-                        value={paymentForm.cardNumber}
-                        onChange={(e) => setPaymentForm(prev => ({ ...prev, cardNumber: e.target.value }))}
-                        required
-                      />
-                    </div>
-                    <div className="grid grid-cols-3 gap-4">
-                      <div>
-                        <Label htmlFor="expiryDate">Expiry Date</Label>
-                        <Input
-                          id="expiryDate"
-                          placeholder="MM/YY"
-                          value={paymentForm.expiryDate}
-                          onChange={(e) => setPaymentForm(prev => ({ ...prev, expiryDate: e.target.value }))}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="cvv">CVV</Label>
-                        <Input
-                          id="cvv"
-                          placeholder="123"
-                          value={paymentForm.cvv}
-                          onChange={(e) => setPaymentForm(prev => ({ ...prev, cvv: e.target.value }))}
-                          required
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="cardholderName">Cardholder</Label>
-                        <Input
-                          id="cardholderName"
-                          placeholder="Full name"
-                          value={paymentForm.cardholderName}
-                          onChange={(e) => setPaymentForm(prev => ({ ...prev, cardholderName: e.target.value }))}
-                        />
-                      </div>
-                    </div>
+                  <div className="mt-4 p-4 border rounded-lg bg-gray-50 text-sm flex items-start gap-2">
+                    <ShieldCheck className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                    <p>After placing your order you'll be taken to our payment partner's secure page to enter your card details. We never see or store your card number.</p>
                   </div>
                 )}
               </AccordionContent>
@@ -473,8 +598,52 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
 
                 <Separator />
 
+                {/* Discount Code */}
+                <div className="space-y-2">
+                  <Label htmlFor="coupon-code" className="text-sm">Discount Code</Label>
+                  {appliedCoupon ? (
+                    <div className="flex items-center justify-between text-sm p-2 border rounded-lg bg-green-50 text-green-700">
+                      <span className="flex items-center gap-2">
+                        <Tag className="h-4 w-4" />
+                        {appliedCoupon.code}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        aria-label="Remove discount code"
+                        onClick={() => setAppliedCoupon(null)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        id="coupon-code"
+                        placeholder="Enter code"
+                        value={couponInput}
+                        onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault();
+                            handleApplyCoupon();
+                          }
+                        }}
+                        className="flex-1"
+                      />
+                      <Button type="button" variant="outline" onClick={handleApplyCoupon} disabled={applyingCoupon || !couponInput.trim()}>
+                        {applyingCoupon ? 'Checking...' : 'Apply'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <Separator />
+
                 {/* Points Discount */}
-                {user && user.points > 0 && (
+                {user && maxPointsDiscount > 0 && (
                   <div className="space-y-2">
                     <div className="flex items-center space-x-2">
                       <Checkbox
@@ -483,7 +652,7 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
                         onCheckedChange={(checked: boolean) => setUsePointsDiscount(checked)}
                       />
                         <Label htmlFor="use-points" className="text-sm">
-                        Use {Math.min(user?.points || 0, Math.floor(subtotal * 20))} points (save R{pointsDiscount.toFixed(2)})
+                        Use {Math.round(maxPointsDiscount * 100)} points (save R{maxPointsDiscount.toFixed(2)})
                       </Label>
                     </div>
                   </div>
@@ -496,6 +665,13 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
                     <span>R{subtotal.toFixed(2)}</span>
                   </div>
 
+                  {couponDiscount > 0 && (
+                    <div className="flex justify-between text-sm text-green-600">
+                      <span>Discount ({appliedCoupon?.code})</span>
+                      <span>-R{couponDiscount.toFixed(2)}</span>
+                    </div>
+                  )}
+
                   {pointsDiscount > 0 && (
                     <div className="flex justify-between text-sm text-green-600">
                       <span>Points Discount</span>
@@ -504,7 +680,7 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
                   )}
 
                   <div className="flex justify-between text-sm">
-                    <span>Shipping</span>
+                    <span>Shipping{selectedShippingMethod ? ` (${selectedShippingMethod.name})` : ''}</span>
                     <span>
                       {shipping === 0 ? (
                         <span className="text-green-600">FREE</span>
@@ -522,11 +698,11 @@ export function Checkout({ items, user, onOrderComplete, onBack }: CheckoutProps
                   <span>R{total.toFixed(2)}</span>
                 </div>
 
-                <Button type="submit" className="w-full relative shadow-lg shadow-primary/20" size="lg" disabled={isProcessing}>
+                <Button type="submit" className="w-full relative shadow-lg shadow-primary/20" size="lg" disabled={isProcessing || !selectedShippingMethod}>
                   {isProcessing ? 'Processing...' : (
                     <div className="flex items-center gap-2">
                       <Lock className="w-4 h-4" />
-                      Place Secure Order - R{total.toFixed(2)}
+                      {paymentMethod === 'credit-card' ? 'Continue to Payment' : 'Place Secure Order'} - R{total.toFixed(2)}
                     </div>
                   )}
                 </Button>
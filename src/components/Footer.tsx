@@ -2,13 +2,18 @@ import React from 'react';
 import { Heart, Mail, Phone, MapPin, Shield, FileText, HelpCircle } from 'lucide-react';
 import { ChatTriggerButton } from './ChatNotificationBell';
 import TrustpilotWidget from './ui/TrustpilotWidget';
+import { useProducts } from '../contexts/ProductContext';
+import { getTopLevelCategories } from '../utils/categories';
 
 interface FooterProps {
   onInfoClick?: (page: string) => void;
   onNavigateToCategory?: (category: string) => void;
+  onTrackOrder?: () => void;
 }
 
-export function Footer({ onInfoClick, onNavigateToCategory }: FooterProps) {
+export function Footer({ onInfoClick, onNavigateToCategory, onTrackOrder }: FooterProps) {
+  const { categories } = useProducts();
+
   const handleInfoNavigation = (page: string) => {
     if (onInfoClick) {
       onInfoClick(page);
@@ -60,8 +65,9 @@ export function Footer({ onInfoClick, onNavigateToCategory }: FooterProps) {
             <h4 className="text-lg font-semibold">Shop</h4>
             <ul className="space-y-2 text-sm text-slate-600 dark:text-slate-300">
               <li><button onClick={() => handleCategoryNavigation('All')} className="hover:text-slate-900 dark:hover:text-white transition-colors">New Arrivals</button></li>
-              <li><button onClick={() => handleCategoryNavigation('Dresses')} className="hover:text-slate-900 dark:hover:text-white transition-colors">Women</button></li>
-              <li><button onClick={() => handleCategoryNavigation('Casual')} className="hover:text-slate-900 dark:hover:text-white transition-colors">Men</button></li>
+              {getTopLevelCategories(categories).map(category => (
+                <li key={category.id}><button onClick={() => handleCategoryNavigation(category.name)} className="hover:text-slate-900 dark:hover:text-white transition-colors">{category.name}</button></li>
+              ))}
               <li><button onClick={() => handleCategoryNavigation('All')} className="hover:text-slate-900 dark:hover:text-white transition-colors">Sale</button></li>
               <li><button onClick={() => handleInfoNavigation('help')} className="hover:text-slate-900 dark:hover:text-white transition-colors">Size Guide</button></li>
             </ul>
@@ -88,6 +94,14 @@ export function Footer({ onInfoClick, onNavigateToCategory }: FooterProps) {
                   Shipping & Returns
                 </button>
               </li>
+              <li>
+                <button 
+                  onClick={() => onTrackOrder?.()}
+                  className="hover:text-slate-900 dark:hover:text-white transition-colors"
+                >
+                  Track My Order
+                </button>
+              </li>
               <li>
                 <ChatTriggerButton
                   text="Live Chat Support"
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Package, X, Loader2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { toast } from 'sonner';
+import { formatCurrencyZAR } from '../utils/currency';
+
+interface GuestOrdersBannerProps {
+  onClaimed?: () => void;
+  className?: string;
+}
+
+// Offers a verified customer the orders they placed as a guest with the same email
+export function GuestOrdersBanner({ onClaimed, className = '' }: GuestOrdersBannerProps) {
+  const { user, claimableGuestOrders, claimGuestOrders } = useAuth();
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [claiming, setClaiming] = useState(false);
+
+  if (!user || claimableGuestOrders.length === 0 || isDismissed) {
+    return null;
+  }
+
+  const count = claimableGuestOrders.length;
+  const total = claimableGuestOrders.reduce((sum, order) => sum + Number(order.total_amount), 0);
+
+  const handleClaim = async () => {
+    setClaiming(true);
+    try {
+      const result = await claimGuestOrders();
+      toast.success(
+        `${result.orders_claimed === 1 ? '1 order' : `${result.orders_claimed} orders`} added to your account` +
+        (result.points_earned > 0 ? `. You earned ${result.points_earned} points!` : '')
+      );
+      onClaimed?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not link your past orders');
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  return (
+    <Card className={`border-green-200 bg-green-50 dark:border-green-900/60 dark:bg-green-950/40 ${className}`}>
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="flex-shrink-0">
+              <Package className="h-5 w-5 text-green-600 dark:text-green-400" />
+            </div>
+            <div className="flex-1">
+              <p className="text-sm font-medium text-gray-900 dark:text-neutral-100">
+                We found {count === 1 ? 'an order' : `${count} orders`} you placed as a guest
+              </p>
+              <p className="text-xs text-gray-600 dark:text-neutral-300">
+                Add {count === 1 ? 'it' : 'them'} ({formatCurrencyZAR(total)}) to your account to track, review and return {count === 1 ? 'it' : 'them'}, and earn points on delivered orders.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              onClick={handleClaim}
+              disabled={claiming}
+              className="text-xs"
+            >
+              {claiming ? (
+                <>
+                  <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  Linking...
+                </>
+              ) : (
+                'Add to My Account'
+              )}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsDismissed(true)}
+              className="p-1 h-auto"
+              aria-label="Not now"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,8 +1,7 @@
 import React, { useState, useCallback, memo } from 'react';
-import { ShoppingCart, User, Search, Menu, Sun, Moon, Sparkles, Users, UserCheck, Tag, Info, ShoppingBag } from 'lucide-react';
+import { ShoppingCart, User, Menu, Sun, Moon, Sparkles, Tag, Info, ShoppingBag, Heart } from 'lucide-react';
 import { Button } from './ui/button';
 import { Sheet, SheetContent, SheetTrigger } from './ui/sheet';
-import { Input } from './ui/input';
 import { Badge } from './ui/badge';
 import { useCart } from '../utils/cartUtils';
 import { useTheme } from '../utils/ThemeContext';
@@ -10,35 +9,57 @@ import { VerificationBadge } from './VerificationBanner';
 import { NotificationCenter } from './notifications/NotificationCenter';
 import ChatNotificationBell from './ChatNotificationBell';
 import { useAuth } from '../contexts/AuthContext';
+import { useWishlist } from '../contexts/WishlistContext';
+import { useProducts } from '../contexts/ProductContext';
+import { getTopLevelCategories } from '../utils/categories';
+import { SearchBar } from './SearchBar';
+import type { Product } from '../App';
 
 interface HeaderProps {
   onSearch?: (query: string) => void;
+  onViewProduct?: (product: Product) => void;
   cartItemCount?: number;
   onProfileClick?: () => void;
+  onWishlistClick?: () => void;
   onInfoClick?: () => void;
   onNavigateToCategory?: (category: string) => void;
   onSectionNavigate?: (sectionId: string) => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onSearch, cartItemCount = 0, onProfileClick, onInfoClick, onNavigateToCategory, onSectionNavigate }) => {
+const Header: React.FC<HeaderProps> = ({ onSearch, onViewProduct, cartItemCount = 0, onProfileClick, onWishlistClick, onInfoClick, onNavigateToCategory, onSectionNavigate }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
   const { cart } = useCart();
   const { user } = useAuth();
+  const { productIds: wishlistIds } = useWishlist();
+  const { categories } = useProducts();
   
   const actualCartItemCount = cart?.reduce((total, item) => total + item.quantity, 0) || cartItemCount;
 
-  const handleSearch = useCallback((e: React.FormEvent) => {
-    e.preventDefault();
-    onSearch?.(searchQuery);
-  }, [onSearch, searchQuery]);
+  const handleSearch = useCallback((query: string) => {
+    onSearch?.(query);
+    setIsMobileMenuOpen(false);
+  }, [onSearch]);
+
+  const handleSelectProduct = useCallback((product: Product) => {
+    onViewProduct?.(product);
+    setIsMobileMenuOpen(false);
+  }, [onViewProduct]);
+
+  const handleSelectCategory = useCallback((category: string) => {
+    onNavigateToCategory?.(category);
+    setIsMobileMenuOpen(false);
+  }, [onNavigateToCategory]);
 
   const navItems = [
     { name: 'New In', href: '#new-arrivals', icon: Sparkles, onClick: () => onSectionNavigate?.('new-arrivals') },
-    { name: 'Women', href: '#collections', icon: Users, onClick: () => onNavigateToCategory?.('Dresses') },
-    { name: 'Men', href: '#collections', icon: UserCheck, onClick: () => onNavigateToCategory?.('Casual') },
-    { name: 'Accessories', href: '#collections', icon: ShoppingBag, onClick: () => onNavigateToCategory?.('Accessories') },
+    ...getTopLevelCategories(categories).map(category => ({
+      name: category.name,
+      href: '#collections',
+      icon: ShoppingBag,
+      onClick: () => onNavigateToCategory?.(category.name)
+    })),
     { name: 'Sale', href: '#bestsellers', icon: Tag, onClick: () => onNavigateToCategory?.('All') },
     { name: 'About', href: '#story', icon: Info, onClick: () => onInfoClick?.() },
   ];
@@ -76,18 +97,14 @@ const Header: React.FC<HeaderProps> = ({ onSearch, cartItemCount = 0, onProfileC
 
           {/* Search Bar */}
           <div className="hidden md:flex flex-1 max-w-md mx-8">
-            <form onSubmit={handleSearch} className="w-full">
-              <div className="relative">
-                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                <Input
-                  type="search"
-                  placeholder="Search products..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="w-full pl-10 pr-4 bg-muted/50 border-0 focus:bg-background"
-                />
-              </div>
-            </form>
+            <SearchBar
+              value={searchQuery}
+              onChange={setSearchQuery}
+              onSubmit={handleSearch}
+              onSelectProduct={handleSelectProduct}
+              onSelectCategory={handleSelectCategory}
+              inputClassName="w-full pl-10 pr-4 bg-muted/50 border-0 focus:bg-background"
+            />
           </div>
 
           {/* Right Side Actions */}
@@ -117,6 +134,16 @@ const Header: React.FC<HeaderProps> = ({ onSearch, cartItemCount = 0, onProfileC
               <ChatNotificationBell className="rounded-full hover:bg-muted" />
             )}
 
+            {/* Wishlist */}
+            <Button variant="ghost" size="icon" className="relative rounded-full hover:bg-muted" onClick={onWishlistClick} aria-label="Wishlist">
+              <Heart className="h-5 w-5" />
+              {wishlistIds.length > 0 && (
+                <Badge className="absolute -top-2 -right-2 h-5 w-5 rounded-full bg-primary text-[10px] font-bold">
+                  {wishlistIds.length}
+                </Badge>
+              )}
+            </Button>
+
             {/* Cart */}
             <Button variant="ghost" size="icon" className="relative rounded-full hover:bg-muted">
               <ShoppingCart className="h-5 w-5" />
@@ -143,18 +170,14 @@ const Header: React.FC<HeaderProps> = ({ onSearch, cartItemCount = 0, onProfileC
               <SheetContent side="right" className="w-[300px] sm:w-[400px]">
                 <div className="flex flex-col space-y-4 mt-8">
                   {/* Mobile Search */}
-                  <form onSubmit={handleSearch}>
-                    <div className="relative">
-                      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                      <Input
-                        type="search"
-                        placeholder="Search products..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="w-full pl-10"
-                      />
-                    </div>
-                  </form>
+                  <SearchBar
+                    value={searchQuery}
+                    onChange={setSearchQuery}
+                    onSubmit={handleSearch}
+                    onSelectProduct={handleSelectProduct}
+                    onSelectCategory={handleSelectCategory}
+                    inputClassName="w-full pl-10"
+                  />
 
                   {/* Mobile Navigation */}
                   <nav className="flex flex-col space-y-3">
@@ -189,6 +212,17 @@ const Header: React.FC<HeaderProps> = ({ onSearch, cartItemCount = 0, onProfileC
                       <User className="h-4 w-4 mr-2" />
                       Account
                     </Button>
+                    <Button
+                      variant="ghost"
+                      className="justify-start"
+                      onClick={() => {
+                        onWishlistClick?.();
+                        setIsMobileMenuOpen(false);
+                      }}
+                    >
+                      <Heart className="h-4 w-4 mr-2" />
+                      Wishlist ({wishlistIds.length})
+                    </Button>
                     <Button variant="ghost" className="justify-start">
                       <ShoppingCart className="h-4 w-4 mr-2" />
                       Cart ({actualCartItemCount})
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
@@ -7,10 +7,12 @@ import { Star, ChevronRight, Sparkles, TrendingUp, Heart } from 'lucide-react';
 import { ProductCard } from './ui/ProductCard';
 import { TrustpilotWidget } from './ui/TrustpilotWidget';
 import type { Product, User } from '../App';
-import { useProducts } from '../contexts/ProductContext';
+import { useProducts, useProductList } from '../contexts/ProductContext';
 import { useAuth } from '../contexts/AuthContext';
 import { BottomSpacer } from './ui/bottom-spacer';
 import { useCart } from '../contexts/CartContext';
+import { useWishlist } from '../contexts/WishlistContext';
+import { getTopLevelCategories } from '../utils/categories';
 
 interface HomeProps {
   onViewProduct: (product: Product) => void;
@@ -18,31 +20,30 @@ interface HomeProps {
 }
 
 export function Home({ onViewProduct, onNavigateToCategory }: HomeProps) {
-  const { products } = useProducts();
+  const { categories: allCategories } = useProducts();
+  const { products: featuredProducts } = useProductList({}, 4);
+  const { products: saleProducts } = useProductList({ onSaleOnly: true }, 3);
   const { user } = useAuth();
   const { addItem } = useCart();
-  const [likedProducts, setLikedProducts] = useState<Set<string>>(new Set());
+  const { productIds: wishlistProductIds } = useWishlist();
 
   // Debug logging for Home component state
   console.log('🏠 Home Component Debug:', {
-    totalProducts: products.length,
-    featuredProductsCount: products.slice(0, 4).length,
-    saleProductsCount: products.filter(p => p.originalPrice && p.price < p.originalPrice).length,
+    featuredProductsCount: featuredProducts.length,
+    saleProductsCount: saleProducts.length,
     userLoggedIn: !!user,
-    likedProductsCount: likedProducts.size
+    wishlistCount: wishlistProductIds.length
   });
 
-  const categories = [
-    { name: 'Dresses', icon: '👗', color: 'bg-pink-100 dark:bg-pink-900/30' },
-    { name: 'Casual', icon: '👕', color: 'bg-blue-100 dark:bg-blue-900/30' },
-    { name: 'Shoes', icon: '👠', color: 'bg-purple-100 dark:bg-purple-900/30' },
-    { name: 'Outwear', icon: '🧥', color: 'bg-orange-100 dark:bg-orange-900/30' },
-    { name: 'Party', icon: '✨', color: 'bg-yellow-100 dark:bg-yellow-900/30' },
-    { name: 'Accessories', icon: '👜', color: 'bg-green-100 dark:bg-green-900/30' }
+  const categoryColors = [
+    'bg-pink-100 dark:bg-pink-900/30',
+    'bg-blue-100 dark:bg-blue-900/30',
+    'bg-purple-100 dark:bg-purple-900/30',
+    'bg-orange-100 dark:bg-orange-900/30',
+    'bg-yellow-100 dark:bg-yellow-900/30',
+    'bg-green-100 dark:bg-green-900/30'
   ];
-
-  const featuredProducts = products.slice(0, 4);
-  const saleProducts = products.filter(p => p.originalPrice).slice(0, 3);
+  const categories = getTopLevelCategories(allCategories);
 
   // Enhanced handler functions with debugging and error handling
   const handleAddToCart = async (product: Product) => {
@@ -72,30 +73,9 @@ export function Home({ onViewProduct, onNavigateToCategory }: HomeProps) {
     onViewProduct(product);
   };
 
+  // ProductCard saves to the wishlist itself; this only logs for debugging
   const handleToggleWishlist = (product: Product) => {
     console.log('❤️ Home: Toggling wishlist for product:', product.id, product.name);
-    
-    setLikedProducts(prev => {
-      const newLiked = new Set(prev);
-      if (newLiked.has(product.id)) {
-        newLiked.delete(product.id);
-        console.log('💔 Home: Removed from wishlist');
-      } else {
-        newLiked.add(product.id);
-        console.log('💖 Home: Added to wishlist');
-      }
-      return newLiked;
-    });
-  };
-
-  const toggleLike = (productId: string) => {
-    const newLiked = new Set(likedProducts);
-    if (newLiked.has(productId)) {
-      newLiked.delete(productId);
-    } else {
-      newLiked.add(productId);
-    }
-    setLikedProducts(newLiked);
   };
 
   const getPersonalizedMessage = () => {
@@ -150,15 +130,17 @@ export function Home({ onViewProduct, onNavigateToCategory }: HomeProps) {
       <div className="px-6">
         <h3 className="text-lg font-semibold mb-4 text-foreground">Shop by Category</h3>
         <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
-          {categories.map((category) => (
+          {categories.map((category, index) => (
             <Button
-              key={category.name}
+              key={category.id}
               variant="ghost"
               className="h-auto p-4 flex-col gap-2 hover:scale-105 transition-transform dark:hover:bg-accent/50"
               onClick={() => onNavigateToCategory(category.name)}
             >
-              <div className={`w-12 h-12 rounded-full ${category.color} flex items-center justify-center text-xl dark:text-foreground`}>
-                {category.icon}
+              <div className={`w-12 h-12 rounded-full overflow-hidden ${categoryColors[index % categoryColors.length]} flex items-center justify-center text-xl dark:text-foreground`}>
+                {category.hero_image_url
+                  ? <img src={category.hero_image_url} alt="" className="w-full h-full object-cover" />
+                  : category.name.charAt(0)}
               </div>
               <span className="text-xs text-foreground">{category.name}</span>
             </Button>
@@ -186,7 +168,7 @@ export function Home({ onViewProduct, onNavigateToCategory }: HomeProps) {
               category: product.category,
               imageCount: product.images?.length || 0,
               rating: product.rating,
-              reviewCount: product.reviews?.length || 0
+              reviewCount: product.reviewCount ?? 0
             });
 
             return (
@@ -244,7 +226,7 @@ export function Home({ onViewProduct, onNavigateToCategory }: HomeProps) {
                   category: product.category,
                   imageCount: product.images?.length || 0,
                   rating: product.rating,
-                  reviewCount: product.reviews?.length || 0
+                  reviewCount: product.reviewCount ?? 0
                 });
 
                 return (
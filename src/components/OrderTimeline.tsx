@@ -0,0 +1,103 @@
+import { CheckCircle, Circle, Clock, Package, Truck, XCircle } from 'lucide-react';
+import type { OrderEvent } from '../utils/supabase/client';
+
+type TimelineEvent = Pick<OrderEvent, 'id' | 'status' | 'actor_role' | 'note' | 'tracking_number' | 'created_at'>;
+
+interface OrderTimelineProps {
+  status: string;
+  events: TimelineEvent[];
+  showActor?: boolean;
+}
+
+const STEPS = [
+  { status: 'pending', label: 'Order placed', icon: Clock },
+  { status: 'processing', label: 'Processing', icon: Package },
+  { status: 'shipped', label: 'Shipped', icon: Truck },
+  { status: 'delivered', label: 'Delivered', icon: CheckCircle }
+];
+
+const ACTOR_LABELS: Record<string, string> = {
+  customer: 'Customer',
+  admin: 'Admin',
+  system: 'System'
+};
+
+const formatEventTime = (value: string) =>
+  new Date(value).toLocaleString('en-ZA', { dateStyle: 'medium', timeStyle: 'short' });
+
+// Steps an order goes through, with the time each was reached and any note or tracking number.
+// Cancelled orders end at the step they were cancelled from.
+export function OrderTimeline({ status, events, showActor = false }: OrderTimelineProps) {
+  const sortedEvents = [...events].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const latestEventFor = (stepStatus: string) =>
+    [...sortedEvents].reverse().find(event => event.status === stepStatus);
+
+  const cancelled = status === 'cancelled';
+  const reachedIndex = cancelled
+    ? Math.max(...STEPS.map((step, index) => (latestEventFor(step.status) ? index : -1)))
+    : STEPS.findIndex(step => step.status === status);
+
+  const steps = cancelled
+    ? [
+        ...STEPS.slice(0, reachedIndex + 1),
+        { status: 'cancelled', label: 'Cancelled', icon: XCircle }
+      ]
+    : STEPS;
+
+  return (
+    <ol className="space-y-0">
+      {steps.map((step, index) => {
+        const event = latestEventFor(step.status);
+        const reached = cancelled || index <= reachedIndex;
+        const isLast = index === steps.length - 1;
+        const Icon = reached ? step.icon : Circle;
+
+        return (
+          <li key={step.status} className="relative flex gap-4 pb-6 last:pb-0">
+            {!isLast && (
+              <span
+                className={`absolute left-4 top-8 -ml-px h-[calc(100%-2rem)] w-0.5 ${
+                  cancelled || index < reachedIndex ? 'bg-green-500' : 'bg-muted'
+                }`}
+                aria-hidden="true"
+              />
+            )}
+            <div
+              className={`relative z-10 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full border-2 ${
+                step.status === 'cancelled'
+                  ? 'border-red-500 bg-red-50 text-red-600 dark:bg-red-950'
+                  : reached
+                  ? 'border-green-500 bg-green-50 text-green-600 dark:bg-green-950'
+                  : 'border-muted bg-background text-muted-foreground'
+              }`}
+            >
+              <Icon className="h-4 w-4" />
+            </div>
+            <div className="min-w-0 flex-1 pt-1">
+              <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+                <p className={`text-sm font-medium ${reached ? '' : 'text-muted-foreground'}`}>{step.label}</p>
+                {event && (
+                  <p className="text-xs text-muted-foreground">{formatEventTime(event.created_at)}</p>
+                )}
+              </div>
+              {event && showActor && (
+                <p className="text-xs text-muted-foreground">by {ACTOR_LABELS[event.actor_role] || event.actor_role}</p>
+              )}
+              {event?.tracking_number && (
+                <p className="mt-1 text-sm">
+                  Tracking number: <span className="font-mono">{event.tracking_number}</span>
+                </p>
+              )}
+              {event?.note && <p className="mt-1 text-sm text-muted-foreground">{event.note}</p>}
+              {!event && reached && (
+                <p className="text-xs text-muted-foreground">Time not recorded</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Upload, FileText, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { uploadPaymentProof } from '../utils/supabase/client';
+import type { PaymentProof } from '../utils/supabase/client';
+import { BANK_DETAILS } from '../utils/bankTransfer';
+import { formatCurrencyZAR } from '../utils/currency';
+
+const MAX_PROOF_SIZE = 5 * 1000 * 1000; // 5MB, matches the payment-proofs bucket limit
+const ALLOWED_PROOF_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/webp'];
+
+interface PaymentProofUploadProps {
+  order: {
+    id: string;
+    total_amount: number;
+    bank_reference: string;
+    payment_status: string;
+    payment_proofs?: Pick<PaymentProof, 'id' | 'file_name' | 'status' | 'review_note' | 'created_at'>[];
+  };
+  onUploaded?: () => void;
+}
+
+const PROOF_STATUS_LABELS: Record<PaymentProof['status'], { label: string; className: string }> = {
+  submitted: { label: 'Being checked', className: 'border-yellow-500 text-yellow-700' },
+  accepted: { label: 'Accepted', className: 'border-green-500 text-green-700' },
+  rejected: { label: 'Not accepted', className: 'border-red-500 text-red-700' }
+};
+
+// Bank transfer instructions and proof of payment upload for an unpaid order
+export function PaymentProofUpload({ order, onUploaded }: PaymentProofUploadProps) {
+  const [uploading, setUploading] = useState(false);
+  const proofs = order.payment_proofs || [];
+  const awaitingReview = proofs.some(proof => proof.status === 'submitted');
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!ALLOWED_PROOF_TYPES.includes(file.type)) {
+      toast.error('Please upload a PDF or an image (JPEG, PNG or WebP)');
+      return;
+    }
+    if (file.size > MAX_PROOF_SIZE) {
+      toast.error('Files must be smaller than 5MB');
+      return;
+    }
+
+    setUploading(true);
+    try {
+      await uploadPaymentProof(order.id, file);
+      toast.success('Proof of payment uploaded. We will confirm your order once the transfer reflects.');
+      onUploaded?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload proof of payment');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p>
+        Transfer <strong>{formatCurrencyZAR(order.total_amount)}</strong> to {BANK_DETAILS.accountName},{' '}
+        {BANK_DETAILS.bank} {BANK_DETAILS.accountNumber} (branch {BANK_DETAILS.branchCode}) using reference{' '}
+        <span className="font-mono font-bold">{order.bank_reference}</span>.
+      </p>
+
+      {proofs.length > 0 && (
+        <div className="space-y-2">
+          {proofs.map(proof => (
+            <div key={proof.id} className="flex items-start justify-between gap-3 p-2 border rounded-lg">
+              <div className="flex items-start gap-2 min-w-0">
+                <FileText className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                <div className="min-w-0">
+                  <p className="truncate">{proof.file_name}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(proof.created_at).toLocaleString()}</p>
+                  {proof.status === 'rejected' && proof.review_note && (
+                    <p className="text-xs text-red-600 mt-1">{proof.review_note}</p>
+                  )}
+                </div>
+              </div>
+              <Badge variant="outline" className={PROOF_STATUS_LABELS[proof.status].className}>
+                {PROOF_STATUS_LABELS[proof.status].label}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <input
+          id={`payment-proof-${order.id}`}
+          type="file"
+          accept={ALLOWED_PROOF_TYPES.join(',')}
+          className="hidden"
+          onChange={handleFileSelect}
+          disabled={uploading}
+        />
+        <Button asChild variant="outline" size="sm" disabled={uploading}>
+          <label htmlFor={`payment-proof-${order.id}`} className="cursor-pointer">
+            {uploading ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            {uploading ? 'Uploading...' : awaitingReview ? 'Upload Another File' : 'Upload Proof of Payment'}
+          </label>
+        </Button>
+        <p className="text-xs text-muted-foreground mt-1">PDF or image, up to 5MB.</p>
+      </div>
+    </div>
+  );
+}
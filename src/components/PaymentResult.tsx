@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { CheckCircle, XCircle, Loader2, CreditCard, Landmark, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { getOrderPaymentStatus, getOrderBankTransfer, startCardPayment } from '../utils/supabase/client';
+import type { PaymentStatus, BankTransfer } from '../utils/supabase/client';
+import { BANK_DETAILS } from '../utils/bankTransfer';
+import { formatCurrencyZAR } from '../utils/currency';
+
+interface PaymentResultProps {
+  onContinueShopping: () => void;
+  onViewOrders?: () => void; // Signed-in customers upload proof of payment from their orders
+}
+
+// The provider's notification can arrive a little after the shopper is sent back
+const POLL_INTERVAL_MS = 3000;
+const MAX_POLLS = 10;
+
+export function PaymentResult({ onContinueShopping, onViewOrders }: PaymentResultProps) {
+  const [searchParams] = useSearchParams();
+  const orderId = searchParams.get('order');
+
+  if (orderId && searchParams.get('method') === 'bank-transfer') {
+    return <BankTransferInstructions orderId={orderId} onContinueShopping={onContinueShopping} onViewOrders={onViewOrders} />;
+  }
+  return <CardPaymentResult orderId={orderId} result={searchParams.get('result')} onContinueShopping={onContinueShopping} />;
+}
+
+function BankTransferInstructions({ orderId, onContinueShopping, onViewOrders }: PaymentResultProps & { orderId: string }) {
+  const [transfer, setTransfer] = useState<BankTransfer | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getOrderBankTransfer(orderId).then(data => {
+      setTransfer(data);
+      setLoading(false);
+    });
+  }, [orderId]);
+
+  const copyReference = async () => {
+    if (!transfer) return;
+    try {
+      await navigator.clipboard.writeText(transfer.bank_reference);
+      toast.success('Reference copied');
+    } catch {
+      toast.error('Could not copy the reference');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-12 pb-24 max-w-lg">
+      <Card>
+        <CardContent className="p-8 space-y-6">
+          <div className="flex flex-col items-center text-center space-y-2">
+            <Landmark className="h-12 w-12 text-green-600" />
+            <h1 className="text-2xl font-bold">Order placed</h1>
+            <p className="text-muted-foreground">
+              {transfer
+                ? `Please transfer ${formatCurrencyZAR(transfer.amount)} to the account below.`
+                : 'Please transfer your order total to the account below.'}
+            </p>
+          </div>
+
+          {transfer && (
+            <div className="p-4 border-2 border-dashed border-primary rounded-lg text-center">
+              <p className="text-xs uppercase tracking-wide text-muted-foreground">Payment reference</p>
+              <div className="flex items-center justify-center gap-2 mt-1">
+                <span className="text-2xl font-mono font-bold">{transfer.bank_reference}</span>
+                <Button variant="ghost" size="sm" onClick={copyReference} aria-label="Copy reference">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">Use exactly this reference so we can match your payment.</p>
+            </div>
+          )}
+
+          <div className="p-4 border rounded-lg bg-gray-50 text-sm space-y-1">
+            <p><strong>Account Name:</strong> {BANK_DETAILS.accountName}</p>
+            <p><strong>Bank:</strong> {BANK_DETAILS.bank}</p>
+            <p><strong>Account Number:</strong> {BANK_DETAILS.accountNumber}</p>
+            <p><strong>Branch Code:</strong> {BANK_DETAILS.branchCode}</p>
+          </div>
+
+          <p className="text-sm text-muted-foreground text-center">
+            {onViewOrders
+              ? 'Once paid, upload your proof of payment from your order history so we can confirm it sooner.'
+              : 'We will start preparing your order as soon as the transfer reflects in our account.'}
+          </p>
+
+          <div className="flex flex-col sm:flex-row gap-2 justify-center">
+            {onViewOrders && (
+              <Button onClick={onViewOrders}>
+                My Orders
+              </Button>
+            )}
+            <Button variant="outline" onClick={onContinueShopping}>
+              Continue Shopping
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function CardPaymentResult({ orderId, result, onContinueShopping }: {
+  orderId: string | null;
+  result: string | null; // 'return', 'cancelled' or 'error'
+  onContinueShopping: () => void;
+}) {
+  const [status, setStatus] = useState<PaymentStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [polling, setPolling] = useState(result === 'return');
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => {
+    if (!orderId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    let polls = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const checkStatus = async () => {
+      const nextStatus = await getOrderPaymentStatus(orderId);
+      if (cancelled) return;
+
+      setStatus(nextStatus);
+      setLoading(false);
+      polls += 1;
+
+      if (result === 'return' && nextStatus === 'awaiting' && polls < MAX_POLLS) {
+        timer = setTimeout(checkStatus, POLL_INTERVAL_MS);
+      } else {
+        setPolling(false);
+      }
+    };
+
+    checkStatus();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [orderId, result]);
+
+  const handleRetry = async () => {
+    if (!orderId) return;
+    setRetrying(true);
+    try {
+      window.location.assign(await startCardPayment(orderId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not start the card payment');
+      setRetrying(false);
+    }
+  };
+
+  const orderNumber = orderId ? `#${orderId.slice(-8).toUpperCase()}` : '';
+  // A shopper who came back from the provider may still be waiting on its notification
+  const canRetry = status === 'failed' || (status === 'awaiting' && result !== 'return');
+
+  let icon = <Loader2 className="h-12 w-12 animate-spin text-muted-foreground" />;
+  let title = 'Confirming your payment...';
+  let message = 'This usually takes a few seconds.';
+
+  if (!loading && (!orderId || status === null)) {
+    icon = <XCircle className="h-12 w-12 text-red-500" />;
+    title = 'Order not found';
+    message = 'We could not find this order. If you were charged, please contact us.';
+  } else if (status === 'paid' || status === 'refunded') {
+    icon = <CheckCircle className="h-12 w-12 text-green-500" />;
+    title = 'Payment received';
+    message = `Thank you! Order ${orderNumber} is paid and we'll start preparing it.`;
+  } else if (status === 'refund_due') {
+    icon = <CreditCard className="h-12 w-12 text-amber-500" />;
+    title = 'Order was cancelled';
+    message = `Order ${orderNumber} was cancelled before your payment came through. We'll refund it to the card you paid with.`;
+  } else if (status === 'failed') {
+    icon = <XCircle className="h-12 w-12 text-red-500" />;
+    title = 'Payment unsuccessful';
+    message = `Your card was not charged. Order ${orderNumber} is saved, so you can try again.`;
+  } else if (!loading && !polling) {
+    icon = <CreditCard className="h-12 w-12 text-amber-500" />;
+    if (result === 'return') {
+      title = 'Payment still processing';
+      message = `We haven't had confirmation for order ${orderNumber} yet. It can take a few minutes; there is no need to pay again.`;
+    } else {
+      title = 'Payment not completed';
+      message = `Order ${orderNumber} is saved but has not been paid yet.`;
+    }
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-12 pb-24 max-w-lg">
+      <Card>
+        <CardContent className="p-8 flex flex-col items-center text-center space-y-4">
+          {icon}
+          <h1 className="text-2xl font-bold">{title}</h1>
+          <p className="text-muted-foreground">{message}</p>
+          <div className="flex flex-col sm:flex-row gap-2 pt-2">
+            {canRetry && !polling && (
+              <Button onClick={handleRetry} disabled={retrying}>
+                {retrying ? 'Redirecting...' : 'Pay Now'}
+              </Button>
+            )}
+            <Button variant="outline" onClick={onContinueShopping}>
+              Continue Shopping
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import { Filter, SortAsc, Search, X, Grid, List } from 'lucide-react';
 import { ProductCard } from './ui/ProductCard';
 import { useProducts } from '../contexts/ProductContext';
+import { getCategoryFamilyNames, getTopLevelCategories } from '../utils/categories';
 import { useCart } from '../contexts/CartContext';
 import { toast } from 'sonner';
 import type { Product } from '../App';
@@ -13,7 +14,6 @@ interface ProductCatalogProps {
   onCategoryChange: (category: string) => void;
 }
 
-const CATEGORIES = ['All', 'Dresses', 'Casual', 'Outwear', 'Party', 'Shoes', 'Accessories'];
 
 export function ProductCatalog({
   searchQuery,
@@ -21,7 +21,8 @@ export function ProductCatalog({
   onViewProduct,
   onCategoryChange
 }: ProductCatalogProps) {
-  const { products } = useProducts();
+  const { products, categories } = useProducts();
+  const categoryPills = ['All', ...getTopLevelCategories(categories).map(category => category.name)];
   const { addItem } = useCart();
   const [sortBy, setSortBy] = useState('featured');
   const [priceRange, setPriceRange] = useState<[number, number]>([0, 10000]);
@@ -59,7 +60,8 @@ export function ProductCatalog({
 
     // Category filter
     if (selectedCategory && selectedCategory !== 'All') {
-      filtered = filtered.filter(product => product.category === selectedCategory);
+      const categoryNames = getCategoryFamilyNames(categories, selectedCategory);
+      filtered = filtered.filter(product => categoryNames.includes(product.category));
     }
 
     // Price filter
@@ -93,7 +95,7 @@ export function ProductCatalog({
     }
 
     return filtered;
-  }, [products, searchQuery, selectedCategory, sortBy, priceRange, selectedColors]);
+  }, [products, categories, searchQuery, selectedCategory, sortBy, priceRange, selectedColors]);
 
   const clearFilters = () => {
     setPriceRange([0, 10000]);
@@ -107,7 +109,7 @@ export function ProductCatalog({
         
         {/* ── 1. Category Navigation Pills ── */}
         <div className="flex items-center gap-2 overflow-x-auto pb-4 mb-4 scrollbar-none border-b border-neutral-300/40 dark:border-neutral-800">
-          {CATEGORIES.map((cat) => {
+          {categoryPills.map((cat) => {
             const isActive = (selectedCategory || 'All') === cat;
             return (
               <button
@@ -1,13 +1,17 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Star, Heart, Share2, ShoppingBag, Plus, Minus, Truck, Shield, RotateCcw, Copy, MessageCircle, ChevronRight, Home, ArrowRight, Check } from 'lucide-react';
+import { Star, Heart, Share2, ShoppingBag, Plus, Minus, Truck, Shield, RotateCcw, Copy, MessageCircle, ChevronRight, Home, ArrowRight, Check, Bell, BellOff } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { toast } from 'sonner';
-import type { Product } from '../App';
+import type { Product, Review } from '../App';
 import { BottomSpacer } from './ui/bottom-spacer';
-import TrustpilotWidget from './ui/TrustpilotWidget';
-import { openProductReviewForm } from '../utils/trustpilot';
-import { useProducts } from '../contexts/ProductContext';
+import { useProductList } from '../contexts/ProductContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useWishlist } from '../contexts/WishlistContext';
+import { getProductReviews, getReviewableOrderItems, getProductAlerts, subscribeBackInStock, unsubscribeBackInStock } from '../utils/supabase/client';
+import type { ProductAlert } from '../utils/supabase/client';
+import { ProductReviewDialog } from './ProductReviewDialog';
 import { ProductCard } from './ui/ProductCard';
+import { getFirstAvailableVariant, getVariantStock, isColorAvailable, isSizeAvailable, isVariantAvailable } from '../utils/inventory';
 
 interface ProductDetailProps {
   product: Product;
@@ -39,28 +43,149 @@ export function ProductDetail({
     ? product.images
     : ['https://images.unsplash.com/photo-1515886657613-9f3515b0c78f?auto=format&fit=crop&q=80&w=800'];
 
+  const initialVariant = getFirstAvailableVariant(product);
+
   const [activeImageIndex, setActiveImageIndex] = useState(0);
-  const [selectedSize, setSelectedSize] = useState<string>(product.sizes?.[0] || 'M');
-  const [selectedColor, setSelectedColor] = useState<string>(product.colors?.[0] || 'Standard');
+  const [selectedSize, setSelectedSize] = useState<string>(initialVariant?.size || product.sizes?.[0] || 'M');
+  const [selectedColor, setSelectedColor] = useState<string>(initialVariant?.color || product.colors?.[0] || 'Standard');
   const [quantity, setQuantity] = useState(1);
-  const [isLiked, setIsLiked] = useState(false);
   const [showShareMenu, setShowShareMenu] = useState(false);
   const shareMenuRef = useRef<HTMLDivElement>(null);
-
-  const { products } = useProducts();
-
-  const relatedProducts = products
-    .filter(p => p.category === product.category && p.id !== product.id)
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviewsLoading, setReviewsLoading] = useState(true);
+  const [reviewOrderItemId, setReviewOrderItemId] = useState<string | null>(null);
+  const [stockAlerts, setStockAlerts] = useState<ProductAlert[]>([]);
+  const [savingStockAlert, setSavingStockAlert] = useState(false);
+
+  // One more than shown, in case this product is among them
+  const { products: categoryProducts } = useProductList({ categories: [product.category] }, 5);
+  const { user } = useAuth();
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const isLiked = isWishlisted(product.id);
+
+  const relatedProducts = categoryProducts
+    .filter(p => p.id !== product.id)
     .slice(0, 4);
 
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
     setActiveImageIndex(0);
     setQuantity(1);
-    setSelectedSize(product.sizes?.[0] || 'M');
-    setSelectedColor(product.colors?.[0] || 'Standard');
+    const firstAvailable = getFirstAvailableVariant(product);
+    setSelectedSize(firstAvailable?.size || product.sizes?.[0] || 'M');
+    setSelectedColor(firstAvailable?.color || product.colors?.[0] || 'Standard');
+  }, [product.id]);
+
+  useEffect(() => {
+    let isMounted = true;
+    setReviewsLoading(true);
+
+    getProductReviews(product.id).then(rows => {
+      if (!isMounted) return;
+      setReviews(rows.map(row => ({
+        id: row.id,
+        userId: row.user_id,
+        userName: row.reviewer_name,
+        rating: row.rating,
+        title: row.title || undefined,
+        comment: row.content,
+        date: row.created_at,
+        photos: row.photos || [],
+        response: row.admin_response || undefined
+      })));
+      setReviewsLoading(false);
+    });
+
+    return () => {
+      isMounted = false;
+    };
   }, [product.id]);
 
+  const handleWriteReview = async () => {
+    if (!user) {
+      toast.info('Sign in to review products you have bought');
+      return;
+    }
+
+    const reviewableItems = await getReviewableOrderItems(product.id);
+    if (reviewableItems.length === 0) {
+      toast.info('Only customers who have received this product can review it');
+      return;
+    }
+
+    setReviewOrderItemId(reviewableItems[0].id);
+  };
+
+  const reviewCount = product.reviewCount ?? reviews.length;
+
+  // Stock for the chosen size/color; null when the product is not tracked per variant
+  const selectedStock = getVariantStock(product, selectedSize, selectedColor);
+  const maxQuantity = selectedStock === null ? 10 : Math.min(10, selectedStock);
+  const canPurchase = isVariantAvailable(product, selectedSize, selectedColor, quantity);
+  // Before its release date only tiers with early access can order the product; checkout enforces this too
+  const earlyAccessUntil = product.earlyAccessUntil && new Date(product.earlyAccessUntil) > new Date()
+    ? new Date(product.earlyAccessUntil)
+    : null;
+  const lockedByEarlyAccess = earlyAccessUntil !== null && !user?.tierPerks?.earlyAccess;
+
+  // Back-in-stock alerts are per size/color, or for the whole product when stock is not tracked per variant
+  const selectionSoldOut = !isVariantAvailable(product, selectedSize, selectedColor);
+  const alertSize = selectedStock === null ? null : selectedSize;
+  const alertColor = selectedStock === null ? null : selectedColor;
+  const stockAlert = stockAlerts.find(alert => alert.size === alertSize && alert.color === alertColor);
+
+  useEffect(() => {
+    let isMounted = true;
+    if (!user) {
+      setStockAlerts([]);
+      return;
+    }
+    getProductAlerts(product.id).then(alerts => {
+      if (isMounted) setStockAlerts(alerts);
+    });
+    return () => { isMounted = false; };
+  }, [product.id, user?.id]);
+
+  const handleToggleStockAlert = async () => {
+    if (!user) {
+      toast.info('Sign in to be told when this is back in stock');
+      return;
+    }
+
+    setSavingStockAlert(true);
+    const variantLabel = alertSize ? ` in ${alertSize} / ${alertColor}` : '';
+    if (stockAlert) {
+      if (await unsubscribeBackInStock(stockAlert.id)) {
+        setStockAlerts(prev => prev.filter(alert => alert.id !== stockAlert.id));
+        toast.success('Back-in-stock alert removed');
+      } else {
+        toast.error('Could not remove the alert. Please try again.');
+      }
+    } else if (await subscribeBackInStock(product.id, alertSize, alertColor)) {
+      setStockAlerts(await getProductAlerts(product.id));
+      toast.success(`We'll let you know when ${product.name}${variantLabel} is back`);
+    } else {
+      toast.error('Could not set up the alert. Please try again.');
+    }
+    setSavingStockAlert(false);
+  };
+
+  // Keep the quantity within what is left of the selected variant
+  useEffect(() => {
+    if (maxQuantity > 0 && quantity > maxQuantity) {
+      setQuantity(maxQuantity);
+    }
+  }, [maxQuantity]);
+
+  const handleSelectColor = (color: string) => {
+    setSelectedColor(color);
+    // Jump to a size that is still available in the new color
+    if (!isSizeAvailable(product, selectedSize, color)) {
+      const fallbackSize = product.sizes?.find(size => isSizeAvailable(product, size, color));
+      if (fallbackSize) setSelectedSize(fallbackSize);
+    }
+  };
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (shareMenuRef.current && !shareMenuRef.current.contains(event.target as Node)) {
@@ -105,7 +230,25 @@ export function ProductDetail({
     setShowShareMenu(false);
   };
 
+  const handleToggleWishlist = async () => {
+    const wasLiked = isLiked;
+    const nowLiked = await toggleWishlist(product.id);
+    if (nowLiked === wasLiked) {
+      toast.error('Could not update your wishlist. Please try again.');
+    } else {
+      toast.success(nowLiked ? 'Added to your wishlist' : 'Removed from your wishlist');
+    }
+  };
+
   const handleAddToCart = () => {
+    if (lockedByEarlyAccess) {
+      toast.error(`${product.name} is in members' early access until ${earlyAccessUntil!.toLocaleDateString()}`);
+      return;
+    }
+    if (!canPurchase) {
+      toast.error(`${product.name} is sold out in size ${selectedSize} / ${selectedColor}`);
+      return;
+    }
     const sizeToUse = selectedSize || product.sizes?.[0] || 'M';
     const colorToUse = selectedColor || product.colors?.[0] || 'Standard';
     onAddToCart(product, sizeToUse, colorToUse, quantity);
@@ -118,6 +261,14 @@ export function ProductDetail({
   };
 
   const handleBuyNow = () => {
+    if (lockedByEarlyAccess) {
+      toast.error(`${product.name} is in members' early access until ${earlyAccessUntil!.toLocaleDateString()}`);
+      return;
+    }
+    if (!canPurchase) {
+      toast.error(`${product.name} is sold out in size ${selectedSize} / ${selectedColor}`);
+      return;
+    }
     const sizeToUse = selectedSize || product.sizes?.[0] || 'M';
     const colorToUse = selectedColor || product.colors?.[0] || 'Standard';
     onAddToCart(product, sizeToUse, colorToUse, quantity);
@@ -204,6 +355,11 @@ export function ProductDetail({
                     -{discountPercentage}% OFF
                   </span>
                 )}
+                {earlyAccessUntil && (
+                  <span className="bg-amber-500 text-white text-xs font-black uppercase tracking-wider px-3.5 py-1.5 rounded-full shadow-md">
+                    Early Access
+                  </span>
+                )}
                 {!product.inStock && (
                   <span className="bg-black/85 backdrop-blur-md text-white text-xs font-bold uppercase tracking-wider px-3.5 py-1.5 rounded-full shadow-md">
                     Sold Out
@@ -213,13 +369,13 @@ export function ProductDetail({
 
               {/* Wishlist Button on Image */}
               <button
-                onClick={() => setIsLiked(!isLiked)}
+                onClick={handleToggleWishlist}
                 className={`absolute top-4 right-4 w-11 h-11 rounded-full backdrop-blur-md flex items-center justify-center shadow-lg transition-all duration-200 hover:scale-110 z-10 ${
                   isLiked 
                     ? 'bg-rose-50 text-rose-600 border border-rose-200' 
                     : 'bg-white/90 text-neutral-800 border border-neutral-200/60 dark:bg-white/10 dark:text-white dark:border-neutral-700'
                 }`}
-                aria-label="Wishlist"
+                aria-label={isLiked ? 'Remove from wishlist' : 'Add to wishlist'}
               >
                 <Heart className={`h-5 w-5 ${isLiked ? 'fill-rose-600 text-rose-600' : ''}`} />
               </button>
@@ -260,8 +416,8 @@ export function ProductDetail({
                 </span>
                 <div className="flex items-center gap-1 bg-neutral-100 dark:bg-neutral-900 px-2.5 py-1 rounded-full">
                   <Star className="h-3.5 w-3.5 fill-amber-400 text-amber-400" />
-                  <span className="text-xs font-black text-neutral-900 dark:text-white">{product.rating || 4.8}</span>
-                  <span className="text-xs text-neutral-400 dark:text-neutral-500">({product.reviews?.length || 18})</span>
+                  <span className="text-xs font-black text-neutral-900 dark:text-white">{reviewCount > 0 ? product.rating.toFixed(1) : 'New'}</span>
+                  <span className="text-xs text-neutral-400 dark:text-neutral-500">({reviewCount})</span>
                 </div>
               </div>
 
@@ -295,11 +451,14 @@ export function ProductDetail({
                 <div className="flex flex-wrap gap-2.5">
                   {product.colors.map((color) => {
                     const isSelected = selectedColor === color;
+                    const isAvailable = isColorAvailable(product, color);
                     return (
                       <button
                         key={color}
-                        onClick={() => setSelectedColor(color)}
-                        className={`group flex items-center gap-2 px-3.5 py-2 rounded-full border-2 transition-all duration-200 ${
+                        onClick={() => handleSelectColor(color)}
+                        disabled={!isAvailable}
+                        title={isAvailable ? undefined : 'Sold out'}
+                        className={`group flex items-center gap-2 px-3.5 py-2 rounded-full border-2 transition-all duration-200 disabled:opacity-40 disabled:line-through disabled:cursor-not-allowed ${
                           isSelected
                             ? 'border-neutral-900 bg-neutral-900 text-white dark:border-white dark:bg-white dark:text-neutral-950 shadow-md'
                             : 'border-neutral-200 bg-white text-neutral-800 hover:border-neutral-400 dark:border-neutral-700 dark:bg-neutral-900/70 dark:text-neutral-200 dark:hover:border-neutral-400'
@@ -348,11 +507,14 @@ export function ProductDetail({
               <div className="flex flex-wrap gap-2">
                 {(product.sizes && product.sizes.length > 0 ? product.sizes : ['30', '32', '34', '36', '38', '40', '42']).map((size) => {
                   const isSelected = selectedSize === size;
+                  const isAvailable = isSizeAvailable(product, size, selectedColor);
                   return (
                     <button
                       key={size}
                       onClick={() => setSelectedSize(size)}
-                      className={`h-11 min-w-[3rem] px-4 rounded-xl text-xs font-black transition-all duration-200 border-2 ${
+                      disabled={!isAvailable}
+                      title={isAvailable ? undefined : `Sold out in ${selectedColor}`}
+                      className={`h-11 min-w-[3rem] px-4 rounded-xl text-xs font-black transition-all duration-200 border-2 disabled:opacity-40 disabled:line-through disabled:cursor-not-allowed ${
                         isSelected
                           ? 'bg-neutral-900 text-white border-neutral-900 dark:bg-white dark:text-neutral-950 dark:border-white shadow-md scale-105'
                           : 'bg-white text-neutral-900 border-neutral-200 hover:border-neutral-800 dark:bg-neutral-900/70 dark:text-neutral-200 dark:border-neutral-700 dark:hover:border-neutral-400'
@@ -363,6 +525,22 @@ export function ProductDetail({
                   );
                 })}
               </div>
+
+              {canPurchase && selectedStock !== null && selectedStock <= 3 && (
+                <p className="mt-2 text-xs font-bold text-rose-600">Only {selectedStock} left in this size</p>
+              )}
+              {!canPurchase && (
+                <p className="mt-2 text-xs font-bold text-neutral-500 dark:text-neutral-400">
+                  {selectedStock ? `Only ${selectedStock} left in this size` : 'Sold out in this size and color'}
+                </p>
+              )}
+              {earlyAccessUntil && (
+                <p className="mt-2 text-xs font-bold text-amber-600">
+                  {lockedByEarlyAccess
+                    ? `Early access for members until ${earlyAccessUntil.toLocaleDateString()}. Available to everyone after that.`
+                    : `You have early access to this piece as a ${user?.membershipTier} member.`}
+                </p>
+              )}
             </div>
 
             {/* ── QUANTITY SELECTOR ── */}
@@ -382,7 +560,7 @@ export function ProductDetail({
                   <span className="w-10 text-center font-black text-sm text-neutral-900 dark:text-white">{quantity}</span>
                   <button
                     onClick={() => setQuantity(quantity + 1)}
-                    disabled={quantity >= 10}
+                    disabled={quantity >= maxQuantity}
                     className="w-9 h-9 rounded-xl bg-white dark:bg-neutral-800 flex items-center justify-center text-neutral-900 dark:text-white font-bold shadow-xs hover:bg-neutral-50 dark:hover:bg-neutral-700 disabled:opacity-30 transition-all"
                   >
                     <Plus className="h-4 w-4" />
@@ -400,9 +578,20 @@ export function ProductDetail({
 
             {/* ── BUY NOW & ADD TO BAG BUTTONS (Desktop/Tablet) ── */}
             <div className="space-y-3 pt-2">
+              {selectionSoldOut && (
+                <button
+                  onClick={handleToggleStockAlert}
+                  disabled={savingStockAlert}
+                  className="w-full bg-rose-50 hover:bg-rose-100 text-rose-700 border border-rose-200 dark:bg-rose-500/10 dark:hover:bg-rose-500/20 dark:text-rose-300 dark:border-rose-500/30 h-12 rounded-2xl flex items-center justify-center gap-2 font-black uppercase tracking-wider text-xs transition-all disabled:opacity-50"
+                >
+                  {stockAlert ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                  <span>{stockAlert ? "We'll notify you — cancel alert" : 'Notify me when back in stock'}</span>
+                </button>
+              )}
+
               <button
                 onClick={handleBuyNow}
-                disabled={!product.inStock}
+                disabled={!canPurchase || lockedByEarlyAccess}
                 className="w-full bg-[#111] hover:bg-black text-white dark:bg-white dark:text-neutral-950 dark:hover:bg-neutral-200 h-13 rounded-2xl flex items-center justify-center gap-2 font-black uppercase tracking-wider text-xs sm:text-sm transition-all shadow-lg shadow-black/15 disabled:opacity-50"
               >
                 <span>Buy Now — {formatCurrency(product.price * quantity)}</span>
@@ -412,7 +601,7 @@ export function ProductDetail({
               <div className="flex gap-3">
                 <button
                   onClick={handleAddToCart}
-                  disabled={!product.inStock}
+                  disabled={!canPurchase || lockedByEarlyAccess}
                   className="flex-1 bg-white hover:bg-neutral-50 text-neutral-900 border-2 border-neutral-900 dark:bg-transparent dark:hover:bg-white/10 dark:text-white dark:border-white h-12 rounded-2xl flex items-center justify-center gap-2 font-black uppercase tracking-wider text-xs transition-all shadow-xs disabled:opacity-50"
                 >
                   <ShoppingBag className="h-4 w-4" />
@@ -468,7 +657,7 @@ export function ProductDetail({
           </div>
         </div>
 
-        {/* ── 4. Product Description & Trustpilot Reviews ── */}
+        {/* ── 4. Product Description & Customer Reviews ── */}
         <div className="mt-12 grid grid-cols-1 lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2 space-y-8">
             
@@ -488,7 +677,7 @@ export function ProductDetail({
                   <p className="text-xs text-neutral-500 dark:text-neutral-400 font-medium">Ratings & feedback from real buyers</p>
                 </div>
                 <button
-                  onClick={() => openProductReviewForm(product.id, product.name)}
+                  onClick={handleWriteReview}
                   className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider text-white bg-black dark:bg-white dark:text-neutral-950 hover:bg-neutral-800 dark:hover:bg-neutral-200 px-4 py-2 rounded-full transition-colors"
                 >
                   <Star className="h-3 w-3 fill-white" />
@@ -496,12 +685,59 @@ export function ProductDetail({
                 </button>
               </div>
 
-              <TrustpilotWidget
-                widgetType="product-review"
-                productSku={product.id}
-                height="400px"
-                className="w-full"
-              />
+              {reviewsLoading ? (
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">Loading reviews...</p>
+              ) : reviews.length === 0 ? (
+                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                  No reviews yet. Bought this piece? Share your thoughts once it has been delivered.
+                </p>
+              ) : (
+                <div className="divide-y divide-neutral-200 dark:divide-neutral-800">
+                  {reviews.map(review => (
+                    <div key={review.id} className="py-5 first:pt-0 last:pb-0">
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-bold text-neutral-900 dark:text-white">{review.userName}</span>
+                          <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-emerald-600">
+                            <Check className="h-3 w-3" />
+                            Verified buyer
+                          </span>
+                        </div>
+                        <span className="text-xs text-neutral-400">
+                          {new Date(review.date).toLocaleDateString('en-ZA', { year: 'numeric', month: 'short', day: 'numeric' })}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-0.5 mb-2">
+                        {[1, 2, 3, 4, 5].map(star => (
+                          <Star
+                            key={star}
+                            className={`h-3.5 w-3.5 ${star <= review.rating ? 'fill-amber-400 text-amber-400' : 'text-neutral-300 dark:text-neutral-700'}`}
+                          />
+                        ))}
+                      </div>
+                      {review.title && (
+                        <p className="text-sm font-bold text-neutral-900 dark:text-white mb-1">{review.title}</p>
+                      )}
+                      <p className="text-sm text-neutral-700 dark:text-neutral-300 leading-relaxed whitespace-pre-line">{review.comment}</p>
+                      {review.photos && review.photos.length > 0 && (
+                        <div className="flex gap-2 mt-3">
+                          {review.photos.map(photo => (
+                            <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                              <img src={photo} alt="Customer photo" className="w-16 h-16 object-cover rounded-lg border border-neutral-200 dark:border-neutral-800" />
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                      {review.response && (
+                        <div className="mt-3 pl-3 border-l-2 border-neutral-300 dark:border-neutral-700">
+                          <p className="text-xs font-bold text-neutral-900 dark:text-white mb-1">Response from Rosémama</p>
+                          <p className="text-xs text-neutral-600 dark:text-neutral-400">{review.response}</p>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -544,7 +780,7 @@ export function ProductDetail({
             {/* Add to Bag */}
             <button
               onClick={handleAddToCart}
-              disabled={!product.inStock}
+              disabled={!canPurchase || lockedByEarlyAccess}
               className="flex-1 bg-white hover:bg-neutral-50 text-neutral-900 border-2 border-neutral-900 dark:bg-transparent dark:hover:bg-white/10 dark:text-white dark:border-white h-11 rounded-xl font-black uppercase tracking-wider text-xs transition-all flex items-center justify-center gap-1.5 shadow-xs"
             >
               <ShoppingBag className="h-3.5 w-3.5" />
@@ -554,7 +790,7 @@ export function ProductDetail({
             {/* Buy Now (Direct Checkout) */}
             <button
               onClick={handleBuyNow}
-              disabled={!product.inStock}
+              disabled={!canPurchase || lockedByEarlyAccess}
               className="flex-[1.5] bg-[#111] hover:bg-black text-white dark:bg-white dark:text-neutral-950 dark:hover:bg-neutral-200 h-11 rounded-xl font-black uppercase tracking-wider text-xs transition-all flex items-center justify-center gap-1.5 shadow-md"
             >
               <span>Buy Now</span>
@@ -574,6 +810,12 @@ export function ProductDetail({
           </div>
         </div>
         
+        <ProductReviewDialog
+          open={!!reviewOrderItemId}
+          onOpenChange={(open) => !open && setReviewOrderItemId(null)}
+          orderItemId={reviewOrderItemId}
+          productName={product.name}
+        />
         <BottomSpacer />
       </div>
     </div>
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { Star, ImagePlus, X, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { submitProductReview, uploadReviewPhotos } from '../utils/supabase/client';
+
+const MAX_PHOTOS = 4;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB, matches the review-photos bucket limit
+const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+interface ProductReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderItemId: string | null;
+  productName: string;
+  onSubmitted?: () => void;
+}
+
+export function ProductReviewDialog({ open, onOpenChange, orderItemId, productName, onSubmitted }: ProductReviewDialogProps) {
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const resetForm = () => {
+    setRating(0);
+    setHoverRating(0);
+    setTitle('');
+    setContent('');
+    setPhotos([]);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) resetForm();
+    onOpenChange(nextOpen);
+  };
+
+  const handlePhotoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const valid = selected.filter(file => {
+      if (!ALLOWED_PHOTO_TYPES.includes(file.type)) {
+        toast.error(`${file.name}: only JPEG, PNG and WebP photos are allowed`);
+        return false;
+      }
+      if (file.size > MAX_PHOTO_SIZE) {
+        toast.error(`${file.name}: photos must be smaller than 5MB`);
+        return false;
+      }
+      return true;
+    });
+
+    setPhotos(prev => {
+      const next = [...prev, ...valid];
+      if (next.length > MAX_PHOTOS) {
+        toast.info(`You can add up to ${MAX_PHOTOS} photos`);
+      }
+      return next.slice(0, MAX_PHOTOS);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!orderItemId) return;
+
+    if (rating === 0) {
+      toast.error('Please choose a star rating');
+      return;
+    }
+    if (!content.trim()) {
+      toast.error('Please tell us about the product');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const photoUrls = photos.length > 0 ? await uploadReviewPhotos(photos) : [];
+      await submitProductReview({
+        orderItemId,
+        rating,
+        title: title.trim(),
+        content: content.trim(),
+        photos: photoUrls
+      });
+      toast.success('Thanks for your review! It will appear once it has been approved.');
+      resetForm();
+      onOpenChange(false);
+      onSubmitted?.();
+    } catch (error) {
+      console.error('Error submitting review:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to submit review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const displayRating = hoverRating || rating;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Review {productName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Your rating</Label>
+            <div className="flex items-center gap-1 mt-2" onMouseLeave={() => setHoverRating(0)}>
+              {[1, 2, 3, 4, 5].map(star => (
+                <button
+                  key={star}
+                  type="button"
+                  aria-label={`${star} star${star > 1 ? 's' : ''}`}
+                  onClick={() => setRating(star)}
+                  onMouseEnter={() => setHoverRating(star)}
+                  className="p-0.5"
+                >
+                  <Star
+                    className={`h-7 w-7 transition-colors ${
+                      star <= displayRating ? 'fill-amber-400 text-amber-400' : 'text-gray-300'
+                    }`}
+                  />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="review-title">Title (optional)</Label>
+            <Input
+              id="review-title"
+              value={title}
+              maxLength={120}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Sum up your experience"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="review-content">Your review</Label>
+            <Textarea
+              id="review-content"
+              value={content}
+              maxLength={2000}
+              rows={5}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder="How was the fit, fabric and quality?"
+            />
+          </div>
+
+          <div>
+            <Label>Photos (optional)</Label>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {photos.map((photo, index) => (
+                <div key={`${photo.name}-${index}`} className="relative w-16 h-16">
+                  <img
+                    src={URL.createObjectURL(photo)}
+                    alt={photo.name}
+                    className="w-16 h-16 object-cover rounded-lg border"
+                  />
+                  <button
+                    type="button"
+                    aria-label="Remove photo"
+                    onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                    className="absolute -top-1.5 -right-1.5 bg-black text-white rounded-full p-0.5"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <label className="w-16 h-16 flex items-center justify-center border border-dashed rounded-lg cursor-pointer text-muted-foreground hover:bg-muted/50">
+                  <ImagePlus className="h-5 w-5" />
+                  <input
+                    type="file"
+                    accept={ALLOWED_PHOTO_TYPES.join(',')}
+                    multiple
+                    className="hidden"
+                    onChange={handlePhotoSelect}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting || !orderItemId}>
+              {submitting ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                'Submit Review'
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
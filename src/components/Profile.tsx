@@ -7,21 +7,31 @@ import { Separator } from './ui/separator';
 import { Badge } from './ui/badge';
 import { Avatar, AvatarFallback } from './ui/avatar';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { Edit, MapPin, CreditCard, Bell, Shield, LogOut, Package, Heart, RefreshCw, Download, Printer, Eye, FileText, Star, MessageCircle } from 'lucide-react';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from './ui/alert-dialog';
+import { Textarea } from './ui/textarea';
+import { Edit, MapPin, CreditCard, Bell, Shield, LogOut, Package, Heart, RefreshCw, Download, Printer, Eye, FileText, Star, MessageCircle, Truck, Undo2, XCircle } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '../contexts/AuthContext';
-import { getUserOrders } from '../utils/supabase/client';
-import { sendProductReviewInvitation } from '../utils/trustpilot';
+import { getUserOrders, startCardPayment, cancelOrder } from '../utils/supabase/client';
 import { generateInvoicePDFSimple as generateInvoicePDF, printInvoice, viewInvoiceInModal } from '../utils/pdfUtilsSimple';
 import { VerificationBanner } from './VerificationBanner';
+import { GuestOrdersBanner } from './GuestOrdersBanner';
 import { BottomSpacer } from './ui/bottom-spacer';
+import { ProductReviewDialog } from './ProductReviewDialog';
+import { PaymentProofUpload } from './PaymentProofUpload';
+import { AddressBookDialog } from './AddressBookDialog';
+import { OrderTimeline } from './OrderTimeline';
+import { ReturnRequestDialog } from './ReturnRequestDialog';
+import { isWithinReturnWindow, getReturnableQuantity, RETURN_STATUS_LABELS, RETURN_RESOLUTION_LABELS } from '../utils/returns';
+import { getCourierName, SHIPMENT_STATUS_LABELS } from '../utils/shipping';
 
 interface ProfileProps {
   onLogout: () => void;
   onNavigateToInfo?: (page: string) => void;
+  onViewWishlist?: () => void;
 }
 
-export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
+export function Profile({ onLogout, onNavigateToInfo, onViewWishlist }: ProfileProps) {
   const { user, loading, signOut } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
@@ -29,6 +39,12 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
   const [ordersLoading, setOrdersLoading] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<any | null>(null);
   const [showOrderHistory, setShowOrderHistory] = useState(false);
+  const [showAddressBook, setShowAddressBook] = useState(false);
+  const [reviewItem, setReviewItem] = useState<any | null>(null);
+  const [returnItem, setReturnItem] = useState<any | null>(null);
+  const [startingPayment, setStartingPayment] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancellingOrder, setCancellingOrder] = useState(false);
 
   useEffect(() => {
     if (showOrderHistory && user) {
@@ -103,6 +119,38 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
     }
   };
 
+  const handlePayNow = async (orderId: string) => {
+    setStartingPayment(true);
+    try {
+      window.location.assign(await startCardPayment(orderId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not start the card payment');
+      setStartingPayment(false);
+    }
+  };
+
+  // Orders can be cancelled until something has been handed to the courier
+  const canCancelOrder = (order: any) =>
+    ['pending', 'processing'].includes(order.status) && !(order.shipments?.length > 0);
+
+  const handleCancelOrder = async (order: any) => {
+    setCancellingOrder(true);
+    try {
+      await cancelOrder(order.id, cancelReason);
+      toast.success(
+        order.payment_status === 'paid'
+          ? 'Order cancelled. Your payment will be refunded.'
+          : 'Order cancelled'
+      );
+      setCancelReason('');
+      await refreshOrders();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not cancel the order');
+    } finally {
+      setCancellingOrder(false);
+    }
+  };
+
   // PDF action handlers
   const handlePrintInvoice = async (order: any) => {
     const orderData = {
@@ -115,7 +163,15 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
       order_date: new Date(order.created_at).toLocaleDateString(),
       shipping_address: order.shipping_address,
       order_items: order.order_items,
-      payment_method: order.shipping_address?.paymentMethod || 'N/A'
+      payment_method: order.shipping_address?.paymentMethod || 'N/A',
+      payment_status: order.payment_status,
+      bank_reference: order.bank_reference,
+      shipping_method: order.shipping_method_name || undefined,
+      shipping_fee: order.shipping_fee,
+      coupon_code: order.coupon_code || undefined,
+      discount_amount: order.discount_amount,
+      points_redeemed: order.points_redeemed,
+      points_discount: order.points_discount
     };
 
     try {
@@ -138,7 +194,15 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
       order_date: new Date(order.created_at).toLocaleDateString(),
       shipping_address: order.shipping_address,
       order_items: order.order_items,
-      payment_method: order.shipping_address?.paymentMethod || 'N/A'
+      payment_method: order.shipping_address?.paymentMethod || 'N/A',
+      payment_status: order.payment_status,
+      bank_reference: order.bank_reference,
+      shipping_method: order.shipping_method_name || undefined,
+      shipping_fee: order.shipping_fee,
+      coupon_code: order.coupon_code || undefined,
+      discount_amount: order.discount_amount,
+      points_redeemed: order.points_redeemed,
+      points_discount: order.points_discount
     };
 
     try {
@@ -161,7 +225,15 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
       order_date: new Date(order.created_at).toLocaleDateString(),
       shipping_address: order.shipping_address,
       order_items: order.order_items,
-      payment_method: order.shipping_address?.paymentMethod || 'N/A'
+      payment_method: order.shipping_address?.paymentMethod || 'N/A',
+      payment_status: order.payment_status,
+      bank_reference: order.bank_reference,
+      shipping_method: order.shipping_method_name || undefined,
+      shipping_fee: order.shipping_fee,
+      coupon_code: order.coupon_code || undefined,
+      discount_amount: order.discount_amount,
+      points_redeemed: order.points_redeemed,
+      points_discount: order.points_discount
     };
 
     try {
@@ -179,34 +251,33 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
     }).format(amount);
   };
 
-  const handleRequestReview = async (order: any, item: any) => {
-    try {
-      await sendProductReviewInvitation(
-        user.email,
-        user.name,
-        order.id,
-        [{
-          id: item.products.id,
-          name: item.products.name,
-          image: item.products.image_url || '/images/placeholder-product.svg'
-        }]
-      );
-      toast.success(`Review invitation sent for ${item.products.name}!`);
-    } catch (error) {
-      console.error('Error sending review invitation:', error);
-      toast.error('Failed to send review invitation');
-    }
+  // Supabase returns the one-to-one product_reviews embed as an object or a single-item array
+  const getItemReview = (item: any) => {
+    const review = item.product_reviews;
+    return Array.isArray(review) ? review[0] || null : review || null;
   };
 
   const canRequestReview = (order: any) => {
-    // Only allow review requests for delivered orders
+    // Only delivered orders can be reviewed (verified buyers)
     return order.status === 'delivered';
   };
 
+  const getItemReturns = (order: any, item: any) =>
+    (order.return_requests || []).filter((request: any) => request.order_item_id === item.id);
+
+  // Reloads orders after a review, return or proof of payment was submitted
+  const refreshOrders = async () => {
+    const userOrders = await getUserOrders();
+    setOrders(userOrders);
+    if (selectedOrder) {
+      setSelectedOrder(userOrders.find((order: any) => order.id === selectedOrder.id) || null);
+    }
+  };
+
   const menuItems = [
     { icon: Package, label: 'Order History', action: () => setShowOrderHistory(true) },
-    { icon: Heart, label: 'Wishlist', action: () => toast.info('Wishlist coming soon!') },
-    { icon: MapPin, label: 'Addresses', action: () => toast.info('Address management coming soon!') },
+    { icon: Heart, label: 'Wishlist', action: () => onViewWishlist?.() },
+    { icon: MapPin, label: 'Addresses', action: () => setShowAddressBook(true) },
     { icon: CreditCard, label: 'Payment Methods', action: () => toast.info('Payment methods coming soon!') },
     { icon: Bell, label: 'Notifications', action: () => toast.info('Notification settings coming soon!') },
     { 
@@ -226,6 +297,14 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
     <div className="container mx-auto px-6 py-6 pb-24 max-w-2xl">
       {/* Email Verification Banner */}
       <VerificationBanner variant="card" className="mb-4" showDismiss />
+
+      {/* Past guest orders placed with this email */}
+      <GuestOrdersBanner
+        className="mb-4"
+        onClaimed={() => {
+          if (showOrderHistory) fetchUserOrders();
+        }}
+      />
       
       {/* Profile Header */}
       <Card className="mb-6">
@@ -242,12 +321,9 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
                 <h2 className="text-xl font-semibold">{user.name}</h2>
                 <Badge 
                   variant="secondary"
-                  className={
-                    user.membershipTier === 'Gold' ? 'bg-yellow-100 text-yellow-800' :
-                    user.membershipTier === 'Silver' ? 'bg-gray-100 text-gray-800' :
-                    'bg-orange-100 text-orange-800'
-                  }
+                  className="flex items-center gap-1.5"
                 >
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: user.tierPerks?.color }} />
                   {user.membershipTier} Member
                 </Badge>
               </div>
@@ -362,6 +438,8 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
         )}
       </Button>
 
+      <AddressBookDialog open={showAddressBook} onOpenChange={setShowAddressBook} user={user} />
+
       {/* Order History Dialog */}
       <Dialog open={showOrderHistory} onOpenChange={setShowOrderHistory}>
         <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
@@ -450,6 +528,40 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
                                           {selectedOrder.status}
                                         </Badge>
                                       </div>
+                                      {canCancelOrder(selectedOrder) && (
+                                        <AlertDialog onOpenChange={(open) => !open && setCancelReason('')}>
+                                          <AlertDialogTrigger asChild>
+                                            <Button size="sm" variant="outline" className="mt-3" disabled={cancellingOrder}>
+                                              <XCircle className="h-4 w-4 mr-2" />
+                                              Cancel Order
+                                            </Button>
+                                          </AlertDialogTrigger>
+                                          <AlertDialogContent>
+                                            <AlertDialogHeader>
+                                              <AlertDialogTitle>Cancel order #{selectedOrder.id.slice(-8)}?</AlertDialogTitle>
+                                              <AlertDialogDescription>
+                                                {selectedOrder.payment_status === 'paid'
+                                                  ? `Your payment of ${formatCurrency(selectedOrder.total_amount)} will be refunded to the account you paid from.`
+                                                  : 'You have not been charged for this order.'}
+                                                {selectedOrder.points_redeemed > 0 && ' The points you used will be returned to your balance.'}
+                                              </AlertDialogDescription>
+                                            </AlertDialogHeader>
+                                            <Textarea
+                                              value={cancelReason}
+                                              onChange={(e) => setCancelReason(e.target.value)}
+                                              placeholder="Why are you cancelling? (optional)"
+                                              maxLength={500}
+                                              rows={2}
+                                            />
+                                            <AlertDialogFooter>
+                                              <AlertDialogCancel>Keep Order</AlertDialogCancel>
+                                              <AlertDialogAction onClick={() => handleCancelOrder(selectedOrder)}>
+                                                Cancel Order
+                                              </AlertDialogAction>
+                                            </AlertDialogFooter>
+                                          </AlertDialogContent>
+                                        </AlertDialog>
+                                      )}
                                     </CardContent>
                                   </Card>
 
@@ -469,6 +581,38 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
                                           </span>
                                         </div>
                                       )}
+                                      {selectedOrder.payment_status && (
+                                        <div className="flex items-center gap-2 mt-2">
+                                          <span className="text-sm font-medium">Payment Status:</span>
+                                          <Badge
+                                            variant="outline"
+                                            className={`${
+                                              selectedOrder.payment_status === 'paid' ? 'border-green-500 text-green-700' :
+                                              selectedOrder.payment_status === 'failed' ? 'border-red-500 text-red-700' :
+                                              selectedOrder.payment_status === 'refunded' ? 'border-purple-500 text-purple-700' :
+                                              selectedOrder.payment_status === 'refund_due' ? 'border-orange-500 text-orange-700' :
+                                              'border-yellow-500 text-yellow-700'
+                                            }`}
+                                          >
+                                            {selectedOrder.payment_status === 'awaiting' ? 'awaiting payment' :
+                                              selectedOrder.payment_status === 'refund_due' ? 'refund pending' :
+                                              selectedOrder.payment_status}
+                                          </Badge>
+                                        </div>
+                                      )}
+                                      {selectedOrder.shipping_address?.paymentMethod === 'credit-card' &&
+                                        ['awaiting', 'failed'].includes(selectedOrder.payment_status) &&
+                                        selectedOrder.status !== 'cancelled' && (
+                                        <Button
+                                          size="sm"
+                                          className="mt-3"
+                                          disabled={startingPayment}
+                                          onClick={() => handlePayNow(selectedOrder.id)}
+                                        >
+                                          <CreditCard className="h-4 w-4 mr-2" />
+                                          {startingPayment ? 'Redirecting...' : 'Pay Now'}
+                                        </Button>
+                                      )}
                                     </CardContent>
                                   </Card>
 
@@ -483,6 +627,9 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
                                             <div>{selectedOrder.shipping_address.city}, {selectedOrder.shipping_address.state}</div>
                                             <div>{selectedOrder.shipping_address.country}</div>
                                             <div>📞 {selectedOrder.shipping_address.phone}</div>
+                                            {selectedOrder.shipping_method_name && (
+                                              <div>🚚 {selectedOrder.shipping_method_name}</div>
+                                            )}
                                           </>
                                         ) : (
                                           <div className="text-muted-foreground">Address not available</div>
@@ -492,6 +639,52 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
                                   </Card>
                                 </div>
 
+                                {/* Bank Transfer */}
+                                {selectedOrder.shipping_address?.paymentMethod === 'bank-transfer' &&
+                                  ['awaiting', 'failed'].includes(selectedOrder.payment_status) &&
+                                  selectedOrder.status !== 'cancelled' && (
+                                  <Card>
+                                    <CardHeader>
+                                      <CardTitle className="text-lg">Bank Transfer</CardTitle>
+                                    </CardHeader>
+                                    <CardContent>
+                                      <PaymentProofUpload order={selectedOrder} onUploaded={refreshOrders} />
+                                    </CardContent>
+                                  </Card>
+                                )}
+
+                                {/* Tracking */}
+                                <Card>
+                                  <CardHeader>
+                                    <CardTitle className="text-lg flex items-center gap-2">
+                                      <Truck className="h-5 w-5" />
+                                      Tracking
+                                    </CardTitle>
+                                  </CardHeader>
+                                  <CardContent>
+                                    <OrderTimeline status={selectedOrder.status} events={selectedOrder.order_events || []} />
+                                    {selectedOrder.shipments?.length > 0 && (
+                                      <div className="mt-6 space-y-2">
+                                        <p className="text-sm font-medium">
+                                          {selectedOrder.shipments.length === 1 ? 'Parcel' : `${selectedOrder.shipments.length} parcels`}
+                                        </p>
+                                        {selectedOrder.shipments.map((shipment: any) => (
+                                          <div key={shipment.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg text-sm">
+                                            <div>
+                                              <span className="font-medium">{getCourierName(shipment.courier)}</span>
+                                              <span className="ml-2 font-mono">{shipment.tracking_number}</span>
+                                              {shipment.status_detail && (
+                                                <p className="text-xs text-muted-foreground">{shipment.status_detail}</p>
+                                              )}
+                                            </div>
+                                            <Badge variant="outline">{SHIPMENT_STATUS_LABELS[shipment.status as keyof typeof SHIPMENT_STATUS_LABELS]}</Badge>
+                                          </div>
+                                        ))}
+                                      </div>
+                                    )}
+                                  </CardContent>
+                                </Card>
+
                                 {/* Order Items */}
                                 <Card>
                                   <CardHeader>
@@ -517,12 +710,21 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
                                                 </p>
                                                 
                                                 {/* Review Section */}
-                                                {canRequestReview(selectedOrder) && (
+                                                {canRequestReview(selectedOrder) && getItemReview(item) && (
+                                                  <div className="flex items-center text-xs text-muted-foreground mt-2">
+                                                    <Star className="h-3 w-3 mr-1 fill-amber-400 text-amber-400" />
+                                                    You rated this {getItemReview(item).rating}/5
+                                                    {getItemReview(item).status === 'pending' && ' · awaiting approval'}
+                                                    {getItemReview(item).status === 'rejected' && ' · not published'}
+                                                  </div>
+                                                )}
+
+                                                {canRequestReview(selectedOrder) && !getItemReview(item) && (
                                                   <div className="flex items-center gap-3 mt-2">
                                                     <Button
                                                       variant="outline"
                                                       size="sm"
-                                                      onClick={() => handleRequestReview(selectedOrder, item)}
+                                                      onClick={() => setReviewItem(item)}
                                                       className="bg-gradient-to-r from-green-50 to-green-100 hover:from-green-100 hover:to-green-200 border-green-200 text-green-700 hover:text-green-800"
                                                     >
                                                       <Star className="h-3 w-3 mr-1" />
@@ -541,6 +743,47 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
                                                     Review available after delivery
                                                   </div>
                                                 )}
+
+                                                {getItemReturns(selectedOrder, item).map((request: any) => (
+                                                  <div key={request.id} className="mt-3 rounded-lg border bg-muted/30 p-3 text-xs space-y-1">
+                                                    <div className="flex items-center justify-between gap-2">
+                                                      <span className="font-medium">
+                                                        {request.request_type === 'exchange'
+                                                          ? `Exchange for ${[request.exchange_size, request.exchange_color].filter(Boolean).join(' / ')}`
+                                                          : 'Return'}{' '}
+                                                        · {request.quantity} × <span className="font-mono">{request.rma_number}</span>
+                                                      </span>
+                                                      <Badge variant="outline">{RETURN_STATUS_LABELS[request.status as keyof typeof RETURN_STATUS_LABELS]}</Badge>
+                                                    </div>
+                                                    {request.status === 'approved' && (
+                                                      <p className="text-muted-foreground">
+                                                        Please send the item back{request.return_label_reference ? ` using return label ${request.return_label_reference}` : ''} and include your RMA number.
+                                                      </p>
+                                                    )}
+                                                    {request.admin_note && <p className="text-muted-foreground">{request.admin_note}</p>}
+                                                    {request.resolution && (
+                                                      <p>
+                                                        {RETURN_RESOLUTION_LABELS[request.resolution as keyof typeof RETURN_RESOLUTION_LABELS]}
+                                                        {request.resolution_amount > 0 ? ` of ${formatCurrency(request.resolution_amount)}` : ''}
+                                                        {request.store_credit_code && (
+                                                          <> · code <span className="font-mono font-medium">{request.store_credit_code}</span></>
+                                                        )}
+                                                      </p>
+                                                    )}
+                                                  </div>
+                                                ))}
+
+                                                {isWithinReturnWindow(selectedOrder) && getReturnableQuantity(item, selectedOrder.return_requests || []) > 0 && (
+                                                  <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    className="mt-3"
+                                                    onClick={() => setReturnItem(item)}
+                                                  >
+                                                    <Undo2 className="h-3 w-3 mr-1" />
+                                                    Return or Exchange
+                                                  </Button>
+                                                )}
                                               </div>
                                             </div>
                                             <div className="text-right">
@@ -549,6 +792,24 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
                                           </div>
                                         ))}
                                         <Separator />
+                                        {selectedOrder.shipping_method_name && (
+                                          <div className="flex justify-between items-center text-sm text-muted-foreground">
+                                            <span>Shipping ({selectedOrder.shipping_method_name})</span>
+                                            <span>{selectedOrder.shipping_fee > 0 ? formatCurrency(selectedOrder.shipping_fee) : 'FREE'}</span>
+                                          </div>
+                                        )}
+                                        {selectedOrder.discount_amount > 0 && (
+                                          <div className="flex justify-between items-center text-sm text-green-600">
+                                            <span>Discount{selectedOrder.coupon_code ? ` (${selectedOrder.coupon_code})` : ''}</span>
+                                            <span>-{formatCurrency(selectedOrder.discount_amount)}</span>
+                                          </div>
+                                        )}
+                                        {selectedOrder.points_discount > 0 && (
+                                          <div className="flex justify-between items-center text-sm text-green-600">
+                                            <span>Points ({selectedOrder.points_redeemed} pts)</span>
+                                            <span>-{formatCurrency(selectedOrder.points_discount)}</span>
+                                          </div>
+                                        )}
                                         <div className="flex justify-between items-center text-lg font-semibold">
                                           <span>Total</span>
                                           <span>{formatCurrency(selectedOrder.total_amount)}</span>
@@ -622,6 +883,21 @@ export function Profile({ onLogout, onNavigateToInfo }: ProfileProps) {
           )}
         </DialogContent>
       </Dialog>
+
+      <ProductReviewDialog
+        open={!!reviewItem}
+        onOpenChange={(open) => !open && setReviewItem(null)}
+        orderItemId={reviewItem?.id ?? null}
+        productName={reviewItem?.products?.name || 'this product'}
+        onSubmitted={refreshOrders}
+      />
+      <ReturnRequestDialog
+        open={!!returnItem}
+        onOpenChange={(open) => !open && setReturnItem(null)}
+        item={returnItem}
+        maxQuantity={returnItem && selectedOrder ? getReturnableQuantity(returnItem, selectedOrder.return_requests || []) : 1}
+        onSubmitted={refreshOrders}
+      />
       <BottomSpacer />
     </div>
   );
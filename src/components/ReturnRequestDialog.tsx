@@ -0,0 +1,288 @@
+import { useState, useEffect } from 'react';
+import { ImagePlus, X, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { requestReturn, getProductVariants } from '../utils/supabase/client';
+import type { ReturnReason } from '../utils/supabase/client';
+import { RETURN_REASON_LABELS, RETURN_WINDOW_DAYS } from '../utils/returns';
+
+const MAX_PHOTOS = 4;
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB, matches the return-photos bucket limit
+const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+interface ReturnRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: {
+    id: string;
+    product_id: string;
+    size: string | null;
+    color: string | null;
+    products?: { name: string } | null;
+  } | null;
+  maxQuantity: number;
+  onSubmitted?: () => void;
+}
+
+// Return or exchange request for one item of a delivered order
+export function ReturnRequestDialog({ open, onOpenChange, item, maxQuantity, onSubmitted }: ReturnRequestDialogProps) {
+  const [type, setType] = useState<'return' | 'exchange'>('return');
+  const [quantity, setQuantity] = useState(1);
+  const [reason, setReason] = useState<ReturnReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [variants, setVariants] = useState<{ size: string; color: string; stock_quantity: number }[]>([]);
+  const [exchangeSize, setExchangeSize] = useState('');
+  const [exchangeColor, setExchangeColor] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const productName = item?.products?.name || 'this item';
+
+  // Sizes and colors in stock, for exchanges
+  useEffect(() => {
+    if (!open || !item) return;
+    setExchangeSize(item.size || '');
+    setExchangeColor(item.color || '');
+    getProductVariants(item.product_id).then(setVariants);
+  }, [open, item?.id]);
+
+  const resetForm = () => {
+    setType('return');
+    setQuantity(1);
+    setReason('');
+    setDetails('');
+    setPhotos([]);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) resetForm();
+    onOpenChange(nextOpen);
+  };
+
+  const inStock = variants.filter(variant => variant.stock_quantity >= quantity);
+  const sizes = [...new Set(inStock.filter(variant => variant.color === exchangeColor).map(variant => variant.size))];
+  const colors = [...new Set(inStock.map(variant => variant.color))];
+  const canExchange = inStock.some(variant => variant.size !== item?.size || variant.color !== item?.color);
+
+  const handlePhotoSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const valid = selected.filter(file => {
+      if (!ALLOWED_PHOTO_TYPES.includes(file.type)) {
+        toast.error(`${file.name}: only JPEG, PNG and WebP photos are allowed`);
+        return false;
+      }
+      if (file.size > MAX_PHOTO_SIZE) {
+        toast.error(`${file.name}: photos must be smaller than 5MB`);
+        return false;
+      }
+      return true;
+    });
+
+    setPhotos(prev => {
+      const next = [...prev, ...valid];
+      if (next.length > MAX_PHOTOS) {
+        toast.info(`You can add up to ${MAX_PHOTOS} photos`);
+      }
+      return next.slice(0, MAX_PHOTOS);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!item) return;
+
+    if (!reason) {
+      toast.error('Please choose a reason');
+      return;
+    }
+    if (type === 'exchange' && exchangeSize === item.size && exchangeColor === item.color) {
+      toast.error('Choose a different size or color to exchange for');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await requestReturn({
+        orderItemId: item.id,
+        type,
+        quantity,
+        reason,
+        details,
+        photos,
+        exchangeSize,
+        exchangeColor
+      });
+      toast.success('Return requested. We will let you know once it has been approved.');
+      resetForm();
+      onOpenChange(false);
+      onSubmitted?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to request a return');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Return or exchange {productName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Items can be returned within {RETURN_WINDOW_DAYS} days of delivery, unworn and with their tags.
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={type === 'return' ? 'default' : 'outline'}
+              onClick={() => setType('return')}
+            >
+              Return
+            </Button>
+            <Button
+              type="button"
+              variant={type === 'exchange' ? 'default' : 'outline'}
+              onClick={() => setType('exchange')}
+              disabled={!canExchange}
+            >
+              Exchange
+            </Button>
+          </div>
+
+          {type === 'exchange' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Color</Label>
+                <Select
+                  value={exchangeColor}
+                  onValueChange={(color) => {
+                    setExchangeColor(color);
+                    if (!inStock.some(variant => variant.color === color && variant.size === exchangeSize)) {
+                      setExchangeSize(inStock.find(variant => variant.color === color)?.size || '');
+                    }
+                  }}
+                >
+                  <SelectTrigger><SelectValue placeholder="Color" /></SelectTrigger>
+                  <SelectContent>
+                    {colors.map(color => (
+                      <SelectItem key={color} value={color}>{color}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Size</Label>
+                <Select value={exchangeSize} onValueChange={setExchangeSize}>
+                  <SelectTrigger><SelectValue placeholder="Size" /></SelectTrigger>
+                  <SelectContent>
+                    {sizes.map(size => (
+                      <SelectItem key={size} value={size}>{size}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="return-quantity">Quantity</Label>
+              <Input
+                id="return-quantity"
+                type="number"
+                min={1}
+                max={maxQuantity}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.min(Math.max(Number(e.target.value) || 1, 1), maxQuantity))}
+              />
+            </div>
+            <div>
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value: ReturnReason) => setReason(value)}>
+                <SelectTrigger><SelectValue placeholder="Choose a reason" /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RETURN_REASON_LABELS) as ReturnReason[]).map(key => (
+                    <SelectItem key={key} value={key}>{RETURN_REASON_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="return-details">Anything else we should know? (optional)</Label>
+            <Textarea
+              id="return-details"
+              value={details}
+              maxLength={1000}
+              rows={3}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="e.g. where the item is damaged"
+            />
+          </div>
+
+          <div>
+            <Label>Photos (optional)</Label>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {photos.map((photo, index) => (
+                <div key={`${photo.name}-${index}`} className="relative w-16 h-16">
+                  <img
+                    src={URL.createObjectURL(photo)}
+                    alt={photo.name}
+                    className="w-16 h-16 object-cover rounded-lg border"
+                  />
+                  <button
+                    type="button"
+                    aria-label="Remove photo"
+                    onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                    className="absolute -top-1.5 -right-1.5 bg-black text-white rounded-full p-0.5"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_PHOTOS && (
+                <label className="w-16 h-16 flex items-center justify-center border border-dashed rounded-lg cursor-pointer text-muted-foreground hover:bg-muted/50">
+                  <ImagePlus className="h-5 w-5" />
+                  <input
+                    type="file"
+                    accept={ALLOWED_PHOTO_TYPES.join(',')}
+                    multiple
+                    className="hidden"
+                    onChange={handlePhotoSelect}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting || !item}>
+              {submitting ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                'Request Return'
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
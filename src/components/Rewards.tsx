@@ -1,18 +1,42 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { Separator } from './ui/separator';
-import { Gift, Star, Crown, Trophy, ShoppingBag, Truck, Percent } from 'lucide-react';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from './ui/alert-dialog';
+import { Star, Truck, Percent, Copy, Crown } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '../contexts/AuthContext';
-import type { User } from '../App';
+import { getPointsHistory, getPointsRewards, getMembershipStatus, getMembershipTiers, redeemPointsReward } from '../utils/supabase/client';
+import type { PointsLedgerEntry, PointsReward, MembershipTier, MembershipStatus } from '../utils/supabase/client';
+import { getTierPerkLabels, formatTierRequirement, getNextTier, getTierProgress } from '../utils/membership';
+import { formatCurrencyZAR } from '../utils/currency';
 import { BottomSpacer } from './ui/bottom-spacer';
 
 export function Rewards() {
-  const { user, loading } = useAuth();
-  const [selectedReward, setSelectedReward] = useState<string | null>(null);
+  const { user, loading, refreshPoints } = useAuth();
+  const [availableRewards, setAvailableRewards] = useState<PointsReward[]>([]);
+  const [recentActivity, setRecentActivity] = useState<PointsLedgerEntry[]>([]);
+  const [tiers, setTiers] = useState<MembershipTier[]>([]);
+  const [membership, setMembership] = useState<MembershipStatus | null>(null);
+  const [activityLoading, setActivityLoading] = useState(true);
+  const [confirmingReward, setConfirmingReward] = useState<PointsReward | null>(null);
+  const [redeeming, setRedeeming] = useState(false);
+
+  const loadPointsActivity = async () => {
+    const [history, status] = await Promise.all([getPointsHistory(), getMembershipStatus()]);
+    setRecentActivity(history);
+    setMembership(status);
+    setActivityLoading(false);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+    getPointsRewards().then(setAvailableRewards);
+    getMembershipTiers().then(setTiers);
+    loadPointsActivity();
+  }, [user?.id]);
 
   if (loading) {
     return <div className="text-center py-12">Loading rewards...</div>;
@@ -22,47 +46,37 @@ export function Rewards() {
     return <div className="text-center py-12">Please sign in to view your rewards.</div>;
   }
   
-  const onUpdateUser = (updatedUser: User) => {
-    // This would ideally be handled by a context update function
-    console.log('User update requested:', updatedUser);
-    toast.info('User data is managed globally now.');
-  };
+  // Tiers follow spend and earned points over the last 12 months, so spending points never drops a member a tier
+  const currentTier = tiers.find(tier => tier.name === user.membershipTier);
+  const nextTier = getNextTier(tiers, user.membershipTier);
+  const spend12m = Number(membership?.spend_12m ?? 0);
+  const points12m = membership?.points_12m ?? 0;
+  const progressPercentage = nextTier ? getTierProgress(nextTier, spend12m, points12m) : 100;
+  const earnMultiplier = user.tierPerks?.earnMultiplier ?? 1;
 
-  const tierBenefits = {
-    Bronze: { minPoints: 0, color: 'bg-orange-600', benefits: ['5% cashback', 'Birthday discount'] },
-    Silver: { minPoints: 500, color: 'bg-gray-400', benefits: ['7% cashback', 'Free shipping', 'Early access'] },
-    Gold: { minPoints: 1000, color: 'bg-yellow-500', benefits: ['10% cashback', 'Free express shipping', 'VIP support', 'Exclusive events'] }
+  const copyCode = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(code);
+      toast.success('Code copied');
+    } catch {
+      toast.error('Could not copy the code');
+    }
   };
 
-  const nextTier = user.membershipTier === 'Bronze' ? 'Silver' : user.membershipTier === 'Silver' ? 'Gold' : null;
-  const pointsToNext = nextTier ? tierBenefits[nextTier].minPoints - user.points : 0;
-  const progressPercentage = nextTier ? (user.points / tierBenefits[nextTier].minPoints) * 100 : 100;
-
-  const availableRewards = [
-    { id: '1', name: '$5 Off Next Purchase', cost: 100, type: 'discount', icon: Percent },
-    { id: '2', name: '$10 Off Next Purchase', cost: 200, type: 'discount', icon: Percent },
-    { id: '3', name: 'Free Standard Shipping', cost: 50, type: 'shipping', icon: Truck },
-    { id: '4', name: 'Free Express Shipping', cost: 150, type: 'shipping', icon: Truck },
-    { id: '5', name: '$25 Off Next Purchase', cost: 500, type: 'discount', icon: Percent },
-    { id: '6', name: 'Exclusive Access Item', cost: 750, type: 'access', icon: Crown }
-  ];
-
-  const recentActivity = [
-    { date: '2024-01-15', type: 'earned', points: 50, description: 'Purchase at Rosemama' },
-    { date: '2024-01-10', type: 'earned', points: 25, description: 'Product Review' },
-    { date: '2024-01-05', type: 'redeemed', points: -100, description: '$5 Off Discount Used' },
-    { date: '2024-01-01', type: 'earned', points: 100, description: 'New Year Bonus' }
-  ];
-
-  const redeemReward = (reward: any) => {
-    if (user.points >= reward.cost) {
-      onUpdateUser({
-        ...user,
-        points: user.points - reward.cost
+  const redeemReward = async (reward: PointsReward) => {
+    setRedeeming(true);
+    try {
+      const code = await redeemPointsReward(reward.id);
+      toast.success(`${reward.name} redeemed! Use code ${code} at checkout.`, {
+        duration: 10000,
+        action: { label: 'Copy', onClick: () => copyCode(code) }
       });
-      toast.success(`${reward.name} redeemed successfully!`);
-    } else {
-      toast.error('Insufficient points to redeem this reward');
+      await Promise.all([refreshPoints(), loadPointsActivity()]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to redeem reward');
+    } finally {
+      setRedeeming(false);
+      setConfirmingReward(null);
     }
   };
 
@@ -80,7 +94,7 @@ export function Rewards() {
         <CardContent className="p-6">
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center gap-3">
-              <div className={`w-3 h-3 rounded-full ${tierBenefits[user.membershipTier].color}`} />
+              <div className="w-3 h-3 rounded-full" style={{ backgroundColor: user.tierPerks?.color }} />
               <h3 className="text-xl font-semibold">{user.membershipTier} Member</h3>
             </div>
             <div className="text-right">
@@ -93,16 +107,17 @@ export function Rewards() {
             <>
               <div className="mb-2">
                 <div className="flex justify-between text-sm mb-1">
-                  <span>Progress to {nextTier}</span>
-                  <span>{pointsToNext} points to go</span>
+                  <span>Progress to {nextTier.name}</span>
+                  <span>{formatCurrencyZAR(spend12m)} spent · {points12m} points in 12 months</span>
                 </div>
                 <Progress value={progressPercentage} className="h-2" />
+                <p className="text-xs text-muted-foreground mt-1">{formatTierRequirement(nextTier)}</p>
               </div>
             </>
           )}
 
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
-            {tierBenefits[user.membershipTier].benefits.map((benefit, index) => (
+            {(currentTier ? getTierPerkLabels(currentTier) : []).map((benefit, index) => (
               <div key={index} className="text-center p-3 bg-secondary/30 rounded-lg">
                 <div className="text-sm font-medium">{benefit}</div>
               </div>
@@ -116,56 +131,58 @@ export function Rewards() {
         <div className="lg:col-span-2">
           <h2 className="text-xl font-semibold mb-4">Available Rewards</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {availableRewards.map((reward) => (
-              <Card 
-                key={reward.id} 
-                className={`cursor-pointer transition-all ${
-                  user.points >= reward.cost 
-                    ? 'hover:shadow-md hover:scale-105' 
-                    : 'opacity-60'
-                }`}
-                onClick={() => user.points >= reward.cost && redeemReward(reward)}
-              >
-                <CardContent className="p-4">
-                  <div className="flex items-center gap-3 mb-3">
-                    <div className={`p-2 rounded-lg ${
-                      reward.type === 'discount' ? 'bg-green-100' :
-                      reward.type === 'shipping' ? 'bg-blue-100' :
-                      'bg-purple-100'
-                    }`}>
-                      <reward.icon className="h-5 w-5" />
-                    </div>
-                    <div className="flex-1">
-                      <h4 className="font-medium">{reward.name}</h4>
-                      <div className="flex items-center gap-2 mt-1">
-                        <span className="text-sm font-medium">{reward.cost} pts</span>
-                        {user.points >= reward.cost ? (
-                          <Badge variant="secondary" className="text-xs">
-                            Available
-                          </Badge>
-                        ) : (
-                          <Badge variant="outline" className="text-xs">
-                            Need {reward.cost - user.points} more
-                          </Badge>
-                        )}
+            {availableRewards.map((reward) => {
+              const RewardIcon = reward.discount_type === 'free_shipping' ? Truck : Percent;
+              const canAfford = user.points >= reward.points_cost;
+              return (
+                <Card 
+                  key={reward.id} 
+                  className={`cursor-pointer transition-all ${
+                    canAfford 
+                      ? 'hover:shadow-md hover:scale-105' 
+                      : 'opacity-60'
+                  }`}
+                  onClick={() => canAfford && setConfirmingReward(reward)}
+                >
+                  <CardContent className="p-4">
+                    <div className="flex items-center gap-3 mb-3">
+                      <div className={`p-2 rounded-lg ${
+                        reward.discount_type === 'free_shipping' ? 'bg-blue-100' : 'bg-green-100'
+                      }`}>
+                        <RewardIcon className="h-5 w-5" />
+                      </div>
+                      <div className="flex-1">
+                        <h4 className="font-medium">{reward.name}</h4>
+                        <div className="flex items-center gap-2 mt-1">
+                          <span className="text-sm font-medium">{reward.points_cost} pts</span>
+                          {canAfford ? (
+                            <Badge variant="secondary" className="text-xs">
+                              Available
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-xs">
+                              Need {reward.points_cost - user.points} more
+                            </Badge>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  
-                  <Button 
-                    className="w-full" 
-                    size="sm"
-                    disabled={user.points < reward.cost}
-                    onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
-                      e.stopPropagation();
-                      redeemReward(reward);
-                    }}
-                  >
-                    {user.points >= reward.cost ? 'Redeem' : 'Insufficient Points'}
-                  </Button>
-                </CardContent>
-              </Card>
-            ))}
+                    
+                    <Button 
+                      className="w-full" 
+                      size="sm"
+                      disabled={!canAfford || redeeming}
+                      onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+                        e.stopPropagation();
+                        setConfirmingReward(reward);
+                      }}
+                    >
+                      {canAfford ? 'Redeem' : 'Insufficient Points'}
+                    </Button>
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </div>
 
@@ -181,24 +198,51 @@ export function Rewards() {
             </CardHeader>
             <CardContent className="space-y-3">
               <div className="flex justify-between">
-                <span className="text-sm">Every $1 spent</span>
+                <span className="text-sm">Every R10 spent</span>
                 <span className="text-sm font-medium">1 point</span>
               </div>
+              {earnMultiplier > 1 && (
+                <div className="flex justify-between">
+                  <span className="text-sm">{user.membershipTier} bonus</span>
+                  <span className="text-sm font-medium">{earnMultiplier}x points</span>
+                </div>
+              )}
               <Separator />
-              <div className="flex justify-between">
-                <span className="text-sm">Product review</span>
-                <span className="text-sm font-medium">25 points</span>
-              </div>
-              <Separator />
-              <div className="flex justify-between">
-                <span className="text-sm">Birthday bonus</span>
-                <span className="text-sm font-medium">100 points</span>
-              </div>
-              <Separator />
-              <div className="flex justify-between">
-                <span className="text-sm">Referral bonus</span>
-                <span className="text-sm font-medium">200 points</span>
-              </div>
+              <p className="text-xs text-muted-foreground">
+                Points are added once your order has been delivered.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Membership Tiers */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Crown className="h-5 w-5" />
+                Membership Tiers
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {tiers.map((tier) => (
+                <div key={tier.id} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: tier.color }} />
+                    <span className="text-sm font-medium">{tier.name}</span>
+                    {tier.name === user.membershipTier && (
+                      <Badge variant="secondary" className="text-xs">Current</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatTierRequirement(tier) || 'Every member starts here'}
+                  </p>
+                  {getTierPerkLabels(tier).length > 0 && (
+                    <p className="text-xs">{getTierPerkLabels(tier).join(' · ')}</p>
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Tiers are reviewed on your last 12 months, so they can go down as well as up.
+              </p>
             </CardContent>
           </Card>
 
@@ -208,23 +252,65 @@ export function Rewards() {
               <CardTitle>Recent Activity</CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              {recentActivity.map((activity, index) => (
-                <div key={index} className="flex items-center justify-between">
-                  <div className="flex-1">
-                    <div className="text-sm font-medium">{activity.description}</div>
-                    <div className="text-xs text-muted-foreground">{activity.date}</div>
-                  </div>
-                  <div className={`text-sm font-medium ${
-                    activity.type === 'earned' ? 'text-green-600' : 'text-orange-600'
-                  }`}>
-                    {activity.type === 'earned' ? '+' : ''}{activity.points}
+              {activityLoading ? (
+                <p className="text-sm text-muted-foreground">Loading activity...</p>
+              ) : recentActivity.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No points activity yet. Your first delivered order will earn points.</p>
+              ) : (
+                recentActivity.map((activity) => (
+                  <div key={activity.id} className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <div className="text-sm font-medium">{activity.description}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(activity.created_at).toLocaleDateString()}
+                      </div>
+                      {activity.coupon_code && (
+                        <button
+                          type="button"
+                          onClick={() => copyCode(activity.coupon_code!)}
+                          className="flex items-center gap-1 text-xs font-mono mt-1 hover:text-primary"
+                        >
+                          {activity.coupon_code}
+                          <Copy className="h-3 w-3" />
+                        </button>
+                      )}
+                    </div>
+                    <div className={`text-sm font-medium ${
+                      activity.points > 0 ? 'text-green-600' : 'text-orange-600'
+                    }`}>
+                      {activity.points > 0 ? '+' : ''}{activity.points}
+                    </div>
                   </div>
-                </div>
-              ))}
+                ))
+              )}
             </CardContent>
           </Card>
         </div>
       </div>
+
+      <AlertDialog open={!!confirmingReward} onOpenChange={(open) => { if (!open) setConfirmingReward(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Redeem {confirmingReward?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmingReward?.points_cost} points will be deducted and you'll get a single-use code
+              to enter at checkout, valid for {confirmingReward?.valid_days} days.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={redeeming}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={redeeming}
+              onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+                e.preventDefault();
+                if (confirmingReward) redeemReward(confirmingReward);
+              }}
+            >
+              {redeeming ? 'Redeeming...' : 'Redeem'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
       <BottomSpacer />
     </div>
   );
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Search, ShoppingBag, Loader2 } from 'lucide-react';
+import { Input } from './ui/input';
+import type { Product } from '../App';
+import { useProducts } from '../contexts/ProductContext';
+import { formatCategoryLabel } from '../utils/categories';
+import { formatCurrencyZAR } from '../utils/currency';
+
+interface SearchBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: (query: string) => void;
+  onSelectProduct?: (product: Product) => void;
+  onSelectCategory?: (category: string) => void;
+  inputClassName?: string;
+}
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_PRODUCT_SUGGESTIONS = 5;
+const MAX_CATEGORY_SUGGESTIONS = 3;
+
+// Search input with an as-you-type dropdown of matching products and categories
+export function SearchBar({ value, onChange, onSubmit, onSelectProduct, onSelectCategory, inputClassName }: SearchBarProps) {
+  const { categories, fetchProductList } = useProducts();
+  const [focused, setFocused] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [productSuggestions, setProductSuggestions] = useState<Product[]>([]);
+
+  const query = value.trim();
+
+  // Wait for a pause in typing before asking the server
+  useEffect(() => {
+    if (query.length < MIN_QUERY_LENGTH) {
+      setProductSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      // Best matches first; suggestions change with every keystroke, so they are not cached
+      const matches = await fetchProductList({ search: query }, MAX_PRODUCT_SUGGESTIONS, { cache: false });
+      if (cancelled) return;
+      setProductSuggestions(matches || []);
+      setLoading(false);
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Categories named like the query first, then the categories of the matching products
+  const lowerQuery = query.toLowerCase();
+  const categorySuggestions = [
+    ...categories.filter(category => category.name.toLowerCase().includes(lowerQuery)),
+    ...productSuggestions
+      .map(product => categories.find(category => category.name === product.category))
+      .filter((category): category is NonNullable<typeof category> => category !== undefined)
+  ]
+    .filter((category, index, list) => list.findIndex(c => c.id === category.id) === index)
+    .slice(0, MAX_CATEGORY_SUGGESTIONS);
+
+  const showDropdown = focused && query.length >= MIN_QUERY_LENGTH;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFocused(false);
+    onSubmit(query);
+  };
+
+  const selectProduct = (product: Product) => {
+    setFocused(false);
+    onChange('');
+    onSelectProduct?.(product);
+  };
+
+  const selectCategory = (categoryName: string) => {
+    setFocused(false);
+    onChange('');
+    onSelectCategory?.(categoryName);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder="Search products..."
+          value={value}
+          onChange={(e) => { onChange(e.target.value); setFocused(true); }}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          onKeyDown={(e) => { if (e.key === 'Escape') setFocused(false); }}
+          className={inputClassName}
+          aria-label="Search products"
+        />
+
+        {showDropdown && (
+          // Items use onMouseDown so they fire before the input's blur closes the dropdown
+          <div className="absolute left-0 right-0 top-full mt-2 z-50 rounded-md border bg-popover text-popover-foreground shadow-lg overflow-hidden">
+            {loading && productSuggestions.length === 0 ? (
+              <div className="flex items-center gap-2 px-4 py-3 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Searching...
+              </div>
+            ) : productSuggestions.length === 0 && categorySuggestions.length === 0 ? (
+              <div className="px-4 py-3 text-sm text-muted-foreground">
+                No matches for "{query}"
+              </div>
+            ) : (
+              <>
+                {categorySuggestions.length > 0 && (
+                  <div className="py-2 border-b">
+                    <p className="px-4 pb-1 text-xs font-medium uppercase text-muted-foreground">Categories</p>
+                    {categorySuggestions.map(category => (
+                      <button
+                        key={category.id}
+                        type="button"
+                        onMouseDown={(e) => { e.preventDefault(); selectCategory(category.name); }}
+                        className="flex w-full items-center gap-2 px-4 py-1.5 text-sm text-left hover:bg-muted"
+                      >
+                        <ShoppingBag className="h-4 w-4 text-muted-foreground" />
+                        {formatCategoryLabel(categories, category)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {productSuggestions.length > 0 && (
+                  <div className="py-2">
+                    <p className="px-4 pb-1 text-xs font-medium uppercase text-muted-foreground">Products</p>
+                    {productSuggestions.map(product => (
+                      <button
+                        key={product.id}
+                        type="button"
+                        onMouseDown={(e) => { e.preventDefault(); selectProduct(product); }}
+                        className="flex w-full items-center gap-3 px-4 py-2 text-left hover:bg-muted"
+                      >
+                        {product.images?.[0] ? (
+                          <img src={product.images[0]} alt="" className="h-10 w-10 rounded object-cover flex-shrink-0" />
+                        ) : (
+                          <div className="h-10 w-10 rounded bg-muted flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium truncate">{product.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {product.category} · {formatCurrencyZAR(product.price)}
+                          </p>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+            <button
+              type="button"
+              onMouseDown={(e) => { e.preventDefault(); setFocused(false); onSubmit(query); }}
+              className="flex w-full items-center gap-2 border-t px-4 py-2 text-sm font-medium text-primary text-left hover:bg-muted"
+            >
+              <Search className="h-4 w-4" />
+              See all results for "{query}"
+            </button>
+          </div>
+        )}
+      </div>
+    </form>
+  );
+}
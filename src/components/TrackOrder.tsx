@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Badge } from './ui/badge';
+import { Separator } from './ui/separator';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Loader2, PackageSearch, Truck, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { lookupGuestOrder } from '../utils/supabase/client';
+import type { GuestOrderView } from '../utils/supabase/client';
+import type { Order as InvoiceOrder } from '../types/invoice';
+import { OrderTimeline } from './OrderTimeline';
+import { getCourierName, SHIPMENT_STATUS_LABELS } from '../utils/shipping';
+import { generateInvoicePDFSimple as generateInvoicePDF } from '../utils/pdfUtilsSimple';
+import { formatCurrencyZAR } from '../utils/currency';
+
+interface TrackOrderProps {
+  onContinueShopping: () => void;
+}
+
+const PAYMENT_STATUS_LABELS: Record<string, string> = {
+  awaiting: 'Awaiting payment',
+  paid: 'Paid',
+  failed: 'Payment failed',
+  refund_due: 'Refund pending',
+  refunded: 'Refunded'
+};
+
+// "Track my order" for guests: the order number and checkout email open a
+// view of the order that lasts as long as the token in the URL
+export function TrackOrder({ onContinueShopping }: TrackOrderProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [orderNumber, setOrderNumber] = useState(searchParams.get('order') || '');
+  const [email, setEmail] = useState('');
+  const [order, setOrder] = useState<GuestOrderView | null>(null);
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(!!token);
+  const [downloading, setDownloading] = useState(false);
+
+  // Reopens the order from a link that still carries a valid token
+  useEffect(() => {
+    if (!token || order) return;
+
+    lookupGuestOrder({ token })
+      .then(result => {
+        setOrder(result.order);
+        setExpiresAt(result.expiresAt);
+      })
+      .catch(error => {
+        toast.error(error instanceof Error ? error.message : 'Could not open the order');
+        setSearchParams({}, { replace: true });
+      })
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderNumber.trim() || !email.trim()) {
+      toast.error('Enter your order number and the email you checked out with');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await lookupGuestOrder({ orderNumber, email });
+      setOrder(result.order);
+      setExpiresAt(result.expiresAt);
+      setSearchParams({ token: result.token }, { replace: true });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not look up the order');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLookUpAnother = () => {
+    setOrder(null);
+    setExpiresAt(null);
+    setEmail('');
+    setOrderNumber('');
+    setSearchParams({}, { replace: true });
+  };
+
+  const handleDownloadInvoice = async () => {
+    if (!order) return;
+
+    const shippingAddress = (order.shipping_address || {}) as Record<string, any>;
+    const invoiceOrder = {
+      id: order.id,
+      order_id: order.id,
+      customer_name: order.customer_name || `${shippingAddress.firstName || ''} ${shippingAddress.lastName || ''}`.trim(),
+      customer_email: order.customer_email || '',
+      amount: order.total_amount,
+      status: order.status,
+      order_date: new Date(order.created_at).toLocaleDateString(),
+      shipping_address: shippingAddress,
+      order_items: order.order_items,
+      payment_method: shippingAddress.paymentMethod || 'N/A',
+      payment_status: order.payment_status,
+      bank_reference: order.bank_reference || undefined,
+      shipping_method: order.shipping_method_name || undefined,
+      shipping_fee: order.shipping_fee,
+      coupon_code: order.coupon_code || undefined,
+      discount_amount: order.discount_amount
+    } as unknown as InvoiceOrder;
+
+    setDownloading(true);
+    try {
+      await generateInvoicePDF(invoiceOrder);
+      toast.success('PDF downloaded successfully');
+    } catch (error) {
+      console.error('Error generating PDF:', error);
+      toast.error('Failed to generate PDF');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (loading && !order) {
+    return (
+      <div className="container mx-auto px-6 py-12 pb-24 max-w-lg flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin" />
+        <span className="ml-2">Looking up your order...</span>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="container mx-auto px-6 py-12 pb-24 max-w-lg">
+        <Card>
+          <CardContent className="p-8 space-y-6">
+            <div className="flex flex-col items-center text-center space-y-2">
+              <PackageSearch className="h-12 w-12 text-muted-foreground" />
+              <h1 className="text-2xl font-bold">Track my order</h1>
+              <p className="text-muted-foreground">
+                Checked out as a guest? Enter the order number from your confirmation or invoice and the email you used.
+              </p>
+            </div>
+            <form onSubmit={handleLookup} className="space-y-4">
+              <div>
+                <Label htmlFor="track-order-number">Order or invoice number</Label>
+                <Input
+                  id="track-order-number"
+                  value={orderNumber}
+                  onChange={(e) => setOrderNumber(e.target.value)}
+                  placeholder="e.g. 1A2B3C4D or INV-1A2B3C4D"
+                  autoComplete="off"
+                />
+              </div>
+              <div>
+                <Label htmlFor="track-email">Email address</Label>
+                <Input
+                  id="track-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="you@example.com"
+                  autoComplete="email"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading ? 'Looking up...' : 'Find My Order'}
+              </Button>
+            </form>
+            <p className="text-xs text-muted-foreground text-center">
+              Have an account? Sign in to see all your orders under your profile. Create one with the same email and verify it to add your guest orders to it.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const subtotal = order.order_items.reduce((sum, item) => sum + item.quantity * item.price_at_purchase, 0);
+
+  return (
+    <div className="container mx-auto px-6 py-12 pb-24 max-w-3xl space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Order #{order.id.slice(-8).toUpperCase()}</h1>
+          <p className="text-sm text-muted-foreground">
+            Placed {new Date(order.created_at).toLocaleDateString('en-ZA', { year: 'numeric', month: 'long', day: 'numeric' })}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleDownloadInvoice} disabled={downloading}>
+            <Download className="h-4 w-4 mr-2" />
+            {downloading ? 'Preparing...' : 'Invoice'}
+          </Button>
+          <Button variant="outline" onClick={handleLookUpAnother}>
+            Look Up Another
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline" className="capitalize">{order.status}</Badge>
+        <Badge variant="outline">{PAYMENT_STATUS_LABELS[order.payment_status] || order.payment_status}</Badge>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Tracking
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OrderTimeline status={order.status} events={order.order_events} />
+          {order.shipments.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <p className="text-sm font-medium">
+                {order.shipments.length === 1 ? 'Parcel' : `${order.shipments.length} parcels`}
+              </p>
+              {order.shipments.map(shipment => (
+                <div key={shipment.id} className="flex flex-wrap items-center justify-between gap-2 p-3 border rounded-lg text-sm">
+                  <div>
+                    <span className="font-medium">{getCourierName(shipment.courier)}</span>
+                    <span className="ml-2 font-mono">{shipment.tracking_number}</span>
+                    {shipment.status_detail && (
+                      <p className="text-xs text-muted-foreground">{shipment.status_detail}</p>
+                    )}
+                  </div>
+                  <Badge variant="outline">{SHIPMENT_STATUS_LABELS[shipment.status]}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Order Items</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {order.order_items.map(item => (
+            <div key={item.id} className="flex items-center gap-4 p-3 border rounded-lg">
+              {item.products?.image_url && (
+                <img
+                  src={item.products.image_url}
+                  alt={item.products.name}
+                  className="w-14 h-14 object-cover rounded-lg border"
+                />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{item.products?.name || 'Unknown Product'}</p>
+                <p className="text-sm text-muted-foreground">
+                  {[item.size, item.color].filter(Boolean).join(' · ')} · {item.quantity} × {formatCurrencyZAR(item.price_at_purchase)}
+                </p>
+              </div>
+              <p className="font-semibold">{formatCurrencyZAR(item.quantity * item.price_at_purchase)}</p>
+            </div>
+          ))}
+          <Separator />
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between text-muted-foreground">
+              <span>Subtotal</span>
+              <span>{formatCurrencyZAR(subtotal)}</span>
+            </div>
+            {order.shipping_method_name && (
+              <div className="flex justify-between text-muted-foreground">
+                <span>Shipping ({order.shipping_method_name})</span>
+                <span>{order.shipping_fee > 0 ? formatCurrencyZAR(order.shipping_fee) : 'FREE'}</span>
+              </div>
+            )}
+            {order.discount_amount > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Discount{order.coupon_code ? ` (${order.coupon_code})` : ''}</span>
+                <span>-{formatCurrencyZAR(order.discount_amount)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold text-base pt-1">
+              <span>Total</span>
+              <span>{formatCurrencyZAR(order.total_amount)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        {expiresAt && (
+          <span>
+            This page stays open until {new Date(expiresAt).toLocaleTimeString('en-ZA', { hour: '2-digit', minute: '2-digit' })}. After that, look the order up again.
+          </span>
+        )}
+        <Button variant="link" className="px-0 h-auto text-xs" onClick={onContinueShopping}>
+          Continue Shopping
+        </Button>
+      </div>
+    </div>
+  );
+}
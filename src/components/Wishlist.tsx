@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Heart, ShoppingBag, Trash2, Eye } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Product } from '../App';
+import { BottomSpacer } from './ui/bottom-spacer';
+import { useProducts } from '../contexts/ProductContext';
+import { useWishlist } from '../contexts/WishlistContext';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrencyZAR } from '../utils/currency';
+import { getFirstAvailableVariant, isColorAvailable, isSizeAvailable, isVariantAvailable } from '../utils/inventory';
+
+interface WishlistProps {
+  onViewProduct: (product: Product) => void;
+  onAddToCart: (product: Product, size: string, color: string, quantity: number) => Promise<boolean>;
+  onContinueShopping?: () => void;
+}
+
+export function Wishlist({ onViewProduct, onAddToCart, onContinueShopping }: WishlistProps) {
+  const { fetchProductsByIds } = useProducts();
+  const { productIds, loading: loadingWishlist, removeFromWishlist, isGuestWishlist } = useWishlist();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loadingProducts, setLoadingProducts] = useState(true);
+  const loading = loadingWishlist || loadingProducts;
+  const productIdsKey = productIds.join(',');
+  const { user } = useAuth();
+  const [movingProduct, setMovingProduct] = useState<Product | null>(null);
+  const [selectedSize, setSelectedSize] = useState('');
+  const [selectedColor, setSelectedColor] = useState('');
+  const [moving, setMoving] = useState(false);
+
+  // Only the wishlisted products are downloaded, not the whole catalog
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingProducts(true);
+
+    fetchProductsByIds(productIds).then(list => {
+      if (cancelled) return;
+      setProducts(list);
+      setLoadingProducts(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [productIdsKey]);
+
+  // Keep wishlist order (most recent first); products that were removed from the catalog drop out
+  const wishlistProducts = productIds
+    .map(id => products.find(product => product.id === id))
+    .filter((product): product is Product => product !== undefined);
+
+  const isLockedByEarlyAccess = (product: Product) =>
+    !!product.earlyAccessUntil && new Date(product.earlyAccessUntil) > new Date() && !user?.tierPerks?.earlyAccess;
+
+  const openMoveToCart = (product: Product) => {
+    const firstAvailable = getFirstAvailableVariant(product);
+    setSelectedSize(firstAvailable?.size || product.sizes?.[0] || 'M');
+    setSelectedColor(firstAvailable?.color || product.colors?.[0] || 'Standard');
+    setMovingProduct(product);
+  };
+
+  const handleSelectColor = (product: Product, color: string) => {
+    setSelectedColor(color);
+    // Jump to a size that is still in stock in the new colour
+    if (!isSizeAvailable(product, selectedSize, color)) {
+      const size = product.sizes.find(option => isSizeAvailable(product, option, color));
+      if (size) setSelectedSize(size);
+    }
+  };
+
+  const handleRemove = async (product: Product) => {
+    if (await removeFromWishlist(product.id)) {
+      toast.success(`Removed ${product.name} from your wishlist`);
+    } else {
+      toast.error('Could not update your wishlist. Please try again.');
+    }
+  };
+
+  const handleMoveToCart = async () => {
+    if (!movingProduct) return;
+    if (!isVariantAvailable(movingProduct, selectedSize, selectedColor)) {
+      toast.error(`${movingProduct.name} is sold out in size ${selectedSize} / ${selectedColor}`);
+      return;
+    }
+
+    setMoving(true);
+    const added = await onAddToCart(movingProduct, selectedSize, selectedColor, 1);
+    if (added) {
+      await removeFromWishlist(movingProduct.id);
+      toast.success(`Moved ${movingProduct.name} (${selectedSize}) to your bag`);
+      setMovingProduct(null);
+    } else {
+      toast.error(`Could not add ${movingProduct.name} to your bag. Please try again.`);
+    }
+    setMoving(false);
+  };
+
+  if (!loading && wishlistProducts.length === 0) {
+    return (
+      <div className="container mx-auto px-6 py-12 pb-24">
+        <div className="text-center max-w-md mx-auto">
+          <Heart className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          <h2 className="text-2xl font-semibold mb-2">Your wishlist is empty</h2>
+          <p className="text-muted-foreground mb-6">
+            Tap the heart on any product to save it for later.
+          </p>
+          <Button onClick={onContinueShopping || (() => window.history.back())} className="w-full sm:w-auto">
+            Continue Shopping
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-6 pb-24">
+      <h1 className="text-2xl font-bold mb-2">Wishlist ({wishlistProducts.length} items)</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        {isGuestWishlist
+          ? 'Your wishlist is saved on this device. Sign in to keep it across all your devices and hear about price drops.'
+          : "We'll let you know when anything on your wishlist drops in price."}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+        {wishlistProducts.map((product) => {
+          // With per-variant stock a product is sold out once no size/colour is left
+          const soldOut = !product.inStock || (!!product.variants?.length && !getFirstAvailableVariant(product));
+          const locked = isLockedByEarlyAccess(product);
+          return (
+            <Card key={product.id} className="overflow-hidden">
+              <button
+                className="block w-full aspect-[4/5] bg-muted overflow-hidden"
+                onClick={() => onViewProduct(product)}
+                aria-label={`View ${product.name}`}
+              >
+                {product.images?.[0] && (
+                  <img src={product.images[0]} alt={product.name} className="w-full h-full object-cover" />
+                )}
+              </button>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold truncate">{product.name}</h3>
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-bold">{formatCurrencyZAR(product.price)}</span>
+                      {product.originalPrice && product.originalPrice > product.price && (
+                        <span className="text-muted-foreground line-through">{formatCurrencyZAR(product.originalPrice)}</span>
+                      )}
+                    </div>
+                  </div>
+                  {soldOut && <Badge variant="secondary">Sold Out</Badge>}
+                  {!soldOut && locked && <Badge className="bg-amber-500 text-white">Early Access</Badge>}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    className="flex-1"
+                    onClick={() => openMoveToCart(product)}
+                    disabled={soldOut || locked}
+                  >
+                    <ShoppingBag className="h-4 w-4 mr-2" />
+                    Move to Bag
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => onViewProduct(product)} aria-label="View product">
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" onClick={() => handleRemove(product)} aria-label="Remove from wishlist">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!movingProduct} onOpenChange={(open) => { if (!open) setMovingProduct(null); }}>
+        <DialogContent className="sm:max-w-md">
+          {movingProduct && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Move to Bag</DialogTitle>
+                <DialogDescription>Choose a size and colour for {movingProduct.name}.</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {movingProduct.colors.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium mb-2">Colour: {selectedColor}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {movingProduct.colors.map((color) => (
+                        <Button
+                          key={color}
+                          type="button"
+                          size="sm"
+                          variant={selectedColor === color ? 'default' : 'outline'}
+                          disabled={!isColorAvailable(movingProduct, color)}
+                          onClick={() => handleSelectColor(movingProduct, color)}
+                          className="capitalize"
+                        >
+                          {color}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {movingProduct.sizes.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium mb-2">Size: {selectedSize}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {movingProduct.sizes.map((size) => (
+                        <Button
+                          key={size}
+                          type="button"
+                          size="sm"
+                          variant={selectedSize === size ? 'default' : 'outline'}
+                          disabled={!isSizeAvailable(movingProduct, size, selectedColor)}
+                          onClick={() => setSelectedSize(size)}
+                        >
+                          {size}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setMovingProduct(null)} disabled={moving}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleMoveToCart}
+                  disabled={moving || !isVariantAvailable(movingProduct, selectedSize, selectedColor)}
+                >
+                  {moving ? 'Moving...' : 'Move to Bag'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <BottomSpacer />
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Textarea } from '../ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { Loader2, RefreshCw, FileText, CheckCircle, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { getBankTransferQueue, confirmBankTransfer, rejectPaymentProof, getPaymentProofUrl } from '../../utils/supabase/client';
+import type { PaymentProof } from '../../utils/supabase/client';
+import { formatCurrencyZAR } from '../../utils/currency';
+
+interface QueuedTransfer {
+  id: string;
+  status: string;
+  total_amount: number;
+  bank_reference: string;
+  payment_status: string;
+  customer_email: string | null;
+  customer_name: string | null;
+  created_at: string;
+  users: { email: string; name: string } | null;
+  payment_proofs: PaymentProof[];
+}
+
+const getDaysWaiting = (createdAt: string) =>
+  Math.floor((Date.now() - new Date(createdAt).getTime()) / (1000 * 60 * 60 * 24));
+
+// Unpaid bank transfer orders, with the proofs customers uploaded.
+// Orders with a proof waiting to be checked are listed first.
+export function BankTransferQueue() {
+  const [transfers, setTransfers] = useState<QueuedTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyOrderId, setBusyOrderId] = useState<string | null>(null);
+  const [rejectingProof, setRejectingProof] = useState<PaymentProof | null>(null);
+  const [rejectNote, setRejectNote] = useState('');
+
+  const loadQueue = async () => {
+    setLoading(true);
+    const data = await getBankTransferQueue();
+    setTransfers(data as unknown as QueuedTransfer[]);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const sortedTransfers = useMemo(() => {
+    const hasPendingProof = (transfer: QueuedTransfer) =>
+      transfer.payment_proofs.some(proof => proof.status === 'submitted');
+    return [...transfers].sort((a, b) => Number(hasPendingProof(b)) - Number(hasPendingProof(a)));
+  }, [transfers]);
+
+  const handleViewProof = async (proof: PaymentProof) => {
+    const url = await getPaymentProofUrl(proof.file_path);
+    if (url) {
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } else {
+      toast.error('Could not open the file');
+    }
+  };
+
+  const handleConfirm = async (transfer: QueuedTransfer) => {
+    setBusyOrderId(transfer.id);
+    const confirmed = await confirmBankTransfer(transfer.id);
+    setBusyOrderId(null);
+
+    if (confirmed) {
+      setTransfers(prev => prev.filter(t => t.id !== transfer.id));
+      toast.success(`Transfer ${transfer.bank_reference} marked as received`);
+    } else {
+      toast.error('Failed to confirm transfer');
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectingProof) return;
+    if (!rejectNote.trim()) {
+      toast.error('Tell the customer why the proof was not accepted');
+      return;
+    }
+
+    setBusyOrderId(rejectingProof.order_id);
+    const rejected = await rejectPaymentProof(rejectingProof.id, rejectNote.trim());
+    setBusyOrderId(null);
+
+    if (rejected) {
+      const proofId = rejectingProof.id;
+      setTransfers(prev => prev.map(transfer => ({
+        ...transfer,
+        payment_proofs: transfer.payment_proofs.map(proof =>
+          proof.id === proofId ? { ...proof, status: 'rejected' as const, review_note: rejectNote.trim() } : proof
+        )
+      })));
+      setRejectingProof(null);
+      setRejectNote('');
+      toast.success('Proof rejected; the customer can upload another');
+    } else {
+      toast.error('Failed to reject proof');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+        <span className="ml-2">Loading transfers...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Match each payment on the bank statement by its reference, then mark it received. Pending orders move to processing.
+        </p>
+        <Button variant="outline" size="sm" onClick={loadQueue}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {sortedTransfers.length === 0 ? (
+        <div className="text-center p-8 text-muted-foreground">No transfers waiting to be reconciled</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Reference</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Placed</TableHead>
+              <TableHead>Proof of Payment</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedTransfers.map(transfer => {
+              const daysWaiting = getDaysWaiting(transfer.created_at);
+              return (
+                <TableRow key={transfer.id}>
+                  <TableCell>
+                    <div className="font-mono font-medium">{transfer.bank_reference}</div>
+                    <div className="text-xs text-muted-foreground">#{transfer.id.slice(-8)} · {transfer.status}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{transfer.users?.name || transfer.customer_name || 'N/A'}</div>
+                    <div className="text-sm text-muted-foreground">{transfer.users?.email || transfer.customer_email || 'N/A'}</div>
+                  </TableCell>
+                  <TableCell className="font-medium">{formatCurrencyZAR(transfer.total_amount)}</TableCell>
+                  <TableCell>
+                    <div>{new Date(transfer.created_at).toLocaleDateString()}</div>
+                    <div className={`text-xs ${daysWaiting >= 3 ? 'text-red-500' : 'text-muted-foreground'}`}>
+                      {daysWaiting === 0 ? 'today' : `${daysWaiting} day${daysWaiting === 1 ? '' : 's'} ago`}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {transfer.payment_proofs.length === 0 ? (
+                      <span className="text-xs text-muted-foreground">None uploaded</span>
+                    ) : (
+                      <div className="space-y-1">
+                        {transfer.payment_proofs.map(proof => (
+                          <div key={proof.id} className="flex items-center gap-2">
+                            <button
+                              type="button"
+                              onClick={() => handleViewProof(proof)}
+                              className="flex items-center gap-1 text-xs underline underline-offset-2 hover:text-primary max-w-[160px] truncate"
+                            >
+                              <FileText className="h-3 w-3 shrink-0" />
+                              {proof.file_name}
+                            </button>
+                            <Badge
+                              className={`text-[10px] px-1.5 py-0 ${
+                                proof.status === 'submitted' ? 'bg-yellow-100 text-yellow-800' :
+                                proof.status === 'rejected' ? 'bg-red-100 text-red-800' :
+                                'bg-green-100 text-green-800'
+                              }`}
+                            >
+                              {proof.status}
+                            </Badge>
+                            {proof.status === 'submitted' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 w-6 p-0 text-red-500 hover:text-red-600"
+                                onClick={() => setRejectingProof(proof)}
+                                title="Reject proof"
+                              >
+                                <XCircle className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" disabled={busyOrderId === transfer.id}>
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Received
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Mark {transfer.bank_reference} as received?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Only confirm once {formatCurrencyZAR(transfer.total_amount)} with this reference has reflected in the bank account.
+                            {transfer.status === 'pending' && ' The order will move to processing.'}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleConfirm(transfer)}>Mark Received</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={!!rejectingProof} onOpenChange={(open) => { if (!open) { setRejectingProof(null); setRejectNote(''); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject proof of payment</DialogTitle>
+            <DialogDescription>
+              The customer sees this note in their order history and can upload another file.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectNote}
+            onChange={(e) => setRejectNote(e.target.value)}
+            placeholder="e.g. The amount on the proof does not match the order total"
+            rows={3}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => { setRejectingProof(null); setRejectNote(''); }}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={busyOrderId !== null}>
+              Reject
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
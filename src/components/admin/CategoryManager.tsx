@@ -0,0 +1,299 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { FolderTree, Plus, Pencil, Trash2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { saveCategory, deleteCategory } from '../../utils/supabase/client';
+import type { Category } from '../../utils/supabase/client';
+import { useProducts } from '../../contexts/ProductContext';
+import { formatCategoryLabel, getCategoryFamilyNames, toCategorySlug } from '../../utils/categories';
+
+// Form values are kept as strings so inputs can be cleared while typing
+interface CategoryForm {
+  name: string;
+  slug: string;
+  heroImageUrl: string;
+  sortOrder: string;
+  parentId: string; // NO_PARENT = top level
+}
+
+const NO_PARENT = 'none';
+
+const EMPTY_FORM: CategoryForm = {
+  name: '',
+  slug: '',
+  heroImageUrl: '',
+  sortOrder: '0',
+  parentId: NO_PARENT
+};
+
+const toForm = (category: Category): CategoryForm => ({
+  name: category.name,
+  slug: category.slug,
+  heroImageUrl: category.hero_image_url || '',
+  sortOrder: category.sort_order.toString(),
+  parentId: category.parent_id || NO_PARENT
+});
+
+export function CategoryManager() {
+  const { categories, fetchCategories, products } = useProducts();
+  const [refreshing, setRefreshing] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<CategoryForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = async () => {
+    setRefreshing(true);
+    await fetchCategories();
+    setRefreshing(false);
+  };
+
+  const productCount = (category: Category) =>
+    products.filter(product => product.category === category.name).length;
+
+  // A category cannot move under itself or one of its own subcategories
+  const editingCategory = categories.find(category => category.id === editingId);
+  const excludedParents = editingCategory ? getCategoryFamilyNames(categories, editingCategory.name) : [];
+  const parentOptions = categories.filter(category => !excludedParents.includes(category.name));
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, sortOrder: ((categories.length + 1) * 10).toString() });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (category: Category) => {
+    setEditingId(category.id);
+    setForm(toForm(category));
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    const slug = toCategorySlug(form.slug.trim() || name);
+
+    if (!name || !slug) {
+      toast.error('Please enter a name for the category');
+      return;
+    }
+    if (categories.some(category => category.id !== editingId && (category.name === name || category.slug === slug))) {
+      toast.error('Another category already uses this name or slug');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveCategory({
+      name,
+      slug,
+      hero_image_url: form.heroImageUrl.trim() || null,
+      sort_order: parseInt(form.sortOrder, 10) || 0,
+      parent_id: form.parentId === NO_PARENT ? null : form.parentId
+    }, editingId || undefined);
+    setSaving(false);
+
+    if (saved) {
+      toast.success(editingId ? 'Category updated' : 'Category added');
+      setDialogOpen(false);
+      fetchCategories();
+    } else {
+      toast.error('Failed to save category');
+    }
+  };
+
+  const handleDelete = async (category: Category) => {
+    const deleted = await deleteCategory(category.id);
+    if (deleted) {
+      toast.success('Category deleted');
+      fetchCategories();
+    } else {
+      toast.error('Failed to delete category. Move its products to another category first.');
+    }
+  };
+
+  return (
+    <Card className="bg-neutral-900/60 backdrop-blur border-neutral-800">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <FolderTree className="h-5 w-5" />
+            Categories
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Used by the storefront navigation, catalog filters and product form. Renaming a category renames it on its products.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={refresh} disabled={refreshing}>
+            <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {categories.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No categories yet. Products need a category before they can be saved.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>Products</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {categories.map((category) => {
+                const count = productCount(category);
+                return (
+                  <TableRow key={category.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        {category.hero_image_url ? (
+                          <img src={category.hero_image_url} alt="" className="h-10 w-10 rounded object-cover" />
+                        ) : (
+                          <div className="h-10 w-10 rounded bg-muted" />
+                        )}
+                        <div>
+                          <div className="font-medium">{formatCategoryLabel(categories, category)}</div>
+                          {category.parent_id && <Badge variant="outline" className="mt-1">Subcategory</Badge>}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">/shop/{category.slug}</TableCell>
+                    <TableCell>{count}</TableCell>
+                    <TableCell>{category.sort_order}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(category)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" className="text-red-500 hover:text-red-600" disabled={count > 0}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete {category.name}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Its subcategories move to the top level. Coupons limited to this category keep the name but will no longer match any products.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(category)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Category' : 'Add Category'}</DialogTitle>
+            <DialogDescription>
+              The slug is used in links such as /shop/evening-dresses. Leave it empty to build it from the name.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="category-name">Name</Label>
+                <Input
+                  id="category-name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Evening Dresses"
+                />
+              </div>
+              <div>
+                <Label htmlFor="category-slug">Slug</Label>
+                <Input
+                  id="category-slug"
+                  value={form.slug}
+                  onChange={(e) => setForm(prev => ({ ...prev, slug: e.target.value }))}
+                  placeholder={toCategorySlug(form.name) || 'evening-dresses'}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="category-hero">Hero image URL</Label>
+              <Input
+                id="category-hero"
+                value={form.heroImageUrl}
+                onChange={(e) => setForm(prev => ({ ...prev, heroImageUrl: e.target.value }))}
+                placeholder="Defaults to the first product image"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="category-parent">Parent</Label>
+                <Select
+                  value={form.parentId}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, parentId: value }))}
+                >
+                  <SelectTrigger id="category-parent">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                    {parentOptions.map(category => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {formatCategoryLabel(categories, category)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="category-sort-order">Sort order</Label>
+                <Input
+                  id="category-sort-order"
+                  type="number"
+                  value={form.sortOrder}
+                  onChange={(e) => setForm(prev => ({ ...prev, sortOrder: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
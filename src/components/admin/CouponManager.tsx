@@ -0,0 +1,560 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import { Checkbox } from '../ui/checkbox';
+import { ScrollArea } from '../ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Tag, Plus, Pencil, Trash2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  getAllCoupons,
+  saveCoupon,
+  setCouponActive,
+  deleteCoupon
+} from '../../utils/supabase/client';
+import type { Coupon, CouponUsage } from '../../utils/supabase/client';
+import { useProducts } from '../../contexts/ProductContext';
+import { formatCurrencyZAR } from '../../utils/currency';
+
+type CouponRow = Coupon & { usage: CouponUsage | null };
+type DiscountType = Coupon['discount_type'];
+
+// Form values are kept as strings so inputs can be cleared while typing
+interface CouponForm {
+  code: string;
+  description: string;
+  discountType: DiscountType;
+  discountValue: string;
+  minSpend: string;
+  categories: string[];
+  productIds: string[];
+  usageLimit: string; // empty = unlimited
+  perCustomerLimit: string; // empty = unlimited
+  startsAt: string; // datetime-local value, empty = immediately
+  expiresAt: string; // datetime-local value, empty = never
+  isActive: boolean;
+}
+
+const EMPTY_FORM: CouponForm = {
+  code: '',
+  description: '',
+  discountType: 'percentage',
+  discountValue: '',
+  minSpend: '0',
+  categories: [],
+  productIds: [],
+  usageLimit: '',
+  perCustomerLimit: '1',
+  startsAt: '',
+  expiresAt: '',
+  isActive: true
+};
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toForm = (coupon: Coupon): CouponForm => ({
+  code: coupon.code,
+  description: coupon.description || '',
+  discountType: coupon.discount_type,
+  discountValue: coupon.discount_value.toString(),
+  minSpend: coupon.min_spend.toString(),
+  categories: coupon.categories,
+  productIds: coupon.product_ids,
+  usageLimit: coupon.usage_limit?.toString() ?? '',
+  perCustomerLimit: coupon.per_customer_limit?.toString() ?? '',
+  startsAt: toLocalInput(coupon.starts_at),
+  expiresAt: toLocalInput(coupon.expires_at),
+  isActive: coupon.is_active
+});
+
+const formatDiscount = (coupon: Coupon) => {
+  switch (coupon.discount_type) {
+    case 'percentage': return `${coupon.discount_value}% off`;
+    case 'fixed_amount': return `${formatCurrencyZAR(coupon.discount_value)} off`;
+    default: return 'Free shipping';
+  }
+};
+
+const getCouponState = (coupon: Coupon): { label: string; className: string } => {
+  const now = Date.now();
+  if (!coupon.is_active) return { label: 'Disabled', className: 'bg-neutral-700 text-neutral-200' };
+  if (coupon.expires_at && new Date(coupon.expires_at).getTime() <= now) return { label: 'Expired', className: 'bg-red-500/20 text-red-300' };
+  if (coupon.starts_at && new Date(coupon.starts_at).getTime() > now) return { label: 'Scheduled', className: 'bg-blue-500/20 text-blue-300' };
+  return { label: 'Live', className: 'bg-green-500/20 text-green-300' };
+};
+
+export function CouponManager() {
+  const { products, categories: allCategories } = useProducts();
+  const [coupons, setCoupons] = useState<CouponRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<CouponForm>(EMPTY_FORM);
+  const [productSearch, setProductSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const categories = useMemo(() => allCategories.map(category => category.name), [allCategories]);
+
+  const productOptions = useMemo(() => {
+    const query = productSearch.trim().toLowerCase();
+    return products.filter(product => !query || product.name.toLowerCase().includes(query));
+  }, [products, productSearch]);
+
+  const totals = useMemo(() => coupons.reduce(
+    (sum, coupon) => ({
+      redemptions: sum.redemptions + (coupon.usage?.times_used || 0),
+      discount: sum.discount + (coupon.usage?.total_discount || 0),
+      revenue: sum.revenue + (coupon.usage?.revenue || 0)
+    }),
+    { redemptions: 0, discount: 0, revenue: 0 }
+  ), [coupons]);
+
+  const loadCoupons = async () => {
+    setLoading(true);
+    const data = await getAllCoupons();
+    setCoupons(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadCoupons();
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setProductSearch('');
+    setDialogOpen(true);
+  };
+
+  const openEdit = (coupon: Coupon) => {
+    setEditingId(coupon.id);
+    setForm(toForm(coupon));
+    setProductSearch('');
+    setDialogOpen(true);
+  };
+
+  const toggleListValue = (key: 'categories' | 'productIds', value: string) => {
+    setForm(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value]
+    }));
+  };
+
+  const handleSave = async () => {
+    const code = form.code.trim().toUpperCase();
+    const discountValue = form.discountType === 'free_shipping' ? 0 : Number(form.discountValue);
+    const minSpend = Number(form.minSpend || 0);
+    const usageLimit = form.usageLimit.trim() === '' ? null : parseInt(form.usageLimit, 10);
+    const perCustomerLimit = form.perCustomerLimit.trim() === '' ? null : parseInt(form.perCustomerLimit, 10);
+    const startsAt = fromLocalInput(form.startsAt);
+    const expiresAt = fromLocalInput(form.expiresAt);
+
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      toast.error('Codes are 3-32 letters, numbers, dashes or underscores');
+      return;
+    }
+    if (form.discountType !== 'free_shipping' && (isNaN(discountValue) || discountValue <= 0)) {
+      toast.error('Enter the discount amount');
+      return;
+    }
+    if (form.discountType === 'percentage' && discountValue > 100) {
+      toast.error('A percentage discount cannot be more than 100%');
+      return;
+    }
+    if (isNaN(minSpend) || minSpend < 0) {
+      toast.error('Minimum spend must be zero or more');
+      return;
+    }
+    if ((usageLimit !== null && (isNaN(usageLimit) || usageLimit < 1)) ||
+        (perCustomerLimit !== null && (isNaN(perCustomerLimit) || perCustomerLimit < 1))) {
+      toast.error('Usage limits must be at least 1, or empty for unlimited');
+      return;
+    }
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+      toast.error('The code must expire after it starts');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await saveCoupon({
+        code,
+        description: form.description.trim() || null,
+        discount_type: form.discountType,
+        discount_value: discountValue,
+        min_spend: minSpend,
+        categories: form.categories,
+        product_ids: form.productIds,
+        usage_limit: usageLimit,
+        per_customer_limit: perCustomerLimit,
+        starts_at: startsAt,
+        expires_at: expiresAt,
+        is_active: form.isActive
+      }, editingId || undefined);
+
+      if (saved) {
+        toast.success(editingId ? 'Coupon updated' : 'Coupon created');
+        setDialogOpen(false);
+        loadCoupons();
+      } else {
+        toast.error('Failed to save coupon');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save coupon');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: CouponRow, isActive: boolean) => {
+    const updated = await setCouponActive(coupon.id, isActive);
+    if (updated) {
+      setCoupons(prev => prev.map(c => (c.id === coupon.id ? { ...c, is_active: isActive } : c)));
+    } else {
+      toast.error('Failed to update coupon');
+    }
+  };
+
+  const handleDelete = async (coupon: CouponRow) => {
+    const deleted = await deleteCoupon(coupon.id);
+    if (deleted) {
+      setCoupons(prev => prev.filter(c => c.id !== coupon.id));
+      toast.success('Coupon deleted');
+    } else {
+      toast.error('Failed to delete coupon');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="bg-neutral-900/60 backdrop-blur border-neutral-800">
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">Redemptions</p>
+            <p className="text-2xl font-bold">{totals.redemptions}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-neutral-900/60 backdrop-blur border-neutral-800">
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">Discount Given</p>
+            <p className="text-2xl font-bold">{formatCurrencyZAR(totals.discount)}</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-neutral-900/60 backdrop-blur border-neutral-800">
+          <CardContent className="p-4">
+            <p className="text-xs text-muted-foreground">Revenue From Coupon Orders</p>
+            <p className="text-2xl font-bold">{formatCurrencyZAR(totals.revenue)}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-neutral-900/60 backdrop-blur border-neutral-800">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Tag className="h-5 w-5" />
+              Coupons
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Codes customers can enter at checkout. Every code is checked again when the order is placed.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={loadCoupons} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Coupon
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">Loading coupons...</p>
+          ) : coupons.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No coupons yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Conditions</TableHead>
+                  <TableHead>Used</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {coupons.map((coupon) => {
+                  const state = getCouponState(coupon);
+                  return (
+                    <TableRow key={coupon.id}>
+                      <TableCell>
+                        <div className="font-mono font-medium">{coupon.code}</div>
+                        {coupon.description && (
+                          <div className="text-xs text-muted-foreground">{coupon.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDiscount(coupon)}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground space-y-0.5">
+                        {coupon.min_spend > 0 && <div>Min spend {formatCurrencyZAR(coupon.min_spend)}</div>}
+                        {coupon.categories.length > 0 && <div>{coupon.categories.join(', ')}</div>}
+                        {coupon.product_ids.length > 0 && <div>{coupon.product_ids.length} product(s)</div>}
+                        {coupon.per_customer_limit !== null && <div>{coupon.per_customer_limit} per customer</div>}
+                        {coupon.expires_at && <div>Until {new Date(coupon.expires_at).toLocaleDateString()}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div>{coupon.usage?.times_used || 0}{coupon.usage_limit !== null && ` / ${coupon.usage_limit}`}</div>
+                        {!!coupon.usage?.total_discount && (
+                          <div className="text-xs text-muted-foreground">-{formatCurrencyZAR(coupon.usage.total_discount)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={state.className}>{state.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={coupon.is_active}
+                          onCheckedChange={(checked) => handleToggleActive(coupon, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(coupon)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="ghost" size="sm" className="text-red-500 hover:text-red-600">
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete {coupon.code}?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Orders keep the code and discount they were placed with, but its usage history is removed. Switch it off instead to keep the history.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(coupon)}>Delete</AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Coupon' : 'New Coupon'}</DialogTitle>
+            <DialogDescription>
+              Leave categories and products empty to apply the code to the whole cart.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="coupon-code">Code</Label>
+                <Input
+                  id="coupon-code"
+                  value={form.code}
+                  onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                  placeholder="WELCOME10"
+                  className="font-mono"
+                />
+              </div>
+              <div>
+                <Label htmlFor="coupon-description">Description</Label>
+                <Input
+                  id="coupon-description"
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="Newsletter welcome offer"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label>Type</Label>
+                <Select
+                  value={form.discountType}
+                  onValueChange={(value: DiscountType) => setForm(prev => ({ ...prev, discountType: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage</SelectItem>
+                    <SelectItem value="fixed_amount">Fixed amount</SelectItem>
+                    <SelectItem value="free_shipping">Free shipping</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="coupon-value">{form.discountType === 'percentage' ? 'Percent off' : 'Amount off (R)'}</Label>
+                <Input
+                  id="coupon-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.discountType === 'free_shipping' ? '' : form.discountValue}
+                  onChange={(e) => setForm(prev => ({ ...prev, discountValue: e.target.value }))}
+                  disabled={form.discountType === 'free_shipping'}
+                />
+              </div>
+              <div>
+                <Label htmlFor="coupon-min-spend">Min spend (R)</Label>
+                <Input
+                  id="coupon-min-spend"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.minSpend}
+                  onChange={(e) => setForm(prev => ({ ...prev, minSpend: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="coupon-usage-limit">Total uses</Label>
+                <Input
+                  id="coupon-usage-limit"
+                  type="number"
+                  min="1"
+                  value={form.usageLimit}
+                  onChange={(e) => setForm(prev => ({ ...prev, usageLimit: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <Label htmlFor="coupon-customer-limit">Uses per customer</Label>
+                <Input
+                  id="coupon-customer-limit"
+                  type="number"
+                  min="1"
+                  value={form.perCustomerLimit}
+                  onChange={(e) => setForm(prev => ({ ...prev, perCustomerLimit: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="coupon-starts-at">Starts</Label>
+                <Input
+                  id="coupon-starts-at"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm(prev => ({ ...prev, startsAt: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="coupon-expires-at">Expires</Label>
+                <Input
+                  id="coupon-expires-at"
+                  type="datetime-local"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label>Categories</Label>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {categories.map(category => (
+                  <Button
+                    key={category}
+                    type="button"
+                    size="sm"
+                    variant={form.categories.includes(category) ? 'default' : 'outline'}
+                    onClick={() => toggleListValue('categories', category)}
+                  >
+                    {category}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="coupon-product-search">
+                Products {form.productIds.length > 0 && `(${form.productIds.length} selected)`}
+              </Label>
+              <Input
+                id="coupon-product-search"
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                placeholder="Search products"
+                className="mt-2"
+              />
+              <ScrollArea className="h-40 mt-2 border rounded-lg">
+                <div className="p-2 space-y-1">
+                  {productOptions.map(product => (
+                    <label key={product.id} className="flex items-center gap-2 text-sm p-1 rounded hover:bg-muted/50 cursor-pointer">
+                      <Checkbox
+                        checked={form.productIds.includes(product.id)}
+                        onCheckedChange={() => toggleListValue('productIds', product.id)}
+                      />
+                      <span className="flex-1">{product.name}</span>
+                      <span className="text-xs text-muted-foreground">{product.category}</span>
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="coupon-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="coupon-active">Active</Label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,6 +10,8 @@ import { RotateCcw, Trash2, Search, Eye, Star, Archive, Palette, Ruler, AlertTri
 import { toast } from 'sonner';
 import { restoreProduct, permanentlyDeleteProduct } from '../../utils/supabase/client';
 import type { Product } from '../../App';
+import { useProducts } from '../../contexts/ProductContext';
+import { formatCategoryLabel } from '../../utils/categories';
 
 interface DeletedInventoryListProps {
   products: Product[];
@@ -19,6 +21,7 @@ interface DeletedInventoryListProps {
 export function DeletedInventoryList({ products, onRefresh }: DeletedInventoryListProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
+  const { categories } = useProducts();
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
 
@@ -119,12 +122,11 @@ export function DeletedInventoryList({ products, onRefresh }: DeletedInventoryLi
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="All">All Categories</SelectItem>
-              <SelectItem value="Casual">Casual</SelectItem>
-              <SelectItem value="Party">Party</SelectItem>
-              <SelectItem value="Shoes">Shoes</SelectItem>
-              <SelectItem value="Outwear">Outwear</SelectItem>
-              <SelectItem value="Dresses">Dresses</SelectItem>
-              <SelectItem value="Accessories">Accessories</SelectItem>
+              {categories.map(category => (
+                <SelectItem key={category.id} value={category.name}>
+                  {formatCategoryLabel(categories, category)}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
           
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Separator } from '../ui/separator';
@@ -25,9 +25,16 @@ import {
   Calendar,
   DollarSign,
   Star,
-  ShoppingBag
+  ShoppingBag,
+  History
 } from 'lucide-react';
 import { Order, OrderItem } from '../../types/invoice';
+import { calculateSubtotal, calculateDiscount, getShippingLabel, getDiscountLabel, calculatePointsDiscount, getPointsDiscountLabel } from '../../utils/invoiceUtils';
+import { getProvinceName } from '../../utils/address';
+import { getPaymentStatusColor } from './constants';
+import { OrderTimeline } from '../OrderTimeline';
+import { getOrderEvents } from '../../utils/supabase/client';
+import type { OrderEvent } from '../../utils/supabase/client';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -56,6 +63,22 @@ const EnhancedOrderView: React.FC<EnhancedOrderViewProps> = ({
   onStatusUpdate
 }) => {
   const [isPrintMode, setIsPrintMode] = useState(false);
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [eventsLoading, setEventsLoading] = useState(true);
+
+  // Reload the history whenever the order moves to another status
+  useEffect(() => {
+    let cancelled = false;
+    setEventsLoading(true);
+    getOrderEvents(order.id).then((data) => {
+      if (cancelled) return;
+      setEvents(data);
+      setEventsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, order.status]);
 
   const statusColors = {
     pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
@@ -253,7 +276,7 @@ const EnhancedOrderView: React.FC<EnhancedOrderViewProps> = ({
                       {order.shipping_address ? (
                         <>
                           <p>{order.shipping_address.address}</p>
-                          <p>{order.shipping_address.city}, {order.shipping_address.region}</p>
+                          <p>{order.shipping_address.city}, {getProvinceName(order.shipping_address.state)}</p>
                           <p>{order.shipping_address.zipCode}</p>
                           <p>{order.shipping_address.country}</p>
                         </>
@@ -310,7 +333,7 @@ const EnhancedOrderView: React.FC<EnhancedOrderViewProps> = ({
           </AccordionItem>
 
           {/* Payment Information */}
-          <AccordionItem value="payment" className="border-b-0">
+          <AccordionItem value="payment" className="border-b border-gray-100">
             <AccordionTrigger className="px-6 py-4 hover:bg-gray-50 text-left">
               <div className="flex items-center space-x-3">
                 <div className="bg-green-100 p-2 rounded-lg">
@@ -337,8 +360,8 @@ const EnhancedOrderView: React.FC<EnhancedOrderViewProps> = ({
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600">Payment Status</span>
-                        <span className={`px-2 py-1 rounded text-sm font-medium bg-yellow-100 text-yellow-800`}>
-                          {order.payment_method || 'Pending'}
+                        <span className={`px-2 py-1 rounded text-sm font-medium capitalize ${getPaymentStatusColor(order.payment_status || 'awaiting')}`}>
+                          {order.payment_status || 'awaiting'}
                         </span>
                       </div>
                     </div>
@@ -352,12 +375,24 @@ const EnhancedOrderView: React.FC<EnhancedOrderViewProps> = ({
                     <div className="space-y-3">
                       <div className="flex justify-between">
                         <span className="text-gray-600">Subtotal</span>
-                        <span>R {((order.amount || 0) - (order.shipping_fee || 0)).toFixed(2)}</span>
+                        <span>R {calculateSubtotal(order).toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between">
-                        <span className="text-gray-600">Shipping</span>
+                        <span className="text-gray-600">{getShippingLabel(order)}</span>
                         <span>R {(order.shipping_fee || 0).toFixed(2)}</span>
                       </div>
+                      {calculateDiscount(order) > 0 && (
+                        <div className="flex justify-between text-green-600">
+                          <span>{getDiscountLabel(order)}</span>
+                          <span>-R {calculateDiscount(order).toFixed(2)}</span>
+                        </div>
+                      )}
+                      {calculatePointsDiscount(order) > 0 && (
+                        <div className="flex justify-between text-green-600">
+                          <span>{getPointsDiscountLabel(order)}</span>
+                          <span>-R {calculatePointsDiscount(order).toFixed(2)}</span>
+                        </div>
+                      )}
                       <Separator />
                       <div className="flex justify-between font-bold text-lg">
                         <span>Total</span>
@@ -369,6 +404,32 @@ const EnhancedOrderView: React.FC<EnhancedOrderViewProps> = ({
               </div>
             </AccordionContent>
           </AccordionItem>
+
+          {/* Status History */}
+          <AccordionItem value="history" className="border-b-0">
+            <AccordionTrigger className="px-6 py-4 hover:bg-gray-50 text-left">
+              <div className="flex items-center space-x-3">
+                <div className="bg-orange-100 p-2 rounded-lg">
+                  <History className="w-5 h-5 text-orange-600" />
+                </div>
+                <div>
+                  <h3 className="font-semibold text-lg">Status History</h3>
+                  <p className="text-sm text-gray-500">
+                    {eventsLoading ? 'Loading...' : `${events.length} ${events.length === 1 ? 'change' : 'changes'}`}
+                  </p>
+                </div>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="px-6 pb-6">
+              <div className="bg-gradient-to-br from-orange-50 to-amber-50 rounded-xl p-6">
+                {eventsLoading ? (
+                  <p className="text-gray-500 italic">Loading history...</p>
+                ) : (
+                  <OrderTimeline status={order.status} events={events} showActor />
+                )}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
         </Accordion>
       </div>
 
@@ -11,9 +11,16 @@ import {
   formatPhoneNumber,
   formatAddress,
   calculateSubtotal,
+  calculateShipping,
+  calculateDiscount,
   calculateTotal,
+  getShippingLabel,
+  getDiscountLabel,
+  calculatePointsDiscount,
+  getPointsDiscountLabel,
   statusStyles,
   getPaymentMethodInfo,
+  getBankReference,
   capitalizeFirst,
   generateInvoiceNumber
 } from '../../utils/invoiceUtils';
@@ -146,7 +153,7 @@ const CustomerDetailsCard: React.FC<{ order: Order; formattedAddress?: ReturnTyp
 // Order Items Component
 const OrderItemsComponent: React.FC<{ order: Order }> = ({ order }) => {
   const subtotal = useMemo(() => calculateSubtotal(order), [order]);
-  const shippingFee = order.shipping_fee ?? 150;
+  const shippingFee = calculateShipping(order);
   const total = useMemo(() => calculateTotal(order), [order]);
 
   return (
@@ -212,6 +219,7 @@ const OrderItemsComponent: React.FC<{ order: Order }> = ({ order }) => {
 // Payment and Summary Components
 const PaymentMethodCard: React.FC<{ order: Order }> = ({ order }) => {
   const paymentInfo = getPaymentMethodInfo(order.payment_method);
+  const bankReference = getBankReference(order);
 
   return (
     <div className="bg-gradient-to-br from-white via-gray-50/30 to-green-50/30 rounded-xl shadow-xl border border-gray-200/50 overflow-hidden backdrop-blur-sm">
@@ -229,6 +237,9 @@ const PaymentMethodCard: React.FC<{ order: Order }> = ({ order }) => {
           <div>
             <p className="font-bold text-gray-900 text-lg">{paymentInfo.title}</p>
             <p className="text-sm text-gray-600">{paymentInfo.description}</p>
+            {bankReference && (
+              <p className="text-sm text-gray-900 mt-1">Reference: <span className="font-mono font-bold">{bankReference}</span></p>
+            )}
           </div>
         </div>
       </div>
@@ -238,7 +249,7 @@ const PaymentMethodCard: React.FC<{ order: Order }> = ({ order }) => {
 
 const OrderSummaryCard: React.FC<{ order: Order }> = ({ order }) => {
   const subtotal = useMemo(() => calculateSubtotal(order), [order]);
-  const shippingFee = order.shipping_fee ?? 150;
+  const shippingFee = calculateShipping(order);
   const total = useMemo(() => calculateTotal(order), [order]);
 
   return (
@@ -257,9 +268,21 @@ const OrderSummaryCard: React.FC<{ order: Order }> = ({ order }) => {
           <span className="font-semibold text-gray-900 text-lg">{formatCurrency(subtotal)}</span>
         </div>
         <div className="flex justify-between items-center py-3 px-4 bg-white/60 rounded-lg border border-gray-200">
-          <span className="text-gray-700 font-semibold">Shipping</span>
+          <span className="text-gray-700 font-semibold">{getShippingLabel(order)}</span>
           <span className="font-semibold text-gray-900 text-lg">{formatCurrency(shippingFee)}</span>
         </div>
+        {calculateDiscount(order) > 0 && (
+          <div className="flex justify-between items-center py-3 px-4 bg-white/60 rounded-lg border border-gray-200">
+            <span className="text-green-700 font-semibold">{getDiscountLabel(order)}</span>
+            <span className="font-semibold text-green-700 text-lg">-{formatCurrency(calculateDiscount(order))}</span>
+          </div>
+        )}
+        {calculatePointsDiscount(order) > 0 && (
+          <div className="flex justify-between items-center py-3 px-4 bg-white/60 rounded-lg border border-gray-200">
+            <span className="text-green-700 font-semibold">{getPointsDiscountLabel(order)}</span>
+            <span className="font-semibold text-green-700 text-lg">-{formatCurrency(calculatePointsDiscount(order))}</span>
+          </div>
+        )}
         <div className="bg-gradient-to-r from-blue-50 via-purple-50 to-pink-50 p-6 rounded-xl border-2 border-gradient-to-r from-blue-200 to-purple-200 shadow-lg">
           <div className="flex justify-between items-center">
             <span className="text-2xl font-bold text-gray-900">Total Amount</span>
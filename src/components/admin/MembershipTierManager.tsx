@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Crown, Plus, Pencil, Trash2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { getMembershipTiers, saveMembershipTier, deleteMembershipTier } from '../../utils/supabase/client';
+import type { MembershipTier } from '../../utils/supabase/client';
+import { formatTierRequirement, getTierPerkLabels } from '../../utils/membership';
+
+// Form values are kept as strings so inputs can be cleared while typing
+interface MembershipTierForm {
+  name: string;
+  minSpend: string; // empty = spend does not qualify
+  minPoints: string; // empty = points do not qualify
+  earnMultiplier: string;
+  freeShipping: boolean;
+  earlyAccess: boolean;
+  benefits: string; // comma separated
+  color: string;
+  rank: string;
+}
+
+const EMPTY_FORM: MembershipTierForm = {
+  name: '',
+  minSpend: '',
+  minPoints: '',
+  earnMultiplier: '1',
+  freeShipping: false,
+  earlyAccess: false,
+  benefits: '',
+  color: '#9ca3af',
+  rank: '1'
+};
+
+const toForm = (tier: MembershipTier): MembershipTierForm => ({
+  name: tier.name,
+  minSpend: tier.min_spend_12m?.toString() ?? '',
+  minPoints: tier.min_points_12m?.toString() ?? '',
+  earnMultiplier: tier.earn_multiplier.toString(),
+  freeShipping: tier.free_shipping,
+  earlyAccess: tier.early_access,
+  benefits: tier.benefits.join(', '),
+  color: tier.color,
+  rank: tier.rank.toString()
+});
+
+export function MembershipTierManager() {
+  const [tiers, setTiers] = useState<MembershipTier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<MembershipTierForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadTiers = async () => {
+    setLoading(true);
+    const data = await getMembershipTiers();
+    setTiers(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadTiers();
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, rank: (Math.max(0, ...tiers.map(tier => tier.rank)) + 1).toString() });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (tier: MembershipTier) => {
+    setEditingId(tier.id);
+    setForm(toForm(tier));
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const minSpend = form.minSpend.trim() === '' ? null : Number(form.minSpend);
+    const minPoints = form.minPoints.trim() === '' ? null : parseInt(form.minPoints, 10);
+    const earnMultiplier = Number(form.earnMultiplier);
+    const rank = parseInt(form.rank, 10);
+
+    if (!form.name.trim()) {
+      toast.error('Please enter a name for the tier');
+      return;
+    }
+    if (minSpend !== null && (isNaN(minSpend) || minSpend < 0)) {
+      toast.error('Spend threshold must be zero or more');
+      return;
+    }
+    if (minPoints !== null && (isNaN(minPoints) || minPoints < 0)) {
+      toast.error('Points threshold must be zero or more');
+      return;
+    }
+    if (isNaN(earnMultiplier) || earnMultiplier < 1) {
+      toast.error('Earn multiplier must be at least 1');
+      return;
+    }
+    if (isNaN(rank)) {
+      toast.error('Rank must be a whole number');
+      return;
+    }
+    if (tiers.some(tier => tier.rank === rank && tier.id !== editingId)) {
+      toast.error('Another tier already has this rank');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveMembershipTier({
+      name: form.name.trim(),
+      min_spend_12m: minSpend,
+      min_points_12m: minPoints,
+      earn_multiplier: earnMultiplier,
+      free_shipping: form.freeShipping,
+      early_access: form.earlyAccess,
+      benefits: form.benefits.split(',').map(benefit => benefit.trim()).filter(Boolean),
+      color: form.color,
+      rank
+    }, editingId || undefined);
+    setSaving(false);
+
+    if (saved) {
+      toast.success(editingId ? 'Tier updated' : 'Tier added');
+      setDialogOpen(false);
+      loadTiers();
+    } else {
+      toast.error('Failed to save tier');
+    }
+  };
+
+  const handleDelete = async (tier: MembershipTier) => {
+    const deleted = await deleteMembershipTier(tier.id);
+    if (deleted) {
+      setTiers(prev => prev.filter(t => t.id !== tier.id));
+      toast.success('Tier deleted');
+    } else {
+      toast.error('Failed to delete tier');
+    }
+  };
+
+  return (
+    <Card className="bg-neutral-900/60 backdrop-blur border-neutral-800">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Crown className="h-5 w-5" />
+            Membership Tiers
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Members hold the highest tier their spend or points over the last 12 months qualify for. Changes apply the next time a member's tier is reviewed.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={loadTiers} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tier
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">Loading tiers...</p>
+        ) : tiers.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No tiers yet. Add an entry tier without thresholds so every member has one.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tier</TableHead>
+                <TableHead>Qualifies With</TableHead>
+                <TableHead>Perks</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tiers.map((tier) => (
+                <TableRow key={tier.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: tier.color }} />
+                      <span className="font-medium">{tier.name}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">Rank {tier.rank}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {formatTierRequirement(tier) || <Badge variant="outline">Every member</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {getTierPerkLabels(tier).map(perk => (
+                        <Badge key={perk} variant="secondary">{perk}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(tier)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-red-500 hover:text-red-600">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {tier.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Members on this tier move to the highest remaining tier they qualify for the next time their tier is reviewed.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(tier)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Tier' : 'Add Tier'}</DialogTitle>
+            <DialogDescription>
+              A member qualifies by meeting either threshold. Leave both empty for the entry tier.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label htmlFor="tier-name">Name</Label>
+                <Input
+                  id="tier-name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Platinum"
+                />
+              </div>
+              <div>
+                <Label htmlFor="tier-rank">Rank</Label>
+                <Input
+                  id="tier-rank"
+                  type="number"
+                  value={form.rank}
+                  onChange={(e) => setForm(prev => ({ ...prev, rank: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="tier-min-spend">Spend in 12 months (R)</Label>
+                <Input
+                  id="tier-min-spend"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.minSpend}
+                  onChange={(e) => setForm(prev => ({ ...prev, minSpend: e.target.value }))}
+                  placeholder="Not used"
+                />
+              </div>
+              <div>
+                <Label htmlFor="tier-min-points">Points in 12 months</Label>
+                <Input
+                  id="tier-min-points"
+                  type="number"
+                  min="0"
+                  value={form.minPoints}
+                  onChange={(e) => setForm(prev => ({ ...prev, minPoints: e.target.value }))}
+                  placeholder="Not used"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="tier-multiplier">Points multiplier</Label>
+                <Input
+                  id="tier-multiplier"
+                  type="number"
+                  min="1"
+                  step="0.25"
+                  value={form.earnMultiplier}
+                  onChange={(e) => setForm(prev => ({ ...prev, earnMultiplier: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="tier-color">Colour</Label>
+                <Input
+                  id="tier-color"
+                  type="color"
+                  value={form.color}
+                  onChange={(e) => setForm(prev => ({ ...prev, color: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="tier-benefits">Other benefits</Label>
+              <Input
+                id="tier-benefits"
+                value={form.benefits}
+                onChange={(e) => setForm(prev => ({ ...prev, benefits: e.target.value }))}
+                placeholder="VIP support, Exclusive events"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Listed on the Rewards page only, separated by commas.</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="tier-free-shipping"
+                checked={form.freeShipping}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, freeShipping: checked }))}
+              />
+              <Label htmlFor="tier-free-shipping">Free shipping on every order</Label>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="tier-early-access"
+                checked={form.earlyAccess}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, earlyAccess: checked }))}
+              />
+              <Label htmlFor="tier-early-access">Early access to new products</Label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
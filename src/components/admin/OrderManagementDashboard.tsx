@@ -38,9 +38,11 @@ const OrderManagementDashboard: React.FC = () => {
       payment_method: 'credit-card',
       shipping_fee: 150,
       shipping_address: {
+        firstName: 'Sarah',
+        lastName: 'Johnson',
         address: '123 Fashion Street, Apartment 4B',
         city: 'Johannesburg',
-        region: 'Gauteng',
+        state: 'GP',
         zipCode: '2001',
         country: 'South Africa',
         phone: '+27 11 123 4567'
@@ -69,9 +71,11 @@ const OrderManagementDashboard: React.FC = () => {
       payment_method: 'bank-transfer',
       shipping_fee: 150,
       shipping_address: {
+        firstName: 'Michael',
+        lastName: 'Chen',
         address: '456 Style Avenue',
         city: 'Cape Town',
-        region: 'Western Cape',
+        state: 'WC',
         zipCode: '8001',
         country: 'South Africa',
         phone: '+27 21 987 6543'
@@ -95,9 +99,11 @@ const OrderManagementDashboard: React.FC = () => {
       payment_method: 'cash-on-delivery',
       shipping_fee: 150,
       shipping_address: {
+        firstName: 'Emma',
+        lastName: 'Williams',
         address: '789 Trendy Lane',
         city: 'Durban',
-        region: 'KwaZulu-Natal',
+        state: 'KZN',
         zipCode: '4001',
         country: 'South Africa',
         phone: '+27 31 555 4321'
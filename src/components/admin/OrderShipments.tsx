@@ -0,0 +1,265 @@
+import { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Loader2, Plus, Trash2, Truck } from 'lucide-react';
+import { toast } from 'sonner';
+import { getOrderShipments, createShipment, deleteShipment } from '../../utils/supabase/client';
+import type { ShipmentWithItems, ShipmentStatus } from '../../utils/supabase/client';
+import { COURIERS, getCourierName, SHIPMENT_STATUS_LABELS } from '../../utils/shipping';
+import { whatsAppService } from '../../utils/whatsAppService';
+
+interface ShippableOrder {
+  order_id: string;
+  status: string;
+  shipping_address: any;
+  order_items: any[];
+}
+
+interface OrderShipmentsProps {
+  order: ShippableOrder;
+}
+
+const SHIPMENT_STATUS_COLORS: Record<ShipmentStatus, string> = {
+  label_created: 'bg-neutral-700/40 text-neutral-200',
+  in_transit: 'bg-blue-600/20 text-blue-300',
+  out_for_delivery: 'bg-amber-500/20 text-amber-300',
+  delivered: 'bg-emerald-600/20 text-emerald-300',
+  exception: 'bg-rose-600/20 text-rose-300'
+};
+
+const getItemName = (item: any) =>
+  [item.products?.name || 'Product', item.size, item.color].filter(Boolean).join(' · ');
+
+// Shipments of an order with what each one carries, and a form to book the next one.
+// Tracked couriers move the order to shipped and delivered as their updates come in.
+export function OrderShipments({ order }: OrderShipmentsProps) {
+  const [shipments, setShipments] = useState<ShipmentWithItems[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [courier, setCourier] = useState(COURIERS[0].id);
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [labelReference, setLabelReference] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [notifyCustomer, setNotifyCustomer] = useState(true);
+
+  const canShip = ['processing', 'shipped'].includes(order.status);
+  const customerPhone: string | undefined = order.shipping_address?.phone;
+
+  const loadShipments = async () => {
+    setLoading(true);
+    const data = await getOrderShipments(order.order_id);
+    setShipments(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    setShowForm(false);
+    loadShipments();
+  }, [order.order_id, order.status]);
+
+  const getShippedQuantity = (orderItemId: string) =>
+    shipments.reduce(
+      (total, shipment) =>
+        total + shipment.shipment_items
+          .filter(item => item.order_item_id === orderItemId)
+          .reduce((sum, item) => sum + item.quantity, 0),
+      0
+    );
+
+  const unshippedItems = order.order_items
+    .map(item => ({ ...item, remaining: item.quantity - getShippedQuantity(item.id) }))
+    .filter(item => item.remaining > 0);
+
+  const openForm = () => {
+    setTrackingNumber('');
+    setLabelReference('');
+    setQuantities(Object.fromEntries(unshippedItems.map(item => [item.id, item.remaining])));
+    setShowForm(true);
+  };
+
+  const handleCreate = async () => {
+    if (!trackingNumber.trim()) {
+      toast.error('Enter the tracking number');
+      return;
+    }
+
+    const items = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+    if (items.length === 0) {
+      toast.error('Choose at least one item for this shipment');
+      return;
+    }
+
+    setSaving(true);
+    const shipmentId = await createShipment(order.order_id, { courier, trackingNumber, labelReference, items });
+    setSaving(false);
+
+    if (!shipmentId) {
+      toast.error('Failed to create shipment');
+      return;
+    }
+
+    toast.success('Shipment added');
+    if (notifyCustomer && customerPhone && whatsAppService.isConfigured()) {
+      const sent = await whatsAppService.sendShippingUpdate(
+        customerPhone,
+        order.order_id.slice(-8).toUpperCase(),
+        `${getCourierName(courier)} ${trackingNumber.trim()}`
+      );
+      if (!sent) toast.error('Could not send the WhatsApp shipping update');
+    }
+
+    setShowForm(false);
+    await loadShipments();
+  };
+
+  const handleDelete = async (shipment: ShipmentWithItems) => {
+    if (!window.confirm(`Remove the ${getCourierName(shipment.courier)} shipment ${shipment.tracking_number}?`)) return;
+
+    const success = await deleteShipment(shipment.id);
+    if (success) {
+      toast.success('Shipment removed');
+      await loadShipments();
+    } else {
+      toast.error('Failed to remove shipment');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Loading shipments...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {shipments.length === 0 && !showForm && (
+        <p className="text-[11px] text-muted-foreground">No shipments yet.</p>
+      )}
+
+      {shipments.map(shipment => (
+        <div key={shipment.id} className="rounded-md border border-neutral-800 p-2 space-y-1">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <Truck className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+              <span className="text-[11px] font-medium truncate">{getCourierName(shipment.courier)}</span>
+              <span className="text-[11px] font-mono truncate">{shipment.tracking_number}</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <Badge className={`${SHIPMENT_STATUS_COLORS[shipment.status]} text-[10px] px-2 py-0.5`}>
+                {SHIPMENT_STATUS_LABELS[shipment.status]}
+              </Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0"
+                onClick={() => handleDelete(shipment)}
+                aria-label="Remove shipment"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+          {shipment.status_detail && (
+            <p className="text-[10px] text-muted-foreground">{shipment.status_detail}</p>
+          )}
+          {shipment.label_reference && (
+            <p className="text-[10px] text-muted-foreground">Label {shipment.label_reference}</p>
+          )}
+          <ul className="text-[10px] text-muted-foreground">
+            {shipment.shipment_items.map(shipmentItem => {
+              const orderItem = order.order_items.find(item => item.id === shipmentItem.order_item_id);
+              return (
+                <li key={shipmentItem.id}>
+                  {shipmentItem.quantity} × {orderItem ? getItemName(orderItem) : 'Item'}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+
+      {showForm ? (
+        <div className="rounded-md border border-neutral-800 p-2 space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <Select value={courier} onValueChange={setCourier}>
+              <SelectTrigger className="h-7 text-[11px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COURIERS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}{option.tracked ? ' (tracked)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={trackingNumber}
+              onChange={(e) => setTrackingNumber(e.target.value)}
+              placeholder="Tracking number"
+              className="h-7 text-[11px]"
+            />
+            <Input
+              value={labelReference}
+              onChange={(e) => setLabelReference(e.target.value)}
+              placeholder="Label / waybill (optional)"
+              className="h-7 text-[11px]"
+            />
+          </div>
+          <div className="space-y-1">
+            {unshippedItems.map(item => (
+              <div key={item.id} className="flex items-center justify-between gap-2">
+                <span className="text-[11px] truncate">{getItemName(item)}</span>
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={item.remaining}
+                    value={quantities[item.id] ?? 0}
+                    onChange={(e) => setQuantities(prev => ({
+                      ...prev,
+                      [item.id]: Math.min(Math.max(Number(e.target.value) || 0, 0), item.remaining)
+                    }))}
+                    className="h-7 w-16 text-[11px]"
+                  />
+                  <span className="text-[10px] text-muted-foreground">of {item.remaining}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+          {customerPhone && whatsAppService.isConfigured() && (
+            <label className="flex items-center gap-2 text-[11px]">
+              <Checkbox checked={notifyCustomer} onCheckedChange={(checked) => setNotifyCustomer(checked === true)} />
+              Send the tracking number to the customer on WhatsApp
+            </label>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" className="h-7 text-[11px]" onClick={() => setShowForm(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button size="sm" className="h-7 text-[11px]" onClick={handleCreate} disabled={saving}>
+              {saving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Add shipment
+            </Button>
+          </div>
+        </div>
+      ) : (
+        canShip && unshippedItems.length > 0 && (
+          <Button variant="outline" size="sm" className="h-7 text-[11px]" onClick={openForm}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add shipment
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -16,9 +16,11 @@ const OrderViewExample: React.FC = () => {
     payment_method: 'credit-card',
     shipping_fee: 150,
     shipping_address: {
+      firstName: 'Sarah',
+      lastName: 'Johnson',
       address: '123 Fashion Street, Apartment 4B',
       city: 'Johannesburg',
-      region: 'Gauteng',
+      state: 'GP',
       zipCode: '2001',
       country: 'South Africa',
       phone: '+27 11 123 4567'
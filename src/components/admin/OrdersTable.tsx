@@ -6,15 +6,19 @@ import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '../ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Separator } from '../ui/separator';
+import { Input } from '../ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
 import { Loader2, Eye, Truck, CheckCircle, Package, DollarSign, User, MapPin, Calendar, CreditCard, FileText, Download, Printer, Circle, Trash2, Archive, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
-import { getRecentOrders, getAllOrders, updateOrderStatus, softDeleteOrder, restoreOrder, permanentlyDeleteOrder, getDeletedOrders } from '../../utils/supabase/client';
+import { getRecentOrders, getAllOrders, updateOrderStatus, getOrderEvents, setOrderPaymentStatus, softDeleteOrder, restoreOrder, permanentlyDeleteOrder, getDeletedOrders } from '../../utils/supabase/client';
+import type { PaymentStatus, OrderEvent } from '../../utils/supabase/client';
 import { formatCurrencyZAR } from '../../utils/currency';
-import { getStatusColor } from './constants';
+import { getStatusColor, getPaymentStatusColor } from './constants';
 import { generateInvoicePDFSimple as generateInvoicePDF, printInvoice, viewInvoiceInModal } from '../../utils/pdfUtilsSimple';
 import { Order as InvoiceOrder } from '../../types/invoice';
+import { OrderTimeline } from '../OrderTimeline';
+import { OrderShipments } from './OrderShipments';
 
 // Stable statuses constant to avoid recreating array every render (prevents effect loops)
 const STATUSES = ['all','pending','processing','shipped','delivered','cancelled'] as const;
@@ -38,6 +42,15 @@ interface EnhancedOrder {
   shipping_address: any;
   order_items: any[];
   payment_method?: string;
+  payment_status?: PaymentStatus;
+  paid_at?: string;
+  bank_reference?: string;
+  shipping_method?: string;
+  shipping_fee?: number;
+  coupon_code?: string;
+  discount_amount?: number;
+  points_redeemed?: number;
+  points_discount?: number;
 }
 
 export function OrdersTable({ showActions = false, showArchived = false }: OrdersTableProps) {
@@ -45,6 +58,11 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
   const [loading, setLoading] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<EnhancedOrder | null>(null);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [isUpdatingPayment, setIsUpdatingPayment] = useState(false);
+  const [statusNote, setStatusNote] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [orderEvents, setOrderEvents] = useState<OrderEvent[]>([]);
+  const [eventsLoading, setEventsLoading] = useState(false);
   const [pulseStage, setPulseStage] = useState<string | null>(null); // stage to animate after update
   const [ultraCompact, setUltraCompact] = useState(false); // extra dense list mode
   const statuses = STATUSES; // stable reference
@@ -72,6 +90,27 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
     return () => window.removeEventListener('resize', updateIndicator);
   }, [statusFilter, statuses]);
 
+  // Status history of the order being viewed, reloaded after each status change
+  useEffect(() => {
+    if (!selectedOrder) return;
+    let cancelled = false;
+    setEventsLoading(true);
+    getOrderEvents(selectedOrder.order_id).then((data) => {
+      if (cancelled) return;
+      setOrderEvents(data);
+      setEventsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrder?.order_id, selectedOrder?.status]);
+
+  // Start each order with an empty note and tracking number
+  useEffect(() => {
+    setStatusNote('');
+    setTrackingNumber('');
+  }, [selectedOrder?.order_id]);
+
   const fetchOrders = async () => {
     try {
       let data;
@@ -100,6 +139,15 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
           shipping_address: order.shipping_address,
           order_items: order.order_items || [],
           payment_method: order.shipping_address?.paymentMethod || order.payment_method || 'N/A',
+          payment_status: order.payment_status,
+          paid_at: order.paid_at || undefined,
+          bank_reference: order.bank_reference,
+          shipping_method: order.shipping_method_name || undefined,
+          shipping_fee: order.shipping_fee,
+          coupon_code: order.coupon_code || undefined,
+          discount_amount: order.discount_amount,
+          points_redeemed: order.points_redeemed,
+          points_discount: order.points_discount,
           deleted_at: order.deleted_at
         }));
         setOrders(transformedOrders);
@@ -115,7 +163,8 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
           order_date: new Date(order.order_date).toLocaleDateString(),
           shipping_address: null,
           order_items: [],
-          payment_method: 'N/A'
+          payment_method: 'N/A',
+          payment_status: order.payment_status
         }));
         setOrders(transformedOrders);
       }
@@ -130,16 +179,27 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
   const updateOrderStatusHandler = async (orderId: string, newStatus: string) => {
     setIsUpdatingStatus(true);
     try {
-      const success = await updateOrderStatus(orderId, newStatus);
+      const success = await updateOrderStatus(orderId, newStatus, {
+        note: statusNote,
+        trackingNumber: newStatus === 'shipped' ? trackingNumber : undefined
+      });
       if (success) {
-        // Update local state
+        setStatusNote('');
+        setTrackingNumber('');
+
+        // Update local state; cancelling a paid order marks it for refund
+        const applyUpdate = (order: EnhancedOrder): EnhancedOrder => ({
+          ...order,
+          status: newStatus,
+          payment_status: newStatus === 'cancelled' && order.payment_status === 'paid' ? 'refund_due' : order.payment_status
+        });
         setOrders(prev => prev.map(order =>
-          order.order_id === orderId ? { ...order, status: newStatus } : order
+          order.order_id === orderId ? applyUpdate(order) : order
         ));
 
         // Update selected order if it's being viewed
         if (selectedOrder?.order_id === orderId) {
-          setSelectedOrder(prev => prev ? { ...prev, status: newStatus } : null);
+          setSelectedOrder(prev => prev ? applyUpdate(prev) : null);
         }
 
         // Trigger pulse animation for the new active stage if in main flow
@@ -159,6 +219,32 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
     }
   };
 
+  // Card payments are updated by the provider's notification; this covers
+  // bank transfers and refunds made from the provider's dashboard
+  const updatePaymentStatusHandler = async (orderId: string, newStatus: PaymentStatus) => {
+    setIsUpdatingPayment(true);
+    try {
+      const success = await setOrderPaymentStatus(orderId, newStatus);
+      if (success) {
+        const paidAt = newStatus === 'paid' ? new Date().toISOString() : undefined;
+        const applyUpdate = (order: EnhancedOrder) => ({
+          ...order,
+          payment_status: newStatus,
+          paid_at: paidAt || order.paid_at
+        });
+        setOrders(prev => prev.map(order => (order.order_id === orderId ? applyUpdate(order) : order)));
+        if (selectedOrder?.order_id === orderId) {
+          setSelectedOrder(prev => prev ? applyUpdate(prev) : null);
+        }
+        toast.success(`Payment marked as ${newStatus}`);
+      } else {
+        toast.error('Failed to update payment status');
+      }
+    } finally {
+      setIsUpdatingPayment(false);
+    }
+  };
+
   const handleSoftDeleteOrder = async (orderId: string) => {
     try {
       const success = await softDeleteOrder(orderId);
@@ -398,6 +484,11 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
                         {order.payment_method === 'credit-card' && '💳 Card'}
                         {!order.payment_method || order.payment_method === 'N/A' ? 'N/A' : order.payment_method}
                       </div>
+                      {order.payment_status && (
+                        <Badge className={`${getPaymentStatusColor(order.payment_status)} w-fit text-[9px] px-1.5 py-0.5`}>
+                          {order.payment_status.replace('_', ' ')}
+                        </Badge>
+                      )}
                       <div className="text-neutral-500">{order.order_date}</div>
                     </div>
                   </TableCell>
@@ -477,6 +568,11 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
                       {order.payment_method === 'credit-card' && '💳 Card'}
                       {!order.payment_method || order.payment_method === 'N/A' ? 'N/A' : order.payment_method}
                     </div>
+                    {order.payment_status && (
+                      <Badge className={`${getPaymentStatusColor(order.payment_status)} w-fit mt-1 text-[10px] px-1.5 py-0.5`}>
+                        {order.payment_status.replace('_', ' ')}
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>{order.order_date}</TableCell>
                   {showActions && (
@@ -536,6 +632,9 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
               <DialogTitle className="flex items-center gap-2 text-base sm:text-lg">
                 <span className="font-semibold">Order #{selectedOrder?.order_id.slice(-8)}</span>
                 <Badge className={`${selectedOrder ? getStatusColor(selectedOrder.status) : ''} text-[10px] px-2 py-0.5`}>{selectedOrder?.status}</Badge>
+                {selectedOrder?.payment_status && (
+                  <Badge className={`${getPaymentStatusColor(selectedOrder.payment_status)} text-[10px] px-2 py-0.5`}>{selectedOrder.payment_status}</Badge>
+                )}
               </DialogTitle>
             </DialogHeader>
             {/* Sticky mini-header for quick context when scrolling */}
@@ -632,6 +731,9 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
                         <p>{selectedOrder.shipping_address.country}</p>
                         <p className="text-muted-foreground">📞 {selectedOrder.shipping_address.phone}</p>
                         <p className="text-muted-foreground">✉️ {selectedOrder.shipping_address.email}</p>
+                        {selectedOrder.shipping_method && (
+                          <p className="pt-1 font-medium">🚚 {selectedOrder.shipping_method}</p>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -657,6 +759,24 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
                           </div>
                         ))}
                         <Separator className="my-1" />
+                        {selectedOrder.shipping_fee !== undefined && (
+                          <div className="flex justify-between items-center text-xs text-muted-foreground">
+                            <span>Shipping{selectedOrder.shipping_method ? ` (${selectedOrder.shipping_method})` : ''}</span>
+                            <span>{selectedOrder.shipping_fee === 0 ? 'FREE' : formatCurrency(selectedOrder.shipping_fee)}</span>
+                          </div>
+                        )}
+                        {!!selectedOrder.discount_amount && (
+                          <div className="flex justify-between items-center text-xs text-green-500">
+                            <span>Discount{selectedOrder.coupon_code ? ` (${selectedOrder.coupon_code})` : ''}</span>
+                            <span>-{formatCurrency(selectedOrder.discount_amount)}</span>
+                          </div>
+                        )}
+                        {!!selectedOrder.points_discount && (
+                          <div className="flex justify-between items-center text-xs text-green-500">
+                            <span>Points ({selectedOrder.points_redeemed} pts)</span>
+                            <span>-{formatCurrency(selectedOrder.points_discount)}</span>
+                          </div>
+                        )}
                         <div className="flex justify-between items-center text-xs font-semibold">
                           <span>Total</span>
                           <span>{formatCurrency(selectedOrder.amount)}</span>
@@ -736,10 +856,124 @@ export function OrdersTable({ showActions = false, showArchived = false }: Order
                           )}
                         </div>
                       </div>
+                      {getNextStatus(selectedOrder.status).length > 0 && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                          <Input
+                            value={statusNote}
+                            onChange={(e) => setStatusNote(e.target.value)}
+                            placeholder="Note for the customer (optional)"
+                            className="h-7 text-[11px]"
+                            disabled={isUpdatingStatus}
+                          />
+                          {selectedOrder.status === 'processing' && (
+                            <Input
+                              value={trackingNumber}
+                              onChange={(e) => setTrackingNumber(e.target.value)}
+                              placeholder="Tracking number (when shipping)"
+                              className="h-7 text-[11px]"
+                              disabled={isUpdatingStatus}
+                            />
+                          )}
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
 
+                {/* Status History */}
+                <Card className="border-neutral-800/70 bg-neutral-900/40">
+                  <CardHeader className="pb-2 px-3 pt-3">
+                    <CardTitle className="text-sm flex items-center gap-2 font-semibold tracking-wide">
+                      History
+                      {eventsLoading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="px-3 pb-3 pt-0">
+                    {!eventsLoading && orderEvents.length === 0 ? (
+                      <p className="text-[11px] text-muted-foreground">No status changes recorded.</p>
+                    ) : (
+                      <OrderTimeline status={selectedOrder.status} events={orderEvents} showActor />
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Shipments */}
+                {showActions && (
+                  <Card className="border-neutral-800/70 bg-neutral-900/40">
+                    <CardHeader className="pb-2 px-3 pt-3">
+                      <CardTitle className="text-sm flex items-center gap-2 font-semibold tracking-wide">
+                        <Truck className="h-4 w-4" />
+                        Shipments
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="px-3 pb-3 pt-0">
+                      <OrderShipments order={selectedOrder} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Payment Management */}
+                {selectedOrder.payment_status && (
+                  <Card className="border-neutral-800/70 bg-neutral-900/40">
+                    <CardHeader className="pb-2 px-3 pt-3">
+                      <CardTitle className="text-sm flex items-center gap-2 font-semibold tracking-wide">
+                        <CreditCard className="h-4 w-4" />
+                        Payment
+                        {isUpdatingPayment && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="px-3 pb-3 pt-0">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <Badge className={`${getPaymentStatusColor(selectedOrder.payment_status)} text-[10px] px-2 py-0.5`}>
+                          {selectedOrder.payment_status.replace('_', ' ')}
+                        </Badge>
+                        {selectedOrder.paid_at && (
+                          <span className="text-[10px] text-muted-foreground">
+                            Paid {new Date(selectedOrder.paid_at).toLocaleString()}
+                          </span>
+                        )}
+                        {(selectedOrder.payment_status === 'awaiting' || selectedOrder.payment_status === 'failed') && (
+                          <Button
+                            variant="outline"
+                            disabled={isUpdatingPayment}
+                            onClick={() => updatePaymentStatusHandler(selectedOrder.order_id, 'paid')}
+                            className="h-7 px-3 text-[10px]"
+                          >
+                            Mark as paid
+                          </Button>
+                        )}
+                        {(selectedOrder.payment_status === 'paid' || selectedOrder.payment_status === 'refund_due') && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant={selectedOrder.payment_status === 'refund_due' ? 'default' : 'outline'} disabled={isUpdatingPayment} className="h-7 px-3 text-[10px]">
+                                Mark as refunded
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Mark payment as refunded?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This only records the refund. Send the money back from your bank or the payment provider's dashboard first.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => updatePaymentStatusHandler(selectedOrder.order_id, 'refunded')}>
+                                  Mark as refunded
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                      {selectedOrder.payment_status === 'refund_due' && (
+                        <p className="text-[10px] text-orange-300 mt-2 leading-tight">This order was cancelled after it was paid. Refund {formatCurrency(selectedOrder.amount)} to the customer, then mark it as refunded.</p>
+                      )}
+                      <p className="text-[10px] text-muted-foreground mt-2 leading-tight">Card payments update automatically when the provider confirms them.</p>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Invoice Actions */}
                 <Card className="border-neutral-800/70 bg-neutral-900/40">
                   <CardHeader className="pb-2 px-3 pt-3">
@@ -5,20 +5,31 @@ import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Textarea } from '../ui/textarea';
-import { Checkbox } from '../ui/checkbox';
 import { Progress } from '../ui/progress';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Badge } from '../ui/badge';
 import { Plus, Upload, X, Image as ImageIcon, AlertCircle, CheckCircle, Trash2, Save, Crop, ChevronDown, RotateCcw } from 'lucide-react';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '../ui/accordion';
 import ImageUploadService, { ImageUploadOptions } from '../../utils/imageUpload';
-import { createProduct, updateProduct } from '../../utils/supabase/client';
+import { createProduct, updateProduct, saveProductVariants } from '../../utils/supabase/client';
 import { toast } from 'sonner';
 import type { Product } from '../../App';
+import { useProducts } from '../../contexts/ProductContext';
+import { formatCategoryLabel } from '../../utils/categories';
 import { ImageCropper } from './ImageCropper';
 import type { CropCompletionResult, EditHistoryEntry } from './ImageCropper';
 import type { StoredAiRun } from '../../utils/qwenImageEditor';
 
+const variantKey = (size: string, color: string) => `${size}|${color}`;
+
+const buildVariantStock = (product: Product | null): Record<string, number> => {
+  const stock: Record<string, number> = {};
+  (product?.variants || []).forEach(variant => {
+    stock[variantKey(variant.size, variant.color)] = variant.stock;
+  });
+  return stock;
+};
+
 const createUploadedImageId = () => (
   typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
     ? crypto.randomUUID()
@@ -101,16 +112,17 @@ interface PromoteAiRunResponse {
 export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode = 'create', product = null, onSuccess, onCancel, onCropImage }, ref) => {
   const [formData, setFormData] = useState({
     name: product?.name || '',
-    category: product?.category || 'Casual' as Product['category'],
+    category: product?.category || '',
     price: product?.price?.toString() || '',
     originalPrice: product?.originalPrice?.toString() || '',
+    earlyAccessUntil: product?.earlyAccessUntil?.slice(0, 10) || '', // yyyy-mm-dd for the date input
     description: product?.description || '',
-    inStock: product?.inStock ?? true,
     sizes: product?.sizes || ['S', 'M', 'L'],
     colors: product?.colors || ['Black', 'White'],
     images: product?.images || [] as string[]
   });
 
+  const { categories } = useProducts();
   const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
   const [existingImages, setExistingImages] = useState<string[]>(product?.images || []);
   const [isUploading, setIsUploading] = useState(false);
@@ -118,6 +130,10 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
   const [dragActive, setDragActive] = useState(false);
   const [newSizeInput, setNewSizeInput] = useState('');
   const [newColorInput, setNewColorInput] = useState('');
+  // Units in stock per size/color, keyed by variantKey
+  const [variantStock, setVariantStock] = useState<Record<string, number>>(() => buildVariantStock(product));
+  // Stock as loaded, so a save made after units were sold is rejected instead of overwriting them
+  const [savedStock, setSavedStock] = useState<Record<string, number>>(() => buildVariantStock(product));
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [existingPreviewOverrides, setExistingPreviewOverrides] = useState<Record<string, string>>({});
   const existingOverrideUrlsRef = useRef<string[]>([]);
@@ -436,6 +452,21 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
     }));
   };
 
+  const getStock = (size: string, color: string) => variantStock[variantKey(size, color)] ?? 0;
+
+  const setStock = (size: string, color: string, value: string) => {
+    const parsed = parseInt(value, 10);
+    setVariantStock(prev => ({
+      ...prev,
+      [variantKey(size, color)]: isNaN(parsed) ? 0 : Math.max(0, parsed)
+    }));
+  };
+
+  const totalStock = formData.sizes.reduce(
+    (sum, size) => sum + formData.colors.reduce((colorSum, color) => colorSum + getStock(size, color), 0),
+    0
+  );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -444,6 +475,11 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
       return;
     }
 
+    if (!formData.category) {
+      toast.error('Please choose a category');
+      return;
+    }
+
     if (!formData.price || isNaN(parseFloat(formData.price))) {
       toast.error('Valid price is required');
       return;
@@ -463,8 +499,8 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
         category: formData.category,
         price: parseFloat(formData.price),
         original_price: formData.originalPrice ? parseFloat(formData.originalPrice) : undefined,
+        early_access_until: formData.earlyAccessUntil ? new Date(formData.earlyAccessUntil).toISOString() : null,
         description: formData.description,
-        in_stock: formData.inStock,
         sizes: formData.sizes,
         colors: formData.colors,
         images: [...existingImages] // Start with existing images
@@ -485,6 +521,22 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
         targetProductId = createdProduct.id;
       }
 
+      // Stock is stored per size/color; products.in_stock is derived from it by the database
+      try {
+        await saveProductVariants(
+          targetProductId,
+          formData.sizes.flatMap(size => formData.colors.map(color => ({
+            size,
+            color,
+            stock: getStock(size, color),
+            expectedStock: savedStock[variantKey(size, color)] ?? null
+          })))
+        );
+        setSavedStock(variantStock);
+      } catch (error) {
+        toast.error(`Product saved, but stock levels were not updated: ${error instanceof Error ? error.message : 'please try again'}`);
+      }
+
       // Upload new images if any
       let finalImageUrls = [...existingImages];
 
@@ -608,15 +660,17 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
       if (mode === 'create') {
         setFormData({
           name: '',
-          category: 'Casual',
+          category: '',
           price: '',
           originalPrice: '',
+          earlyAccessUntil: '',
           description: '',
-          inStock: true,
           sizes: ['S', 'M', 'L'],
           colors: ['Black', 'White'],
           images: []
         });
+        setVariantStock({});
+        setSavedStock({});
         setExistingImages([]);
       } else {
         setExistingImages(finalImageUrls);
@@ -683,20 +737,19 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
                   <Label htmlFor="category">Category</Label>
                   <Select
                     value={formData.category}
-                    onValueChange={(value: Product['category']) =>
+                    onValueChange={(value) =>
                       setFormData(prev => ({ ...prev, category: value }))
                     }
                   >
                     <SelectTrigger>
-                      <SelectValue />
+                      <SelectValue placeholder="Choose a category" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="Casual">Casual</SelectItem>
-                      <SelectItem value="Party">Party</SelectItem>
-                      <SelectItem value="Shoes">Shoes</SelectItem>
-                      <SelectItem value="Outwear">Outwear</SelectItem>
-                      <SelectItem value="Dresses">Dresses</SelectItem>
-                      <SelectItem value="Accessories">Accessories</SelectItem>
+                      {categories.map(category => (
+                        <SelectItem key={category.id} value={category.name}>
+                          {formatCategoryLabel(categories, category)}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -739,19 +792,23 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
                     />
                   </div>
                 </div>
+                <div>
+                  <Label htmlFor="early-access-until">Early access until</Label>
+                  <Input
+                    id="early-access-until"
+                    type="date"
+                    value={formData.earlyAccessUntil}
+                    onChange={(e) => setFormData(prev => ({ ...prev, earlyAccessUntil: e.target.value }))}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Until this date only membership tiers with early access can order it. Leave empty to release it to everyone.
+                  </p>
+                </div>
               </AccordionContent>
             </AccordionItem>
             <AccordionItem value="inventory">
               <AccordionTrigger className="text-sm font-medium">Inventory & Variants</AccordionTrigger>
               <AccordionContent className="space-y-5 pt-2">
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="in-stock"
-                    checked={formData.inStock}
-                    onCheckedChange={(checked: boolean) => setFormData(prev => ({ ...prev, inStock: checked }))}
-                  />
-                  <Label htmlFor="in-stock">In Stock</Label>
-                </div>
                 <div>
                   <Label>Sizes</Label>
                   <div className="flex gap-2 mb-2">
@@ -812,6 +869,51 @@ export const ProductForm = forwardRef<ProductFormRef, ProductFormProps>(({ mode
                     ))}
                   </div>
                 </div>
+                {formData.sizes.length > 0 && formData.colors.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <Label>Stock per Variant</Label>
+                      <Badge variant={totalStock > 0 ? 'secondary' : 'destructive'}>
+                        {totalStock > 0 ? `${totalStock} units in stock` : 'Out of stock'}
+                      </Badge>
+                    </div>
+                    <div className="overflow-x-auto rounded-md border border-neutral-800">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="bg-neutral-900/60">
+                            <th className="px-3 py-2 text-left font-medium">Size</th>
+                            {formData.colors.map(color => (
+                              <th key={color} className="px-3 py-2 text-left font-medium">{color}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {formData.sizes.map(size => (
+                            <tr key={size} className="border-t border-neutral-800">
+                              <td className="px-3 py-2 font-medium">{size}</td>
+                              {formData.colors.map(color => (
+                                <td key={color} className="px-2 py-1">
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    aria-label={`Stock for ${size} / ${color}`}
+                                    value={getStock(size, color)}
+                                    onChange={(e) => setStock(size, color, e.target.value)}
+                                    className={`h-8 w-20 ${getStock(size, color) === 0 ? 'text-muted-foreground' : ''}`}
+                                  />
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Variants with 0 units are shown as sold out on the product page.
+                    </p>
+                  </div>
+                )}
               </AccordionContent>
             </AccordionItem>
             <AccordionItem value="media">
@@ -10,6 +10,8 @@ import { Edit, Trash2, Search, Eye, Star, Package, Palette, Ruler, AlertTriangle
 import { toast } from 'sonner';
 import { deleteProduct } from '../../utils/supabase/client';
 import type { Product } from '../../App';
+import { useProducts } from '../../contexts/ProductContext';
+import { formatCategoryLabel } from '../../utils/categories';
 
 interface ProductListProps {
   products: Product[];
@@ -20,6 +22,7 @@ interface ProductListProps {
 export function ProductList({ products, onEditProduct, onRefresh }: ProductListProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
+  const { categories } = useProducts();
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
 
@@ -90,12 +93,11 @@ export function ProductList({ products, onEditProduct, onRefresh }: ProductListP
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="All">All Categories</SelectItem>
-              <SelectItem value="Casual">Casual</SelectItem>
-              <SelectItem value="Party">Party</SelectItem>
-              <SelectItem value="Shoes">Shoes</SelectItem>
-              <SelectItem value="Outwear">Outwear</SelectItem>
-              <SelectItem value="Dresses">Dresses</SelectItem>
-              <SelectItem value="Accessories">Accessories</SelectItem>
+              {categories.map(category => (
+                <SelectItem key={category.id} value={category.name}>
+                  {formatCategoryLabel(categories, category)}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
           
@@ -512,7 +514,7 @@ function ProductDetailModal({ product }: ProductDetailModalProps) {
                 />
               ))}
             </div>
-            <span className="text-sm">{product.rating} ({product.reviews.length} reviews)</span>
+            <span className="text-sm">{product.rating} ({product.reviewCount ?? product.reviews.length} reviews)</span>
           </div>
         </div>
       </div>
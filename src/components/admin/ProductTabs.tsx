@@ -2,10 +2,12 @@ import { useState, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
-import { Package, Trash2, RotateCcw, Archive } from 'lucide-react';
+import { Package, Trash2, RotateCcw, Archive, FolderTree } from 'lucide-react';
 import { ProductList } from './ProductList';
 import { DeletedInventoryList } from './DeletedInventoryList';
+import { CategoryManager } from './CategoryManager';
 import { getAllProducts, getDeletedProducts } from '../../utils/supabase/client';
+import { toProduct } from '../../contexts/ProductContext';
 import { toast } from 'sonner';
 import type { Product } from '../../App';
 
@@ -28,12 +30,17 @@ export function ProductTabs({ onEditProduct }: ProductTabsProps) {
       // Load active products
       const activeData = await getAllProducts();
       console.log('📦 ProductTabs: Active products loaded:', activeData.length);
-      setActiveProducts(activeData);
+      setActiveProducts(activeData.map(toProduct));
 
       // Load deleted products
       const deletedData = await getDeletedProducts();
       console.log('🗑️ ProductTabs: Deleted products loaded:', deletedData.length);
-      setDeletedProducts(deletedData);
+      // The deleted list shows when each product was removed
+      setDeletedProducts(deletedData.map(row => ({
+        ...toProduct(row),
+        deleted_at: row.deleted_at ?? row.updated_at,
+        updated_at: row.updated_at
+      })));
       
     } catch (error) {
       console.error('❌ ProductTabs: Error loading products:', error);
@@ -101,7 +108,7 @@ export function ProductTabs({ onEditProduct }: ProductTabsProps) {
 
       {/* Product Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2 bg-neutral-800/60 backdrop-blur">
+        <TabsList className="grid w-full grid-cols-3 bg-neutral-800/60 backdrop-blur">
           <TabsTrigger 
             value="active" 
             className="flex items-center gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-green-500 data-[state=active]:to-emerald-600 data-[state=active]:text-white"
@@ -122,6 +129,13 @@ export function ProductTabs({ onEditProduct }: ProductTabsProps) {
               {deletedProducts.length}
             </Badge>
           </TabsTrigger>
+          <TabsTrigger 
+            value="categories" 
+            className="flex items-center gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-pink-600 data-[state=active]:text-white"
+          >
+            <FolderTree className="h-4 w-4" />
+            Categories
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="active" className="mt-6">
@@ -138,6 +152,10 @@ export function ProductTabs({ onEditProduct }: ProductTabsProps) {
             onRefresh={handleRefresh}
           />
         </TabsContent>
+
+        <TabsContent value="categories" className="mt-6">
+          <CategoryManager />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,438 @@
+import { useState, useEffect } from 'react';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Checkbox } from '../ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Tabs, TabsList, TabsTrigger } from '../ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Loader2, RefreshCw, Image as ImageIcon, CheckCircle, XCircle, PackageCheck, Banknote } from 'lucide-react';
+import { toast } from 'sonner';
+import { getReturnQueue, reviewReturn, receiveReturn, resolveReturn, getReturnPhotoUrls } from '../../utils/supabase/client';
+import type { ReturnRequest, ReturnResolution } from '../../utils/supabase/client';
+import { RETURN_REASON_LABELS, RETURN_RESOLUTION_LABELS } from '../../utils/returns';
+import { formatCurrencyZAR } from '../../utils/currency';
+
+interface QueuedReturn extends ReturnRequest {
+  order_items: {
+    id: string;
+    quantity: number;
+    price_at_purchase: number;
+    size: string | null;
+    color: string | null;
+    products: { id: string; name: string; image_url: string | null } | null;
+  } | null;
+  orders: {
+    id: string;
+    bank_reference: string | null;
+    total_amount: number;
+    refunded_amount: number;
+    payment_status: string;
+    customer_email: string | null;
+    customer_name: string | null;
+    users: { email: string; name: string } | null;
+  } | null;
+}
+
+type QueueView = 'requested' | 'approved' | 'received' | 'closed';
+
+const VIEW_STATUSES: Record<QueueView, ReturnRequest['status'][]> = {
+  requested: ['requested'],
+  approved: ['approved'],
+  received: ['received'],
+  closed: ['resolved', 'rejected']
+};
+
+const EMPTY_MESSAGES: Record<QueueView, string> = {
+  requested: 'No returns waiting for approval',
+  approved: 'No approved returns on their way back',
+  received: 'No received returns waiting to be resolved',
+  closed: 'No resolved or rejected returns'
+};
+
+const getItemValue = (request: QueuedReturn) =>
+  (request.order_items?.price_at_purchase || 0) * request.quantity;
+
+// Return and exchange requests, moved from approval through receipt to a refund, store credit or exchange
+export function ReturnsQueue() {
+  const [view, setView] = useState<QueueView>('requested');
+  const [returns, setReturns] = useState<QueuedReturn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyReturnId, setBusyReturnId] = useState<string | null>(null);
+
+  const [reviewing, setReviewing] = useState<{ request: QueuedReturn; approve: boolean } | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const [labelReference, setLabelReference] = useState('');
+
+  const [receiving, setReceiving] = useState<QueuedReturn | null>(null);
+  const [restock, setRestock] = useState(true);
+
+  const [resolving, setResolving] = useState<QueuedReturn | null>(null);
+  const [resolution, setResolution] = useState<ReturnResolution>('refund');
+  const [amount, setAmount] = useState('');
+
+  const loadQueue = async () => {
+    setLoading(true);
+    const data = await getReturnQueue(VIEW_STATUSES[view]);
+    setReturns(data as unknown as QueuedReturn[]);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, [view]);
+
+  const handleViewPhotos = async (request: QueuedReturn) => {
+    const urls = await getReturnPhotoUrls(request.photo_paths);
+    if (urls.length === 0) {
+      toast.error('Could not open the photos');
+      return;
+    }
+    urls.forEach(url => window.open(url, '_blank', 'noopener,noreferrer'));
+  };
+
+  const closeReview = () => {
+    setReviewing(null);
+    setReviewNote('');
+    setLabelReference('');
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) return;
+    if (!reviewing.approve && !reviewNote.trim()) {
+      toast.error('Tell the customer why the return was not accepted');
+      return;
+    }
+
+    setBusyReturnId(reviewing.request.id);
+    const reviewed = await reviewReturn(reviewing.request.id, reviewing.approve, {
+      note: reviewNote,
+      labelReference
+    });
+    setBusyReturnId(null);
+
+    if (reviewed) {
+      setReturns(prev => prev.filter(r => r.id !== reviewing.request.id));
+      toast.success(`${reviewing.request.rma_number} ${reviewing.approve ? 'approved' : 'rejected'}`);
+      closeReview();
+    } else {
+      toast.error('Failed to review return');
+    }
+  };
+
+  const handleReceive = async () => {
+    if (!receiving) return;
+
+    setBusyReturnId(receiving.id);
+    const received = await receiveReturn(receiving.id, restock);
+    setBusyReturnId(null);
+
+    if (received) {
+      setReturns(prev => prev.filter(r => r.id !== receiving.id));
+      toast.success(`${receiving.rma_number} received${restock ? ' and restocked' : ''}`);
+      setReceiving(null);
+      setRestock(true);
+    } else {
+      toast.error('Failed to receive return');
+    }
+  };
+
+  const openResolve = (request: QueuedReturn) => {
+    setResolving(request);
+    setResolution(request.request_type === 'exchange' ? 'exchange' : 'refund');
+    setAmount(getItemValue(request).toFixed(2));
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+
+    const value = Number(amount);
+    if (resolution !== 'exchange' && (!Number.isFinite(value) || value <= 0)) {
+      toast.error('Enter an amount greater than zero');
+      return;
+    }
+
+    setBusyReturnId(resolving.id);
+    const result = await resolveReturn(resolving.id, resolution, resolution === 'exchange' ? undefined : value);
+    setBusyReturnId(null);
+
+    if (result) {
+      setReturns(prev => prev.filter(r => r.id !== resolving.id));
+      toast.success(
+        result.storeCreditCode
+          ? `Store credit ${result.storeCreditCode} issued for ${resolving.rma_number}`
+          : `${resolving.rma_number} resolved`
+      );
+      setResolving(null);
+    } else {
+      toast.error('Failed to resolve return');
+    }
+  };
+
+  const renderActions = (request: QueuedReturn) => {
+    const busy = busyReturnId === request.id;
+
+    switch (request.status) {
+      case 'requested':
+        return (
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="outline" disabled={busy} onClick={() => setReviewing({ request, approve: false })}>
+              <XCircle className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+            <Button size="sm" disabled={busy} onClick={() => setReviewing({ request, approve: true })}>
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+          </div>
+        );
+      case 'approved':
+        return (
+          <Button size="sm" disabled={busy} onClick={() => setReceiving(request)}>
+            <PackageCheck className="h-4 w-4 mr-1" />
+            Received
+          </Button>
+        );
+      case 'received':
+        return (
+          <Button size="sm" disabled={busy} onClick={() => openResolve(request)}>
+            <Banknote className="h-4 w-4 mr-1" />
+            Resolve
+          </Button>
+        );
+      default:
+        return (
+          <Badge variant="outline">
+            {request.status === 'rejected'
+              ? 'Rejected'
+              : `${RETURN_RESOLUTION_LABELS[request.resolution as ReturnResolution]}${
+                  request.resolution_amount ? ` ${formatCurrencyZAR(request.resolution_amount)}` : ''
+                }`}
+          </Badge>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Tabs value={view} onValueChange={(value) => setView(value as QueueView)}>
+          <TabsList>
+            <TabsTrigger value="requested">To Review</TabsTrigger>
+            <TabsTrigger value="approved">On Their Way</TabsTrigger>
+            <TabsTrigger value="received">To Resolve</TabsTrigger>
+            <TabsTrigger value="closed">Closed</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Button variant="outline" size="sm" onClick={loadQueue}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading returns...</span>
+        </div>
+      ) : returns.length === 0 ? (
+        <div className="text-center p-8 text-muted-foreground">{EMPTY_MESSAGES[view]}</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>RMA</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Item</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {returns.map(request => (
+              <TableRow key={request.id}>
+                <TableCell>
+                  <div className="font-mono font-medium">{request.rma_number}</div>
+                  <div className="text-xs text-muted-foreground">
+                    #{request.order_id.slice(-8)} · {new Date(request.created_at).toLocaleDateString()}
+                  </div>
+                  {request.return_label_reference && (
+                    <div className="text-xs text-muted-foreground">Label {request.return_label_reference}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">{request.orders?.users?.name || request.orders?.customer_name || 'N/A'}</div>
+                  <div className="text-sm text-muted-foreground">{request.orders?.users?.email || request.orders?.customer_email || 'N/A'}</div>
+                </TableCell>
+                <TableCell>
+                  <div className="font-medium">
+                    {request.quantity} × {request.order_items?.products?.name || 'Product'}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {[request.order_items?.size, request.order_items?.color].filter(Boolean).join(' · ')}
+                    {' · '}{formatCurrencyZAR(getItemValue(request))}
+                  </div>
+                  {request.request_type === 'exchange' && (
+                    <div className="text-xs">
+                      Exchange for {[request.exchange_size, request.exchange_color].filter(Boolean).join(' · ')}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[240px]">
+                  <div>{RETURN_REASON_LABELS[request.reason]}</div>
+                  {request.details && (
+                    <div className="text-xs text-muted-foreground line-clamp-3">{request.details}</div>
+                  )}
+                  {request.photo_paths.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleViewPhotos(request)}
+                      className="flex items-center gap-1 text-xs underline underline-offset-2 hover:text-primary"
+                    >
+                      <ImageIcon className="h-3 w-3" />
+                      {request.photo_paths.length} photo{request.photo_paths.length === 1 ? '' : 's'}
+                    </button>
+                  )}
+                  {request.admin_note && (
+                    <div className="text-xs text-muted-foreground mt-1">Note: {request.admin_note}</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{renderActions(request)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && closeReview()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.approve ? 'Approve' : 'Reject'} {reviewing?.request.rma_number}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.approve
+                ? 'The customer sees the return label reference and note in their order history.'
+                : 'The customer sees this note in their order history.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {reviewing?.approve && (
+              <div>
+                <Label htmlFor="return-label">Return label reference (optional)</Label>
+                <Input
+                  id="return-label"
+                  value={labelReference}
+                  onChange={(e) => setLabelReference(e.target.value)}
+                  placeholder="e.g. courier collection or waybill number"
+                />
+              </div>
+            )}
+            <Textarea
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              placeholder={reviewing?.approve ? 'Note for the customer (optional)' : 'e.g. The item has been worn'}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={closeReview}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.approve ? 'default' : 'destructive'}
+              onClick={handleReview}
+              disabled={busyReturnId !== null}
+            >
+              {reviewing?.approve ? 'Approve' : 'Reject'}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!receiving} onOpenChange={(open) => { if (!open) { setReceiving(null); setRestock(true); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Receive {receiving?.rma_number}</DialogTitle>
+            <DialogDescription>
+              Confirm the parcel has arrived and check the condition of the items.
+            </DialogDescription>
+          </DialogHeader>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={restock} onCheckedChange={(checked) => setRestock(checked === true)} />
+            Put {receiving?.quantity} × {[receiving?.order_items?.size, receiving?.order_items?.color].filter(Boolean).join(' · ')} back in stock
+          </label>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => { setReceiving(null); setRestock(true); }}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={busyReturnId !== null}>
+              Mark Received
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resolve {resolving?.rma_number}</DialogTitle>
+            <DialogDescription>
+              Refunds are recorded against the original order; pay them out through the same payment method.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label>Resolution</Label>
+              <Select value={resolution} onValueChange={(value) => setResolution(value as ReturnResolution)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="refund">{RETURN_RESOLUTION_LABELS.refund}</SelectItem>
+                  <SelectItem value="store_credit">{RETURN_RESOLUTION_LABELS.store_credit}</SelectItem>
+                  {resolving?.request_type === 'exchange' && (
+                    <SelectItem value="exchange">
+                      {RETURN_RESOLUTION_LABELS.exchange} ({[resolving.exchange_size, resolving.exchange_color].filter(Boolean).join(' · ')})
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            {resolution !== 'exchange' && (
+              <div>
+                <Label htmlFor="return-amount">Amount (R)</Label>
+                <Input
+                  id="return-amount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+                {resolution === 'refund' && resolving?.orders && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatCurrencyZAR(resolving.orders.total_amount - resolving.orders.refunded_amount)} of this order is left to refund
+                  </p>
+                )}
+              </div>
+            )}
+            {resolution === 'exchange' && (
+              <p className="text-sm text-muted-foreground">
+                The replacement size and color is taken from stock. Send it to the customer with the RMA number on the parcel.
+              </p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setResolving(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleResolve} disabled={busyReturnId !== null}>
+              Resolve
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -19,14 +19,15 @@ import {
   Filter
 } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, PieChart as RechartsPieChart, Cell, Pie } from 'recharts';
+import { getAllReviews } from '../../utils/supabase/client';
 
 interface ReviewAnalytics {
   overview: {
     totalReviews: number;
     averageRating: number;
-    ratingTrend: number; // percentage change
+    ratingTrend: number; // percentage change in review volume vs the previous period
     responseRate: number;
-    trustScore: number;
+    pendingModeration: number;
   };
   ratingDistribution: {
     rating: number;
@@ -59,61 +60,118 @@ interface ReviewAnalytics {
   };
 }
 
+const RANGE_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Build the analytics for a time range from product_reviews rows
+const buildAnalytics = (rows: any[], timeRange: string): ReviewAnalytics => {
+  const days = RANGE_DAYS[timeRange] || 30;
+  const now = Date.now();
+  const periodStart = now - days * DAY_MS;
+  const previousStart = periodStart - days * DAY_MS;
+
+  const timestamp = (row: any) => new Date(row.created_at).getTime();
+  const inPeriod = rows.filter(row => timestamp(row) >= periodStart);
+  const previousCount = rows.filter(row => timestamp(row) >= previousStart && timestamp(row) < periodStart).length;
+  const published = inPeriod.filter(row => row.status === 'approved');
+  const responded = published.filter(row => row.admin_response);
+
+  const ratingDistribution = [5, 4, 3, 2, 1].map(rating => {
+    const count = published.filter(row => row.rating === rating).length;
+    return {
+      rating,
+      count,
+      percentage: published.length > 0 ? round1((count / published.length) * 100) : 0
+    };
+  });
+
+  // Daily buckets for a week, weekly buckets for a month or quarter, monthly for a year
+  const bucketDays = days <= 7 ? 1 : days <= 90 ? 7 : 30;
+  const timeseriesData = [];
+  for (let bucketStart = periodStart; bucketStart < now; bucketStart += bucketDays * DAY_MS) {
+    const bucketEnd = bucketStart + bucketDays * DAY_MS;
+    const bucket = inPeriod.filter(row => timestamp(row) >= bucketStart && timestamp(row) < bucketEnd);
+    timeseriesData.push({
+      date: new Date(bucketStart).toISOString().split('T')[0],
+      reviews: bucket.length,
+      averageRating: round1(average(bucket.map(row => row.rating))),
+      responses: bucket.filter(row => row.admin_response).length
+    });
+  }
+
+  const productMap = new Map<string, any[]>();
+  published.forEach(row => {
+    productMap.set(row.product_id, [...(productMap.get(row.product_id) || []), row]);
+  });
+  const recentStart = now - 7 * DAY_MS;
+  const productPerformance = Array.from(productMap.entries())
+    .map(([productId, productRows]) => ({
+      productId,
+      productName: productRows[0].products?.name || 'Deleted product',
+      totalReviews: productRows.length,
+      averageRating: average(productRows.map(row => row.rating)),
+      recentReviews: productRows.filter(row => timestamp(row) >= recentStart).length,
+      category: productRows[0].products?.category || 'Uncategorised'
+    }))
+    .sort((a, b) => b.totalReviews - a.totalReviews)
+    .slice(0, 10);
+
+  // Star ratings stand in for sentiment: 4-5 positive, 3 neutral, 1-2 negative
+  const sentimentShare = (predicate: (rating: number) => boolean) =>
+    published.length > 0
+      ? round1((published.filter(row => predicate(row.rating)).length / published.length) * 100)
+      : 0;
+
+  const responseRate = published.length > 0 ? Math.round((responded.length / published.length) * 100) : 0;
+  const responseHours = responded
+    .filter(row => row.responded_at)
+    .map(row => (new Date(row.responded_at).getTime() - timestamp(row)) / (60 * 60 * 1000));
+
+  return {
+    overview: {
+      totalReviews: inPeriod.length,
+      averageRating: average(published.map(row => row.rating)),
+      ratingTrend: previousCount > 0
+        ? round1(((inPeriod.length - previousCount) / previousCount) * 100)
+        : 0,
+      responseRate,
+      pendingModeration: inPeriod.filter(row => row.status === 'pending').length
+    },
+    ratingDistribution,
+    timeseriesData,
+    productPerformance,
+    sentimentAnalysis: {
+      positive: sentimentShare(rating => rating >= 4),
+      neutral: sentimentShare(rating => rating === 3),
+      negative: sentimentShare(rating => rating <= 2)
+    },
+    responseMetrics: {
+      averageResponseTime: round1(average(responseHours)),
+      responseRate,
+      totalResponses: responded.length
+    }
+  };
+};
+
 export function ReviewAnalytics() {
-  const [analytics, setAnalytics] = useState<ReviewAnalytics | null>(null);
+  const [reviewRows, setReviewRows] = useState<any[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState('30d');
   const [selectedTab, setSelectedTab] = useState('overview');
 
-  // Mock data for demonstration
   useEffect(() => {
-    const mockAnalytics: ReviewAnalytics = {
-      overview: {
-        totalReviews: 247,
-        averageRating: 4.3,
-        ratingTrend: 8.5, // 8.5% increase
-        responseRate: 87,
-        trustScore: 4.4
-      },
-      ratingDistribution: [
-        { rating: 5, count: 142, percentage: 57.5 },
-        { rating: 4, count: 68, percentage: 27.5 },
-        { rating: 3, count: 23, percentage: 9.3 },
-        { rating: 2, count: 8, percentage: 3.2 },
-        { rating: 1, count: 6, percentage: 2.4 }
-      ],
-      timeseriesData: [
-        { date: '2024-08-15', reviews: 12, averageRating: 4.2, responses: 10 },
-        { date: '2024-08-22', reviews: 18, averageRating: 4.1, responses: 15 },
-        { date: '2024-08-29', reviews: 15, averageRating: 4.4, responses: 13 },
-        { date: '2024-09-05', reviews: 22, averageRating: 4.3, responses: 19 },
-        { date: '2024-09-12', reviews: 19, averageRating: 4.5, responses: 17 },
-        { date: '2024-09-19', reviews: 16, averageRating: 4.2, responses: 14 }
-      ],
-      productPerformance: [
-        { productId: 'sku_1', productName: 'Summer Floral Dress', totalReviews: 45, averageRating: 4.6, recentReviews: 8, category: 'Dresses' },
-        { productId: 'sku_2', productName: 'Evening Gown', totalReviews: 32, averageRating: 4.4, recentReviews: 5, category: 'Dresses' },
-        { productId: 'sku_3', productName: 'Ankle Boots', totalReviews: 28, averageRating: 4.1, recentReviews: 3, category: 'Shoes' },
-        { productId: 'sku_4', productName: 'Denim Jacket', totalReviews: 35, averageRating: 4.3, recentReviews: 6, category: 'Outwear' },
-        { productId: 'sku_5', productName: 'Casual Blazer', totalReviews: 21, averageRating: 4.0, recentReviews: 2, category: 'Casual' }
-      ],
-      sentimentAnalysis: {
-        positive: 78.5,
-        neutral: 16.2,
-        negative: 5.3
-      },
-      responseMetrics: {
-        averageResponseTime: 4.2,
-        responseRate: 87,
-        totalResponses: 215
-      }
-    };
-
-    setTimeout(() => {
-      setAnalytics(mockAnalytics);
+    getAllReviews().then(rows => {
+      setReviewRows(rows);
       setLoading(false);
-    }, 1000);
-  }, [timeRange]);
+    });
+  }, []);
+
+  const analytics = reviewRows ? buildAnalytics(reviewRows, timeRange) : null;
 
   const COLORS = ['#10B981', '#F59E0B', '#EF4444'];
 
@@ -165,8 +223,14 @@ export function ReviewAnalytics() {
                 <p className="text-sm font-medium text-blue-600">Total Reviews</p>
                 <p className="text-2xl font-bold text-blue-900">{analytics.overview.totalReviews}</p>
                 <div className="flex items-center gap-1 mt-1">
-                  <TrendingUp className="h-3 w-3 text-green-500" />
-                  <span className="text-xs text-green-600">+{analytics.overview.ratingTrend}%</span>
+                  {analytics.overview.ratingTrend >= 0 ? (
+                    <TrendingUp className="h-3 w-3 text-green-500" />
+                  ) : (
+                    <TrendingDown className="h-3 w-3 text-red-500" />
+                  )}
+                  <span className={`text-xs ${analytics.overview.ratingTrend >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {analytics.overview.ratingTrend >= 0 ? '+' : ''}{analytics.overview.ratingTrend}%
+                  </span>
                 </div>
               </div>
               <MessageSquare className="h-8 w-8 text-blue-500" />
@@ -217,10 +281,10 @@ export function ReviewAnalytics() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-purple-600">Trust Score</p>
-                <p className="text-2xl font-bold text-purple-900">{formatRating(analytics.overview.trustScore)}</p>
+                <p className="text-sm font-medium text-purple-600">Awaiting Moderation</p>
+                <p className="text-2xl font-bold text-purple-900">{analytics.overview.pendingModeration}</p>
                 <Badge variant="outline" className="mt-1 bg-purple-100 text-purple-700 border-purple-300">
-                  Excellent
+                  {analytics.overview.pendingModeration > 0 ? 'Needs review' : 'All clear'}
                 </Badge>
               </div>
               <Award className="h-8 w-8 text-purple-500" />
@@ -319,6 +383,9 @@ export function ReviewAnalytics() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
+                {analytics.productPerformance.length === 0 && (
+                  <p className="text-sm text-gray-500">No published reviews in this period.</p>
+                )}
                 {analytics.productPerformance.map((product) => (
                   <div key={product.productId} className="flex items-center justify-between p-4 border rounded-lg bg-gradient-to-r from-gray-50 to-white">
                     <div className="flex-1">
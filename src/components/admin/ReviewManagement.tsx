@@ -22,6 +22,8 @@ import {
   AlertTriangle
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { getAllReviews, moderateReview, respondToReview } from '../../utils/supabase/client';
+import type { ReviewStatus } from '../../utils/supabase/client';
 
 interface Review {
   id: string;
@@ -32,10 +34,10 @@ interface Review {
   rating: number;
   title: string;
   content: string;
+  photos: string[];
+  status: ReviewStatus;
   createdAt: string;
   verified: boolean;
-  helpful: number;
-  unhelpful: number;
   response?: {
     content: string;
     createdAt: string;
@@ -49,85 +51,76 @@ interface ReviewStats {
   ratingDistribution: Record<number, number>;
   recentReviews: number;
   responseRate: number;
+  pendingModeration: number;
 }
 
+// Map a product_reviews row (with embedded product and customer) to the shape used here
+const toReview = (row: any): Review => ({
+  id: row.id,
+  customerName: row.users?.name || row.reviewer_name,
+  customerEmail: row.users?.email || '',
+  productId: row.product_id,
+  productName: row.products?.name || 'Deleted product',
+  rating: row.rating,
+  title: row.title || '',
+  content: row.content,
+  photos: row.photos || [],
+  status: row.status,
+  createdAt: row.created_at,
+  verified: true, // Reviews can only be created from a delivered order item
+  response: row.admin_response
+    ? {
+        content: row.admin_response,
+        createdAt: row.responded_at || row.updated_at,
+        author: 'Rosémama Team'
+      }
+    : undefined
+});
+
+const calculateStats = (reviews: Review[]): ReviewStats => {
+  const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+  const published = reviews.filter(review => review.status === 'approved');
+  const ratingDistribution: Record<number, number> = { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 };
+  published.forEach(review => {
+    ratingDistribution[review.rating] = (ratingDistribution[review.rating] || 0) + 1;
+  });
+
+  return {
+    totalReviews: published.length,
+    averageRating: published.length > 0
+      ? Math.round((published.reduce((sum, review) => sum + review.rating, 0) / published.length) * 10) / 10
+      : 0,
+    ratingDistribution,
+    recentReviews: reviews.filter(review => new Date(review.createdAt).getTime() >= weekAgo).length,
+    responseRate: published.length > 0
+      ? Math.round((published.filter(review => review.response).length / published.length) * 100)
+      : 0,
+    pendingModeration: reviews.filter(review => review.status === 'pending').length
+  };
+};
+
 export function ReviewManagement() {
   const [reviews, setReviews] = useState<Review[]>([]);
-  const [stats, setStats] = useState<ReviewStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterRating, setFilterRating] = useState<string>('all');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [filterModeration, setFilterModeration] = useState<string>('all');
   const [selectedReview, setSelectedReview] = useState<Review | null>(null);
   const [responseText, setResponseText] = useState('');
 
-  // Mock data for demonstration
-  useEffect(() => {
-    const mockReviews: Review[] = [
-      {
-        id: '1',
-        customerName: 'Sarah Johnson',
-        customerEmail: 'sarah@example.com',
-        productId: 'sku_1',
-        productName: 'Summer Floral Dress',
-        rating: 5,
-        title: 'Beautiful dress, perfect fit!',
-        content: 'I absolutely love this dress! The fabric is high quality and the fit is perfect. The floral pattern is gorgeous and I\'ve received so many compliments. Will definitely order more from this store.',
-        createdAt: '2024-09-10T10:30:00Z',
-        verified: true,
-        helpful: 12,
-        unhelpful: 0,
-      },
-      {
-        id: '2',
-        customerName: 'Emma Davis',
-        customerEmail: 'emma@example.com',
-        productId: 'sku_2',
-        productName: 'Evening Gown',
-        rating: 4,
-        title: 'Great for special occasions',
-        content: 'This gown is stunning and perfect for formal events. The only reason I\'m giving 4 stars instead of 5 is that it runs slightly small. I recommend ordering a size up.',
-        createdAt: '2024-09-08T15:45:00Z',
-        verified: true,
-        helpful: 8,
-        unhelpful: 1,
-        response: {
-          content: 'Thank you for your review! We appreciate your feedback about sizing and will update our size guide. We\'re so glad you love the gown for special occasions!',
-          createdAt: '2024-09-09T09:15:00Z',
-          author: 'Rosémama Team'
-        }
-      },
-      {
-        id: '3',
-        customerName: 'Lisa Brown',
-        customerEmail: 'lisa@example.com',
-        productId: 'sku_3',
-        productName: 'Ankle Boots',
-        rating: 3,
-        title: 'Good quality but uncomfortable',
-        content: 'The boots are well-made and look great, but they\'re quite uncomfortable for long periods. The sizing is accurate though.',
-        createdAt: '2024-09-05T12:20:00Z',
-        verified: true,
-        helpful: 3,
-        unhelpful: 2,
-      }
-    ];
-
-    const mockStats: ReviewStats = {
-      totalReviews: 47,
-      averageRating: 4.3,
-      ratingDistribution: { 5: 23, 4: 15, 3: 6, 2: 2, 1: 1 },
-      recentReviews: 8,
-      responseRate: 85
-    };
+  const loadReviews = async () => {
+    const rows = await getAllReviews();
+    setReviews(rows.map(toReview));
+    setLoading(false);
+  };
 
-    setTimeout(() => {
-      setReviews(mockReviews);
-      setStats(mockStats);
-      setLoading(false);
-    }, 1000);
+  useEffect(() => {
+    loadReviews();
   }, []);
 
+  const stats = calculateStats(reviews);
+
   // Filter reviews based on search and filters
   const filteredReviews = reviews.filter(review => {
     const matchesSearch = review.productName.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -137,8 +130,9 @@ export function ReviewManagement() {
     const matchesStatus = filterStatus === 'all' || 
                          (filterStatus === 'responded' && review.response) ||
                          (filterStatus === 'pending' && !review.response);
+    const matchesModeration = filterModeration === 'all' || review.status === filterModeration;
     
-    return matchesSearch && matchesRating && matchesStatus;
+    return matchesSearch && matchesRating && matchesStatus && matchesModeration;
   });
 
   const handleResponseSubmit = async (reviewId: string) => {
@@ -147,27 +141,39 @@ export function ReviewManagement() {
       return;
     }
 
-    try {
-      // In a real app, this would make an API call
-      setReviews(prev => prev.map(review => 
-        review.id === reviewId 
-          ? {
-              ...review,
-              response: {
-                content: responseText,
-                createdAt: new Date().toISOString(),
-                author: 'Rosémama Team'
-              }
-            }
-          : review
-      ));
-      
-      setResponseText('');
-      setSelectedReview(null);
-      toast.success('Response sent successfully!');
-    } catch (error) {
+    const success = await respondToReview(reviewId, responseText.trim());
+    if (!success) {
       toast.error('Failed to send response');
+      return;
     }
+
+    setReviews(prev => prev.map(review => 
+      review.id === reviewId 
+        ? {
+            ...review,
+            response: {
+              content: responseText.trim(),
+              createdAt: new Date().toISOString(),
+              author: 'Rosémama Team'
+            }
+          }
+        : review
+    ));
+    
+    setResponseText('');
+    setSelectedReview(null);
+    toast.success('Response sent successfully!');
+  };
+
+  const handleModerate = async (reviewId: string, status: ReviewStatus) => {
+    const success = await moderateReview(reviewId, status);
+    if (!success) {
+      toast.error('Failed to update review');
+      return;
+    }
+
+    setReviews(prev => prev.map(review => (review.id === reviewId ? { ...review, status } : review)));
+    toast.success(status === 'approved' ? 'Review published' : 'Review rejected');
   };
 
   const formatDate = (dateString: string) => {
@@ -200,7 +206,7 @@ export function ReviewManagement() {
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold text-gray-900">Review Management</h2>
-          <p className="text-gray-600">Monitor and respond to customer reviews</p>
+          <p className="text-gray-600">Moderate and respond to verified customer reviews</p>
         </div>
         <Button
           onClick={() => window.open('https://businessapp.b2b.trustpilot.com/', '_blank')}
@@ -221,7 +227,7 @@ export function ReviewManagement() {
         <TabsContent value="reviews" className="space-y-6">
 
       {/* Stats Cards */}
-      {stats && (
+      {reviews.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <Card className="bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200">
             <CardContent className="p-4">
@@ -279,7 +285,7 @@ export function ReviewManagement() {
                 <div>
                   <p className="text-sm font-medium text-purple-600">Recent Reviews</p>
                   <p className="text-2xl font-bold text-purple-900">{stats.recentReviews}</p>
-                  <p className="text-xs text-purple-600">Last 7 days</p>
+                  <p className="text-xs text-purple-600">Last 7 days · {stats.pendingModeration} awaiting moderation</p>
                 </div>
                 <TrendingUp className="h-8 w-8 text-purple-500" />
               </div>
@@ -326,6 +332,17 @@ export function ReviewManagement() {
                 <SelectItem value="responded">Responded</SelectItem>
               </SelectContent>
             </Select>
+            <Select value={filterModeration} onValueChange={setFilterModeration}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Moderation" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="pending">Awaiting Moderation</SelectItem>
+                <SelectItem value="approved">Published</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
@@ -346,6 +363,16 @@ export function ReviewManagement() {
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    className={
+                      review.status === 'approved' ? 'bg-blue-50 text-blue-700 border-blue-200' :
+                      review.status === 'rejected' ? 'bg-red-50 text-red-700 border-red-200' :
+                      'bg-orange-50 text-orange-700 border-orange-200'
+                    }
+                  >
+                    {review.status === 'approved' ? 'Published' : review.status === 'rejected' ? 'Rejected' : 'Awaiting Moderation'}
+                  </Badge>
                   {review.verified && (
                     <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
                       Verified Purchase
@@ -367,19 +394,47 @@ export function ReviewManagement() {
               </div>
 
               <div className="mb-4">
-                <h5 className="font-semibold text-gray-900 mb-2">{review.title}</h5>
+                {review.title && <h5 className="font-semibold text-gray-900 mb-2">{review.title}</h5>}
                 <p className="text-gray-700 leading-relaxed">{review.content}</p>
+                {review.photos.length > 0 && (
+                  <div className="flex gap-2 mt-3">
+                    {review.photos.map(photo => (
+                      <a key={photo} href={photo} target="_blank" rel="noopener noreferrer">
+                        <img src={photo} alt="Review photo" className="w-16 h-16 object-cover rounded-lg border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
                 <div className="flex items-center gap-4">
                   <span>{formatDate(review.createdAt)}</span>
-                  <div className="flex items-center gap-2">
-                    <ThumbsUp className="h-3 w-3" />
-                    <span>{review.helpful}</span>
-                    <ThumbsDown className="h-3 w-3 ml-2" />
-                    <span>{review.unhelpful}</span>
-                  </div>
+                  {review.customerEmail && <span>{review.customerEmail}</span>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {review.status !== 'approved' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleModerate(review.id, 'approved')}
+                      className="text-green-600 border-green-200 hover:bg-green-50"
+                    >
+                      <ThumbsUp className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  )}
+                  {review.status !== 'rejected' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleModerate(review.id, 'rejected')}
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                    >
+                      <ThumbsDown className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  )}
                 </div>
               </div>
 
@@ -475,7 +530,7 @@ export function ReviewManagement() {
             <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No reviews found</h3>
             <p className="text-gray-500">
-              {searchQuery || filterRating !== 'all' || filterStatus !== 'all'
+              {searchQuery || filterRating !== 'all' || filterStatus !== 'all' || filterModeration !== 'all'
                 ? 'Try adjusting your filters to see more reviews.'
                 : 'Reviews will appear here once customers start leaving feedback.'}
             </p>
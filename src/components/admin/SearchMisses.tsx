@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2, SearchX } from 'lucide-react';
+import { getSearchMisses } from '../../utils/supabase/client';
+import type { SearchMiss } from '../../utils/supabase/client';
+
+const DAYS = 30;
+
+// Submitted storefront searches that found no products, most frequent first
+export function SearchMisses() {
+  const [misses, setMisses] = useState<SearchMiss[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchMisses = async () => {
+      const data = await getSearchMisses(DAYS);
+      setMisses(data);
+      setLoading(false);
+    };
+
+    fetchMisses();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SearchX className="h-5 w-5" />
+          Searches With No Results
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          What shoppers looked for in the last {DAYS} days but could not find
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center h-[200px]">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Loading searches...</span>
+          </div>
+        ) : misses.length === 0 ? (
+          <div className="flex items-center justify-center h-[200px] text-muted-foreground">
+            Every search found something
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Search</TableHead>
+                <TableHead className="text-right">Times</TableHead>
+                <TableHead className="text-right">Last searched</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {misses.map((miss) => (
+                <TableRow key={miss.query}>
+                  <TableCell className="font-medium">{miss.query}</TableCell>
+                  <TableCell className="text-right">{miss.searches}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {new Date(miss.last_searched_at).toLocaleDateString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
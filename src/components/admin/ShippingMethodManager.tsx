@@ -0,0 +1,376 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../ui/alert-dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Truck, Plus, Pencil, Trash2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  getAllShippingMethods,
+  saveShippingMethod,
+  setShippingMethodActive,
+  deleteShippingMethod
+} from '../../utils/supabase/client';
+import type { ShippingMethod } from '../../utils/supabase/client';
+import { formatDeliveryEstimate } from '../../utils/shipping';
+import { formatCurrencyZAR } from '../../utils/currency';
+
+// Form values are kept as strings so inputs can be cleared while typing
+interface ShippingMethodForm {
+  code: string;
+  name: string;
+  description: string;
+  rate: string;
+  freeShippingThreshold: string; // empty = never free
+  minDeliveryDays: string;
+  maxDeliveryDays: string;
+  sortOrder: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: ShippingMethodForm = {
+  code: '',
+  name: '',
+  description: '',
+  rate: '',
+  freeShippingThreshold: '',
+  minDeliveryDays: '1',
+  maxDeliveryDays: '3',
+  sortOrder: '0',
+  isActive: true
+};
+
+const toForm = (method: ShippingMethod): ShippingMethodForm => ({
+  code: method.code,
+  name: method.name,
+  description: method.description || '',
+  rate: method.rate.toString(),
+  freeShippingThreshold: method.free_shipping_threshold?.toString() ?? '',
+  minDeliveryDays: method.min_delivery_days.toString(),
+  maxDeliveryDays: method.max_delivery_days.toString(),
+  sortOrder: method.sort_order.toString(),
+  isActive: method.is_active
+});
+
+// Codes are stable identifiers, e.g. "paxi-standard"
+const toCode = (name: string) => name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export function ShippingMethodManager() {
+  const [methods, setMethods] = useState<ShippingMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ShippingMethodForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const loadMethods = async () => {
+    setLoading(true);
+    const data = await getAllShippingMethods();
+    setMethods(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadMethods();
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, sortOrder: ((methods.length + 1) * 10).toString() });
+    setDialogOpen(true);
+  };
+
+  const openEdit = (method: ShippingMethod) => {
+    setEditingId(method.id);
+    setForm(toForm(method));
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const rate = Number(form.rate);
+    const threshold = form.freeShippingThreshold.trim() === '' ? null : Number(form.freeShippingThreshold);
+    const minDays = parseInt(form.minDeliveryDays, 10);
+    const maxDays = parseInt(form.maxDeliveryDays, 10);
+    const code = form.code.trim() || toCode(form.name);
+
+    if (!form.name.trim() || !code) {
+      toast.error('Please enter a name for the shipping method');
+      return;
+    }
+    if (form.rate.trim() === '' || isNaN(rate) || rate < 0) {
+      toast.error('Rate must be zero or more');
+      return;
+    }
+    if (threshold !== null && (isNaN(threshold) || threshold < 0)) {
+      toast.error('Free shipping threshold must be zero or more');
+      return;
+    }
+    if (isNaN(minDays) || isNaN(maxDays) || minDays < 0 || maxDays < minDays) {
+      toast.error('Delivery estimate must be a valid range of days');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await saveShippingMethod({
+      code,
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      rate,
+      free_shipping_threshold: threshold,
+      min_delivery_days: minDays,
+      max_delivery_days: maxDays,
+      sort_order: parseInt(form.sortOrder, 10) || 0,
+      is_active: form.isActive
+    }, editingId || undefined);
+    setSaving(false);
+
+    if (saved) {
+      toast.success(editingId ? 'Shipping method updated' : 'Shipping method added');
+      setDialogOpen(false);
+      loadMethods();
+    } else {
+      toast.error('Failed to save shipping method');
+    }
+  };
+
+  const handleToggleActive = async (method: ShippingMethod, isActive: boolean) => {
+    const updated = await setShippingMethodActive(method.id, isActive);
+    if (updated) {
+      setMethods(prev => prev.map(m => (m.id === method.id ? { ...m, is_active: isActive } : m)));
+      toast.success(`${method.name} ${isActive ? 'is now offered at checkout' : 'hidden from checkout'}`);
+    } else {
+      toast.error('Failed to update shipping method');
+    }
+  };
+
+  const handleDelete = async (method: ShippingMethod) => {
+    const deleted = await deleteShippingMethod(method.id);
+    if (deleted) {
+      setMethods(prev => prev.filter(m => m.id !== method.id));
+      toast.success('Shipping method deleted');
+    } else {
+      toast.error('Failed to delete shipping method');
+    }
+  };
+
+  return (
+    <Card className="bg-neutral-900/60 backdrop-blur border-neutral-800">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            Shipping Methods
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Rates and delivery estimates offered at checkout. Changes apply to new orders only.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={loadMethods} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Method
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">Loading shipping methods...</p>
+        ) : methods.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            No shipping methods yet. Customers cannot check out until at least one is active.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Method</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Free From</TableHead>
+                <TableHead>Delivery</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {methods.map((method) => (
+                <TableRow key={method.id}>
+                  <TableCell>
+                    <div className="font-medium">{method.name}</div>
+                    <div className="text-xs text-muted-foreground">{method.description || method.code}</div>
+                  </TableCell>
+                  <TableCell>{formatCurrencyZAR(method.rate)}</TableCell>
+                  <TableCell>
+                    {method.free_shipping_threshold !== null
+                      ? formatCurrencyZAR(method.free_shipping_threshold)
+                      : <Badge variant="outline">Never</Badge>}
+                  </TableCell>
+                  <TableCell>{formatDeliveryEstimate(method)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={method.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(method, checked)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(method)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-red-500 hover:text-red-600">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {method.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Existing orders keep their shipping method name and fee. To stop offering it temporarily, switch it off instead.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(method)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Shipping Method' : 'Add Shipping Method'}</DialogTitle>
+            <DialogDescription>
+              Leave the free shipping threshold empty if this method is never free.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="shipping-name">Name</Label>
+                <Input
+                  id="shipping-name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="PAXI Standard"
+                />
+              </div>
+              <div>
+                <Label htmlFor="shipping-code">Code</Label>
+                <Input
+                  id="shipping-code"
+                  value={form.code}
+                  onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value }))}
+                  placeholder={toCode(form.name) || 'paxi-standard'}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="shipping-description">Description</Label>
+              <Input
+                id="shipping-description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Collect from any PEP store nationwide"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="shipping-rate">Rate (R)</Label>
+                <Input
+                  id="shipping-rate"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.rate}
+                  onChange={(e) => setForm(prev => ({ ...prev, rate: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="shipping-threshold">Free from (R)</Label>
+                <Input
+                  id="shipping-threshold"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.freeShippingThreshold}
+                  onChange={(e) => setForm(prev => ({ ...prev, freeShippingThreshold: e.target.value }))}
+                  placeholder="Never free"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="shipping-min-days">Min days</Label>
+                <Input
+                  id="shipping-min-days"
+                  type="number"
+                  min="0"
+                  value={form.minDeliveryDays}
+                  onChange={(e) => setForm(prev => ({ ...prev, minDeliveryDays: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="shipping-max-days">Max days</Label>
+                <Input
+                  id="shipping-max-days"
+                  type="number"
+                  min="0"
+                  value={form.maxDeliveryDays}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxDeliveryDays: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="shipping-sort-order">Sort order</Label>
+                <Input
+                  id="shipping-sort-order"
+                  type="number"
+                  value={form.sortOrder}
+                  onChange={(e) => setForm(prev => ({ ...prev, sortOrder: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="shipping-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="shipping-active">Offer at checkout</Label>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
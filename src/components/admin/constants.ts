@@ -29,4 +29,14 @@ export const getStatusColor = (status: string) => {
     case 'pending': return 'bg-gray-100 text-gray-800';
     default: return 'bg-gray-100 text-gray-800';
   }
-};
\ No newline at end of file
+};
+export const getPaymentStatusColor = (status: string) => {
+  switch (status) {
+    case 'paid': return 'bg-green-100 text-green-800';
+    case 'failed': return 'bg-red-100 text-red-800';
+    case 'refund_due': return 'bg-orange-100 text-orange-800';
+    case 'refunded': return 'bg-purple-100 text-purple-800';
+    case 'awaiting': return 'bg-yellow-100 text-yellow-800';
+    default: return 'bg-gray-100 text-gray-800';
+  }
+};
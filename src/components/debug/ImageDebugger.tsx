@@ -4,7 +4,7 @@ import { supabase } from '../../utils/supabase/client';
 interface Product {
   id: string;
   name: string;
-  image_url?: string;
+  image_url?: string | null;
   images?: string[] | any[];
 }
 
@@ -27,7 +27,7 @@ export const ImageDebugger: React.FC = () => {
         }
 
         console.log('🔍 Raw Supabase products data:', data);
-        setProducts(data || []);
+        setProducts((data || []) as Product[]);
       } catch (err) {
         console.error('❌ Error fetching products:', err);
         setError(err instanceof Error ? err.message : 'Unknown error');
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { InfoLayout } from './InfoLayout';
 import { AboutUs } from './AboutUs';
 import { PolicyPage } from './PolicyPage';
@@ -6,13 +6,20 @@ import { PolicyPage } from './PolicyPage';
 interface InformationCenterProps {
   onBack: () => void;
   initialPage?: string;
+  onNavigate?: (page: string) => void; // Lets the parent keep the URL in step with the open page
 }
 
-export function InformationCenter({ onBack, initialPage = 'about' }: InformationCenterProps) {
+export function InformationCenter({ onBack, initialPage = 'about', onNavigate }: InformationCenterProps) {
   const [currentPage, setCurrentPage] = useState(initialPage);
 
+  // Follow external navigation, e.g. browser back/forward between info pages
+  useEffect(() => {
+    setCurrentPage(initialPage);
+  }, [initialPage]);
+
   const handleNavigate = (page: string) => {
     setCurrentPage(page);
+    onNavigate?.(page);
   };
 
   const getPageTitle = () => {
@@ -325,6 +325,18 @@ export const defaultReturnsContent: ContentSection[] = [
         <li>Items damaged by normal wear</li>
       </ul>
     `
+  },
+  {
+    id: 'how-to-return',
+    title: 'How to Return or Exchange',
+    content: `
+      <ol>
+        <li>Open the order in your account's order history and choose <strong>Return or Exchange</strong> next to the item</li>
+        <li>Tell us why, and add photos if the item arrived damaged. For an exchange, pick the size or color you'd like instead</li>
+        <li>Once approved, send the item back with your RMA number using the return label reference we give you</li>
+        <li>When it arrives we'll refund you, issue store credit or send your exchange, and your order history will show the outcome</li>
+      </ol>
+    `
   }
 ];
 
@@ -347,6 +359,9 @@ export const defaultHelpContent: ContentSection[] = [
       <p><strong>Q: Can I modify my order after placing it?</strong><br>
       A: Contact us within 2 hours of placing your order. We'll do our best to accommodate changes.</p>
       
+      <p><strong>Q: Can I cancel my order?</strong><br>
+      A: Yes, until it has been handed to the courier. Open the order in your order history and choose Cancel Order. Any points you used are returned and paid orders are refunded.</p>
+      
       <h4>Sizing</h4>
       <p><strong>Q: How do I find my size?</strong><br>
       A: Check our detailed size guide available on each product page. When in doubt, contact us for personalized sizing advice.</p>
@@ -3,18 +3,11 @@ import { Search, User, ShoppingCart, ArrowUpRight, ArrowRight } from 'lucide-rea
 import { Button } from '../ui/button';
 import { LoadingSprite } from '../ui/LoadingSprite';
 import { Badge } from '../ui/badge';
+import { useProducts } from '../../contexts/ProductContext';
+import { getCategoryFamilySummary, getTopLevelCategories } from '../../utils/categories';
 import type { StorefrontCallbacks } from './types';
 import '../../styles/home.css';
 
-const CATEGORIES = ['Dresses', 'Casual', 'Shoes', 'Outwear', 'Party', 'Accessories'];
-
-const FEATURED = [
-  { img: '/images/rosemama003.png', name: 'Jackets', count: 361, category: 'Outwear', tall: true },
-  { img: '/images/rosemama004.png', name: 'Shirts', count: 174, category: 'Casual', tall: false },
-  { img: '/images/rosemama005.png', name: 'Trousers', count: 89, category: 'Casual', tall: false },
-  { img: '/images/rosemama006.png', name: 'Accessories', count: 42, category: 'Accessories', tall: true },
-];
-
 const AVATARS = [
   { initials: 'JD', gradient: 'linear-gradient(135deg, #a78bfa, #7c3aed)' },
   { initials: 'SM', gradient: 'linear-gradient(135deg, #fb923c, #ec4899)' },
@@ -26,7 +19,20 @@ export function StorefrontHome({
   onNavigateToCategory,
   onShopAll
 }: StorefrontCallbacks) {
-  const [activeTab, setActiveTab] = useState('Dresses');
+  const { categories, categoryStats } = useProducts();
+  const topLevelCategories = getTopLevelCategories(categories);
+  const categoryTabs = topLevelCategories.map(category => category.name);
+  // The first top-level categories that have pieces and an image (their hero image or their newest piece's)
+  const featured = topLevelCategories
+    .map(category => {
+      const summary = getCategoryFamilySummary(categories, categoryStats, category.name);
+      return { img: category.hero_image_url || summary.coverImage || '', name: category.name, count: summary.productCount };
+    })
+    .filter(item => item.img && item.count > 0)
+    .slice(0, 4)
+    .map((item, idx) => ({ ...item, tall: idx === 0 || idx === 3 }));
+  const [selectedTab, setSelectedTab] = useState<string | null>(null);
+  const activeTab = selectedTab ?? categoryTabs[0] ?? 'All';
   const [isLoading, setIsLoading] = useState(true);
 
   if (isLoading) {
@@ -116,10 +122,10 @@ export function StorefrontHome({
         {/* ──────────── CATEGORY TABS ──────────── */}
         <div className="home-tabs-wrap">
           <div className="home-tabs">
-            {CATEGORIES.map(cat => (
+            {categoryTabs.map(cat => (
               <button
                 key={cat}
-                onClick={() => { setActiveTab(cat); onNavigateToCategory?.(cat); }}
+                onClick={() => { setSelectedTab(cat); onNavigateToCategory?.(cat); }}
                 className={`home-tab${activeTab === cat ? ' home-tab-active' : ''}`}
               >
                 {cat}
@@ -227,11 +233,11 @@ export function StorefrontHome({
           </div>
 
           <div className="home-pieces-grid">
-            {FEATURED.map((item, idx) => (
+            {featured.map((item, idx) => (
               <div
                 key={idx}
                 className={`home-piece-card${item.tall ? ' home-piece-tall' : ' home-piece-short'}`}
-                onClick={() => onNavigateToCategory?.(item.category)}
+                onClick={() => onNavigateToCategory?.(item.name)}
               >
                 <img src={item.img} alt={item.name} className="home-piece-img" />
                 <div className="home-piece-overlay" />
@@ -250,7 +256,7 @@ export function StorefrontHome({
               </div>
             ))}
             {/* Add empty state when no featured items */}
-            {FEATURED.length === 0 && <p className="home-empty-state">No items found matching your criteria</p>}
+            {featured.length === 0 && <p className="home-empty-state">No items found matching your criteria</p>}
           </div>
         </section>
 
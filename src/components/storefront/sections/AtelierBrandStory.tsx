@@ -1,13 +1,16 @@
 import { motion, useReducedMotion, useScroll, useTransform } from 'framer-motion';
 import { useRef } from 'react';
-import { useProducts } from '../../../contexts/ProductContext';
+import { useProducts, useProductList } from '../../../contexts/ProductContext';
 import { AnimatedCounter } from '../ui/AnimatedCounter';
 import { MotionReveal } from '../ui/MotionReveal';
 
 const CURRENT_YEAR = new Date().getFullYear();
 
 export function AtelierBrandStory() {
-  const { products } = useProducts();
+  const { categoryStats } = useProducts();
+  const { products: dresses } = useProductList({ categories: ['Dresses'] }, 1);
+  const { products: accessories } = useProductList({ categories: ['Accessories'] }, 1);
+  const { products: latest } = useProductList({}, 2);
   const reduceMotion = useReducedMotion();
   const ref = useRef<HTMLElement>(null);
 
@@ -19,16 +22,15 @@ export function AtelierBrandStory() {
   const firstY = useTransform(scrollYProgress, [0, 1], [reduceMotion ? 0 : 40, reduceMotion ? 0 : -40]);
   const secondY = useTransform(scrollYProgress, [0, 1], [reduceMotion ? 0 : -30, reduceMotion ? 0 : 50]);
 
-  const dresses = products.filter((p) => p.category === 'Dresses');
-  const accessories = products.filter((p) => p.category === 'Accessories');
   const imageA = dresses[0]?.images?.[0];
-  const imageB = accessories[0]?.images?.[0] || products[1]?.images?.[0];
+  const imageB = accessories[0]?.images?.[0] || latest[1]?.images?.[0];
+  const productCount = Object.values(categoryStats).reduce((sum, entry) => sum + entry.productCount, 0);
 
   const years = Math.max(CURRENT_YEAR - 2014, 1);
 
   const stats = [
     { value: years, suffix: '+', label: 'Years of Craft' },
-    { value: products.length, label: 'Curated Styles' },
+    { value: productCount, label: 'Curated Styles' },
     { value: 98, suffix: '%', label: 'Satisfaction' },
     { value: 9, suffix: '', label: 'Cities Served' }
   ];
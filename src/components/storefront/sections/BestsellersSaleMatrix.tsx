@@ -1,5 +1,5 @@
 import { toast } from 'sonner';
-import { useProducts } from '../../../contexts/ProductContext';
+import { useProductList } from '../../../contexts/ProductContext';
 import { useCart } from '../../../contexts/CartContext';
 import { ProductCard } from '../../ui/ProductCard';
 import { SectionHeader } from '../ui/SectionHeader';
@@ -8,7 +8,8 @@ import { isOnSale } from '../format';
 import type { StorefrontCallbacks } from '../types';
 
 export function BestsellersSaleMatrix({ onViewProduct, onNavigateToCategory }: StorefrontCallbacks) {
-  const { products, loading } = useProducts();
+  // The best rated pieces, biggest reductions first
+  const { products, loading } = useProductList({ sort: 'rating' }, 24);
   const { addItem } = useCart();
 
   const bestsellers = products
@@ -4,17 +4,18 @@ import { useProducts } from '../../../contexts/ProductContext';
 import { TiltCard } from '../ui/TiltCard';
 import { SectionHeader } from '../ui/SectionHeader';
 import { MotionReveal } from '../ui/MotionReveal';
+import { getCategoryFamilySummary, getTopLevelCategories } from '../../../utils/categories';
 import type { StorefrontCallbacks } from '../types';
 
-const CATEGORIES = ['Dresses', 'Casual', 'Shoes', 'Outwear', 'Party', 'Accessories'];
-
 export function CollectionGrid({ onNavigateToCategory }: StorefrontCallbacks) {
-  const { products, loading } = useProducts();
+  const { categories, categoryStats } = useProducts();
+  const loading = Object.keys(categoryStats).length === 0;
 
-  const tiles = CATEGORIES.map((category) => {
-    const items = products.filter((p) => p.category === category);
-    const cover = items[0]?.images?.[0];
-    return { category, count: items.length, cover };
+  // One tile per top-level category, counting its subcategories' pieces too
+  const tiles = getTopLevelCategories(categories).map((category) => {
+    const summary = getCategoryFamilySummary(categories, categoryStats, category.name);
+    const cover = category.hero_image_url || summary.coverImage;
+    return { category: category.name, count: summary.productCount, cover };
   });
 
   return (
@@ -23,7 +24,7 @@ export function CollectionGrid({ onNavigateToCategory }: StorefrontCallbacks) {
         <SectionHeader
           eyebrow="Curated Hubs"
           title="Shop by Collection"
-          subtitle="Six dedicated studios — each with its own silhouette, story and styling direction."
+          subtitle="Dedicated studios — each with its own silhouette, story and styling direction."
         />
 
         <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-3">
@@ -7,7 +7,7 @@ import {
   type Variants
 } from 'framer-motion';
 import { ArrowRight, Box, Eye, Sparkles } from 'lucide-react';
-import { useProducts } from '../../../contexts/ProductContext';
+import { useProductList } from '../../../contexts/ProductContext';
 import { TiltCard } from '../ui/TiltCard';
 import { formatZAR } from '../format';
 import type { Product } from '../../../App';
@@ -21,7 +21,8 @@ export function Hero3DStudio({
   onNavigateToCategory,
   onOpenPreview
 }: Hero3DStudioProps) {
-  const { products, loading } = useProducts();
+  const { products: dresses, loading: loadingDresses } = useProductList({ categories: ['Dresses'] }, 1);
+  const { products: latest, loading: loadingLatest } = useProductList({}, 1);
   const reduceMotion = useReducedMotion();
   const sectionRef = useRef<HTMLElement>(null);
 
@@ -33,8 +34,8 @@ export function Hero3DStudio({
   const glowY = useTransform(scrollYProgress, [0, 1], [0, reduceMotion ? 0 : 140]);
   const contentY = useTransform(scrollYProgress, [0, 1], [0, reduceMotion ? 0 : -40]);
 
-  const featured: Product | undefined =
-    products.find((p) => p.category === 'Dresses') || products[0];
+  const featured: Product | undefined = dresses[0] || latest[0];
+  const loading = !featured && (loadingDresses || loadingLatest);
 
   const container: Variants = {
     hidden: {},
@@ -1,8 +1,8 @@
 import { useState } from 'react';
-import { useProducts } from '../../../contexts/ProductContext';
+import { useProductList } from '../../../contexts/ProductContext';
 
 export function MovingDressReel() {
-  const { products, loading } = useProducts();
+  const { products, loading } = useProductList({}, 16);
   const [paused, setPaused] = useState(false);
 
   const images = products
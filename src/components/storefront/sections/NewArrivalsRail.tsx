@@ -1,5 +1,5 @@
 import { toast } from 'sonner';
-import { useProducts } from '../../../contexts/ProductContext';
+import { useProductList } from '../../../contexts/ProductContext';
 import { useCart } from '../../../contexts/CartContext';
 import { ProductCard } from '../../ui/ProductCard';
 import { Carousel, CarouselContent, CarouselItem, CarouselPrevious, CarouselNext } from '../../ui/carousel';
@@ -8,7 +8,7 @@ import { MotionReveal } from '../ui/MotionReveal';
 import type { StorefrontCallbacks } from '../types';
 
 export function NewArrivalsRail({ onViewProduct, onNavigateToCategory }: StorefrontCallbacks) {
-  const { products, loading } = useProducts();
+  const { products, loading } = useProductList({ sort: 'newest' }, 10);
   const { addItem } = useCart();
 
   const handleAddToCart = async (productId: string, name: string) => {
@@ -48,7 +48,7 @@ export function NewArrivalsRail({ onViewProduct, onNavigateToCategory }: Storefr
               className="w-full"
             >
               <CarouselContent className="-ml-3 md:-ml-4">
-                {products.slice(0, 10).map((product) => (
+                {products.map((product) => (
                   <CarouselItem
                     key={product.id}
                     className="pl-3 md:pl-4 basis-[70%] sm:basis-1/2 md:basis-1/3 lg:basis-1/5"
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Star, ShoppingBag, Heart } from 'lucide-react';
 import { getTrustpilotProductRating } from '../../utils/trustpilot';
+import { useWishlist } from '../../contexts/WishlistContext';
 import type { Product } from '../../App';
 
 interface ProductCardProps {
@@ -36,7 +37,8 @@ export const ProductCard: React.FC<ProductCardProps> = ({
     reviewCount: number;
     trustScore: number;
   } | null>(null);
-  const [isLiked, setIsLiked] = useState(false);
+  const { isWishlisted, toggleWishlist } = useWishlist();
+  const isLiked = isWishlisted(product.id);
 
   // Sync selected index if product changes
   useEffect(() => {
@@ -74,7 +76,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
 
   const handleToggleWishlist = (e: React.MouseEvent) => {
     e.stopPropagation();
-    setIsLiked(!isLiked);
+    toggleWishlist(product.id);
     onToggleWishlist?.(product);
   };
 
@@ -124,7 +126,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
                   ? 'bg-rose-50 text-rose-600 border border-rose-200' 
                   : 'bg-white/90 text-neutral-700 hover:text-rose-600 border border-neutral-200/50 dark:bg-white/10 dark:text-neutral-200 dark:border-neutral-700 dark:hover:text-rose-400'
               }`}
-              aria-label="Wishlist"
+              aria-label={isLiked ? 'Remove from wishlist' : 'Add to wishlist'}
             >
               <Heart className={`h-4 w-4 ${isLiked ? 'fill-rose-600 text-rose-600' : ''}`} />
             </button>
@@ -151,7 +153,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
             <div className="flex items-center gap-1 flex-shrink-0">
               <Star className="h-3 w-3 fill-amber-400 text-amber-400" />
               <span className="text-[11px] font-bold text-neutral-700 dark:text-neutral-300">
-                {trustpilotRating?.rating || product.rating || 4.5}
+                {product.reviewCount ? product.rating.toFixed(1) : trustpilotRating?.rating || 'New'}
               </span>
             </div>
           </div>
@@ -1,8 +1,45 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
-import { supabase, isAdmin as checkIsAdmin } from '../utils/supabase/client';
-import type { User } from '../App';
+import {
+  supabase,
+  isAdmin as checkIsAdmin,
+  getPointsSummary,
+  getMembershipStatus,
+  getPendingTierChanges,
+  acknowledgeTierChanges,
+  getClaimableGuestOrders,
+  claimGuestOrders as claimGuestOrdersRpc
+} from '../utils/supabase/client';
+import type { MembershipStatus, ClaimableGuestOrder, GuestOrderClaim } from '../utils/supabase/client';
+import { notificationService } from '../utils/supabase/notificationService';
+import type { User, TierPerks } from '../App';
 import { Database } from '../utils/supabase/types';
 
+// Shown when no configured tier applies, e.g. an admin removed the entry tier
+const DEFAULT_TIER_NAME = 'Standard';
+
+const toTierPerks = (status: MembershipStatus): TierPerks => ({
+  color: status.color || '#9ca3af',
+  earnMultiplier: Number(status.earn_multiplier),
+  freeShipping: status.free_shipping,
+  earlyAccess: status.early_access
+});
+
+// Notifies the member of tier upgrades and downgrades recorded since their last visit
+const announceTierChanges = async (userId: string) => {
+  const changes = await getPendingTierChanges();
+  const notified: string[] = [];
+
+  for (const change of changes) {
+    if (await notificationService.sendTierChangeNotification(userId, change)) {
+      notified.push(change.id);
+    }
+  }
+
+  if (notified.length > 0) {
+    await acknowledgeTierChanges(notified);
+  }
+};
+
 export type AuthResult = {
   success: boolean;
   error?: string;
@@ -54,6 +91,9 @@ type AuthContextType = {
   resetPassword: (email: string) => Promise<AuthResult>;
   resendVerification: (email?: string) => Promise<boolean>;
   checkVerificationStatus: () => Promise<void>;
+  refreshPoints: () => Promise<void>;
+  claimableGuestOrders: ClaimableGuestOrder[];
+  claimGuestOrders: () => Promise<GuestOrderClaim>;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -65,6 +105,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [isAdmin, setIsAdmin] = useState(false);
   const [isEmailVerified, setIsEmailVerified] = useState(false);
   const [pendingVerification, setPendingVerification] = useState(false);
+  const [claimableGuestOrders, setClaimableGuestOrders] = useState<ClaimableGuestOrder[]>([]);
   const isFetchingRef = useRef(false);
   const isLoggingOutRef = useRef(false);
 
@@ -94,14 +135,18 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
           throw profileError;
         }
 
+        // Balance comes from the points ledger; the tier is re-evaluated over the last 12 months
+        const [pointsSummary, membership] = await Promise.all([getPointsSummary(), getMembershipStatus()]);
+
         // Transform Supabase user to match our User type
         const transformedUser: User = {
           id: authUser.id,
           email: authUser.email ?? '',
           name: (userProfile as any)?.name ?? (authUser.user_metadata as any)?.name ?? 'New User',
           phone: (userProfile as any)?.phone ?? (authUser.user_metadata as any)?.phone ?? undefined,
-          membershipTier: 'Bronze', // Default tier
-          points: 0, // Default points
+          membershipTier: membership?.tier ?? pointsSummary?.tier ?? DEFAULT_TIER_NAME,
+          tierPerks: membership ? toTierPerks(membership) : undefined,
+          points: pointsSummary?.balance ?? 0,
           created_at: (userProfile as any)?.created_at,
           preferences: {
             sizes: [],
@@ -113,11 +158,20 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         setUser(transformedUser);
         setIsAdmin(adminStatus);
         setPendingVerification(false);
+        announceTierChanges(authUser.id);
+
+        // Orders placed as a guest with this email are offered once it is verified
+        if (authUser.email_confirmed_at) {
+          getClaimableGuestOrders().then(setClaimableGuestOrders);
+        } else {
+          setClaimableGuestOrders([]);
+        }
       } else {
         setUser(null);
         setIsAdmin(false);
         setIsEmailVerified(false);
         setPendingVerification(false);
+        setClaimableGuestOrders([]);
       }
     } catch (err: any) {
       console.error('fetchUser: Error loading user data:', err);
@@ -292,6 +346,28 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     isLoggingOutRef.current = false;
   }, []);
 
+  // Re-reads the points balance and tier after the ledger changed, e.g. a redemption
+  const refreshPoints = useCallback(async () => {
+    const [pointsSummary, membership] = await Promise.all([getPointsSummary(), getMembershipStatus()]);
+    if (!pointsSummary) return;
+    setUser(prev => prev ? {
+      ...prev,
+      points: pointsSummary.balance,
+      membershipTier: membership?.tier ?? pointsSummary.tier ?? prev.membershipTier,
+      tierPerks: membership ? toTierPerks(membership) : prev.tierPerks
+    } : prev);
+  }, []);
+
+  // Links the offered guest orders to the account; delivered ones add to the points balance
+  const claimGuestOrders = useCallback(async (): Promise<GuestOrderClaim> => {
+    const result = await claimGuestOrdersRpc();
+    setClaimableGuestOrders([]);
+    if (result.points_earned > 0) {
+      await refreshPoints();
+    }
+    return result;
+  }, [refreshPoints]);
+
   // Set up auth state listener
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
@@ -322,7 +398,10 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       signOut, 
       resetPassword, 
       resendVerification, 
-      checkVerificationStatus 
+      checkVerificationStatus,
+      refreshPoints,
+      claimableGuestOrders,
+      claimGuestOrders
     }}>
       {children}
     </AuthContext.Provider>
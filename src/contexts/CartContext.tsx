@@ -1,7 +1,11 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { getUserCart, addToCart as addToCartSupabase, updateCartItemQuantity } from '../utils/supabase/client';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { getUserCart, getCartProducts, addToCart as addToCartSupabase, updateCartItemQuantity, updateCartItemPrice } from '../utils/supabase/client';
 import { useAuth } from './AuthContext';
 import type { CartItem, Product } from '../App';
+import { revalidateCartItems } from '../utils/cartRevalidation';
+import type { CartIssue } from '../utils/cartRevalidation';
+
+const getLineKey = (item: { productId: string; size: string; color: string }) => `${item.productId}|${item.size}|${item.color}`;
 
 type CartContextType = {
   items: CartItem[];
@@ -15,6 +19,9 @@ type CartContextType = {
   isGuestCart: boolean;
   mergeGuestCartOnLogin: () => Promise<void>;
   fetchCart: () => Promise<void>;
+  cartIssues: CartIssue[]; // What the last revalidation changed, for the shopper to review
+  revalidateCart: () => Promise<CartIssue[]>;
+  dismissCartIssues: () => void;
 };
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
@@ -23,7 +30,15 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
   const [items, setItems] = useState<CartItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [cartIssues, setCartIssues] = useState<CartIssue[]>([]);
   const { user } = useAuth();
+  // Last lines shown to the shopper, and the cart_items row behind each signed-in line
+  const itemsRef = useRef<CartItem[]>([]);
+  const cartItemIdsRef = useRef<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
 
   // Local storage key for guest cart
   const GUEST_CART_KEY = 'rosemama_guest_cart';
@@ -32,18 +47,16 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
   const isGuestCart = !user;
 
   // Load guest cart from localStorage
-  const loadGuestCart = () => {
+  const loadGuestCart = (): CartItem[] => {
     try {
       const savedCart = localStorage.getItem(GUEST_CART_KEY);
-      if (savedCart) {
-        const parsedCart = JSON.parse(savedCart);
-        setItems(parsedCart);
-      } else {
-        setItems([]);
-      }
+      const parsedCart: CartItem[] = savedCart ? JSON.parse(savedCart) : [];
+      setItems(parsedCart);
+      return parsedCart;
     } catch (error) {
       console.error('Error loading guest cart:', error);
       setItems([]);
+      return [];
     }
   };
 
@@ -74,6 +87,51 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  // Checks the cart against live prices and stock, applies the changes and
+  // keeps them in cartIssues. If the products cannot be loaded the cart is left
+  // as it is; checkout still validates every line.
+  const applyRevalidation = async (cartItems: CartItem[], guest: boolean): Promise<CartIssue[]> => {
+    if (cartItems.length === 0) return [];
+
+    let result;
+    try {
+      const liveProducts = await getCartProducts(Array.from(new Set(cartItems.map(item => item.productId))));
+      result = revalidateCartItems(cartItems, liveProducts);
+    } catch (err) {
+      console.error('Error revalidating cart:', err);
+      return [];
+    }
+
+    if (guest) {
+      saveGuestCart(result.items);
+    } else {
+      // Dropped lines are deleted, lowered quantities saved and new prices
+      // recorded, so the shopper is told about a price change only once
+      for (const line of cartItems) {
+        const cartItemId = cartItemIdsRef.current.get(getLineKey(line));
+        const kept = result.items.find(item => getLineKey(item) === getLineKey(line));
+        if (cartItemId && kept?.quantity !== line.quantity) {
+          await updateCartItemQuantity(cartItemId, kept ? kept.quantity : 0);
+        }
+        if (cartItemId && kept && kept.product.price !== line.product.price) {
+          await updateCartItemPrice(cartItemId, kept.product.price);
+        }
+      }
+    }
+
+    setItems(result.items);
+    if (result.issues.length > 0) {
+      setCartIssues(result.issues);
+    }
+    return result.issues;
+  };
+
+  const revalidateCart = async (): Promise<CartIssue[]> => {
+    return applyRevalidation(itemsRef.current, isGuestCart);
+  };
+
+  const dismissCartIssues = () => setCartIssues([]);
+
   const fetchCart = async () => {
     try {
       setLoading(true);
@@ -84,15 +142,28 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         setItems([]);
         return;
       }
-      
-      // Transform Supabase cart items to match our CartItem type
-      const transformedCartItems: CartItem[] = userCart.items.map((item: any) => ({
+
+      // Lines whose product was deleted come back without it
+      const deadLines = userCart.items.filter((item: any) => !item.products);
+      for (const item of deadLines) {
+        await updateCartItemQuantity(item.id, 0);
+      }
+
+      cartItemIdsRef.current = new Map(
+        userCart.items
+          .filter((item: any) => item.products)
+          .map((item: any) => [getLineKey({ productId: item.products.id, size: item.size || 'M', color: item.color || 'Black' }), item.id])
+      );
+
+      // Transform Supabase cart items to match our CartItem type. Lines carry the
+      // price they were added at, so revalidation can tell the shopper it changed.
+      const transformedCartItems: CartItem[] = userCart.items.filter((item: any) => item.products).map((item: any) => ({
         productId: item.products.id,
         product: {
           id: item.products.id,
           name: item.products.name,
           category: item.products.category as Product['category'],
-          price: item.products.price,
+          price: Number(item.price_at_add ?? item.products.price),
           images: item.products.image_url ? [item.products.image_url] : [],
           sizes: ['S', 'M', 'L'], // Default sizes
           colors: ['Black', 'White'], // Default colors
@@ -107,6 +178,19 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       }));
       
       setItems(transformedCartItems);
+      const issues = await applyRevalidation(transformedCartItems, false);
+      if (deadLines.length > 0) {
+        setCartIssues([
+          ...deadLines.map((item: any) => ({
+            productId: item.product_id,
+            size: item.size || '',
+            color: item.color || '',
+            message: 'An item in your cart is no longer available and was removed',
+            removed: true
+          })),
+          ...issues
+        ]);
+      }
     } catch (err) {
       console.error('Error fetching cart:', err);
       setError('Failed to load cart');
@@ -274,13 +358,15 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
   // Load cart on initial mount
   useEffect(() => {
     const loadCart = async () => {
+      setCartIssues([]);
       if (user) {
         // Load authenticated user's cart from Supabase
         await fetchCart();
       } else {
-        // Load guest cart from localStorage
-        loadGuestCart();
+        // Load guest cart from localStorage, then check it against the live catalog
+        const guestItems = loadGuestCart();
         setLoading(false);
+        await applyRevalidation(guestItems, true);
       }
     };
 
@@ -310,7 +396,10 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       getTotalPrice,
       isGuestCart,
       mergeGuestCartOnLogin,
-      fetchCart
+      fetchCart,
+      cartIssues,
+      revalidateCart,
+      dismissCartIssues
     }}>
       {children}
     </CartContext.Provider>
@@ -1,9 +1,25 @@
- import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { getProducts, getAllProducts, getProduct, supabase } from '../utils/supabase/client';
+ import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { getProducts, getAllProducts, getProduct, getProductsByIds, getCategories, getCategoryStats, getCatalogPage, getCatalogFacets, getCatalogVersion, supabase } from '../utils/supabase/client';
+import type { Category, CatalogCursor, CatalogFacets, CatalogQuery, ProductWithVariants } from '../utils/supabase/client';
 import type { Product } from '../App';
-import type { Database } from '../utils/supabase/types';
+import { toProductVariants } from '../utils/inventory';
+import { readCache, writeCache } from '../utils/swrCache';
 
-type SupabaseProduct = Database['public']['Tables']['products']['Row'];
+// One page of the storefront catalog; facets come with the first page only
+export type CatalogPage = {
+  products: Product[];
+  nextCursor: CatalogCursor | null;
+  facets: CatalogFacets | null;
+};
+
+// Active products in a category (not counting its subcategories) and an image for its tile
+export type CategorySummary = {
+  productCount: number;
+  coverImage: string | null;
+};
+
+// A short list for a storefront rail or grid; anything left out matches every product
+export type ProductListQuery = Partial<CatalogQuery>;
 
 type ProductContextType = {
   products: Product[];
@@ -12,6 +28,14 @@ type ProductContextType = {
   fetchProducts: (category?: string) => Promise<void>;
   fetchAllProducts: (category?: string) => Promise<void>; // Admin function to get all products
   fetchProduct: (id: string) => Promise<Product | null>;
+  categories: Category[]; // In display order
+  fetchCategories: () => Promise<void>;
+  fetchCatalogPage: (query: CatalogQuery, cursor?: CatalogCursor | null) => Promise<CatalogPage | null>;
+  getCachedCatalogPage: (query: CatalogQuery) => CatalogPage | null; // Possibly stale, for showing while fetching
+  fetchProductList: (query: ProductListQuery, limit: number, options?: { cache?: boolean }) => Promise<Product[] | null>;
+  getCachedProductList: (query: ProductListQuery, limit: number) => Product[] | null; // Possibly stale, for showing while fetching
+  fetchProductsByIds: (ids: string[]) => Promise<Product[]>;
+  categoryStats: Record<string, CategorySummary>; // Keyed by category name
 };
 
 const ProductContext = createContext<ProductContextType | undefined>(undefined);
@@ -36,69 +60,121 @@ const getCachedImageUrl = (imagePath: string): string => {
   return publicUrl;
 };
 
+const PLACEHOLDER_IMAGE = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgdmlld0JveD0iMCAwIDQwMCAzMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSI0MDAiIGhlaWdodD0iMzAwIiByeD0iOCIgZmlsbD0iI2Y5ZmFmYiIgc3Ryb2tlPSIjYWNhYmRhIiBzdHJva2Utd2lkdGg9IjIiLz4KPHRleHQgeD0iMjAwIiB5PSIxNTAiIGZvbnQtZmFtaWx5PSJzYW5zLXNlcmlmIiBmb250LXNpemU9IjIwIiBmaWxsPSIjOTc5N2E3IiB0ZXh0LWFuY2hvcj0ibWlkZGxlIiBkeT0iLjNlbSI+Tm8gSW1hZ2U8L3RleHQ+Cjwvc3ZnPgo=';
+
+// Transform a Supabase product (with its embedded variants) to match our Product type
+export const toProduct = (p: ProductWithVariants): Product => {
+  // Handle both old image_url format and new images array format
+  let images: string[] = [];
+
+  // First check if new images array exists and has content
+  if (p.images && Array.isArray(p.images) && p.images.length > 0) {
+    images = (p.images as any[])
+      .filter(img => img && typeof img === 'string' && img.trim() !== '')
+      .map(imgPath => {
+        // If already a full URL, use as-is
+        if (imgPath.startsWith('http')) {
+          return imgPath;
+        }
+        // Use cached URL helper to prevent redundant URL generation
+        return getCachedImageUrl(imgPath);
+      });
+  }
+  // Fallback to old image_url format
+  else if (p.image_url && typeof p.image_url === 'string' && p.image_url.trim() !== '') {
+    const imgPath = p.image_url;
+
+    // If it's already a full URL, use as-is
+    if (imgPath.startsWith('http')) {
+      images = [imgPath];
+    } else {
+      // Use cached URL helper to prevent redundant URL generation
+      images = [getCachedImageUrl(imgPath)];
+    }
+  }
+  // Use placeholder if no images
+  else {
+    images = [PLACEHOLDER_IMAGE];
+  }
+
+  return {
+    id: p.id,
+    name: p.name,
+    category: p.category,
+    price: p.price,
+    originalPrice: p.original_price || undefined, // Use actual original_price from database
+    images: images,
+    sizes: p.sizes || ['S', 'M', 'L'], // Use database sizes or default
+    colors: p.colors || ['Black', 'White'], // Use database colors or default
+    description: p.description || '',
+    reviews: [], // Loaded on demand by the product page
+    rating: Number(p.rating_average) || 0, // Average of approved reviews, kept up to date by the database
+    reviewCount: p.review_count ?? 0,
+    inStock: p.in_stock ?? true, // Use database in_stock value or default to true
+    variants: toProductVariants(p.product_variants), // Per size/color stock embedded by the products query
+    earlyAccessUntil: p.early_access_until || undefined
+  };
+};
+
+// BANDWIDTH OPTIMIZATION: the storefront never downloads the whole catalog. Catalog
+// pages and the short product lists of storefront sections are cached in localStorage
+// and only downloaded again once the catalog version changes
+const CATALOG_CACHE_KEY = 'catalog_pages';
+const MAX_CACHED_CATALOG_PAGES = 20;
+const PRODUCT_LISTS_CACHE_KEY = 'product_lists';
+const MAX_CACHED_PRODUCT_LISTS = 20;
+// How long a checked catalog version is trusted before asking again
+const CATALOG_VERSION_TTL_MS = 60 * 1000;
+
+const getCatalogCacheKey = (query: CatalogQuery) => JSON.stringify(query);
+
+const DEFAULT_LIST_QUERY: CatalogQuery = {
+  categories: null,
+  search: '',
+  sizes: [],
+  colors: [],
+  priceRange: null,
+  onSaleOnly: false,
+  sort: 'featured'
+};
+
+const getProductListCacheKey = (query: ProductListQuery, limit: number) =>
+  JSON.stringify({ query: { ...DEFAULT_LIST_QUERY, ...query }, limit });
+
+// Adds an entry to a cache of per-query results, keeping the most recently fetched ones
+const writeQueryCache = <T,>(cacheKey: string, key: string, value: T, version: string, maxEntries: number) => {
+  const cached = readCache<Record<string, T>>(cacheKey);
+  const entries = cached && cached.version === version ? cached.data : {};
+  const keys = Object.keys(entries).filter(k => k !== key).slice(-(maxEntries - 1));
+  const kept: Record<string, T> = {};
+  keys.forEach(k => { kept[k] = entries[k]; });
+  kept[key] = value;
+  writeCache(cacheKey, kept, version);
+};
+
 export const ProductProvider = ({ children }: { children: ReactNode }) => {
   const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryStats, setCategoryStats] = useState<Record<string, CategorySummary>>({});
+  const catalogVersion = useRef<{ value: string | null; checkedAt: number }>({ value: null, checkedAt: 0 });
+
+  const getCurrentCatalogVersion = async (): Promise<string | null> => {
+    if (catalogVersion.current.value && Date.now() - catalogVersion.current.checkedAt < CATALOG_VERSION_TTL_MS) {
+      return catalogVersion.current.value;
+    }
+    const value = await getCatalogVersion();
+    catalogVersion.current = { value, checkedAt: Date.now() };
+    return value;
+  };
 
   const fetchProducts = async (category?: string) => {
     try {
       setLoading(true);
       setError(null);
       const supabaseProducts = await getProducts(category);
-      
-      // Transform Supabase products to match our Product type
-      const transformedProducts: Product[] = supabaseProducts.map((p: SupabaseProduct) => {
-        // Handle both old image_url format and new images array format
-        let images: string[] = [];
-
-        // First check if new images array exists and has content
-        if (p.images && Array.isArray(p.images) && p.images.length > 0) {
-          images = (p.images as any[])
-            .filter(img => img && typeof img === 'string' && img.trim() !== '')
-            .map(imgPath => {
-              // If already a full URL, use as-is
-              if (imgPath.startsWith('http')) {
-                return imgPath;
-              }
-              // Use cached URL helper to prevent redundant URL generation
-              return getCachedImageUrl(imgPath);
-            });
-        }
-        // Fallback to old image_url format
-        else if (p.image_url && typeof p.image_url === 'string' && p.image_url.trim() !== '') {
-          const imgPath = p.image_url;
-          
-          // If it's already a full URL, use as-is
-          if (imgPath.startsWith('http')) {
-            images = [imgPath];
-          } else {
-            // Use cached URL helper to prevent redundant URL generation
-            images = [getCachedImageUrl(imgPath)];
-          }
-        }
-        // Use placeholder if no images
-        else {
-          images = ['data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgdmlld0JveD0iMCAwIDQwMCAzMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSI0MDAiIGhlaWdodD0iMzAwIiByeD0iOCIgZmlsbD0iI2Y5ZmFmYiIgc3Ryb2tlPSIjYWNhYmRhIiBzdHJva2Utd2lkdGg9IjIiLz4KPHRleHQgeD0iMjAwIiB5PSIxNTAiIGZvbnQtZmFtaWx5PSJzYW5zLXNlcmlmIiBmb250LXNpemU9IjIwIiBmaWxsPSIjOTc5N2E3IiB0ZXh0LWFuY2hvcj0ibWlkZGxlIiBkeT0iLjNlbSI+Tm8gSW1hZ2U8L3RleHQ+Cjwvc3ZnPgo='];
-        }
-
-        return {
-          id: p.id,
-          name: p.name,
-          category: p.category as Product['category'],
-          price: p.price,
-          originalPrice: p.original_price || undefined, // Use actual original_price from database
-          images: images,
-          sizes: p.sizes || ['S', 'M', 'L'], // Use database sizes or default
-          colors: p.colors || ['Black', 'White'], // Use database colors or default
-          description: p.description || '',
-          reviews: [], // Reviews not implemented yet
-          rating: 4.5, // Default rating since not in DB schema
-          inStock: p.in_stock ?? true // Use database in_stock value or default to true
-        };
-      });
-      
-      setProducts(transformedProducts);
+      setProducts(supabaseProducts.map(toProduct));
     } catch (err) {
       console.error('Error fetching products:', err);
       setError('Failed to load products');
@@ -113,59 +189,7 @@ export const ProductProvider = ({ children }: { children: ReactNode }) => {
       setLoading(true);
       setError(null);
       const supabaseProducts = await getAllProducts(category);
-      
-      // Transform Supabase products to match our Product type (same logic as fetchProducts)
-      const transformedProducts: Product[] = supabaseProducts.map((p: SupabaseProduct) => {
-        // Handle both old image_url format and new images array format
-        let images: string[] = [];
-
-        // First check if new images array exists and has content
-        if (p.images && Array.isArray(p.images) && p.images.length > 0) {
-          images = (p.images as any[])
-            .filter(img => img && typeof img === 'string' && img.trim() !== '')
-            .map(imgPath => {
-              // If already a full URL, use as-is
-              if (imgPath.startsWith('http')) {
-                return imgPath;
-              }
-              // Use cached URL helper to prevent redundant URL generation
-              return getCachedImageUrl(imgPath);
-            });
-        }
-        // Fallback to old image_url format
-        else if (p.image_url && typeof p.image_url === 'string' && p.image_url.trim() !== '') {
-          const imgPath = p.image_url;
-          
-          // If it's already a full URL, use as-is
-          if (imgPath.startsWith('http')) {
-            images = [imgPath];
-          } else {
-            // Use cached URL helper to prevent redundant URL generation
-            images = [getCachedImageUrl(imgPath)];
-          }
-        }
-        // Use placeholder if no images
-        else {
-          images = ['data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgdmlld0JveD0iMCAwIDQwMCAzMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSI0MDAiIGhlaWdodD0iMzAwIiByeD0iOCIgZmlsbD0iI2Y5ZmFmYiIgc3Ryb2tlPSIjYWNhYmRhIiBzdHJva2Utd2lkdGg9IjIiLz4KPHRleHQgeD0iMjAwIiB5PSIxNTAiIGZvbnQtZmFtaWx5PSJzYW5zLXNlcmlmIiBmb250LXNpemU9IjIwIiBmaWxsPSIjOTc5N2E3IiB0ZXh0LWFuY2hvcj0ibWlkZGxlIiBkeT0iLjNlbSI+Tm8gSW1hZ2U8L3RleHQ+Cjwvc3ZnPgo='];
-        }
-
-        return {
-          id: p.id,
-          name: p.name,
-          category: p.category as Product['category'],
-          price: p.price,
-          originalPrice: p.original_price || undefined, // Use actual original_price from database
-          images: images,
-          sizes: p.sizes || ['S', 'M', 'L'], // Use database sizes or default
-          colors: p.colors || ['Black', 'White'], // Use database colors or default
-          description: p.description || '',
-          reviews: [], // Reviews not implemented yet
-          rating: 4.5, // Default rating since not in DB schema
-          inStock: p.in_stock ?? true // Use database in_stock value or default to true
-        };
-      });
-      
-      setProducts(transformedProducts);
+      setProducts(supabaseProducts.map(toProduct));
     } catch (err) {
       console.error('Error fetching all products:', err);
       setError('Failed to load products');
@@ -181,56 +205,7 @@ export const ProductProvider = ({ children }: { children: ReactNode }) => {
       const supabaseProduct = await getProduct(id);
 
       if (!supabaseProduct) return null;
-
-      // Transform Supabase product to match our Product type
-      let images: string[] = [];
-
-      // Handle both old image_url format and new images array format
-      if (supabaseProduct.images && Array.isArray(supabaseProduct.images) && supabaseProduct.images.length > 0) {
-        images = (supabaseProduct.images as any[])
-          .filter(img => img && typeof img === 'string' && img.trim() !== '')
-          .map(imgPath => {
-            // If already a full URL, use as-is
-            if (imgPath.startsWith('http')) {
-              return imgPath;
-            }
-            // Use cached URL helper to prevent redundant URL generation
-            return getCachedImageUrl(imgPath);
-          });
-      }
-      // Fallback to old image_url format
-      else if (supabaseProduct.image_url && typeof supabaseProduct.image_url === 'string' && supabaseProduct.image_url.trim() !== '') {
-        const imgPath = supabaseProduct.image_url;
-        
-        // If it's already a full URL, use as-is
-        if (imgPath.startsWith('http')) {
-          images = [imgPath];
-        } else {
-          // Use cached URL helper to prevent redundant URL generation
-          images = [getCachedImageUrl(imgPath)];
-        }
-      }
-      // Use placeholder if no images
-      else {
-        images = ['data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDAwIiBoZWlnaHQ9IjMwMCIgdmlld0JveD0iMCAwIDQwMCAzMDAiIGZpbGw9Im5vbmUiIHhtbG5zPSJodHRwOi8vd3d3LnczLm9yZy8yMDAwL3N2ZyI+CjxyZWN0IHdpZHRoPSI0MDAiIGhlaWdodD0iMzAwIiByeD0iOCIgZmlsbD0iI2Y5ZmFmYiIgc3Ryb2tlPSIjYWNhYmRhIiBzdHJva2Utd2lkdGg9IjIiLz4KPHRleHQgeD0iMjAwIiB5PSIxNTAiIGZvbnQtZmFtaWx5PSJzYW5zLXNlcmlmIiBmb250LXNpemU9IjIwIiBmaWxsPSIjOTc5N2E3IiB0ZXh0LWFuY2hvcj0ibWlkZGxlIiBkeT0iLjNlbSI+Tm8gSW1hZ2U8L3RleHQ+Cjwvc3ZnPgo='];
-      }
-
-      const transformedProduct: Product = {
-        id: supabaseProduct.id,
-        name: supabaseProduct.name,
-        category: supabaseProduct.category as Product['category'],
-        price: supabaseProduct.price,
-        images: images,
-        sizes: supabaseProduct.sizes || ['S', 'M', 'L'], // Use database sizes or default
-        colors: supabaseProduct.colors || ['Black', 'White'], // Use database colors or default
-        description: supabaseProduct.description || '',
-        reviews: [], // Reviews not implemented yet
-        rating: 4.5, // Default rating since not in DB schema
-        inStock: supabaseProduct.in_stock ?? true, // Use database in_stock value or default to true
-        originalPrice: supabaseProduct.original_price || undefined // Use actual original_price from database
-      };
-
-      return transformedProduct;
+      return toProduct(supabaseProduct);
     } catch (err) {
       console.error('Error fetching product:', err);
       setError('Failed to load product');
@@ -240,13 +215,93 @@ export const ProductProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
-  // Load products on initial mount
+  const getCachedCatalogPage = (query: CatalogQuery): CatalogPage | null => {
+    const cached = readCache<Record<string, CatalogPage>>(CATALOG_CACHE_KEY);
+    return cached?.data[getCatalogCacheKey(query)] || null;
+  };
+
+  // First pages (with their facets) are cached per query; later pages are always fetched
+  const fetchCatalogPage = async (query: CatalogQuery, cursor: CatalogCursor | null = null): Promise<CatalogPage | null> => {
+    if (cursor) {
+      const page = await getCatalogPage(query, cursor);
+      return page ? { products: page.products.map(toProduct), nextCursor: page.nextCursor, facets: null } : null;
+    }
+
+    const key = getCatalogCacheKey(query);
+    const version = await getCurrentCatalogVersion();
+    const cached = readCache<Record<string, CatalogPage>>(CATALOG_CACHE_KEY);
+    const cachedPages = cached && cached.version === version ? cached.data : {};
+    if (version && cachedPages[key]) return cachedPages[key];
+
+    const [page, facets] = await Promise.all([getCatalogPage(query), getCatalogFacets(query)]);
+    if (!page || !facets) return null;
+
+    const catalogPage: CatalogPage = { products: page.products.map(toProduct), nextCursor: page.nextCursor, facets };
+    if (version) {
+      writeQueryCache(CATALOG_CACHE_KEY, key, catalogPage, version, MAX_CACHED_CATALOG_PAGES);
+    }
+    return catalogPage;
+  };
+
+  const getCachedProductList = (query: ProductListQuery, limit: number): Product[] | null => {
+    const cached = readCache<Record<string, Product[]>>(PRODUCT_LISTS_CACHE_KEY);
+    return cached?.data[getProductListCacheKey(query, limit)] || null;
+  };
+
+  // The first `limit` products of a catalog query, without facets. Pass cache: false
+  // for one-off lists such as search suggestions, so they do not push out the others.
+  const fetchProductList = async (
+    query: ProductListQuery,
+    limit: number,
+    { cache = true }: { cache?: boolean } = {}
+  ): Promise<Product[] | null> => {
+    const key = getProductListCacheKey(query, limit);
+    const version = cache ? await getCurrentCatalogVersion() : null;
+    if (version) {
+      const cached = readCache<Record<string, Product[]>>(PRODUCT_LISTS_CACHE_KEY);
+      if (cached && cached.version === version && cached.data[key]) return cached.data[key];
+    }
+
+    const page = await getCatalogPage({ ...DEFAULT_LIST_QUERY, ...query }, null, limit);
+    if (!page) return null;
+
+    const list = page.products.map(toProduct);
+    if (version) {
+      writeQueryCache(PRODUCT_LISTS_CACHE_KEY, key, list, version, MAX_CACHED_PRODUCT_LISTS);
+    }
+    return list;
+  };
+
+  const fetchProductsByIds = async (ids: string[]): Promise<Product[]> => {
+    const supabaseProducts = await getProductsByIds(ids);
+    return supabaseProducts.map(toProduct);
+  };
+
+  const fetchCategories = async () => {
+    setCategories(await getCategories());
+  };
+
+  const fetchCategoryStats = async () => {
+    const stats: Record<string, CategorySummary> = {};
+    (await getCategoryStats()).forEach(row => {
+      stats[row.category] = {
+        productCount: row.product_count,
+        coverImage: row.cover_image
+          ? (row.cover_image.startsWith('http') ? row.cover_image : getCachedImageUrl(row.cover_image))
+          : null
+      };
+    });
+    setCategoryStats(stats);
+  };
+
+  // Load categories on initial mount; storefront sections fetch the products they show
   useEffect(() => {
-    fetchProducts();
+    fetchCategories();
+    fetchCategoryStats();
   }, []);
 
   return (
-    <ProductContext.Provider value={{ products, loading, error, fetchProducts, fetchAllProducts, fetchProduct }}>
+    <ProductContext.Provider value={{ products, loading, error, fetchProducts, fetchAllProducts, fetchProduct, categories, fetchCategories, fetchCatalogPage, getCachedCatalogPage, fetchProductList, getCachedProductList, fetchProductsByIds, categoryStats }}>
       {children}
     </ProductContext.Provider>
   );
@@ -259,3 +314,30 @@ export const useProducts = () => {
   }
   return context;
 };
+
+// The products of a storefront rail or grid, shown from the cache straight away
+// and refreshed once the catalog changed. loading is true until there is anything to show.
+export const useProductList = (query: ProductListQuery, limit: number) => {
+  const { fetchProductList, getCachedProductList } = useProducts();
+  const [products, setProducts] = useState<Product[]>(() => getCachedProductList(query, limit) || []);
+  const [loading, setLoading] = useState(true);
+  const key = getProductListCacheKey(query, limit);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProducts(getCachedProductList(query, limit) || []);
+    setLoading(true);
+
+    fetchProductList(query, limit).then(list => {
+      if (cancelled) return;
+      if (list) setProducts(list);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return { products, loading: loading && products.length === 0 };
+};
@@ -0,0 +1,139 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { getWishlist, addWishlistItems, removeWishlistItem } from '../utils/supabase/client';
+import { useAuth } from './AuthContext';
+
+type WishlistContextType = {
+  productIds: string[]; // Most recently added first
+  loading: boolean;
+  isWishlisted: (productId: string) => boolean;
+  addToWishlist: (productId: string) => Promise<boolean>;
+  removeFromWishlist: (productId: string) => Promise<boolean>;
+  toggleWishlist: (productId: string) => Promise<boolean>;
+  isGuestWishlist: boolean;
+};
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+// Local storage key for guest wishlist
+const GUEST_WISHLIST_KEY = 'rosemama_guest_wishlist';
+
+const loadGuestWishlist = (): string[] => {
+  try {
+    const saved = localStorage.getItem(GUEST_WISHLIST_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch (error) {
+    console.error('Error loading guest wishlist:', error);
+    return [];
+  }
+};
+
+const saveGuestWishlist = (productIds: string[]) => {
+  try {
+    localStorage.setItem(GUEST_WISHLIST_KEY, JSON.stringify(productIds));
+  } catch (error) {
+    console.error('Error saving guest wishlist:', error);
+  }
+};
+
+export const WishlistProvider = ({ children }: { children: ReactNode }) => {
+  const [productIds, setProductIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { user } = useAuth();
+
+  // Check if this is a guest wishlist (no authenticated user)
+  const isGuestWishlist = !user;
+
+  const fetchWishlist = async () => {
+    const items = await getWishlist();
+    setProductIds(items.map(item => item.product_id));
+  };
+
+  // Load the wishlist whenever the signed-in user changes. A guest wishlist is
+  // merged into the account first and then cleared, like the guest cart.
+  useEffect(() => {
+    const loadWishlist = async () => {
+      setLoading(true);
+      if (user) {
+        const guestProductIds = loadGuestWishlist();
+        if (guestProductIds.length > 0 && await addWishlistItems(guestProductIds)) {
+          localStorage.removeItem(GUEST_WISHLIST_KEY);
+        }
+        await fetchWishlist();
+      } else {
+        setProductIds(loadGuestWishlist());
+      }
+      setLoading(false);
+    };
+
+    loadWishlist();
+  }, [user?.id]);
+
+  const isWishlisted = (productId: string): boolean => productIds.includes(productId);
+
+  const addToWishlist = async (productId: string): Promise<boolean> => {
+    if (isWishlisted(productId)) return true;
+    const updated = [productId, ...productIds];
+
+    if (isGuestWishlist) {
+      setProductIds(updated);
+      saveGuestWishlist(updated);
+      return true;
+    }
+
+    // Update straight away so the heart fills in; roll back if the save fails
+    setProductIds(updated);
+    const success = await addWishlistItems([productId]);
+    if (!success) {
+      setProductIds(prev => prev.filter(id => id !== productId));
+    }
+    return success;
+  };
+
+  const removeFromWishlist = async (productId: string): Promise<boolean> => {
+    const updated = productIds.filter(id => id !== productId);
+
+    if (isGuestWishlist) {
+      setProductIds(updated);
+      saveGuestWishlist(updated);
+      return true;
+    }
+
+    setProductIds(updated);
+    const success = await removeWishlistItem(productId);
+    if (!success) {
+      await fetchWishlist();
+    }
+    return success;
+  };
+
+  // Returns whether the product is on the wishlist afterwards
+  const toggleWishlist = async (productId: string): Promise<boolean> => {
+    if (isWishlisted(productId)) {
+      return !(await removeFromWishlist(productId));
+    }
+    return addToWishlist(productId);
+  };
+
+  return (
+    <WishlistContext.Provider value={{
+      productIds,
+      loading,
+      isWishlisted,
+      addToWishlist,
+      removeFromWishlist,
+      toggleWishlist,
+      isGuestWishlist
+    }}>
+      {children}
+    </WishlistContext.Provider>
+  );
+};
+
+export const useWishlist = () => {
+  const context = useContext(WishlistContext);
+  if (context === undefined) {
+    throw new Error('useWishlist must be used within a WishlistProvider');
+  }
+  return context;
+};
@@ -9,17 +9,21 @@ export interface OrderItem {
   price_at_purchase: number;
 }
 
-export interface ShippingAddress {
-  firstName?: string;
-  lastName?: string;
+/** Delivery address, shared by checkout, the address book and placed orders */
+export interface Address {
+  firstName: string;
+  lastName: string;
+  phone: string;
   address: string;
   city: string;
+  state: string; // province code, e.g. 'GP'
+  zipCode: string; // 4-digit postal code
+  country: string;
+}
+
+export interface ShippingAddress extends Address {
   region?: string;
-  state?: string;
-  zipCode: string;
   postalCode?: string;
-  country: string;
-  phone: string;
   email?: string;
 }
 
@@ -34,7 +38,14 @@ export interface Order {
   shipping_address?: ShippingAddress;
   order_items?: OrderItem[];
   payment_method?: 'cash-on-delivery' | 'bank-transfer' | 'credit-card' | 'N/A';
+  payment_status?: 'awaiting' | 'paid' | 'failed' | 'refund_due' | 'refunded';
+  bank_reference?: string;
   shipping_fee?: number;
+  shipping_method?: string;
+  discount_amount?: number;
+  coupon_code?: string;
+  points_redeemed?: number;
+  points_discount?: number;
 }
 
 export interface InvoiceTemplateProps {
@@ -0,0 +1,59 @@
+import type { Address } from '../types/invoice';
+import type { SavedAddress, SavedAddressInput } from './supabase/client';
+import type { ProvinceCode } from './supabase/types';
+
+export const SA_PROVINCES: { code: ProvinceCode; name: string }[] = [
+  { code: 'EC', name: 'Eastern Cape' },
+  { code: 'FS', name: 'Free State' },
+  { code: 'GP', name: 'Gauteng' },
+  { code: 'KZN', name: 'KwaZulu-Natal' },
+  { code: 'LP', name: 'Limpopo' },
+  { code: 'MP', name: 'Mpumalanga' },
+  { code: 'NC', name: 'Northern Cape' },
+  { code: 'NW', name: 'North West' },
+  { code: 'WC', name: 'Western Cape' }
+];
+
+export const isProvinceCode = (value: string): value is ProvinceCode =>
+  SA_PROVINCES.some(province => province.code === value);
+
+// "Gauteng" for 'GP'; older orders may hold a full name, which is returned as is
+export const getProvinceName = (code: string): string =>
+  SA_PROVINCES.find(province => province.code === code)?.name || code;
+
+// Mirrors the checks on public.user_addresses; returns the first problem found
+export const validateAddress = (address: Address): string | null => {
+  if (!address.firstName.trim() || !address.lastName.trim()) return 'Please enter the recipient\'s name';
+  if (!address.address.trim() || !address.city.trim()) return 'Please fill in all shipping address fields';
+  if (!isProvinceCode(address.state)) return 'Please select a province';
+  if (!/^\d{4}$/.test(address.zipCode.trim())) return 'Postal code must be 4 digits';
+  return null;
+};
+
+// One-line summary used in address pickers, e.g. "12 Main Rd, Sandton, Gauteng 2196"
+export const formatAddressLine = (address: Pick<Address, 'address' | 'city' | 'state' | 'zipCode'>): string =>
+  `${address.address}, ${address.city}, ${getProvinceName(address.state)} ${address.zipCode}`;
+
+export const fromSavedAddress = (saved: SavedAddress): Address => ({
+  firstName: saved.first_name,
+  lastName: saved.last_name,
+  phone: saved.phone || '',
+  address: saved.address,
+  city: saved.city,
+  state: saved.province,
+  zipCode: saved.postal_code,
+  country: saved.country
+});
+
+export const toSavedAddressInput = (address: Address, label: string, isDefault = false): SavedAddressInput => ({
+  label: label.trim(),
+  first_name: address.firstName.trim(),
+  last_name: address.lastName.trim(),
+  phone: address.phone.trim() || null,
+  address: address.address.trim(),
+  city: address.city.trim(),
+  province: address.state as ProvinceCode,
+  postal_code: address.zipCode.trim(),
+  country: address.country,
+  is_default: isDefault
+});
@@ -0,0 +1,8 @@
+// Account customers pay into for bank-transfer orders
+export const BANK_DETAILS = {
+  accountName: 'CLARA RANYAMA',
+  bank: 'FNB',
+  accountNumber: '62804733766',
+  branchCode: '250655'
+};
+
@@ -0,0 +1,90 @@
+import type { CartItem } from '../App';
+import type { CartProduct } from './supabase/client';
+import { toProductVariants } from './inventory';
+
+// A change made to a cart line because the product changed since it was added
+export type CartIssue = {
+  productId: string;
+  size: string;
+  color: string;
+  message: string;
+  removed: boolean; // The line could no longer be bought and was taken out of the cart
+};
+
+export type CartRevalidation = {
+  items: CartItem[];
+  issues: CartIssue[];
+};
+
+const formatPrice = (price: number) => `R${price.toFixed(2)}`;
+
+// Compares cart lines with the live products. Lines whose product was removed
+// or whose size/color can no longer be bought are dropped, quantities are
+// lowered to the stock left and the stored product details are refreshed, so
+// the cart shows what checkout will charge.
+export const revalidateCartItems = (items: CartItem[], liveProducts: CartProduct[]): CartRevalidation => {
+  const issues: CartIssue[] = [];
+  const revalidated: CartItem[] = [];
+
+  for (const item of items) {
+    const live = liveProducts.find(product => product.id === item.productId);
+    const line = { productId: item.productId, size: item.size, color: item.color };
+    const name = live?.name || item.product?.name || 'An item';
+
+    if (!live) {
+      issues.push({ ...line, message: `${name} is no longer available and was removed from your cart`, removed: true });
+      continue;
+    }
+
+    const variants = toProductVariants(live.product_variants);
+    let stock: number | null = null; // null when stock is not tracked per variant
+
+    if (variants.length > 0) {
+      const variant = variants.find(v => v.size === item.size && v.color === item.color);
+      if (!variant) {
+        issues.push({ ...line, message: `${name}: size ${item.size} in ${item.color} is no longer available and was removed`, removed: true });
+        continue;
+      }
+      stock = variant.stock;
+    } else if (!(live.sizes || []).includes(item.size) || !(live.colors || []).includes(item.color)) {
+      issues.push({ ...line, message: `${name}: size ${item.size} in ${item.color} is no longer available and was removed`, removed: true });
+      continue;
+    } else if (live.in_stock === false) {
+      stock = 0;
+    }
+
+    if (stock === 0) {
+      issues.push({ ...line, message: `${name} in size ${item.size}, ${item.color} has sold out and was removed`, removed: true });
+      continue;
+    }
+
+    let quantity = item.quantity;
+    if (stock !== null && stock < quantity) {
+      quantity = stock;
+      issues.push({ ...line, message: `Only ${stock} of ${name} in size ${item.size}, ${item.color} left, so your quantity was lowered to ${stock}`, removed: false });
+    }
+
+    const livePrice = Number(live.price);
+    if (Math.round(livePrice * 100) !== Math.round(Number(item.product.price) * 100)) {
+      issues.push({ ...line, message: `${name}: price changed from ${formatPrice(Number(item.product.price))} to ${formatPrice(livePrice)}`, removed: false });
+    }
+
+    revalidated.push({
+      ...item,
+      quantity,
+      product: {
+        ...item.product,
+        name: live.name,
+        price: livePrice,
+        originalPrice: live.original_price || undefined,
+        sizes: live.sizes || item.product.sizes,
+        colors: live.colors || item.product.colors,
+        inStock: live.in_stock ?? true,
+        variants,
+        earlyAccessUntil: live.early_access_until || undefined
+      }
+    });
+  }
+
+  return { items: revalidated, issues };
+};
@@ -0,0 +1,48 @@
+export type CatalogFilters = {
+  sizes: string[];
+  colors: string[];
+  priceRange: [number, number] | null; // null means no price limit
+  onSaleOnly: boolean;
+};
+
+export type CatalogFacetCounts = {
+  sizes: Record<string, number>;
+  colors: Record<string, number>;
+  onSale: number;
+};
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  sizes: [],
+  colors: [],
+  priceRange: null,
+  onSaleOnly: false
+};
+
+const SIZE_ORDER = ['XXS', 'XS', 'S', 'M', 'L', 'XL', 'XXL', 'XXXL'];
+
+// Clothing sizes in wearing order, then numeric sizes (shoes), then anything else alphabetically
+const compareSizes = (a: string, b: string): number => {
+  const aIndex = SIZE_ORDER.indexOf(a.toUpperCase());
+  const bIndex = SIZE_ORDER.indexOf(b.toUpperCase());
+  if (aIndex !== -1 && bIndex !== -1) return aIndex - bIndex;
+  if (aIndex !== -1) return -1;
+  if (bIndex !== -1) return 1;
+
+  const aNumber = Number(a);
+  const bNumber = Number(b);
+  if (!isNaN(aNumber) && !isNaN(bNumber)) return aNumber - bNumber;
+  return a.localeCompare(b);
+};
+
+export const hasActiveCatalogFilters = (filters: CatalogFilters): boolean =>
+  filters.sizes.length > 0 || filters.colors.length > 0 || filters.priceRange !== null || filters.onSaleOnly;
+
+export const countActiveCatalogFilters = (filters: CatalogFilters): number =>
+  filters.sizes.length + filters.colors.length + (filters.priceRange ? 1 : 0) + (filters.onSaleOnly ? 1 : 0);
+
+// Every size and color offered in the current selection, given the counts from
+// the database (options that other filters rule out are included with a count of 0)
+export const getFacetOptions = (counts: CatalogFacetCounts) => ({
+  sizes: Object.keys(counts.sizes).sort(compareSizes),
+  colors: Object.keys(counts.colors).sort((a, b) => a.localeCompare(b))
+});
@@ -0,0 +1,52 @@
+import type { Category } from './supabase/client';
+
+// Slugs are URL segments, e.g. "evening-dresses"
+export const toCategorySlug = (name: string) =>
+  name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Links use the slug, but older links and callers still pass the display name
+export const findCategory = (categories: Category[], nameOrSlug: string): Category | null =>
+  categories.find(category => category.slug === nameOrSlug || category.name === nameOrSlug) || null;
+
+// Categories without a parent, in display order (categories arrive sorted)
+export const getTopLevelCategories = (categories: Category[]): Category[] =>
+  categories.filter(category => !category.parent_id || !categories.some(parent => parent.id === category.parent_id));
+
+export const getSubcategories = (categories: Category[], parentId: string): Category[] =>
+  categories.filter(category => category.parent_id === parentId);
+
+// Names of the category and everything below it; browsing a parent shows its subcategories' products too
+export const getCategoryFamilyNames = (categories: Category[], name: string): string[] => {
+  const root = findCategory(categories, name);
+  if (!root) return [name];
+
+  const names: string[] = [];
+  const queue = [root];
+  while (queue.length > 0) {
+    const category = queue.shift()!;
+    if (names.includes(category.name)) continue;
+    names.push(category.name);
+    queue.push(...getSubcategories(categories, category.id));
+  }
+  return names;
+};
+
+// Product count and cover image of a category together with its subcategories,
+// from per-category stats keyed by name
+export const getCategoryFamilySummary = (
+  categories: Category[],
+  stats: Record<string, { productCount: number; coverImage: string | null }>,
+  name: string
+): { productCount: number; coverImage: string | null } => {
+  const entries = getCategoryFamilyNames(categories, name).map(familyName => stats[familyName]).filter(Boolean);
+  return {
+    productCount: entries.reduce((sum, entry) => sum + entry.productCount, 0),
+    coverImage: entries.find(entry => entry.coverImage)?.coverImage || null
+  };
+};
+
+// "Parent › Child" for pickers, so subcategories are shown in context
+export const formatCategoryLabel = (categories: Category[], category: Category): string => {
+  const parent = category.parent_id ? categories.find(c => c.id === category.parent_id) : null;
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
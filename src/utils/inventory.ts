@@ -0,0 +1,62 @@
+import type { Product, ProductVariant } from '../App';
+
+// Products without variant rows fall back to the product-level in_stock flag
+const tracksVariants = (product: Product): product is Product & { variants: ProductVariant[] } =>
+  Array.isArray(product.variants) && product.variants.length > 0;
+
+export const getVariantStock = (product: Product, size: string, color: string): number | null => {
+  if (!tracksVariants(product)) return null;
+  const variant = product.variants.find(v => v.size === size && v.color === color);
+  return variant ? variant.stock : 0;
+};
+
+export const isVariantAvailable = (product: Product, size: string, color: string, quantity: number = 1): boolean => {
+  const stock = getVariantStock(product, size, color);
+  if (stock === null) return product.inStock;
+  return stock >= quantity;
+};
+
+// A size is selectable for a color if that exact combination has stock
+export const isSizeAvailable = (product: Product, size: string, color?: string): boolean => {
+  if (!tracksVariants(product)) return product.inStock;
+  return product.variants.some(v => v.size === size && (!color || v.color === color) && v.stock > 0);
+};
+
+// A color is selectable if any size in that color has stock
+export const isColorAvailable = (product: Product, color: string): boolean => {
+  if (!tracksVariants(product)) return product.inStock;
+  return product.variants.some(v => v.color === color && v.stock > 0);
+};
+
+// Pick the first size/color combination that can actually be bought
+export const getFirstAvailableVariant = (product: Product): { size: string; color: string } | null => {
+  for (const color of product.colors || []) {
+    for (const size of product.sizes || []) {
+      if (isVariantAvailable(product, size, color)) {
+        return { size, color };
+      }
+    }
+  }
+  return null;
+};
+
+// Supabase returns variants as product_variants rows when embedded in a product select
+export const toProductVariants = (rows: unknown): ProductVariant[] => {
+  if (!Array.isArray(rows)) return [];
+  return rows
+    .filter((row: any) => row && typeof row.size === 'string' && typeof row.color === 'string')
+    .map((row: any) => ({
+      size: row.size,
+      color: row.color,
+      stock: Number(row.stock_quantity) || 0
+    }));
+};
+
+// Turn the database "Insufficient stock" exception into a shopper-facing message
+export const getStockErrorMessage = (error: unknown): string | null => {
+  const message = (error as { message?: string } | null)?.message;
+  if (message && message.startsWith('Insufficient stock')) {
+    return message.replace('Insufficient stock for', 'Sorry, there is not enough stock left for');
+  }
+  return null;
+};
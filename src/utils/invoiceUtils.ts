@@ -1,4 +1,5 @@
 import { Order, OrderItem, ShippingAddress, StatusStyles } from '../types/invoice';
+import { getProvinceName } from './address';
 
 /** Format ZAR currency */
 export const formatCurrency = (a: number): string => new Intl.NumberFormat('en-ZA', { style: 'currency', currency: 'ZAR' }).format(a);
@@ -18,14 +19,35 @@ export const formatAddress = (sa: ShippingAddress | undefined): ShippingAddress
   if (!sa) return null;
   const { address, city, state, zipCode, country } = sa;
   const nc = country === 'ZA' ? 'South Africa' : country;
-  return { ...sa, address: address || '', city: city || '', region: state || '', postalCode: zipCode || '', country: nc || 'South Africa' };
+  return { ...sa, address: address || '', city: city || '', region: state ? getProvinceName(state) : '', postalCode: zipCode || '', country: nc || 'South Africa' };
 };
 
 /** Calculate subtotal from items */
 export const calculateSubtotal = (o: Order): number => o.order_items?.length ? o.order_items.reduce((t, i: OrderItem) => t + i.quantity * i.price_at_purchase, 0) : o.amount;
 
-/** Calculate total with shipping */
-export const calculateTotal = (o: Order): number => calculateSubtotal(o) + (o.shipping_fee ?? 150);
+/** Shipping fee stored on the order; orders placed before shipping methods were charged none */
+export const calculateShipping = (o: Order): number => o.shipping_fee ?? 0;
+
+/** Shipping line label, e.g. "Shipping (PAXI Standard)" */
+export const getShippingLabel = (o: Order): string => o.shipping_method ? `Shipping (${o.shipping_method})` : 'Shipping';
+
+/** Coupon discount stored on the order */
+export const calculateDiscount = (o: Order): number => o.discount_amount ?? 0;
+
+/** Discount line label, e.g. "Discount (WELCOME10)" */
+export const getDiscountLabel = (o: Order): string => o.coupon_code ? `Discount (${o.coupon_code})` : 'Discount';
+
+/** Rewards points discount stored on the order */
+export const calculatePointsDiscount = (o: Order): number => o.points_discount ?? 0;
+
+/** Points discount line label, e.g. "Points (1200 pts)" */
+export const getPointsDiscountLabel = (o: Order): string => o.points_redeemed ? `Points (${o.points_redeemed} pts)` : 'Points';
+
+/** Reference to quote on a bank transfer, e.g. "RM000123"; null for other payment methods */
+export const getBankReference = (o: Order): string | null => o.payment_method === 'bank-transfer' && o.bank_reference ? o.bank_reference : null;
+
+/** Calculate total with shipping and discounts */
+export const calculateTotal = (o: Order): number => Math.max(calculateSubtotal(o) + calculateShipping(o) - calculateDiscount(o) - calculatePointsDiscount(o), 0);
 
 /** Status badge styles */
 export const statusStyles: StatusStyles = {
@@ -0,0 +1,38 @@
+import type { MembershipTier } from './supabase/client';
+import { formatCurrencyZAR } from './currency';
+
+// "1.5x points", "Free shipping", ... followed by the tier's listed benefits
+export const getTierPerkLabels = (tier: MembershipTier): string[] => [
+  ...(Number(tier.earn_multiplier) > 1 ? [`${Number(tier.earn_multiplier)}x points`] : []),
+  ...(tier.free_shipping ? ['Free shipping'] : []),
+  ...(tier.early_access ? ['Early access'] : []),
+  ...tier.benefits
+];
+
+// How to reach a tier, e.g. "Spend R5 000,00 or earn 500 points in 12 months";
+// null for a tier without thresholds, which every member holds
+export const formatTierRequirement = (tier: MembershipTier): string | null => {
+  const parts = [
+    tier.min_spend_12m !== null ? `Spend ${formatCurrencyZAR(tier.min_spend_12m)}` : null,
+    tier.min_points_12m !== null ? `earn ${tier.min_points_12m} points` : null
+  ].filter((part): part is string => part !== null);
+  if (parts.length === 0) return null;
+  const requirement = parts.join(' or ');
+  return `${requirement.charAt(0).toUpperCase()}${requirement.slice(1)} in 12 months`;
+};
+
+// The next tier up from the member's current one, if any
+export const getNextTier = (tiers: MembershipTier[], currentTierName: string): MembershipTier | null => {
+  const current = tiers.find(tier => tier.name === currentTierName);
+  return tiers
+    .filter(tier => !current || tier.rank > current.rank)
+    .sort((a, b) => a.rank - b.rank)[0] || null;
+};
+
+// Mirrors public.evaluate_membership_tier: whichever of spend or points is
+// closer to the threshold counts. Returns 0-100.
+export const getTierProgress = (tier: MembershipTier, spend12m: number, points12m: number): number => {
+  const ratio = (value: number, threshold: number | null) =>
+    threshold === null ? 0 : threshold === 0 ? 1 : value / threshold;
+  return Math.min(Math.max(ratio(spend12m, tier.min_spend_12m), ratio(points12m, tier.min_points_12m)) * 100, 100);
+};
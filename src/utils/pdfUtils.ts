@@ -12,6 +12,13 @@ interface OrderData {
   shipping_address?: any;
   order_items?: any[];
   payment_method?: string;
+  bank_reference?: string;
+  shipping_fee?: number;
+  shipping_method?: string;
+  discount_amount?: number;
+  points_redeemed?: number;
+  points_discount?: number;
+  coupon_code?: string;
 }
 
 /**
@@ -199,7 +206,7 @@ export const generateInvoiceHTML = async (order: OrderData): Promise<string> =>
   };
 
   const subtotal = calculateSubtotal();
-  const shippingFee = 150;
+  const shippingFee = order.shipping_fee ?? 0; // Orders from before shipping methods stored no fee
   const total = order.amount;
 
   const html = `
@@ -277,6 +284,7 @@ export const generateInvoiceHTML = async (order: OrderData): Promise<string> =>
               'Payment Method Not Specified'
             }
           </p>
+          ${order.payment_method === 'bank-transfer' && order.bank_reference ? `<p style="color: #666;">Reference: <strong>${order.bank_reference}</strong></p>` : ''}
         </div>
         <div style="width: 48%;">
           <div style="border: 1px solid #e5e7eb; padding: 20px; border-radius: 8px;">
@@ -285,9 +293,21 @@ export const generateInvoiceHTML = async (order: OrderData): Promise<string> =>
               <span>${formatCurrency(subtotal)}</span>
             </div>
             <div style="display: flex; justify-content: space-between; margin-bottom: 8px;">
-              <span>Shipping:</span>
+              <span>${order.shipping_method ? `Shipping (${order.shipping_method})` : 'Shipping'}:</span>
               <span>${formatCurrency(shippingFee)}</span>
             </div>
+            ${order.discount_amount ? `
+            <div style="display: flex; justify-content: space-between; margin-bottom: 8px; color: #16a34a;">
+              <span>${order.coupon_code ? `Discount (${order.coupon_code})` : 'Discount'}:</span>
+              <span>-${formatCurrency(order.discount_amount)}</span>
+            </div>
+            ` : ''}
+            ${order.points_discount ? `
+            <div style="display: flex; justify-content: space-between; margin-bottom: 8px; color: #16a34a;">
+              <span>Points${order.points_redeemed ? ` (${order.points_redeemed} pts)` : ''}:</span>
+              <span>-${formatCurrency(order.points_discount)}</span>
+            </div>
+            ` : ''}
             <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 8px 0;">
             <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 18px;">
               <span>Total:</span>
@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf';
 import { Order } from '../types/invoice';
 import { formatCurrencyZAR } from './currency';
+import { calculateShipping, calculateDiscount, getShippingLabel, getDiscountLabel, calculatePointsDiscount, getPointsDiscountLabel, getBankReference } from './invoiceUtils';
 
 /**
  * Generate PDF invoice with beautiful dark theme styling
@@ -193,8 +194,9 @@ export const generateInvoicePDFSimple = async (order: Order): Promise<void> => {
 
       yPosition += 10;
 
-      // Totals section with modern styling
-      createCard(110, yPosition, 80, 35);
+      // Totals section with modern styling; one extra row per discount applied
+      const totalsHeight = 35 + (calculateDiscount(order) > 0 ? 8 : 0) + (calculatePointsDiscount(order) > 0 ? 8 : 0);
+      createCard(110, yPosition, 80, totalsHeight);
       
       pdf.setTextColor(colors.secondary[0], colors.secondary[1], colors.secondary[2]);
       pdf.setFontSize(9);
@@ -204,10 +206,22 @@ export const generateInvoicePDFSimple = async (order: Order): Promise<void> => {
       pdf.text(formatCurrencyZAR(calculateSubtotal(order)), 185, totalY, { align: 'right' });
       totalY += 8;
 
-      pdf.text('Shipping:', 115, totalY);
-      pdf.text(formatCurrencyZAR(150), 185, totalY, { align: 'right' });
+      pdf.text(`${getShippingLabel(order)}:`, 115, totalY);
+      pdf.text(formatCurrencyZAR(calculateShipping(order)), 185, totalY, { align: 'right' });
       totalY += 8;
 
+      if (calculateDiscount(order) > 0) {
+        pdf.text(`${getDiscountLabel(order)}:`, 115, totalY);
+        pdf.text(`-${formatCurrencyZAR(calculateDiscount(order))}`, 185, totalY, { align: 'right' });
+        totalY += 8;
+      }
+
+      if (calculatePointsDiscount(order) > 0) {
+        pdf.text(`${getPointsDiscountLabel(order)}:`, 115, totalY);
+        pdf.text(`-${formatCurrencyZAR(calculatePointsDiscount(order))}`, 185, totalY, { align: 'right' });
+        totalY += 8;
+      }
+
       // Total with accent
       pdf.setDrawColor(colors.border[0], colors.border[1], colors.border[2]);
       pdf.line(115, totalY, 185, totalY);
@@ -221,7 +235,7 @@ export const generateInvoicePDFSimple = async (order: Order): Promise<void> => {
       pdf.text(formatCurrencyZAR(order.amount), 185, totalY, { align: 'right' });
 
       // Payment method
-      yPosition += 45;
+      yPosition += totalsHeight + 10;
       pdf.setTextColor(colors.secondary[0], colors.secondary[1], colors.secondary[2]);
       pdf.setFontSize(9);
       pdf.setFont('helvetica', 'normal');
@@ -230,6 +244,11 @@ export const generateInvoicePDFSimple = async (order: Order): Promise<void> => {
                          order.payment_method === 'credit-card' ? '💳 Credit Card' :
                          'Payment Method Not Specified';
       pdf.text(`Payment Method: ${paymentText}`, 20, yPosition);
+      const bankReference = getBankReference(order);
+      if (bankReference) {
+        yPosition += 5;
+        pdf.text(`Payment Reference: ${bankReference}`, 20, yPosition);
+      }
     }
 
     // Footer section
@@ -417,6 +436,7 @@ export const printInvoice = async (order: Order): Promise<void> => {
                 'Payment Method Not Specified'
               }
             </p>
+            ${getBankReference(order) ? `<p style="color: rgba(255, 255, 255, 0.8); font-size: 14px; margin-top: 6px;">Reference: <strong>${getBankReference(order)}</strong></p>` : ''}
           </div>
           
           <div style="flex: 1; min-width: 250px; background: rgb(55, 65, 81); padding: 15px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);">
@@ -426,9 +446,21 @@ export const printInvoice = async (order: Order): Promise<void> => {
                 <span>${formatCurrency(calculateSubtotal(order))}</span>
               </div>
               <div style="display: flex; justify-content: space-between; margin-bottom: 8px; color: rgba(255, 255, 255, 0.8); font-size: 13px;">
-                <span>Shipping:</span>
-                <span>R150.00</span>
+                <span>${getShippingLabel(order)}:</span>
+                <span>${formatCurrency(calculateShipping(order))}</span>
+              </div>
+              ${calculateDiscount(order) > 0 ? `
+              <div style="display: flex; justify-content: space-between; margin-bottom: 8px; color: rgb(34, 197, 94); font-size: 13px;">
+                <span>${getDiscountLabel(order)}:</span>
+                <span>-${formatCurrency(calculateDiscount(order))}</span>
+              </div>
+              ` : ''}
+              ${calculatePointsDiscount(order) > 0 ? `
+              <div style="display: flex; justify-content: space-between; margin-bottom: 8px; color: rgb(34, 197, 94); font-size: 13px;">
+                <span>${getPointsDiscountLabel(order)}:</span>
+                <span>-${formatCurrency(calculatePointsDiscount(order))}</span>
               </div>
+              ` : ''}
               <hr style="border: none; border-top: 2px solid rgba(244, 63, 94, 0.3); margin: 12px 0;">
               <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 16px; color: white;">
                 <span>Total:</span>
@@ -625,6 +657,7 @@ export const viewInvoiceInModal = async (order: Order): Promise<void> => {
               'Payment Method Not Specified'
             }
           </p>
+          ${getBankReference(order) ? `<p style="color: rgba(255, 255, 255, 0.8); font-size: 16px; margin-top: 8px;">Reference: <strong>${getBankReference(order)}</strong></p>` : ''}
         </div>
         
         <div style="flex: 1; min-width: 250px; background: rgb(55, 65, 81); padding: 25px; border-radius: 12px; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
@@ -634,9 +667,21 @@ export const viewInvoiceInModal = async (order: Order): Promise<void> => {
               <span>${formatCurrency(calculateSubtotal(order))}</span>
             </div>
             <div style="display: flex; justify-content: space-between; margin-bottom: 12px; color: rgba(255, 255, 255, 0.8);">
-              <span>Shipping:</span>
-              <span>R150.00</span>
+              <span>${getShippingLabel(order)}:</span>
+              <span>${formatCurrency(calculateShipping(order))}</span>
+            </div>
+            ${calculateDiscount(order) > 0 ? `
+            <div style="display: flex; justify-content: space-between; margin-bottom: 12px; color: rgb(34, 197, 94);">
+              <span>${getDiscountLabel(order)}:</span>
+              <span>-${formatCurrency(calculateDiscount(order))}</span>
+            </div>
+            ` : ''}
+            ${calculatePointsDiscount(order) > 0 ? `
+            <div style="display: flex; justify-content: space-between; margin-bottom: 12px; color: rgb(34, 197, 94);">
+              <span>${getPointsDiscountLabel(order)}:</span>
+              <span>-${formatCurrency(calculatePointsDiscount(order))}</span>
             </div>
+            ` : ''}
             <hr style="border: none; border-top: 2px solid rgba(244, 63, 94, 0.3); margin: 16px 0;">
             <div style="display: flex; justify-content: space-between; font-weight: bold; font-size: 20px; color: white;">
               <span>Total:</span>
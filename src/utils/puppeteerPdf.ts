@@ -12,6 +12,13 @@ interface OrderData {
   shipping_address?: any;
   order_items?: any[];
   payment_method?: string;
+  bank_reference?: string;
+  shipping_fee?: number;
+  shipping_method?: string;
+  discount_amount?: number;
+  points_redeemed?: number;
+  points_discount?: number;
+  coupon_code?: string;
 }
 
 /**
@@ -830,6 +837,7 @@ function generateModernHTML(order: OrderData): string {
                 order.payment_method === 'bank-transfer' ? 'Direct bank transfer payment' :
                 order.payment_method === 'credit-card' ? 'Secure credit card payment' :
                 'Payment method will be confirmed'}</div>
+              ${order.payment_method === 'bank-transfer' && order.bank_reference ? `<div class="payment-method-desc">Reference: <strong>${order.bank_reference}</strong></div>` : ''}
             </div>
           </div>
 
@@ -845,9 +853,21 @@ function generateModernHTML(order: OrderData): string {
               <span class="summary-value">R$${calculateSubtotal(order).toFixed(2)}</span>
             </div>
             <div class="summary-row">
-              <span class="summary-label">Shipping</span>
-              <span class="summary-value">R150.00</span>
+              <span class="summary-label">${order.shipping_method ? `Shipping (${order.shipping_method})` : 'Shipping'}</span>
+              <span class="summary-value">R${(order.shipping_fee ?? 0).toFixed(2)}</span>
             </div>
+            ${order.discount_amount ? `
+            <div class="summary-row">
+              <span class="summary-label">${order.coupon_code ? `Discount (${order.coupon_code})` : 'Discount'}</span>
+              <span class="summary-value">-R${order.discount_amount.toFixed(2)}</span>
+            </div>
+            ` : ''}
+            ${order.points_discount ? `
+            <div class="summary-row">
+              <span class="summary-label">Points${order.points_redeemed ? ` (${order.points_redeemed} pts)` : ''}</span>
+              <span class="summary-value">-R${order.points_discount.toFixed(2)}</span>
+            </div>
+            ` : ''}
             <div class="summary-row">
               <span class="total-label">Total Amount</span>
               <span class="total-value">R${order.amount.toFixed(2)}</span>
@@ -0,0 +1,51 @@
+import type { ReturnReason, ReturnRequest, ReturnResolution } from './supabase/client';
+
+// Mirrors public.request_return and the returns policy page
+export const RETURN_WINDOW_DAYS = 30;
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  wrong_size: 'Wrong size',
+  damaged: 'Arrived damaged or faulty',
+  not_as_described: 'Not as described',
+  changed_mind: 'Changed my mind',
+  other: 'Other'
+};
+
+export const RETURN_STATUS_LABELS: Record<ReturnRequest['status'], string> = {
+  requested: 'Waiting for approval',
+  approved: 'Approved, send it back',
+  rejected: 'Not accepted',
+  received: 'Received',
+  resolved: 'Completed'
+};
+
+export const RETURN_RESOLUTION_LABELS: Record<ReturnResolution, string> = {
+  refund: 'Refund',
+  store_credit: 'Store credit',
+  exchange: 'Exchange'
+};
+
+// Delivery time from the order's status history, falling back to its last update
+const getDeliveredAt = (order: { updated_at?: string; order_events?: { status: string; created_at: string }[] }): Date | null => {
+  const delivered = (order.order_events || [])
+    .filter(event => event.status === 'delivered')
+    .map(event => new Date(event.created_at).getTime());
+  if (delivered.length > 0) return new Date(Math.max(...delivered));
+  return order.updated_at ? new Date(order.updated_at) : null;
+};
+
+export const isWithinReturnWindow = (order: { status: string; updated_at?: string; order_events?: { status: string; created_at: string }[] }): boolean => {
+  if (order.status !== 'delivered') return false;
+  const deliveredAt = getDeliveredAt(order);
+  if (!deliveredAt) return false;
+  return Date.now() - deliveredAt.getTime() <= RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+};
+
+// Units of an order item not already covered by a return that is still open or done
+export const getReturnableQuantity = (
+  item: { id: string; quantity: number },
+  returns: Pick<ReturnRequest, 'order_item_id' | 'quantity' | 'status'>[]
+): number =>
+  item.quantity - returns
+    .filter(request => request.order_item_id === item.id && request.status !== 'rejected')
+    .reduce((total, request) => total + request.quantity, 0);
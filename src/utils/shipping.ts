@@ -0,0 +1,54 @@
+import type { ShippingMethod, ShipmentStatus } from './supabase/client';
+
+// Mirrors public.apply_order_shipping: free at or above the method's threshold, or
+// always for members whose tier includes free shipping. The database recalculates
+// this when the order is placed.
+export const getShippingFee = (method: ShippingMethod, subtotal: number, memberFreeShipping = false): number => {
+  if (memberFreeShipping) return 0;
+  if (method.free_shipping_threshold !== null && subtotal >= method.free_shipping_threshold) return 0;
+  return method.rate;
+};
+
+// Lowest fee among the methods on offer, used before a method has been chosen
+export const getCheapestShippingFee = (methods: ShippingMethod[], subtotal: number, memberFreeShipping = false): number | null => {
+  if (methods.length === 0) return null;
+  return Math.min(...methods.map(method => getShippingFee(method, subtotal, memberFreeShipping)));
+};
+
+// Smallest amount still needed to unlock free shipping on any method, or null if none offers it
+export const getAmountUntilFreeShipping = (methods: ShippingMethod[], subtotal: number): number | null => {
+  const thresholds = methods
+    .map(method => method.free_shipping_threshold)
+    .filter((threshold): threshold is number => threshold !== null);
+  if (thresholds.length === 0) return null;
+  return Math.max(0, Math.min(...thresholds) - subtotal);
+};
+
+// "2-3 business days", or "1 business day" when the range collapses
+export const formatDeliveryEstimate = (method: Pick<ShippingMethod, 'min_delivery_days' | 'max_delivery_days'>): string => {
+  const { min_delivery_days: min, max_delivery_days: max } = method;
+  const days = min === max ? `${max}` : `${min}-${max}`;
+  return `${days} business day${max === 1 ? '' : 's'}`;
+};
+
+// Couriers a shipment can be booked with. Tracked couriers have an adapter in
+// supabase/functions/_shared/couriers and update the order by themselves;
+// the others are moved along by hand.
+export const COURIERS: { id: string; name: string; tracked: boolean }[] = [
+  { id: 'courier-guy', name: 'The Courier Guy', tracked: false },
+  { id: 'aramex', name: 'Aramex', tracked: false },
+  { id: 'postnet', name: 'PostNet', tracked: false },
+  { id: 'pargo', name: 'Pargo', tracked: false },
+  ...(import.meta.env.DEV ? [{ id: 'local', name: 'Test courier (development)', tracked: true }] : [])
+];
+
+export const getCourierName = (courierId: string): string =>
+  COURIERS.find(courier => courier.id === courierId)?.name || courierId;
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  label_created: 'Label created',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  exception: 'Delivery problem'
+};
@@ -1,7 +1,94 @@
 import { createClient } from '@supabase/supabase-js';
 import { Database } from './types';
+import { getStockErrorMessage } from '../inventory';
 
 type SupabaseProduct = Database['public']['Tables']['products']['Row'];
+type SupabaseProductVariant = Database['public']['Tables']['product_variants']['Row'];
+type SupabaseProductReview = Database['public']['Tables']['product_reviews']['Row'];
+export type ReviewStatus = SupabaseProductReview['status'];
+export type ShippingMethod = Database['public']['Tables']['shipping_methods']['Row'];
+export type Category = Database['public']['Tables']['categories']['Row'];
+export type CategoryInput = Omit<Database['public']['Tables']['categories']['Insert'], 'id' | 'created_at' | 'updated_at'>;
+type ShippingMethodInput = Omit<Database['public']['Tables']['shipping_methods']['Insert'], 'id' | 'created_at' | 'updated_at'>;
+export type Coupon = Database['public']['Tables']['coupons']['Row'];
+export type CouponInput = Omit<Database['public']['Tables']['coupons']['Insert'], 'id' | 'created_at' | 'updated_at'>;
+export type CouponUsage = Database['public']['Views']['coupon_usage_stats']['Row'];
+export type AppliedCoupon = Database['public']['Functions']['validate_coupon']['Returns'][number];
+export type PaymentStatus = Database['public']['Tables']['orders']['Row']['payment_status'];
+export type PaymentProof = Database['public']['Tables']['payment_proofs']['Row'];
+export type BankTransfer = Database['public']['Functions']['get_order_bank_transfer']['Returns'][number];
+export type PointsLedgerEntry = Database['public']['Tables']['points_ledger']['Row'];
+export type PointsReward = Database['public']['Tables']['points_rewards']['Row'];
+export type PointsSummary = Database['public']['Functions']['get_points_summary']['Returns'][number];
+export type MembershipTier = Database['public']['Tables']['membership_tiers']['Row'];
+export type MembershipTierInput = Omit<Database['public']['Tables']['membership_tiers']['Insert'], 'id' | 'created_at' | 'updated_at'>;
+export type MembershipTierChange = Database['public']['Tables']['membership_tier_changes']['Row'];
+export type MembershipStatus = Database['public']['Functions']['get_membership_status']['Returns'][number];
+export type SavedAddress = Database['public']['Tables']['user_addresses']['Row'];
+export type SavedAddressInput = Omit<Database['public']['Tables']['user_addresses']['Insert'], 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+export type WishlistItem = Database['public']['Tables']['wishlist_items']['Row'];
+export type ProductAlert = Database['public']['Tables']['product_alerts']['Row'];
+// A product row with the per size/color stock embedded by PRODUCT_WITH_VARIANTS_SELECT
+export type ProductWithVariants = SupabaseProduct & {
+  product_variants: Pick<SupabaseProductVariant, 'size' | 'color' | 'stock_quantity'>[];
+};
+export type CartProduct = Pick<
+  SupabaseProduct,
+  'id' | 'name' | 'price' | 'original_price' | 'sizes' | 'colors' | 'in_stock' | 'early_access_until'
+> & { product_variants: Pick<SupabaseProductVariant, 'size' | 'color' | 'stock_quantity'>[] };
+export type SearchMiss = Database['public']['Functions']['get_search_misses']['Returns'][number];
+export type CategoryStats = Database['public']['Functions']['get_category_stats']['Returns'][number];
+export type OrderEvent = Database['public']['Tables']['order_events']['Row'];
+export type Shipment = Database['public']['Tables']['shipments']['Row'];
+export type ShipmentStatus = Shipment['status'];
+export type ShipmentItem = Database['public']['Tables']['shipment_items']['Row'];
+export type ShipmentWithItems = Shipment & { shipment_items: ShipmentItem[] };
+export type ReturnRequest = Database['public']['Tables']['return_requests']['Row'];
+export type ReturnReason = ReturnRequest['reason'];
+export type ReturnResolution = NonNullable<ReturnRequest['resolution']>;
+
+// An order as the guest-order-lookup edge function shows it to a guest
+type SupabaseOrder = Database['public']['Tables']['orders']['Row'];
+type SupabaseOrderItem = Database['public']['Tables']['order_items']['Row'];
+export type GuestOrderView = Pick<
+  SupabaseOrder,
+  'id' | 'status' | 'total_amount' | 'shipping_address' | 'shipping_method_name' | 'shipping_fee' | 'coupon_code' |
+  'discount_amount' | 'payment_status' | 'paid_at' | 'bank_reference' | 'customer_name' | 'customer_email' | 'created_at'
+> & {
+  order_events: Pick<OrderEvent, 'id' | 'status' | 'actor_role' | 'note' | 'tracking_number' | 'created_at'>[];
+  shipments: Pick<Shipment, 'id' | 'courier' | 'tracking_number' | 'status' | 'status_detail' | 'shipped_at' | 'delivered_at' | 'created_at'>[];
+  order_items: (Pick<SupabaseOrderItem, 'id' | 'product_id' | 'quantity' | 'price_at_purchase' | 'size' | 'color'> & {
+    products: { id: string; name: string; image_url: string | null } | null;
+  })[];
+};
+export type GuestOrderLookup = { token: string; expiresAt: string; order: GuestOrderView };
+export type ClaimableGuestOrder = Database['public']['Functions']['get_claimable_guest_orders']['Returns'][number];
+export type GuestOrderClaim = Database['public']['Functions']['claim_guest_orders']['Returns'][number];
+
+// What the storefront catalog is showing; one page at a time is loaded for it
+export type CatalogSort = 'featured' | 'newest' | 'price-low' | 'price-high' | 'rating';
+export type CatalogQuery = {
+  categories: string[] | null; // null for every category
+  search: string;
+  sizes: string[];
+  colors: string[];
+  priceRange: [number, number] | null;
+  onSaleOnly: boolean;
+  sort: CatalogSort;
+};
+// Position after the last product of a page
+export type CatalogCursor = { sortKey: string; id: string };
+export type CatalogFacets = {
+  total: number;
+  sizes: Record<string, number>;
+  colors: Record<string, number>;
+  on_sale: number;
+  min_price: number;
+  max_price: number;
+};
+
+// Products are always loaded together with their per-variant stock
+const PRODUCT_WITH_VARIANTS_SELECT = '*, product_variants (size, color, stock_quantity)';
 
 // Initialize the Supabase client
 const supabaseUrl = (import.meta as any).env.VITE_SUPABASE_URL;
@@ -47,11 +134,11 @@ export const getCurrentUser = async () => {
 };
 
 // Helper function to get active products (not soft deleted)
-export const getProducts = async (category?: string) => {
+export const getProducts = async (category?: string): Promise<ProductWithVariants[]> => {
   try {
     let query = supabase
       .from('products')
-      .select('*')
+      .select(PRODUCT_WITH_VARIANTS_SELECT)
       .eq('is_active', true); // Only return active products
     
     if (category && category !== 'All') {
@@ -68,14 +155,14 @@ export const getProducts = async (category?: string) => {
 };
 
 // Helper function to get all active products (admin only)
-export const getAllProducts = async (category?: string) => {
+export const getAllProducts = async (category?: string): Promise<ProductWithVariants[]> => {
   try {
     const isUserAdmin = await isAdmin();
     if (!isUserAdmin) throw new Error('Unauthorized');
 
     let query = supabase
       .from('products')
-      .select('*')
+      .select(PRODUCT_WITH_VARIANTS_SELECT)
       .eq('is_active', true); // Return only active products
     
     if (category && category !== 'All') {
@@ -92,14 +179,14 @@ export const getAllProducts = async (category?: string) => {
 };
 
 // Helper function to get deleted products (admin only)
-export const getDeletedProducts = async (category?: string) => {
+export const getDeletedProducts = async (category?: string): Promise<ProductWithVariants[]> => {
   try {
     const isUserAdmin = await isAdmin();
     if (!isUserAdmin) throw new Error('Unauthorized');
 
     let query = supabase
       .from('products')
-      .select('*')
+      .select(PRODUCT_WITH_VARIANTS_SELECT)
       .eq('is_active', false) // Return only inactive (soft-deleted) products
       .order('updated_at', { ascending: false }); // Most recently updated first
     
@@ -117,11 +204,11 @@ export const getDeletedProducts = async (category?: string) => {
 };
 
 // Helper function to get a single product
-export const getProduct = async (productId: string): Promise<SupabaseProduct | null> => {
+export const getProduct = async (productId: string): Promise<ProductWithVariants | null> => {
   try {
     const { data, error } = await supabase
       .from('products')
-      .select('*')
+      .select(PRODUCT_WITH_VARIANTS_SELECT)
       .eq('id', productId)
       .single();
 
@@ -133,6 +220,186 @@ export const getProduct = async (productId: string): Promise<SupabaseProduct | n
   }
 };
 
+// Catalog helper functions
+
+const toCatalogArgs = (query: CatalogQuery) => ({
+  p_categories: query.categories,
+  p_query: query.search.trim() || null,
+  p_sizes: query.sizes,
+  p_colors: query.colors,
+  p_min_price: query.priceRange ? query.priceRange[0] : null,
+  p_max_price: query.priceRange ? query.priceRange[1] : null,
+  p_on_sale: query.onSaleOnly
+});
+
+// Helper function to get one page of the catalog, filtered and sorted by the database.
+// Rows have the same shape as getProducts; pass nextCursor back for the following page.
+export const getCatalogPage = async (
+  query: CatalogQuery,
+  cursor: CatalogCursor | null = null,
+  limit = 24
+): Promise<{ products: ProductWithVariants[]; nextCursor: CatalogCursor | null } | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_catalog_page', {
+      ...toCatalogArgs(query),
+      p_sort: query.sort,
+      p_after_key: cursor?.sortKey ?? null,
+      p_after_id: cursor?.id ?? null,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    const rows = (data || []) as { product: ProductWithVariants; sort_key: string }[];
+    const last = rows[rows.length - 1];
+    return {
+      products: rows.map(row => row.product),
+      // A short page is the last one
+      nextCursor: rows.length === limit && last ? { sortKey: last.sort_key, id: last.product.id } : null
+    };
+  } catch (error) {
+    console.error('Error fetching catalog page:', error);
+    return null;
+  }
+};
+
+// Helper function to get the filter options and counts for a catalog query
+export const getCatalogFacets = async (query: CatalogQuery): Promise<CatalogFacets | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_catalog_facets', toCatalogArgs(query));
+
+    if (error) throw error;
+    return data as CatalogFacets;
+  } catch (error) {
+    console.error('Error fetching catalog facets:', error);
+    return null;
+  }
+};
+
+// Helper function to get a token that changes whenever products change (not on stock changes),
+// so cached catalog data can be reused until then
+export const getCatalogVersion = async (): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_catalog_version');
+
+    if (error) throw error;
+    return (data as string) || null;
+  } catch (error) {
+    console.error('Error fetching catalog version:', error);
+    return null;
+  }
+};
+
+// Helper function to get active products by id, e.g. the products on a wishlist (in no particular order)
+export const getProductsByIds = async (productIds: string[]): Promise<ProductWithVariants[]> => {
+  if (productIds.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('products')
+      .select(PRODUCT_WITH_VARIANTS_SELECT)
+      .in('id', productIds)
+      .eq('is_active', true);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching products by id:', error);
+    return [];
+  }
+};
+
+// Helper function to get the number of active products and a cover image per category
+export const getCategoryStats = async (): Promise<CategoryStats[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_category_stats');
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching category stats:', error);
+    return [];
+  }
+};
+
+// Helper function to get the per-variant stock of a product
+export const getProductVariants = async (productId: string): Promise<SupabaseProductVariant[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_variants')
+      .select('*')
+      .eq('product_id', productId);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching product variants:', error);
+    return [];
+  }
+};
+
+// Helper function to set stock levels for a product's variants (admin only)
+// Variants not in the list are removed, so the table always mirrors sizes x colors.
+// expectedStock is the stock the form was loaded with (null for a new size/color);
+// the save is rejected if a variant's stock changed since, e.g. through a sale.
+export const saveProductVariants = async (
+  productId: string,
+  variants: { size: string; color: string; stock: number; expectedStock: number | null }[]
+) => {
+  const { error } = await supabase.rpc('save_product_variants', {
+    p_product_id: productId,
+    p_variants: variants.map(variant => ({
+      size: variant.size,
+      color: variant.color,
+      stock: Math.max(0, Math.floor(variant.stock)),
+      expected_stock: variant.expectedStock
+    }))
+  });
+
+  if (error) {
+    console.error('Error saving product variants:', error);
+    throw new Error(error.code === 'P0001' ? error.message : 'Stock levels could not be updated');
+  }
+};
+
+// Helper function to list cart lines whose variant does not have enough stock
+export const findUnavailableCartItems = async (
+  cartItems: { productId: string; size: string; color: string; quantity: number; product?: { name: string } }[]
+) => {
+  const productIds = Array.from(new Set(cartItems.map(item => item.productId)));
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('product_variants')
+    .select('product_id, size, color, stock_quantity')
+    .in('product_id', productIds);
+
+  if (error) throw error;
+
+  const variants = (data || []) as Pick<SupabaseProductVariant, 'product_id' | 'size' | 'color' | 'stock_quantity'>[];
+
+  return cartItems.filter(item => {
+    const productVariants = variants.filter(v => v.product_id === item.productId);
+    if (productVariants.length === 0) return false; // Stock not tracked per variant
+    const variant = productVariants.find(v => v.size === item.size && v.color === item.color);
+    return !variant || variant.stock_quantity < item.quantity;
+  });
+};
+
+// Helper function to get the live price, sizes, colors and stock of the products in a cart.
+// Soft-deleted products are left out, so a product missing from the result can no longer be bought.
+export const getCartProducts = async (productIds: string[]): Promise<CartProduct[]> => {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('id, name, price, original_price, sizes, colors, in_stock, early_access_until, product_variants (size, color, stock_quantity)')
+    .in('id', productIds)
+    .eq('is_active', true);
+
+  if (error) throw error;
+  return (data || []) as CartProduct[];
+};
+
 // Helper function to get user's cart
 export const getUserCart = async () => {
   try {
@@ -153,9 +420,11 @@ export const getUserCart = async () => {
       .from('cart_items')
       .select(`
         id,
+        product_id,
         quantity,
         size,
         color,
+        price_at_add,
         products (id, name, price, image_url, category)
       `)
       .eq('cart_id', (cart as { id: string }).id);
@@ -351,8 +620,25 @@ export const updateCartItemQuantity = async (cartItemId: string, quantity: numbe
   }
 };
 
+// Helper function to record the price a cart line was last shown at, once the shopper was told it changed
+export const updateCartItemPrice = async (cartItemId: string, price: number) => {
+  try {
+    const { error } = await supabase
+      .from('cart_items')
+      .update({ price_at_add: price })
+      .eq('id', cartItemId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating cart item price:', error);
+    return false;
+  }
+};
+
 // Helper function to create an order from cart
-export const createOrderFromCart = async (shippingAddress: any) => {
+// Points are checked and debited by the database, which only takes what the 20% cap allows
+export const createOrderFromCart = async (shippingAddress: any, shippingMethodId: string, couponCode?: string | null, pointsToRedeem = 0) => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('User not authenticated');
@@ -364,15 +650,25 @@ export const createOrderFromCart = async (shippingAddress: any) => {
     }
 
     // Start a transaction using RPC
-    const { data: orderId, error: orderError } = await (supabase.rpc as any)('create_order_from_cart', {
+    const { data: orderId, error: orderError } = await supabase.rpc('create_order_from_cart', {
       p_user_id: user.id,
-      p_shipping_address: shippingAddress
+      p_shipping_address: shippingAddress,
+      p_shipping_method_id: shippingMethodId,
+      p_coupon_code: couponCode || null,
+      p_points_to_redeem: pointsToRedeem
     });
 
     if (orderError) throw orderError;
     return orderId;
   } catch (error) {
     console.error('Error creating order:', error);
+    // Surface oversold variants to the shopper instead of a generic failure
+    const stockMessage = getStockErrorMessage(error);
+    if (stockMessage) throw new Error(stockMessage);
+    // e.g. the chosen shipping method was switched off, the coupon ran out or points were spent meanwhile
+    if ((error as { code?: string } | null)?.code === 'P0001') {
+      throw new Error((error as { message: string }).message);
+    }
     return null;
   }
 };
@@ -381,16 +677,24 @@ export const createOrderFromCart = async (shippingAddress: any) => {
 export const createGuestOrder = async (
   cartItems: any[], 
   shippingAddress: any, 
+  shippingMethodId: string,
   customerInfo: { email: string; firstName: string; lastName: string; phone: string },
   createAccount: boolean = false,
-  password?: string
+  password?: string,
+  couponCode?: string | null
 ) => {
   try {
-    let userId = null;
+    // Check variant stock before signing anyone up. create_guest_order still
+    // reserves stock atomically in case another shopper takes the last unit meanwhile.
+    const unavailableItems = await findUnavailableCartItems(cartItems);
+    if (unavailableItems.length > 0) {
+      const item = unavailableItems[0];
+      throw new Error(`Insufficient stock for ${item.product?.name || 'an item in your cart'} (size ${item.size}, color ${item.color})`);
+    }
 
     // If user wants to create account, sign them up first
     if (createAccount && password) {
-      const { data: authData, error: authError } = await supabase.auth.signUp({
+      const { error: authError } = await supabase.auth.signUp({
         email: customerInfo.email,
         password: password,
         options: {
@@ -401,49 +705,41 @@ export const createGuestOrder = async (
         }
       });
 
+      // When sign-up starts a session the procedure links the order to the new account;
+      // otherwise it stays a guest order until the new account claims it
       if (authError) {
         console.warn('Account creation failed, proceeding as guest:', authError);
-      } else {
-        userId = authData.user?.id;
       }
     }
 
-    // Create order directly in the orders table
-    const orderData = {
-      user_id: userId, // null for guest orders
-      status: 'pending',
-      total_amount: cartItems.reduce((sum, item) => sum + (item.product.price * item.quantity), 0),
-      shipping_address: shippingAddress,
-      customer_email: customerInfo.email,
-      customer_name: `${customerInfo.firstName} ${customerInfo.lastName}`,
-      customer_phone: customerInfo.phone
-    };
-
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert(orderData as any) // Type assertion to bypass strict typing
-      .select()
-      .single();
+    // The database prices every line from the products table and validates
+    // sizes, colors and quantities; the client only says what was chosen
+    const { data: orderId, error: orderError } = await supabase.rpc('create_guest_order', {
+      p_items: cartItems.map(item => ({
+        product_id: item.productId,
+        quantity: item.quantity,
+        size: item.size,
+        color: item.color
+      })),
+      p_shipping_address: shippingAddress,
+      p_customer_email: customerInfo.email,
+      p_customer_name: `${customerInfo.firstName} ${customerInfo.lastName}`,
+      p_customer_phone: customerInfo.phone,
+      p_shipping_method_id: shippingMethodId,
+      p_coupon_code: couponCode || null
+    });
 
     if (orderError) throw orderError;
 
-    // Create order items
-    const orderItems = cartItems.map(item => ({
-      order_id: (order as any).id,
-      product_id: item.productId,
-      quantity: item.quantity,
-      price_at_purchase: item.product.price
-    }));
-
-    const { error: itemsError } = await supabase
-      .from('order_items')
-      .insert(orderItems as any); // Type assertion to bypass strict typing
-
-    if (itemsError) throw itemsError;
-
-    return (order as any).id;
+    return orderId as string;
   } catch (error) {
     console.error('Error creating guest order:', error);
+    const stockMessage = getStockErrorMessage(error);
+    if (stockMessage) throw new Error(stockMessage);
+    // Validation errors raised by create_guest_order are written for the shopper
+    if ((error as { code?: string } | null)?.code === 'P0001') {
+      throw new Error((error as { message: string }).message);
+    }
     return null;
   }
 };
@@ -461,8 +757,22 @@ export const getUserOrders = async () => {
         status,
         total_amount,
         shipping_address,
+        shipping_method_name,
+        shipping_fee,
+        coupon_code,
+        discount_amount,
+        points_redeemed,
+        points_discount,
+        payment_status,
+        paid_at,
+        bank_reference,
         created_at,
-        order_items (id, product_id, quantity, price_at_purchase, products (id, name, image_url))
+        updated_at,
+        payment_proofs (id, file_name, status, review_note, created_at),
+        order_events (id, status, previous_status, actor_role, note, tracking_number, created_at),
+        shipments (id, courier, tracking_number, status, status_detail, shipped_at, delivered_at, created_at),
+        return_requests (id, order_item_id, rma_number, request_type, quantity, reason, exchange_size, exchange_color, status, admin_note, return_label_reference, resolution, resolution_amount, store_credit_code, created_at),
+        order_items (id, product_id, quantity, price_at_purchase, size, color, products (id, name, image_url), product_reviews (id, rating, status))
       `)
       .eq('user_id', user.id)
       .order('created_at', { ascending: false });
@@ -495,55 +805,1400 @@ export const getUserRewards = async () => {
   }
 };
 
-// Admin helper functions
+// Helper function to get the current user's points balance, derived from the points ledger, and stored tier
+export const getPointsSummary = async (): Promise<PointsSummary | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_points_summary');
 
-// Helper function to get all orders (admin only)
-export const getAllOrders = async () => {
+    if (error) throw error;
+    return (data as PointsSummary[] | null)?.[0] || null;
+  } catch (error) {
+    console.error('Error fetching points summary:', error);
+    return null;
+  }
+};
+
+// Helper function to get the current user's most recent points activity
+export const getPointsHistory = async (limit = 20): Promise<PointsLedgerEntry[]> => {
   try {
-    const isUserAdmin = await isAdmin();
-    if (!isUserAdmin) throw new Error('Unauthorized');
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
 
     const { data, error } = await supabase
-      .from('orders')
-      .select(`
-        id,
-        user_id,
-        users (id, email, name),
-        status,
-        total_amount,
-        shipping_address,
-        created_at,
-        order_items (id, product_id, quantity, price_at_purchase, products (id, name, image_url))
-      `)
-      .order('created_at', { ascending: false });
-    
+      .from('points_ledger')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
     if (error) throw error;
     return data || [];
   } catch (error) {
-    console.error('Error fetching all orders:', error);
+    console.error('Error fetching points history:', error);
     return [];
   }
 };
 
-// Helper function to update order status (admin only)
-export const updateOrderStatus = async (orderId: string, status: string) => {
+// Helper function to get the rewards points can be spent on
+export const getPointsRewards = async (): Promise<PointsReward[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('points_rewards')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching points rewards:', error);
+    return [];
+  }
+};
+
+// Helper function to spend points on a reward; returns the single-use coupon code issued
+// The database checks the balance and records the redemption in the points ledger
+export const redeemPointsReward = async (rewardId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('redeem_points_reward', {
+    p_reward_id: rewardId
+  });
+
+  if (error) {
+    console.error('Error redeeming reward:', error);
+    throw new Error(error.message || 'Failed to redeem reward');
+  }
+  return data as string;
+};
+
+// Membership tier helper functions
+
+// Helper function to get all membership tiers, lowest rank first
+export const getMembershipTiers = async (): Promise<MembershipTier[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('membership_tiers')
+      .select('*')
+      .order('rank', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching membership tiers:', error);
+    return [];
+  }
+};
+
+// Helper function to get the current user's tier and perks from their last 12 months
+// The database re-evaluates the tier first, recording any upgrade or downgrade
+export const getMembershipStatus = async (): Promise<MembershipStatus | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_membership_status');
+
+    if (error) throw error;
+    return (data as MembershipStatus[] | null)?.[0] || null;
+  } catch (error) {
+    console.error('Error fetching membership status:', error);
+    return null;
+  }
+};
+
+// Helper function to get the current user's tier changes that have not been notified yet
+export const getPendingTierChanges = async (): Promise<MembershipTierChange[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('membership_tier_changes')
+      .select('*')
+      .eq('user_id', user.id)
+      .is('notified_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching tier changes:', error);
+    return [];
+  }
+};
+
+// Helper function to mark tier changes as notified so they are only announced once
+export const acknowledgeTierChanges = async (changeIds: string[]): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc('acknowledge_tier_changes', {
+      p_change_ids: changeIds
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error acknowledging tier changes:', error);
+    return false;
+  }
+};
+
+// Helper function to create or update a membership tier (admin only)
+// Members move to their new tier the next time it is evaluated
+export const saveMembershipTier = async (tier: MembershipTierInput, tierId?: string) => {
   try {
     const isUserAdmin = await isAdmin();
     if (!isUserAdmin) throw new Error('Unauthorized');
 
-    const { error } = await (supabase
-      .from('orders') as any)
-      .update({ status })
-      .eq('id', orderId);
-    
+    const query = tierId
+      ? (supabase.from('membership_tiers') as any).update(tier).eq('id', tierId)
+      : (supabase.from('membership_tiers') as any).insert(tier);
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+    return data as MembershipTier;
+  } catch (error) {
+    console.error('Error saving membership tier:', error);
+    return null;
+  }
+};
+
+// Helper function to delete a membership tier (admin only)
+export const deleteMembershipTier = async (tierId: string): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase
+      .from('membership_tiers')
+      .delete()
+      .eq('id', tierId);
+
     if (error) throw error;
     return true;
   } catch (error) {
-    console.error('Error updating order status:', error);
+    console.error('Error deleting membership tier:', error);
+    return false;
+  }
+};
+
+// Payment helper functions
+
+// Helper function to start a hosted card checkout for an order
+// Returns the provider's page to send the shopper to; the order is marked
+// paid only when the provider's notification reaches the payment-webhook function
+export const startCardPayment = async (orderId: string): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke('create-payment', {
+    body: { orderId }
+  });
+
+  if (error || !data?.redirectUrl) {
+    console.error('Error starting card payment:', error || data?.error);
+    throw new Error(data?.error || 'Could not start the card payment. Please try again.');
+  }
+
+  return data.redirectUrl as string;
+};
+
+// Helper function to check whether an order has been paid, also for guest orders
+export const getOrderPaymentStatus = async (orderId: string): Promise<PaymentStatus | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_order_payment_status', {
+      p_order_id: orderId
+    });
+
+    if (error) throw error;
+    return data as PaymentStatus | null;
+  } catch (error) {
+    console.error('Error fetching payment status:', error);
+    return null;
+  }
+};
+
+// Helper function to record a payment the provider does not report, e.g. a bank
+// transfer that arrived or a refund made from the provider's dashboard (admin only)
+export const setOrderPaymentStatus = async (orderId: string, status: PaymentStatus, note?: string): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase.rpc('set_order_payment_status', {
+      p_order_id: orderId,
+      p_status: status,
+      p_note: note || null
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating payment status:', error);
     return false;
   }
 };
 
+const PAYMENT_PROOFS_BUCKET = 'payment-proofs';
+
+// Helper function to get the transfer instructions for an order, also for guest orders
+export const getOrderBankTransfer = async (orderId: string): Promise<BankTransfer | null> => {
+  try {
+    const { data, error } = await supabase.rpc('get_order_bank_transfer', {
+      p_order_id: orderId
+    });
+
+    if (error) throw error;
+    return (data as BankTransfer[] | null)?.[0] || null;
+  } catch (error) {
+    console.error('Error fetching bank transfer details:', error);
+    return null;
+  }
+};
+
+// Helper function to upload a proof of payment for one of the current user's bank transfer orders
+// Throws with a shopper-facing reason when the upload is refused
+export const uploadPaymentProof = async (orderId: string, file: File) => {
+  const extension = file.name.split('.').pop() || 'pdf';
+  const path = `${orderId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(PAYMENT_PROOFS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false });
+
+  if (uploadError) {
+    console.error('Error uploading payment proof:', uploadError);
+    throw new Error('Could not upload the file. Please use a PDF or image under 5MB.');
+  }
+
+  const { data: proofId, error } = await supabase.rpc('submit_payment_proof', {
+    p_order_id: orderId,
+    p_file_path: path,
+    p_file_name: file.name,
+    p_content_type: file.type
+  });
+
+  if (error) {
+    console.error('Error submitting payment proof:', error);
+    await supabase.storage.from(PAYMENT_PROOFS_BUCKET).remove([path]);
+    throw new Error(error.code === 'P0001' ? error.message : 'Could not submit the proof of payment');
+  }
+
+  return proofId as string;
+};
+
+// Helper function to get a short-lived link to a proof of payment
+export const getPaymentProofUrl = async (filePath: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase.storage
+      .from(PAYMENT_PROOFS_BUCKET)
+      .createSignedUrl(filePath, 60 * 10);
+
+    if (error) throw error;
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error creating payment proof link:', error);
+    return null;
+  }
+};
+
+// Helper function to get unpaid bank transfer orders with their proofs, oldest first (admin only)
+export const getBankTransferQueue = async () => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        id,
+        status,
+        total_amount,
+        bank_reference,
+        payment_status,
+        customer_email,
+        customer_name,
+        created_at,
+        users (email, name),
+        payment_proofs (*)
+      `)
+      .eq('shipping_address->>paymentMethod', 'bank-transfer')
+      .in('payment_status', ['awaiting', 'failed'])
+      .neq('status', 'cancelled')
+      .is('deleted_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching bank transfer queue:', error);
+    return [];
+  }
+};
+
+// Helper function to mark a bank transfer as received (admin only)
+// Accepts the order's proofs and moves a pending order to processing
+export const confirmBankTransfer = async (orderId: string, note?: string): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase.rpc('confirm_bank_transfer', {
+      p_order_id: orderId,
+      p_note: note || null
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error confirming bank transfer:', error);
+    return false;
+  }
+};
+
+// Helper function to reject a proof of payment so the customer can upload another (admin only)
+export const rejectPaymentProof = async (proofId: string, note: string): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase.rpc('reject_payment_proof', {
+      p_proof_id: proofId,
+      p_note: note
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error rejecting payment proof:', error);
+    return false;
+  }
+};
+
+// Guest order helper functions
+
+// Helper function to find a guest order by its order or invoice number and checkout
+// email, or to reopen one from the signed view token a previous lookup returned
+export const lookupGuestOrder = async (
+  request: { orderNumber: string; email: string } | { token: string }
+): Promise<GuestOrderLookup> => {
+  const { data, error } = await supabase.functions.invoke('guest-order-lookup', {
+    body: request
+  });
+
+  if (error || !data?.order) {
+    // Errors written for the shopper come back in the body of a non-2xx response
+    const body = error ? await (error as { context?: Response }).context?.json().catch(() => null) : data;
+    console.error('Error looking up guest order:', error || body?.error);
+    throw new Error(body?.error || 'Could not look up the order. Please try again.');
+  }
+
+  return data as GuestOrderLookup;
+};
+
+// Helper function to list past guest orders placed with the signed-in customer's
+// email. Empty until the email is verified.
+export const getClaimableGuestOrders = async (): Promise<ClaimableGuestOrder[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_claimable_guest_orders');
+
+    if (error) throw error;
+    return (data || []) as ClaimableGuestOrder[];
+  } catch (error) {
+    console.error('Error fetching claimable guest orders:', error);
+    return [];
+  }
+};
+
+// Helper function to link those guest orders to the signed-in customer's account.
+// Delivered orders earn their points straight away.
+export const claimGuestOrders = async (): Promise<GuestOrderClaim> => {
+  const { data, error } = await supabase.rpc('claim_guest_orders');
+
+  if (error) {
+    console.error('Error claiming guest orders:', error);
+    throw new Error(error.code === 'P0001' ? error.message : 'Could not link your past orders. Please try again.');
+  }
+
+  return ((data || [])[0] || { orders_claimed: 0, points_earned: 0 }) as GuestOrderClaim;
+};
+
+// Category helper functions
+
+// Helper function to get all categories in display order
+export const getCategories = async (): Promise<Category[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    return [];
+  }
+};
+
+// Helper function to create or update a category (admin only)
+// Renaming a category renames it on its products too
+export const saveCategory = async (category: CategoryInput, categoryId?: string) => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const query = categoryId
+      ? (supabase.from('categories') as any).update(category).eq('id', categoryId)
+      : (supabase.from('categories') as any).insert(category);
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+    return data as Category;
+  } catch (error) {
+    console.error('Error saving category:', error);
+    return null;
+  }
+};
+
+// Helper function to delete a category (admin only)
+// Fails while products still use it; subcategories move to the top level
+export const deleteCategory = async (categoryId: string): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase
+      .from('categories')
+      .delete()
+      .eq('id', categoryId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    return false;
+  }
+};
+
+// Search helper functions
+
+// Helper function to get the most frequent searches without results (admin only)
+export const getSearchMisses = async (days = 30): Promise<SearchMiss[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_search_misses', { p_days: days });
+
+    if (error) throw error;
+    return (data || []) as SearchMiss[];
+  } catch (error) {
+    console.error('Error fetching search misses:', error);
+    return [];
+  }
+};
+
+// Shipping helper functions
+
+// Helper function to get the shipping methods offered at checkout
+export const getShippingMethods = async (): Promise<ShippingMethod[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('shipping_methods')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching shipping methods:', error);
+    return [];
+  }
+};
+
+// Helper function to get all shipping methods, including inactive ones (admin only)
+export const getAllShippingMethods = async (): Promise<ShippingMethod[]> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { data, error } = await supabase
+      .from('shipping_methods')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching all shipping methods:', error);
+    return [];
+  }
+};
+
+// Helper function to create or update a shipping method (admin only)
+// Existing orders keep the name and fee they were placed with
+export const saveShippingMethod = async (method: ShippingMethodInput, methodId?: string) => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const query = methodId
+      ? (supabase.from('shipping_methods') as any).update(method).eq('id', methodId)
+      : (supabase.from('shipping_methods') as any).insert(method);
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+    return data as ShippingMethod;
+  } catch (error) {
+    console.error('Error saving shipping method:', error);
+    return null;
+  }
+};
+
+// Helper function to offer or hide a shipping method at checkout (admin only)
+export const setShippingMethodActive = async (methodId: string, isActive: boolean): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await (supabase.from('shipping_methods') as any)
+      .update({ is_active: isActive })
+      .eq('id', methodId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating shipping method:', error);
+    return false;
+  }
+};
+
+// Helper function to delete a shipping method (admin only)
+export const deleteShippingMethod = async (methodId: string): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase
+      .from('shipping_methods')
+      .delete()
+      .eq('id', methodId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting shipping method:', error);
+    return false;
+  }
+};
+
+// Wishlist helper functions
+
+// Helper function to get the current user's wishlist, most recently added first
+export const getWishlist = async (): Promise<WishlistItem[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('wishlist_items')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching wishlist:', error);
+    return [];
+  }
+};
+
+// Helper function to add products to the current user's wishlist
+// Products already on it are left as they are, so a guest wishlist can be merged safely
+export const addWishlistItems = async (productIds: string[]): Promise<boolean> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const { error } = await (supabase.from('wishlist_items') as any)
+      .upsert(
+        productIds.map(productId => ({ user_id: user.id, product_id: productId })),
+        { onConflict: 'user_id,product_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error adding to wishlist:', error);
+    return false;
+  }
+};
+
+// Helper function to remove a product from the current user's wishlist
+export const removeWishlistItem = async (productId: string): Promise<boolean> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const { error } = await supabase
+      .from('wishlist_items')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('product_id', productId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error removing from wishlist:', error);
+    return false;
+  }
+};
+
+// Product alert helper functions
+
+// Helper function to get the current user's open back-in-stock alerts for a product
+export const getProductAlerts = async (productId: string): Promise<ProductAlert[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('product_alerts')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('product_id', productId)
+      .is('notified_at', null);
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching product alerts:', error);
+    return [];
+  }
+};
+
+// Helper function to ask to be told when a sold-out product comes back.
+// Pass null size/color for products without per-variant stock.
+export const subscribeBackInStock = async (productId: string, size: string | null, color: string | null): Promise<boolean> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not signed in');
+
+    const { error } = await (supabase.from('product_alerts') as any)
+      .insert({ user_id: user.id, product_id: productId, size, color });
+
+    // Already subscribed to this variant
+    if (error && error.code !== '23505') throw error;
+    return true;
+  } catch (error) {
+    console.error('Error subscribing to back-in-stock alert:', error);
+    return false;
+  }
+};
+
+// Helper function to cancel a back-in-stock alert
+export const unsubscribeBackInStock = async (alertId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('product_alerts')
+      .delete()
+      .eq('id', alertId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error removing back-in-stock alert:', error);
+    return false;
+  }
+};
+
+// Address book helper functions
+
+// Helper function to get the current user's saved addresses, default first
+export const getUserAddresses = async (): Promise<SavedAddress[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('user_addresses')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('is_default', { ascending: false })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching addresses:', error);
+    return [];
+  }
+};
+
+// Helper function to add or update one of the current user's addresses
+// Marking an address as default clears the previous default in the database
+export const saveUserAddress = async (address: SavedAddressInput, addressId?: string) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const query = addressId
+      ? (supabase.from('user_addresses') as any).update(address).eq('id', addressId)
+      : (supabase.from('user_addresses') as any).insert({ ...address, user_id: user.id });
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+    return data as SavedAddress;
+  } catch (error) {
+    console.error('Error saving address:', error);
+    return null;
+  }
+};
+
+// Helper function to make one of the current user's addresses their default
+export const setDefaultAddress = async (addressId: string): Promise<boolean> => {
+  try {
+    const { error } = await (supabase.from('user_addresses') as any)
+      .update({ is_default: true })
+      .eq('id', addressId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error setting default address:', error);
+    return false;
+  }
+};
+
+// Helper function to delete one of the current user's addresses
+// If it was the default, the most recently added address becomes the default
+export const deleteUserAddress = async (addressId: string): Promise<boolean> => {
+  try {
+    const { error } = await supabase
+      .from('user_addresses')
+      .delete()
+      .eq('id', addressId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting address:', error);
+    return false;
+  }
+};
+
+// Coupon helper functions
+
+// Helper function to check a discount code against the cart before placing the order
+// Throws with a shopper-facing reason when the code cannot be used
+export const validateCoupon = async (
+  code: string,
+  cartItems: { productId: string; quantity: number }[],
+  shippingMethodId: string | null,
+  customerEmail?: string
+): Promise<AppliedCoupon> => {
+  const { data, error } = await supabase.rpc('validate_coupon', {
+    p_code: code,
+    p_items: cartItems.map(item => ({ product_id: item.productId, quantity: item.quantity })),
+    p_shipping_method_id: shippingMethodId,
+    p_customer_email: customerEmail || null
+  });
+
+  if (error) {
+    console.error('Error validating coupon:', error);
+    throw new Error(error.code === 'P0001' ? error.message : 'Could not check this discount code');
+  }
+
+  const [coupon] = (data || []) as AppliedCoupon[];
+  if (!coupon) throw new Error('Discount code is not valid');
+  return coupon;
+};
+
+// Helper function to get all coupons with their usage (admin only)
+export const getAllCoupons = async (): Promise<(Coupon & { usage: CouponUsage | null })[]> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const [{ data: coupons, error }, { data: usage, error: usageError }] = await Promise.all([
+      supabase.from('coupons').select('*').order('created_at', { ascending: false }),
+      supabase.from('coupon_usage_stats').select('*')
+    ]);
+
+    if (error) throw error;
+    if (usageError) throw usageError;
+
+    const usageByCoupon = new Map(((usage || []) as CouponUsage[]).map(row => [row.coupon_id, row]));
+    return ((coupons || []) as Coupon[]).map(coupon => ({ ...coupon, usage: usageByCoupon.get(coupon.id) || null }));
+  } catch (error) {
+    console.error('Error fetching coupons:', error);
+    return [];
+  }
+};
+
+// Helper function to create or update a coupon (admin only)
+export const saveCoupon = async (coupon: CouponInput, couponId?: string) => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const values = { ...coupon, code: coupon.code.trim().toUpperCase() };
+    const query = couponId
+      ? (supabase.from('coupons') as any).update(values).eq('id', couponId)
+      : (supabase.from('coupons') as any).insert(values);
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+    return data as Coupon;
+  } catch (error) {
+    console.error('Error saving coupon:', error);
+    // Duplicate codes are the one failure an admin can fix from the form
+    if ((error as { code?: string } | null)?.code === '23505') {
+      throw new Error('A coupon with this code already exists');
+    }
+    return null;
+  }
+};
+
+// Helper function to enable or disable a coupon (admin only)
+export const setCouponActive = async (couponId: string, isActive: boolean): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await (supabase.from('coupons') as any)
+      .update({ is_active: isActive })
+      .eq('id', couponId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating coupon:', error);
+    return false;
+  }
+};
+
+// Helper function to delete a coupon (admin only)
+// Orders keep the code and discount they were placed with
+export const deleteCoupon = async (couponId: string): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase
+      .from('coupons')
+      .delete()
+      .eq('id', couponId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting coupon:', error);
+    return false;
+  }
+};
+
+// Review helper functions
+
+const REVIEW_PHOTOS_BUCKET = 'review-photos';
+const MAX_REVIEW_PHOTOS = 4;
+
+// Helper function to get the approved reviews of a product
+export const getProductReviews = async (productId: string): Promise<SupabaseProductReview[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('product_reviews')
+      .select('*')
+      .eq('product_id', productId)
+      .eq('status', 'approved')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching product reviews:', error);
+    return [];
+  }
+};
+
+// Helper function to get the current user's delivered order items that have not been reviewed yet
+export const getReviewableOrderItems = async (productId?: string) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    let query = supabase
+      .from('order_items')
+      .select(`
+        id,
+        product_id,
+        size,
+        color,
+        created_at,
+        orders!inner (id, status, user_id),
+        products (id, name, image_url),
+        product_reviews (id)
+      `)
+      .eq('orders.user_id', user.id)
+      .eq('orders.status', 'delivered');
+
+    if (productId) {
+      query = query.eq('product_id', productId);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data || []) as any[]).filter(item => {
+      const reviews = item.product_reviews;
+      return Array.isArray(reviews) ? reviews.length === 0 : !reviews;
+    });
+  } catch (error) {
+    console.error('Error fetching reviewable order items:', error);
+    return [];
+  }
+};
+
+// Helper function to upload review photos; returns their public URLs
+export const uploadReviewPhotos = async (files: File[]): Promise<string[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be signed in to upload photos');
+
+  const urls: string[] = [];
+  for (const file of files.slice(0, MAX_REVIEW_PHOTOS)) {
+    const extension = file.name.split('.').pop() || 'jpg';
+    const path = `${user.id}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(REVIEW_PHOTOS_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+
+    if (error) throw error;
+
+    urls.push(supabase.storage.from(REVIEW_PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl);
+  }
+  return urls;
+};
+
+// Helper function to submit a review for a delivered order item
+// The database checks that the item was bought by the current user and delivered
+export const submitProductReview = async (review: {
+  orderItemId: string;
+  rating: number;
+  title?: string;
+  content: string;
+  photos?: string[];
+}) => {
+  const { data, error } = await supabase.rpc('submit_product_review', {
+    p_order_item_id: review.orderItemId,
+    p_rating: review.rating,
+    p_title: review.title || null,
+    p_content: review.content,
+    p_photos: review.photos || []
+  });
+
+  if (error) {
+    console.error('Error submitting review:', error);
+    throw new Error(error.message || 'Failed to submit review');
+  }
+  return data as string;
+};
+
+// Helper function to get all reviews with product and customer details (admin only)
+export const getAllReviews = async () => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { data, error } = await supabase
+      .from('product_reviews')
+      .select(`
+        *,
+        products (id, name, category),
+        users!product_reviews_user_id_fkey (id, email, name)
+      `)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching all reviews:', error);
+    return [];
+  }
+};
+
+// Helper function to approve or reject a review (admin only)
+export const moderateReview = async (reviewId: string, status: ReviewStatus) => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await (supabase
+      .from('product_reviews') as any)
+      .update({ status })
+      .eq('id', reviewId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error moderating review:', error);
+    return false;
+  }
+};
+
+// Helper function to publish a store response to a review (admin only)
+export const respondToReview = async (reviewId: string, response: string) => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const { error } = await (supabase
+      .from('product_reviews') as any)
+      .update({
+        admin_response: response,
+        responded_at: new Date().toISOString(),
+        responded_by: user?.id ?? null
+      })
+      .eq('id', reviewId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error responding to review:', error);
+    return false;
+  }
+};
+
+// Admin helper functions
+
+// Helper function to get all orders (admin only)
+export const getAllOrders = async () => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        id,
+        user_id,
+        users (id, email, name),
+        status,
+        total_amount,
+        shipping_address,
+        shipping_method_name,
+        shipping_fee,
+        coupon_code,
+        discount_amount,
+        points_redeemed,
+        points_discount,
+        payment_status,
+        paid_at,
+        bank_reference,
+        created_at,
+        order_items (id, product_id, quantity, price_at_purchase, size, color, products (id, name, image_url))
+      `)
+      .order('created_at', { ascending: false });
+    
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching all orders:', error);
+    return [];
+  }
+};
+
+// Helper function to update order status (admin only)
+export const updateOrderStatus = async (
+  orderId: string,
+  status: string,
+  details: { note?: string; trackingNumber?: string } = {}
+) => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    // Recorded in the order's status history along with the note and tracking number
+    const { error } = await supabase.rpc('update_order_status', {
+      p_order_id: orderId,
+      p_status: status,
+      p_note: details.note?.trim() || null,
+      p_tracking_number: details.trackingNumber?.trim() || null
+    });
+    
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error updating order status:', error);
+    return false;
+  }
+};
+
+// Helper function for customers to cancel their own order before it ships.
+// Stock, points and refunds are handled by the database.
+export const cancelOrder = async (orderId: string, reason?: string) => {
+  const { error } = await supabase.rpc('cancel_order', {
+    p_order_id: orderId,
+    p_reason: reason?.trim() || null
+  });
+
+  if (error) {
+    console.error('Error cancelling order:', error);
+    throw new Error(error.code === 'P0001' ? error.message : 'Could not cancel the order. Please try again.');
+  }
+};
+
+// Helper function to get an order's status history, oldest first
+export const getOrderEvents = async (orderId: string): Promise<OrderEvent[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('order_events')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching order events:', error);
+    return [];
+  }
+};
+
+// Shipment helper functions
+
+// Helper function to get an order's shipments with the items in each, oldest first
+export const getOrderShipments = async (orderId: string): Promise<ShipmentWithItems[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('shipments')
+      .select('*, shipment_items (*)')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as ShipmentWithItems[];
+  } catch (error) {
+    console.error('Error fetching shipments:', error);
+    return [];
+  }
+};
+
+// Helper function to record a shipment for an order (admin only).
+// Leave items empty to ship everything that has not been shipped yet.
+export const createShipment = async (
+  orderId: string,
+  shipment: {
+    courier: string;
+    trackingNumber: string;
+    labelReference?: string;
+    items?: { orderItemId: string; quantity: number }[];
+  }
+): Promise<string | null> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { data, error } = await supabase.rpc('create_shipment', {
+      p_order_id: orderId,
+      p_courier: shipment.courier,
+      p_tracking_number: shipment.trackingNumber.trim(),
+      p_label_reference: shipment.labelReference?.trim() || null,
+      p_items: (shipment.items || []).map(item => ({ order_item_id: item.orderItemId, quantity: item.quantity }))
+    });
+
+    if (error) throw error;
+    return data as string;
+  } catch (error) {
+    console.error('Error creating shipment:', error);
+    return null;
+  }
+};
+
+// Helper function to remove a shipment recorded by mistake (admin only)
+export const deleteShipment = async (shipmentId: string) => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase
+      .from('shipments')
+      .delete()
+      .eq('id', shipmentId);
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error deleting shipment:', error);
+    return false;
+  }
+};
+
+// Return helper functions
+
+const RETURN_PHOTOS_BUCKET = 'return-photos';
+
+// Helper function to ask for a return or exchange of an item from a delivered order.
+// Photos go to the customer's folder first; throws with a shopper-facing reason when refused.
+export const requestReturn = async (request: {
+  orderItemId: string;
+  type: 'return' | 'exchange';
+  quantity: number;
+  reason: ReturnReason;
+  details?: string;
+  photos?: File[];
+  exchangeSize?: string;
+  exchangeColor?: string;
+}) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Please sign in to request a return');
+
+  const paths: string[] = [];
+  for (const file of request.photos || []) {
+    const extension = file.name.split('.').pop() || 'jpg';
+    const path = `${user.id}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+    const { error } = await supabase.storage
+      .from(RETURN_PHOTOS_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+
+    if (error) {
+      console.error('Error uploading return photo:', error);
+      if (paths.length > 0) await supabase.storage.from(RETURN_PHOTOS_BUCKET).remove(paths);
+      throw new Error('Could not upload the photos. Please use JPEG, PNG or WebP images under 5MB.');
+    }
+    paths.push(path);
+  }
+
+  const { data: returnId, error } = await supabase.rpc('request_return', {
+    p_order_item_id: request.orderItemId,
+    p_request_type: request.type,
+    p_quantity: request.quantity,
+    p_reason: request.reason,
+    p_details: request.details?.trim() || null,
+    p_photo_paths: paths,
+    p_exchange_size: request.type === 'exchange' ? request.exchangeSize || null : null,
+    p_exchange_color: request.type === 'exchange' ? request.exchangeColor || null : null
+  });
+
+  if (error) {
+    console.error('Error requesting return:', error);
+    if (paths.length > 0) await supabase.storage.from(RETURN_PHOTOS_BUCKET).remove(paths);
+    throw new Error(error.code === 'P0001' ? error.message : 'Could not send your return request');
+  }
+
+  return returnId as string;
+};
+
+// Helper function to get short-lived links to the photos of a return
+export const getReturnPhotoUrls = async (paths: string[]): Promise<string[]> => {
+  if (paths.length === 0) return [];
+  try {
+    const { data, error } = await supabase.storage
+      .from(RETURN_PHOTOS_BUCKET)
+      .createSignedUrls(paths, 60 * 10);
+
+    if (error) throw error;
+    return (data || []).map(photo => photo.signedUrl).filter((url): url is string => !!url);
+  } catch (error) {
+    console.error('Error creating return photo links:', error);
+    return [];
+  }
+};
+
+// Helper function to get return requests with their item and order, oldest first (admin only)
+export const getReturnQueue = async (statuses: ReturnRequest['status'][]) => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { data, error } = await supabase
+      .from('return_requests')
+      .select(`
+        *,
+        order_items (id, quantity, price_at_purchase, size, color, products (id, name, image_url)),
+        orders (id, bank_reference, total_amount, refunded_amount, payment_status, customer_email, customer_name, users (email, name))
+      `)
+      .in('status', statuses)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching return requests:', error);
+    return [];
+  }
+};
+
+// Helper function to approve a return with its label reference, or reject it with a reason (admin only)
+export const reviewReturn = async (
+  returnId: string,
+  approve: boolean,
+  details: { note?: string; labelReference?: string } = {}
+): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase.rpc('review_return', {
+      p_return_id: returnId,
+      p_approve: approve,
+      p_note: details.note?.trim() || null,
+      p_label_reference: details.labelReference?.trim() || null
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error reviewing return:', error);
+    return false;
+  }
+};
+
+// Helper function to mark a return as received, putting the items back in stock unless told not to (admin only)
+export const receiveReturn = async (returnId: string, restock = true): Promise<boolean> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { error } = await supabase.rpc('receive_return', {
+      p_return_id: returnId,
+      p_restock: restock
+    });
+
+    if (error) throw error;
+    return true;
+  } catch (error) {
+    console.error('Error receiving return:', error);
+    return false;
+  }
+};
+
+// Helper function to settle a received return with a refund, store credit or the exchange (admin only)
+// The amount defaults to what was paid for the items; resolves to the store credit code, if any
+export const resolveReturn = async (
+  returnId: string,
+  resolution: ReturnResolution,
+  amount?: number
+): Promise<{ storeCreditCode: string | null } | null> => {
+  try {
+    const isUserAdmin = await isAdmin();
+    if (!isUserAdmin) throw new Error('Unauthorized');
+
+    const { data, error } = await supabase.rpc('resolve_return', {
+      p_return_id: returnId,
+      p_resolution: resolution,
+      p_amount: amount ?? null
+    });
+
+    if (error) throw error;
+    return { storeCreditCode: (data as string | null) || null };
+  } catch (error) {
+    console.error('Error resolving return:', error);
+    return null;
+  }
+};
+
 // Helper function to get all users (admin only)
 export const getAllUsers = async () => {
   try {
@@ -609,7 +2264,7 @@ export const createProduct = async (product: any) => {
 // Helper function to get product images
 export const getProductImages = async (productId: string) => {
   try {
-    const { data, error } = await (supabase.rpc as any)('get_product_images', {
+    const { data, error } = await supabase.rpc('get_product_images', {
       product_id: productId
     });
 
@@ -627,7 +2282,7 @@ export const addProductImage = async (productId: string, imageUrl: string, order
     const isUserAdmin = await isAdmin();
     if (!isUserAdmin) throw new Error('Unauthorized');
 
-    const { data, error } = await (supabase.rpc as any)('add_product_image', {
+    const { data, error } = await supabase.rpc('add_product_image', {
       product_id: productId,
       image_url: imageUrl,
       image_order: order
@@ -647,7 +2302,7 @@ export const removeProductImage = async (productId: string, imageUrl: string) =>
     const isUserAdmin = await isAdmin();
     if (!isUserAdmin) throw new Error('Unauthorized');
 
-    const { data, error } = await (supabase.rpc as any)('remove_product_image', {
+    const { data, error } = await supabase.rpc('remove_product_image', {
       product_id: productId,
       image_url: imageUrl
     });
@@ -666,7 +2321,7 @@ export const reorderProductImages = async (productId: string, imageUrls: string[
     const isUserAdmin = await isAdmin();
     if (!isUserAdmin) throw new Error('Unauthorized');
 
-    const { data, error } = await (supabase.rpc as any)('reorder_product_images', {
+    const { data, error } = await supabase.rpc('reorder_product_images', {
       product_id: productId,
       image_urls: imageUrls
     });
@@ -1075,6 +2730,7 @@ export const getRecentOrders = async (limit: number = 10) => {
         id,
         total_amount,
         status,
+        payment_status,
         created_at,
         users!inner (
           email,
@@ -1093,6 +2749,7 @@ export const getRecentOrders = async (limit: number = 10) => {
       customer_name: order.users?.name || 'N/A',
       amount: order.total_amount,
       status: order.status,
+      payment_status: order.payment_status,
       order_date: order.created_at
     })) || [];
 
@@ -1249,10 +2906,19 @@ export const getDeletedOrders = async () => {
         status,
         total_amount,
         shipping_address,
+        shipping_method_name,
+        shipping_fee,
+        coupon_code,
+        discount_amount,
+        points_redeemed,
+        points_discount,
+        payment_status,
+        paid_at,
+        bank_reference,
         created_at,
         updated_at,
         deleted_at,
-        order_items (id, product_id, quantity, price_at_purchase, products (id, name, image_url))
+        order_items (id, product_id, quantity, price_at_purchase, size, color, products (id, name, image_url))
       `)
       .not('deleted_at', 'is', null)
       .order('deleted_at', { ascending: false });
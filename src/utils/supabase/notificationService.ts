@@ -2,6 +2,7 @@
 // This service handles all notification operations including creating, reading, and managing notifications
 
 import { supabase } from './client';
+import type { MembershipTierChange } from './client';
 
 export interface NotificationData {
   id: string;
@@ -383,6 +384,31 @@ class NotificationService {
     }
   }
 
+  /**
+   * Tell a member their tier moved up or down
+   */
+  async sendTierChangeNotification(userId: string, change: MembershipTierChange): Promise<string | null> {
+    const isUpgrade = change.direction === 'upgrade';
+    return this.createNotification({
+      user_id: userId,
+      type: 'system',
+      category: isUpgrade ? 'tier_upgrade' : 'tier_downgrade',
+      title: isUpgrade ? `Welcome to ${change.to_tier}!` : `You're now a ${change.to_tier} member`,
+      message: isUpgrade
+        ? `Your orders over the last 12 months moved you up from ${change.from_tier} to ${change.to_tier}. Your new perks apply from your next order.`
+        : `Your membership moved from ${change.from_tier} to ${change.to_tier} based on your last 12 months. Keep shopping to earn your way back up.`,
+      priority: isUpgrade ? 2 : 1,
+      action_url: '/rewards',
+      action_text: 'View my perks',
+      data: {
+        from_tier: change.from_tier,
+        to_tier: change.to_tier,
+        spend_12m: change.spend_12m,
+        points_12m: change.points_12m
+      }
+    });
+  }
+
   /**
    * Send system notification to all users (simplified fallback)
    */
@@ -6,6 +6,23 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
+// Payment state of an order, tracked separately from its fulfilment status
+export type PaymentStatus = 'awaiting' | 'paid' | 'failed' | 'refund_due' | 'refunded'
+
+export type PointsEventType = 'earn' | 'redeem' | 'adjust' | 'expire' | 'refund'
+
+// Who moved an order to a status; 'system' covers webhooks and scheduled jobs
+export type OrderEventActor = 'customer' | 'admin' | 'system'
+
+export type ShipmentStatus = 'label_created' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'exception'
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'resolved'
+export type ReturnReason = 'wrong_size' | 'damaged' | 'not_as_described' | 'changed_mind' | 'other'
+export type ReturnResolution = 'refund' | 'store_credit' | 'exchange'
+
+// South African provinces, stored as their postal abbreviations
+export type ProvinceCode = 'EC' | 'FS' | 'GP' | 'KZN' | 'LP' | 'MP' | 'NC' | 'NW' | 'WC'
+
 export interface Database {
   public: {
     Tables: {
@@ -18,6 +35,7 @@ export interface Database {
           created_at: string
           updated_at: string
           role: Database['public']['Enums']['user_role']
+          membership_tier_id: string | null // kept up to date by evaluate_membership_tier
         }
         Insert: {
           id?: string
@@ -27,6 +45,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
           role?: Database['public']['Enums']['user_role']
+          membership_tier_id?: string | null
         }
         Update: {
           id?: string
@@ -36,7 +55,165 @@ export interface Database {
           created_at?: string
           updated_at?: string
           role?: Database['public']['Enums']['user_role']
+          membership_tier_id?: string | null
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          id: string
+          slug: string
+          name: string
+          hero_image_url: string | null
+          sort_order: number
+          parent_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          slug: string
+          name: string
+          hero_image_url?: string | null
+          sort_order?: number
+          parent_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          slug?: string
+          name?: string
+          hero_image_url?: string | null
+          sort_order?: number
+          parent_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      wishlist_items: {
+        Row: {
+          id: string
+          user_id: string
+          product_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          product_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          product_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      product_alerts: {
+        Row: {
+          id: string
+          user_id: string
+          product_id: string
+          size: string | null
+          color: string | null
+          notified_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          product_id: string
+          size?: string | null
+          color?: string | null
+          notified_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          product_id?: string
+          size?: string | null
+          color?: string | null
+          notified_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      search_misses: {
+        Row: {
+          id: string
+          query: string
+          user_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          query: string
+          user_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          query?: string
+          user_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      user_addresses: {
+        Row: {
+          id: string
+          user_id: string
+          label: string
+          first_name: string
+          last_name: string
+          phone: string | null
+          address: string
+          city: string
+          province: ProvinceCode
+          postal_code: string // 4 digits
+          country: string
+          is_default: boolean
+          created_at: string
+          updated_at: string
         }
+        Insert: {
+          id?: string
+          user_id: string
+          label: string
+          first_name: string
+          last_name: string
+          phone?: string | null
+          address: string
+          city: string
+          province: ProvinceCode
+          postal_code: string
+          country?: string
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          label?: string
+          first_name?: string
+          last_name?: string
+          phone?: string | null
+          address?: string
+          city?: string
+          province?: ProvinceCode
+          postal_code?: string
+          country?: string
+          is_default?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
       }
       products: {
         Row: {
@@ -51,8 +228,12 @@ export interface Database {
           colors: string[]
           in_stock: boolean
           original_price: number | null
+          early_access_until: string | null // only early-access tiers can order before this
+          rating_average: number
+          review_count: number
           created_at: string
           updated_at: string
+          deleted_at: string | null
         }
         Insert: {
           id?: string
@@ -66,62 +247,623 @@ export interface Database {
           colors?: string[]
           in_stock?: boolean
           original_price?: number | null
+          early_access_until?: string | null
+          rating_average?: number
+          review_count?: number
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          price?: number
+          category?: string
+          image_url?: string | null
+          images?: Json
+          sizes?: string[]
+          colors?: string[]
+          in_stock?: boolean
+          original_price?: number | null
+          early_access_until?: string | null
+          rating_average?: number
+          review_count?: number
+          created_at?: string
+          updated_at?: string
+          deleted_at?: string | null
+        }
+        Relationships: []
+      }
+      product_variants: {
+        Row: {
+          id: string
+          product_id: string
+          size: string
+          color: string
+          stock_quantity: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          size: string
+          color: string
+          stock_quantity?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          size?: string
+          color?: string
+          stock_quantity?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'product_variants_product_id_fkey'
+            columns: ['product_id']
+            isOneToOne: false
+            referencedRelation: 'products'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      product_reviews: {
+        Row: {
+          id: string
+          product_id: string
+          order_item_id: string
+          user_id: string
+          reviewer_name: string
+          rating: number
+          title: string | null
+          content: string
+          photos: string[]
+          status: 'pending' | 'approved' | 'rejected'
+          admin_response: string | null
+          responded_at: string | null
+          responded_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          order_item_id: string
+          user_id: string
+          reviewer_name: string
+          rating: number
+          title?: string | null
+          content: string
+          photos?: string[]
+          status?: 'pending' | 'approved' | 'rejected'
+          admin_response?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          order_item_id?: string
+          user_id?: string
+          reviewer_name?: string
+          rating?: number
+          title?: string | null
+          content?: string
+          photos?: string[]
+          status?: 'pending' | 'approved' | 'rejected'
+          admin_response?: string | null
+          responded_at?: string | null
+          responded_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      coupons: {
+        Row: {
+          id: string
+          code: string // Always upper case
+          description: string | null
+          discount_type: 'percentage' | 'fixed_amount' | 'free_shipping'
+          discount_value: number // Percent for 'percentage', rand for 'fixed_amount', unused for 'free_shipping'
+          min_spend: number
+          categories: string[] // Empty = every category
+          product_ids: string[] // Empty = every product
+          usage_limit: number | null // null = unlimited
+          per_customer_limit: number | null // null = unlimited
+          starts_at: string | null
+          expires_at: string | null
+          is_active: boolean
+          user_id: string | null // Only this customer can use the code; null = anyone
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          description?: string | null
+          discount_type: 'percentage' | 'fixed_amount' | 'free_shipping'
+          discount_value?: number
+          min_spend?: number
+          categories?: string[]
+          product_ids?: string[]
+          usage_limit?: number | null
+          per_customer_limit?: number | null
+          starts_at?: string | null
+          expires_at?: string | null
+          is_active?: boolean
+          user_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          description?: string | null
+          discount_type?: 'percentage' | 'fixed_amount' | 'free_shipping'
+          discount_value?: number
+          min_spend?: number
+          categories?: string[]
+          product_ids?: string[]
+          usage_limit?: number | null
+          per_customer_limit?: number | null
+          starts_at?: string | null
+          expires_at?: string | null
+          is_active?: boolean
+          user_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      coupon_redemptions: {
+        Row: {
+          id: string
+          coupon_id: string
+          order_id: string
+          user_id: string | null
+          customer_email: string | null
+          discount_amount: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          coupon_id: string
+          order_id: string
+          user_id?: string | null
+          customer_email?: string | null
+          discount_amount: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          coupon_id?: string
+          order_id?: string
+          user_id?: string | null
+          customer_email?: string | null
+          discount_amount?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
+      shipping_methods: {
+        Row: {
+          id: string
+          code: string
+          name: string
+          description: string | null
+          rate: number
+          free_shipping_threshold: number | null // null = never free
+          min_delivery_days: number
+          max_delivery_days: number
+          is_active: boolean
+          sort_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          name: string
+          description?: string | null
+          rate: number
+          free_shipping_threshold?: number | null
+          min_delivery_days?: number
+          max_delivery_days?: number
+          is_active?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          code?: string
+          name?: string
+          description?: string | null
+          rate?: number
+          free_shipping_threshold?: number | null
+          min_delivery_days?: number
+          max_delivery_days?: number
+          is_active?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      orders: {
+        Row: {
+          id: string
+          user_id: string | null // Made nullable for guest orders
+          status: string
+          total_amount: number
+          shipping_address: Json
+          customer_email: string | null // Added for guest orders
+          customer_name: string | null // Added for guest orders
+          customer_phone: string | null // Added for guest orders
+          shipping_method_id: string | null
+          shipping_method_name: string | null // Snapshot of the method name at checkout
+          shipping_fee: number // Fee charged, included in total_amount
+          coupon_id: string | null
+          coupon_code: string | null
+          discount_amount: number // Coupon discount, subtracted in total_amount
+          points_redeemed: number
+          points_discount: number // Points discount, also subtracted in total_amount
+          payment_status: PaymentStatus
+          payment_provider: string | null
+          payment_reference: string | null // The provider's id for the payment
+          paid_at: string | null
+          bank_reference: string // Reference customers use on bank transfers, e.g. RM000123
+          refunded_amount: number // Refunded through returns
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null // Made nullable for guest orders
+          status: string
+          total_amount: number
+          shipping_address: Json
+          customer_email?: string | null // Added for guest orders
+          customer_name?: string | null // Added for guest orders
+          customer_phone?: string | null // Added for guest orders
+          shipping_method_id?: string | null
+          shipping_method_name?: string | null
+          shipping_fee?: number
+          coupon_id?: string | null
+          coupon_code?: string | null
+          discount_amount?: number
+          points_redeemed?: number
+          points_discount?: number
+          payment_status?: PaymentStatus
+          payment_provider?: string | null
+          payment_reference?: string | null
+          paid_at?: string | null
+          bank_reference?: string
+          refunded_amount?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          status?: string
+          total_amount?: number
+          shipping_address?: Json
+          customer_email?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          shipping_method_id?: string | null
+          shipping_method_name?: string | null
+          shipping_fee?: number
+          coupon_id?: string | null
+          coupon_code?: string | null
+          discount_amount?: number
+          points_redeemed?: number
+          points_discount?: number
+          payment_status?: PaymentStatus
+          payment_provider?: string | null
+          payment_reference?: string | null
+          paid_at?: string | null
+          bank_reference?: string
+          refunded_amount?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_events: {
+        Row: {
+          id: string
+          order_id: string
+          provider: string // 'payfast', 'local' or 'manual' for admin changes
+          provider_reference: string | null
+          status: PaymentStatus
+          amount: number | null
+          payload: Json
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          provider: string
+          provider_reference?: string | null
+          status: PaymentStatus
+          amount?: number | null
+          payload?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          provider?: string
+          provider_reference?: string | null
+          status?: PaymentStatus
+          amount?: number | null
+          payload?: Json
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      order_events: {
+        Row: {
+          id: string
+          order_id: string
+          status: string
+          previous_status: string | null // null for the order being placed
+          actor_id: string | null
+          actor_role: OrderEventActor
+          note: string | null
+          tracking_number: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          status: string
+          previous_status?: string | null
+          actor_id?: string | null
+          actor_role: OrderEventActor
+          note?: string | null
+          tracking_number?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          status?: string
+          previous_status?: string | null
+          actor_id?: string | null
+          actor_role?: OrderEventActor
+          note?: string | null
+          tracking_number?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      shipments: {
+        Row: {
+          id: string
+          order_id: string
+          courier: string // Adapter id in supabase/functions/_shared/couriers, or a courier tracked by hand
+          tracking_number: string
+          label_reference: string | null
+          status: ShipmentStatus
+          status_detail: string | null // The courier's wording for the latest update
+          shipped_at: string | null
+          delivered_at: string | null
+          last_checked_at: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          courier: string
+          tracking_number: string
+          label_reference?: string | null
+          status?: ShipmentStatus
+          status_detail?: string | null
+          shipped_at?: string | null
+          delivered_at?: string | null
+          last_checked_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          courier?: string
+          tracking_number?: string
+          label_reference?: string | null
+          status?: ShipmentStatus
+          status_detail?: string | null
+          shipped_at?: string | null
+          delivered_at?: string | null
+          last_checked_at?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      shipment_items: {
+        Row: {
+          id: string
+          shipment_id: string
+          order_item_id: string
+          quantity: number
+        }
+        Insert: {
+          id?: string
+          shipment_id: string
+          order_item_id: string
+          quantity: number
+        }
+        Update: {
+          id?: string
+          shipment_id?: string
+          order_item_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'shipment_items_shipment_id_fkey'
+            columns: ['shipment_id']
+            isOneToOne: false
+            referencedRelation: 'shipments'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'shipment_items_order_item_id_fkey'
+            columns: ['order_item_id']
+            isOneToOne: false
+            referencedRelation: 'order_items'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      return_requests: {
+        Row: {
+          id: string
+          rma_number: string // e.g. RMA000123
+          order_id: string
+          order_item_id: string
+          user_id: string | null
+          request_type: 'return' | 'exchange'
+          quantity: number
+          reason: ReturnReason
+          details: string | null
+          photo_paths: string[] // Objects in the private return-photos bucket
+          exchange_size: string | null
+          exchange_color: string | null
+          status: ReturnStatus
+          admin_note: string | null // Shown to the customer
+          return_label_reference: string | null
+          restocked_quantity: number
+          resolution: ReturnResolution | null
+          resolution_amount: number | null
+          store_credit_coupon_id: string | null
+          store_credit_code: string | null
+          reviewed_by: string | null
+          approved_at: string | null
+          received_at: string | null
+          resolved_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          rma_number?: string
+          order_id: string
+          order_item_id: string
+          user_id?: string | null
+          request_type: 'return' | 'exchange'
+          quantity: number
+          reason: ReturnReason
+          details?: string | null
+          photo_paths?: string[]
+          exchange_size?: string | null
+          exchange_color?: string | null
+          status?: ReturnStatus
+          admin_note?: string | null
+          return_label_reference?: string | null
+          restocked_quantity?: number
+          resolution?: ReturnResolution | null
+          resolution_amount?: number | null
+          store_credit_coupon_id?: string | null
+          store_credit_code?: string | null
+          reviewed_by?: string | null
+          approved_at?: string | null
+          received_at?: string | null
+          resolved_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
-          name?: string
-          description?: string | null
-          price?: number
-          category?: string
-          image_url?: string | null
-          images?: Json
-          sizes?: string[]
-          colors?: string[]
-          in_stock?: boolean
-          original_price?: number | null
+          rma_number?: string
+          order_id?: string
+          order_item_id?: string
+          user_id?: string | null
+          request_type?: 'return' | 'exchange'
+          quantity?: number
+          reason?: ReturnReason
+          details?: string | null
+          photo_paths?: string[]
+          exchange_size?: string | null
+          exchange_color?: string | null
+          status?: ReturnStatus
+          admin_note?: string | null
+          return_label_reference?: string | null
+          restocked_quantity?: number
+          resolution?: ReturnResolution | null
+          resolution_amount?: number | null
+          store_credit_coupon_id?: string | null
+          store_credit_code?: string | null
+          reviewed_by?: string | null
+          approved_at?: string | null
+          received_at?: string | null
+          resolved_at?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
-      orders: {
+      payment_proofs: {
         Row: {
           id: string
-          user_id: string | null // Made nullable for guest orders
-          status: string
-          total_amount: number
-          shipping_address: Json
-          customer_email: string | null // Added for guest orders
-          customer_name: string | null // Added for guest orders
-          customer_phone: string | null // Added for guest orders
+          order_id: string
+          file_path: string // Object in the private payment-proofs bucket
+          file_name: string
+          content_type: string
+          uploaded_by: string | null
+          status: 'submitted' | 'accepted' | 'rejected'
+          review_note: string | null // Shown to the customer when a proof is rejected
+          reviewed_by: string | null
+          reviewed_at: string | null
           created_at: string
-          updated_at: string
         }
         Insert: {
           id?: string
-          user_id?: string | null // Made nullable for guest orders
-          status: string
-          total_amount: number
-          shipping_address: Json
-          customer_email?: string | null // Added for guest orders
-          customer_name?: string | null // Added for guest orders
-          customer_phone?: string | null // Added for guest orders
+          order_id: string
+          file_path: string
+          file_name: string
+          content_type: string
+          uploaded_by?: string | null
+          status?: 'submitted' | 'accepted' | 'rejected'
+          review_note?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
           created_at?: string
-          updated_at?: string
         }
         Update: {
           id?: string
-          user_id?: string | null
-          status?: string
-          total_amount?: number
-          shipping_address?: Json
-          customer_email?: string | null
-          customer_name?: string | null
-          customer_phone?: string | null
+          order_id?: string
+          file_path?: string
+          file_name?: string
+          content_type?: string
+          uploaded_by?: string | null
+          status?: 'submitted' | 'accepted' | 'rejected'
+          review_note?: string | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
           created_at?: string
-          updated_at?: string
         }
+        Relationships: []
       }
       order_items: {
         Row: {
@@ -130,6 +872,8 @@ export interface Database {
           product_id: string
           quantity: number
           price_at_purchase: number
+          size: string | null
+          color: string | null
           created_at: string
         }
         Insert: {
@@ -138,6 +882,8 @@ export interface Database {
           product_id: string
           quantity: number
           price_at_purchase: number
+          size?: string | null
+          color?: string | null
           created_at?: string
         }
         Update: {
@@ -146,8 +892,11 @@ export interface Database {
           product_id?: string
           quantity?: number
           price_at_purchase?: number
+          size?: string | null
+          color?: string | null
           created_at?: string
         }
+        Relationships: []
       }
       cart: {
         Row: {
@@ -168,6 +917,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       cart_items: {
         Row: {
@@ -175,6 +925,7 @@ export interface Database {
           cart_id: string
           product_id: string
           quantity: number
+          price_at_add: number | null // Product price when the line was added, or when the shopper was last told it changed
           created_at: string
           updated_at: string
         }
@@ -183,6 +934,7 @@ export interface Database {
           cart_id: string
           product_id: string
           quantity: number
+          price_at_add?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -191,9 +943,11 @@ export interface Database {
           cart_id?: string
           product_id?: string
           quantity?: number
+          price_at_add?: number | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       rewards: {
         Row: {
@@ -217,6 +971,166 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
+      }
+      points_ledger: {
+        Row: {
+          id: string
+          user_id: string
+          event_type: PointsEventType
+          points: number // negative for redeem and expire
+          description: string
+          order_id: string | null
+          coupon_id: string | null
+          coupon_code: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          event_type: PointsEventType
+          points: number
+          description: string
+          order_id?: string | null
+          coupon_id?: string | null
+          coupon_code?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          event_type?: PointsEventType
+          points?: number
+          description?: string
+          order_id?: string | null
+          coupon_id?: string | null
+          coupon_code?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      points_rewards: {
+        Row: {
+          id: string
+          name: string
+          points_cost: number
+          discount_type: 'fixed_amount' | 'free_shipping'
+          discount_value: number
+          valid_days: number // how long the issued coupon code lasts
+          is_active: boolean
+          sort_order: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          points_cost: number
+          discount_type: 'fixed_amount' | 'free_shipping'
+          discount_value?: number
+          valid_days?: number
+          is_active?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          points_cost?: number
+          discount_type?: 'fixed_amount' | 'free_shipping'
+          discount_value?: number
+          valid_days?: number
+          is_active?: boolean
+          sort_order?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      membership_tiers: {
+        Row: {
+          id: string
+          name: string
+          min_spend_12m: number | null // null = spend does not qualify
+          min_points_12m: number | null // null = points do not qualify
+          earn_multiplier: number
+          free_shipping: boolean
+          early_access: boolean
+          benefits: string[] // extra perks listed on the Rewards page only
+          color: string
+          rank: number // higher ranks win
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          min_spend_12m?: number | null
+          min_points_12m?: number | null
+          earn_multiplier?: number
+          free_shipping?: boolean
+          early_access?: boolean
+          benefits?: string[]
+          color?: string
+          rank: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          min_spend_12m?: number | null
+          min_points_12m?: number | null
+          earn_multiplier?: number
+          free_shipping?: boolean
+          early_access?: boolean
+          benefits?: string[]
+          color?: string
+          rank?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      membership_tier_changes: {
+        Row: {
+          id: string
+          user_id: string
+          from_tier: string
+          to_tier: string
+          direction: 'upgrade' | 'downgrade'
+          spend_12m: number
+          points_12m: number
+          notified_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          from_tier: string
+          to_tier: string
+          direction: 'upgrade' | 'downgrade'
+          spend_12m: number
+          points_12m: number
+          notified_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          from_tier?: string
+          to_tier?: string
+          direction?: 'upgrade' | 'downgrade'
+          spend_12m?: number
+          points_12m?: number
+          notified_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
       }
       notification_preferences: {
         Row: {
@@ -252,6 +1166,7 @@ export interface Database {
           created_at?: string
           updated_at?: string
         }
+        Relationships: []
       }
       content_pages: {
         Row: {
@@ -287,6 +1202,7 @@ export interface Database {
           created_by?: string | null
           updated_by?: string | null
         }
+        Relationships: []
       }
       content_versions: {
         Row: {
@@ -316,10 +1232,19 @@ export interface Database {
           created_at?: string
           created_by?: string | null
         }
+        Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      coupon_usage_stats: {
+        Row: {
+          coupon_id: string
+          times_used: number
+          total_discount: number
+          revenue: number
+        }
+        Relationships: []
+      }
     }
     Functions: {
       calculate_order_total: {
@@ -332,10 +1257,330 @@ export interface Database {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      get_order_status_distribution: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          status_name: string
+          count: number
+          percentage: number
+        }[]
+      }
+      get_product_images: {
+        Args: {
+          product_id: string
+        }
+        Returns: Json
+      }
+      add_product_image: {
+        Args: {
+          product_id: string
+          image_url: string
+          image_order?: number
+        }
+        Returns: boolean
+      }
+      remove_product_image: {
+        Args: {
+          product_id: string
+          image_url: string
+        }
+        Returns: boolean
+      }
+      reorder_product_images: {
+        Args: {
+          product_id: string
+          image_urls: string[]
+        }
+        Returns: boolean
+      }
       create_order_from_cart: {
         Args: {
           p_user_id: string
           p_shipping_address: Json
+          p_shipping_method_id: string
+          p_coupon_code?: string | null
+          p_points_to_redeem?: number
+        }
+        Returns: string
+      }
+      create_guest_order: {
+        Args: {
+          p_items: Json
+          p_shipping_address: Json
+          p_customer_email: string
+          p_customer_name: string
+          p_customer_phone: string
+          p_shipping_method_id: string
+          p_coupon_code?: string | null
+        }
+        Returns: string
+      }
+      validate_coupon: {
+        Args: {
+          p_code: string
+          p_items: Json
+          p_shipping_method_id: string | null
+          p_customer_email?: string | null
+        }
+        Returns: {
+          coupon_id: string
+          code: string
+          discount_type: 'percentage' | 'fixed_amount' | 'free_shipping'
+          discount_amount: number
+        }[]
+      }
+      update_order_status: {
+        Args: {
+          p_order_id: string
+          p_status: string
+          p_note?: string | null
+          p_tracking_number?: string | null
+        }
+        Returns: undefined
+      }
+      cancel_order: {
+        Args: {
+          p_order_id: string
+          p_reason?: string | null
+        }
+        Returns: undefined
+      }
+      claim_guest_orders: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          orders_claimed: number
+          points_earned: number
+        }[]
+      }
+      create_shipment: {
+        Args: {
+          p_order_id: string
+          p_courier: string
+          p_tracking_number: string
+          p_label_reference?: string | null
+          p_items?: { order_item_id: string; quantity: number }[] // Empty ships everything not yet shipped
+        }
+        Returns: string
+      }
+      request_return: {
+        Args: {
+          p_order_item_id: string
+          p_request_type: 'return' | 'exchange'
+          p_quantity: number
+          p_reason: ReturnReason
+          p_details?: string | null
+          p_photo_paths?: string[]
+          p_exchange_size?: string | null
+          p_exchange_color?: string | null
+        }
+        Returns: string
+      }
+      review_return: {
+        Args: {
+          p_return_id: string
+          p_approve: boolean
+          p_note?: string | null
+          p_label_reference?: string | null
+        }
+        Returns: undefined
+      }
+      receive_return: {
+        Args: {
+          p_return_id: string
+          p_restock?: boolean
+        }
+        Returns: undefined
+      }
+      resolve_return: {
+        Args: {
+          p_return_id: string
+          p_resolution: ReturnResolution
+          p_amount?: number | null
+        }
+        Returns: string | null // Store credit code
+      }
+      set_order_payment_status: {
+        Args: {
+          p_order_id: string
+          p_status: PaymentStatus
+          p_note?: string | null
+        }
+        Returns: PaymentStatus
+      }
+      get_order_payment_status: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: PaymentStatus | null
+      }
+      submit_payment_proof: {
+        Args: {
+          p_order_id: string
+          p_file_path: string
+          p_file_name: string
+          p_content_type: string
+        }
+        Returns: string
+      }
+      confirm_bank_transfer: {
+        Args: {
+          p_order_id: string
+          p_note?: string | null
+        }
+        Returns: undefined
+      }
+      reject_payment_proof: {
+        Args: {
+          p_proof_id: string
+          p_note: string
+        }
+        Returns: undefined
+      }
+      get_order_bank_transfer: {
+        Args: {
+          p_order_id: string
+        }
+        Returns: {
+          bank_reference: string
+          amount: number
+          payment_status: PaymentStatus
+        }[]
+      }
+      get_claimable_guest_orders: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          status: string
+          total_amount: number
+          created_at: string
+        }[]
+      }
+      get_points_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          balance: number
+          lifetime_points: number
+          tier: string | null
+        }[]
+      }
+      get_membership_status: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          tier_id: string | null
+          tier: string | null
+          spend_12m: number
+          points_12m: number
+          earn_multiplier: number
+          free_shipping: boolean
+          early_access: boolean
+          color: string | null
+        }[]
+      }
+      acknowledge_tier_changes: {
+        Args: {
+          p_change_ids: string[]
+        }
+        Returns: undefined
+      }
+      search_products: {
+        Args: {
+          p_query: string
+          p_limit?: number
+          p_log_miss?: boolean
+        }
+        Returns: {
+          product_id: string
+          rank: number
+        }[]
+      }
+      get_search_misses: {
+        Args: {
+          p_days?: number
+        }
+        Returns: {
+          query: string
+          searches: number
+          last_searched_at: string
+        }[]
+      }
+      get_catalog_version: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_catalog_page: {
+        Args: {
+          p_categories?: string[] | null
+          p_query?: string | null
+          p_sizes?: string[] | null
+          p_colors?: string[] | null
+          p_min_price?: number | null
+          p_max_price?: number | null
+          p_on_sale?: boolean
+          p_sort?: string
+          p_after_key?: string | null
+          p_after_id?: string | null
+          p_limit?: number
+        }
+        Returns: {
+          product: Json // a products row with its product_variants
+          sort_key: string
+        }[]
+      }
+      get_catalog_facets: {
+        Args: {
+          p_categories?: string[] | null
+          p_query?: string | null
+          p_sizes?: string[] | null
+          p_colors?: string[] | null
+          p_min_price?: number | null
+          p_max_price?: number | null
+          p_on_sale?: boolean
+        }
+        Returns: Json
+      }
+      get_category_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          category: string
+          product_count: number
+          cover_image: string | null
+        }[]
+      }
+      redeem_points_reward: {
+        Args: {
+          p_reward_id: string
+        }
+        Returns: string // the coupon code issued
+      }
+      adjust_points: {
+        Args: {
+          p_user_id: string
+          p_points: number
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      get_shipping_fee: {
+        Args: {
+          p_shipping_method_id: string
+          p_subtotal: number
+        }
+        Returns: number
+      }
+      save_product_variants: {
+        Args: {
+          p_product_id: string
+          p_variants: Json
+        }
+        Returns: undefined
+      }
+      submit_product_review: {
+        Args: {
+          p_order_item_id: string
+          p_rating: number
+          p_title: string | null
+          p_content: string
+          p_photos?: string[]
         }
         Returns: string
       }
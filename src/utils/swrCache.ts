@@ -0,0 +1,39 @@
+// Stale-while-revalidate cache kept in localStorage, so data survives between visits.
+// Entries carry the version they were saved under (e.g. the catalog version); a caller
+// shows the cached data straight away and only downloads again once the version moved on.
+
+const CACHE_PREFIX = 'rosemama_cache_';
+
+export type CacheEntry<T> = {
+  version: string;
+  savedAt: number;
+  data: T;
+};
+
+export const readCache = <T>(key: string): CacheEntry<T> | null => {
+  try {
+    const saved = localStorage.getItem(CACHE_PREFIX + key);
+    return saved ? (JSON.parse(saved) as CacheEntry<T>) : null;
+  } catch (error) {
+    console.error('Error reading cache:', error);
+    return null;
+  }
+};
+
+export const writeCache = <T>(key: string, data: T, version: string) => {
+  try {
+    const entry: CacheEntry<T> = { version, savedAt: Date.now(), data };
+    localStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+  } catch (error) {
+    // Storage full or disabled (private browsing); the app works without the cache
+    console.error('Error writing cache:', error);
+  }
+};
+
+export const clearCache = (key: string) => {
+  try {
+    localStorage.removeItem(CACHE_PREFIX + key);
+  } catch (error) {
+    console.error('Error clearing cache:', error);
+  }
+};
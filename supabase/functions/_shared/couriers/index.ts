@@ -0,0 +1,25 @@
+import { localCourier } from "./local.ts";
+import type { CourierAdapter } from "./types.ts";
+
+export * from "./types.ts";
+
+const COURIERS: Record<string, CourierAdapter> = {
+  [localCourier.id]: localCourier,
+};
+
+// Shipments with a courier that has no adapter are tracked by hand
+export function findCourier(id: string): CourierAdapter | null {
+  return COURIERS[id] ?? null;
+}
+
+export function getCourier(id: string): CourierAdapter {
+  const courier = findCourier(id);
+  if (!courier) {
+    throw new Error(`Unknown courier ${id}`);
+  }
+  return courier;
+}
+
+export function getTrackedCourierIds(): string[] {
+  return Object.keys(COURIERS);
+}
@@ -0,0 +1,79 @@
+import { hmacSha256Hex, timingSafeEqual } from "../payments/crypto.ts";
+import {
+  TrackingVerificationError,
+  type CourierAdapter,
+  type ShipmentStatus,
+  type TrackingRequest,
+} from "./types.ts";
+
+// Stand-in courier for development
+// Polling moves a parcel one step along every LOCAL_COURIER_STEP_MINUTES
+// (default 2) after the shipment is recorded, so the whole flow can be seen
+// without a courier account. Tracking numbers containing "EXCEPTION" get stuck
+// in transit. Updates can also be pushed to courier-webhook?courier=local with
+// tracking_number, status and a signature over both made with LOCAL_COURIER_SECRET.
+
+const STEPS: { status: ShipmentStatus; detail: string }[] = [
+  { status: "label_created", detail: "Label created, waiting for collection" },
+  { status: "in_transit", detail: "Collected by the courier" },
+  { status: "out_for_delivery", detail: "Out for delivery" },
+  { status: "delivered", detail: "Delivered" },
+];
+
+function getSecret(): string {
+  const secret = Deno.env.get("LOCAL_COURIER_SECRET");
+  if (!secret) {
+    throw new Error("The local courier is not configured");
+  }
+  return secret;
+}
+
+function toSignedString(params: URLSearchParams): string {
+  return `tracking_number=${params.get("tracking_number") ?? ""}&status=${params.get("status") ?? ""}`;
+}
+
+export const localCourier: CourierAdapter = {
+  id: "local",
+
+  track(request: TrackingRequest) {
+    const stepMinutes = Number(Deno.env.get("LOCAL_COURIER_STEP_MINUTES") ?? "2");
+    const elapsedMinutes = (Date.now() - new Date(request.createdAt).getTime()) / 60000;
+    const step = Math.min(Math.floor(elapsedMinutes / stepMinutes), STEPS.length - 1);
+
+    if (step >= 2 && request.trackingNumber.toUpperCase().includes("EXCEPTION")) {
+      return Promise.resolve({
+        trackingNumber: request.trackingNumber,
+        status: "exception",
+        detail: "Delivery attempted, nobody available to receive the parcel",
+        occurredAt: null,
+      });
+    }
+
+    return Promise.resolve({
+      trackingNumber: request.trackingNumber,
+      status: STEPS[step].status,
+      detail: STEPS[step].detail,
+      occurredAt: null,
+    });
+  },
+
+  async verifyWebhook(request: Request) {
+    const params = new URL(request.url).searchParams;
+    const signature = params.get("signature") ?? "";
+    const expected = await hmacSha256Hex(getSecret(), toSignedString(params));
+
+    if (!timingSafeEqual(expected, signature)) {
+      throw new TrackingVerificationError("Invalid local courier signature");
+    }
+
+    const status = params.get("status") as ShipmentStatus;
+    const step = STEPS.find((candidate) => candidate.status === status);
+
+    return [{
+      trackingNumber: params.get("tracking_number") ?? "",
+      status,
+      detail: params.get("detail") ?? step?.detail ?? null,
+      occurredAt: null,
+    }];
+  },
+};
@@ -0,0 +1,33 @@
+// Courier tracking adapters
+// Each courier can be asked for the latest status of a tracking number, and
+// may also push updates to us as they happen.
+
+export type ShipmentStatus = "label_created" | "in_transit" | "out_for_delivery" | "delivered" | "exception";
+
+export interface TrackingRequest {
+  trackingNumber: string;
+  createdAt: string; // when the shipment was recorded, ISO 8601
+}
+
+export interface TrackingUpdate {
+  trackingNumber: string;
+  status: ShipmentStatus;
+  detail: string | null; // the courier's own wording, shown to the customer
+  occurredAt: string | null; // when the courier saw it happen, if they say
+}
+
+export interface CourierAdapter {
+  id: string;
+  // Latest status of a shipment, or null when the courier does not know it yet
+  track(request: TrackingRequest): Promise<TrackingUpdate | null>;
+  // Throws when the update cannot be verified as coming from the courier.
+  // Couriers that only support polling leave this out.
+  verifyWebhook?(request: Request): Promise<TrackingUpdate[]>;
+}
+
+export class TrackingVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrackingVerificationError";
+  }
+}
@@ -0,0 +1,20 @@
+import { localProvider } from "./local.ts";
+import { payfastProvider } from "./payfast.ts";
+import type { PaymentProvider } from "./types.ts";
+
+export * from "./types.ts";
+
+const PROVIDERS: Record<string, PaymentProvider> = {
+  [payfastProvider.id]: payfastProvider,
+  [localProvider.id]: localProvider,
+};
+
+// PAYMENT_PROVIDER picks the provider new checkouts go to; notifications
+// name their provider so payments started before a switch still complete
+export function getPaymentProvider(id = Deno.env.get("PAYMENT_PROVIDER") ?? "payfast"): PaymentProvider {
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    throw new Error(`Unknown payment provider ${id}`);
+  }
+  return provider;
+}
@@ -0,0 +1,69 @@
+import { hmacSha256Hex, timingSafeEqual } from "./crypto.ts";
+import {
+  PaymentVerificationError,
+  type CheckoutRequest,
+  type PaymentNotification,
+  type PaymentProvider,
+} from "./types.ts";
+
+// Stand-in provider for development
+// "Checkout" sends the shopper straight to the webhook, which records the
+// payment and redirects back to the store, so the whole flow can be tried
+// without a merchant account. Add outcome=failed to the URL to simulate a
+// declined card. Requires LOCAL_PAYMENT_SECRET.
+
+function getSecret(): string {
+  const secret = Deno.env.get("LOCAL_PAYMENT_SECRET");
+  if (!secret) {
+    throw new Error("The local payment provider is not configured");
+  }
+  return secret;
+}
+
+const SIGNED_FIELDS = ["order_id", "amount", "reference", "return_url", "cancel_url"];
+
+function toSignedString(params: URLSearchParams): string {
+  return SIGNED_FIELDS.map((field) => `${field}=${params.get(field) ?? ""}`).join("&");
+}
+
+export const localProvider: PaymentProvider = {
+  id: "local",
+
+  async createCheckout(request: CheckoutRequest) {
+    const url = new URL(request.notifyUrl);
+    url.searchParams.set("order_id", request.orderId);
+    url.searchParams.set("amount", request.amount.toFixed(2));
+    url.searchParams.set("reference", `local-${crypto.randomUUID()}`);
+    url.searchParams.set("return_url", request.returnUrl);
+    url.searchParams.set("cancel_url", request.cancelUrl);
+    url.searchParams.set("signature", await hmacSha256Hex(getSecret(), toSignedString(url.searchParams)));
+
+    return { redirectUrl: url.toString() };
+  },
+
+  async verifyNotification(request: Request) {
+    const params = new URL(request.url).searchParams;
+    const signature = params.get("signature") ?? "";
+    const expected = await hmacSha256Hex(getSecret(), toSignedString(params));
+
+    if (!timingSafeEqual(expected, signature)) {
+      throw new PaymentVerificationError("Invalid local payment signature");
+    }
+
+    return {
+      orderId: params.get("order_id") ?? "",
+      status: params.get("outcome") === "failed" ? "failed" : "paid",
+      amount: Number(params.get("amount")),
+      providerReference: params.get("reference"),
+      payload: Object.fromEntries(params),
+    };
+  },
+
+  // The shopper is the one calling, so send them back to the store
+  acknowledge(notification: PaymentNotification) {
+    const target = notification.status === "paid"
+      ? notification.payload.return_url
+      : notification.payload.cancel_url;
+    return new Response(null, { status: 303, headers: { Location: String(target) } });
+  },
+};
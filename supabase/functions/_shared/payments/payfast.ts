@@ -0,0 +1,133 @@
+import { md5Hex, timingSafeEqual } from "./crypto.ts";
+import {
+  PaymentVerificationError,
+  type CheckoutRequest,
+  type PaymentNotification,
+  type PaymentProvider,
+} from "./types.ts";
+
+// PayFast hosted checkout
+// https://developers.payfast.co.za/docs#step_1_form_fields
+// Requires PAYFAST_MERCHANT_ID, PAYFAST_MERCHANT_KEY and PAYFAST_PASSPHRASE;
+// set PAYFAST_SANDBOX=true to use the sandbox.
+
+const STATUS_MAP: Record<string, PaymentNotification["status"]> = {
+  COMPLETE: "paid",
+  FAILED: "failed",
+  CANCELLED: "failed",
+};
+
+function getConfig() {
+  const merchantId = Deno.env.get("PAYFAST_MERCHANT_ID");
+  const merchantKey = Deno.env.get("PAYFAST_MERCHANT_KEY");
+  const passphrase = Deno.env.get("PAYFAST_PASSPHRASE") ?? "";
+  const host = Deno.env.get("PAYFAST_SANDBOX") === "true" ? "sandbox.payfast.co.za" : "www.payfast.co.za";
+
+  if (!merchantId || !merchantKey) {
+    throw new Error("PayFast is not configured");
+  }
+
+  return { merchantId, merchantKey, passphrase, host };
+}
+
+// PayFast signs values the way PHP's urlencode() encodes them
+function encode(value: string): string {
+  return encodeURIComponent(value.trim())
+    .replace(/%20/g, "+")
+    .replace(/[!'()*~]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function toParamString(fields: [string, string][]): string {
+  return fields
+    .filter(([, value]) => value !== "")
+    .map(([key, value]) => `${key}=${encode(value)}`)
+    .join("&");
+}
+
+async function sign(paramString: string, passphrase: string): Promise<string> {
+  return md5Hex(passphrase ? `${paramString}&passphrase=${encode(passphrase)}` : paramString);
+}
+
+export const payfastProvider: PaymentProvider = {
+  id: "payfast",
+
+  async createCheckout(request: CheckoutRequest) {
+    const { merchantId, merchantKey, passphrase, host } = getConfig();
+    const [firstName, ...lastName] = (request.customerName ?? "").split(" ");
+
+    // The order of the fields is part of the signature
+    const fields: [string, string][] = [
+      ["merchant_id", merchantId],
+      ["merchant_key", merchantKey],
+      ["return_url", request.returnUrl],
+      ["cancel_url", request.cancelUrl],
+      ["notify_url", request.notifyUrl],
+      ["name_first", firstName],
+      ["name_last", lastName.join(" ")],
+      ["email_address", request.customerEmail ?? ""],
+      ["m_payment_id", request.orderId],
+      ["amount", request.amount.toFixed(2)],
+      ["item_name", request.itemName],
+    ];
+
+    const paramString = toParamString(fields);
+    const signature = await sign(paramString, passphrase);
+
+    return { redirectUrl: `https://${host}/eng/process?${paramString}&signature=${signature}` };
+  },
+
+  // https://developers.payfast.co.za/docs#step_4_confirm_payment
+  async verifyNotification(request: Request) {
+    const { merchantId, passphrase, host } = getConfig();
+    const body = await request.text();
+
+    // Signed fields are everything before "signature", in the order they were sent
+    const fields: [string, string][] = [];
+    let signature = "";
+    for (const [key, value] of new URLSearchParams(body)) {
+      if (key === "signature") {
+        signature = value;
+        break;
+      }
+      fields.push([key, value]);
+    }
+
+    const payload = Object.fromEntries(fields);
+    const paramString = fields.map(([key, value]) => `${key}=${encode(value)}`).join("&");
+
+    if (!signature || !timingSafeEqual(await sign(paramString, passphrase), signature)) {
+      throw new PaymentVerificationError("Invalid PayFast signature");
+    }
+
+    if (payload.merchant_id !== merchantId) {
+      throw new PaymentVerificationError("Notification is for a different merchant");
+    }
+
+    // Ask PayFast to confirm the notification came from them
+    const validation = await fetch(`https://${host}/eng/query/validate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: paramString,
+    });
+    if ((await validation.text()).trim() !== "VALID") {
+      throw new PaymentVerificationError("PayFast did not confirm the notification");
+    }
+
+    const status = STATUS_MAP[payload.payment_status];
+    if (!status) {
+      throw new PaymentVerificationError(`Unknown PayFast payment status ${payload.payment_status}`);
+    }
+
+    return {
+      orderId: payload.m_payment_id,
+      status,
+      amount: payload.amount_gross ? Number(payload.amount_gross) : null,
+      providerReference: payload.pf_payment_id || null,
+      payload,
+    };
+  },
+
+  acknowledge() {
+    return new Response(null, { status: 200 });
+  },
+};
@@ -0,0 +1,44 @@
+// Payment provider adapters
+// Each provider offers a hosted checkout the shopper is redirected to, and
+// notifies us server-to-server when the payment succeeds or fails.
+
+export type PaymentStatus = "awaiting" | "paid" | "failed" | "refunded";
+
+export interface CheckoutRequest {
+  orderId: string;
+  amount: number; // rand, as charged in orders.total_amount
+  itemName: string;
+  customerEmail?: string;
+  customerName?: string;
+  returnUrl: string; // shopper lands here after paying
+  cancelUrl: string; // shopper lands here after backing out
+  notifyUrl: string; // provider posts its notification here
+}
+
+export interface CheckoutSession {
+  redirectUrl: string;
+}
+
+export interface PaymentNotification {
+  orderId: string;
+  status: Exclude<PaymentStatus, "awaiting">;
+  amount: number | null;
+  providerReference: string | null;
+  payload: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  id: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Throws when the notification cannot be verified as coming from the provider
+  verifyNotification(request: Request): Promise<PaymentNotification>;
+  // What the provider expects back once the notification is recorded
+  acknowledge(notification: PaymentNotification): Response;
+}
+
+export class PaymentVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentVerificationError";
+  }
+}
@@ -0,0 +1,68 @@
+// @ts-ignore: Deno imports
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore: Deno imports
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.2";
+import { findCourier, TrackingVerificationError } from "../_shared/couriers/index.ts";
+
+// Receives tracking updates from the courier named in ?courier= and records
+// them on the matching shipments once verified.
+// Couriers call this without a Supabase JWT, so deploy it with:
+//   supabase functions deploy courier-webhook --no-verify-jwt
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  throw new Error("Missing Supabase environment variables");
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: {
+    persistSession: false
+  }
+});
+
+serve(async (req) => {
+  try {
+    const courierId = new URL(req.url).searchParams.get("courier") ?? "";
+    const courier = findCourier(courierId);
+    // Retrying will not make an unknown courier known
+    if (!courier) {
+      return new Response(`Unknown courier ${courierId}`, { status: 404 });
+    }
+    if (!courier.verifyWebhook) {
+      return new Response(`${courier.id} does not send tracking updates`, { status: 404 });
+    }
+
+    const updates = await courier.verifyWebhook(req);
+
+    for (const update of updates) {
+      const { error } = await supabase.rpc("record_tracking_update", {
+        p_courier: courier.id,
+        p_tracking_number: update.trackingNumber,
+        p_status: update.status,
+        p_detail: update.detail,
+        p_occurred_at: update.occurredAt
+      });
+
+      if (error) {
+        // Unknown tracking numbers and statuses will not succeed on a retry
+        if (error.code === "P0001") {
+          console.warn("Tracking update rejected:", error.message, update);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    return new Response(null, { status: 200 });
+  } catch (error) {
+    if (error instanceof TrackingVerificationError) {
+      console.warn("Unverified tracking update:", error.message);
+      return new Response(error.message, { status: 400 });
+    }
+    // Anything else is worth the courier retrying
+    console.error("Courier webhook error:", error);
+    return new Response("Internal error", { status: 500 });
+  }
+});
@@ -0,0 +1,85 @@
+// @ts-ignore: Deno imports
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore: Deno imports
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+
+// Starts a hosted card checkout for an order and returns where to send the shopper.
+// Amounts come from the order in the database, never from the request.
+// Requires SITE_URL (the storefront's origin) for the return and cancel pages.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const SITE_URL = Deno.env.get("SITE_URL");
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !SITE_URL) {
+  throw new Error("Missing Supabase or SITE_URL environment variables");
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: {
+    persistSession: false
+  }
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { orderId } = await req.json();
+    if (!orderId) {
+      return jsonResponse({ error: "orderId is required" }, 400);
+    }
+
+    const { data: order, error } = await supabase
+      .from("orders")
+      .select("id, status, total_amount, payment_status, customer_email, customer_name, deleted_at, users (email, name)")
+      .eq("id", orderId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!order || order.deleted_at) {
+      return jsonResponse({ error: "Order not found" }, 404);
+    }
+    if (order.status === "cancelled") {
+      return jsonResponse({ error: "This order was cancelled" }, 409);
+    }
+    if (order.payment_status === "paid" || order.payment_status === "refunded") {
+      return jsonResponse({ error: "This order has already been paid" }, 409);
+    }
+
+    const provider = getPaymentProvider();
+    const resultUrl = `${SITE_URL.replace(/\/$/, "")}/checkout/payment?order=${order.id}`;
+
+    const session = await provider.createCheckout({
+      orderId: order.id,
+      amount: Number(order.total_amount),
+      itemName: `Rosemama order #${order.id.slice(-8).toUpperCase()}`,
+      customerEmail: order.users?.email ?? order.customer_email ?? undefined,
+      customerName: order.users?.name ?? order.customer_name ?? undefined,
+      returnUrl: `${resultUrl}&result=return`,
+      cancelUrl: `${resultUrl}&result=cancelled`,
+      notifyUrl: `${SUPABASE_URL}/functions/v1/payment-webhook?provider=${provider.id}`
+    });
+
+    const { error: updateError } = await supabase
+      .from("orders")
+      .update({ payment_provider: provider.id })
+      .eq("id", order.id);
+    if (updateError) throw updateError;
+
+    return jsonResponse(session);
+  } catch (error) {
+    console.error("Payment checkout error:", error);
+    return jsonResponse({ error: "Could not start the payment" }, 500);
+  }
+});
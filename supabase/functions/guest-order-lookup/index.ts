@@ -0,0 +1,141 @@
+// @ts-ignore: Deno imports
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore: Deno imports
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { hmacSha256Hex, timingSafeEqual } from "../_shared/payments/crypto.ts";
+
+// Lets a guest see an order without an account. Posting the order or invoice
+// number with the checkout email returns the order and a view token signed
+// with ORDER_LOOKUP_SECRET; posting the token alone returns the order again
+// until the token expires, so the tracking page survives a reload.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const ORDER_LOOKUP_SECRET = Deno.env.get("ORDER_LOOKUP_SECRET");
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !ORDER_LOOKUP_SECRET) {
+  throw new Error("Missing Supabase or ORDER_LOOKUP_SECRET environment variables");
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: {
+    persistSession: false
+  }
+});
+
+const VIEW_TTL_MINUTES = 30;
+
+// The same answer for a wrong number and a wrong email, so neither can be probed
+const NOT_FOUND_MESSAGE = "We couldn't find an order with that number and email address";
+
+const ORDER_VIEW_COLUMNS = `
+  id,
+  status,
+  total_amount,
+  shipping_address,
+  shipping_method_name,
+  shipping_fee,
+  coupon_code,
+  discount_amount,
+  payment_status,
+  paid_at,
+  bank_reference,
+  customer_name,
+  customer_email,
+  created_at,
+  order_events (id, status, actor_role, note, tracking_number, created_at),
+  shipments (id, courier, tracking_number, status, status_detail, shipped_at, delivered_at, created_at),
+  order_items (id, product_id, quantity, price_at_purchase, size, color, products (id, name, image_url))
+`;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" }
+  });
+
+// Accepts "#1A2B3C4D", "INV-1A2B3C4D", "1a2b3c4d" or the full order id
+function normalizeOrderNumber(value: string): string {
+  const trimmed = value.trim().replace(/^#/, "").replace(/^INV-/i, "");
+  return /^[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}$/i.test(trimmed) ? trimmed : trimmed.replace(/[^0-9a-z]/gi, "");
+}
+
+async function signViewToken(orderId: string, expiresAt: number): Promise<string> {
+  const payload = `${orderId}.${expiresAt}`;
+  return `${payload}.${await hmacSha256Hex(ORDER_LOOKUP_SECRET!, payload)}`;
+}
+
+// Resolves to the order id if the token is genuine and has not expired
+async function verifyViewToken(token: string): Promise<string | null> {
+  const [orderId, expiresAt, signature] = token.split(".");
+  if (!orderId || !expiresAt || !signature) return null;
+
+  const expected = await hmacSha256Hex(ORDER_LOOKUP_SECRET!, `${orderId}.${expiresAt}`);
+  if (!timingSafeEqual(expected, signature)) return null;
+  if (Number(expiresAt) < Date.now()) return null;
+
+  return orderId;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { orderNumber, email, token } = await req.json();
+
+    let orderId: string | null = null;
+    let viewToken: string | null = null;
+    let expiresAt: number | null = null;
+
+    if (token) {
+      orderId = await verifyViewToken(String(token));
+      if (!orderId) {
+        return jsonResponse({ error: "This link has expired. Look up your order again." }, 401);
+      }
+      viewToken = String(token);
+      expiresAt = Number(viewToken.split(".")[1]);
+    } else {
+      if (!orderNumber || !email) {
+        return jsonResponse({ error: "Enter your order number and the email you checked out with" }, 400);
+      }
+
+      const { data, error } = await supabase.rpc("find_guest_order", {
+        p_order_number: normalizeOrderNumber(String(orderNumber)),
+        p_email: String(email)
+      });
+      if (error) throw error;
+      if (!data) {
+        return jsonResponse({ error: NOT_FOUND_MESSAGE }, 404);
+      }
+
+      orderId = data as string;
+      expiresAt = Date.now() + VIEW_TTL_MINUTES * 60000;
+      viewToken = await signViewToken(orderId, expiresAt);
+    }
+
+    const { data: order, error } = await supabase
+      .from("orders")
+      .select(ORDER_VIEW_COLUMNS)
+      .eq("id", orderId)
+      .is("user_id", null)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!order) {
+      return jsonResponse({ error: NOT_FOUND_MESSAGE }, 404);
+    }
+
+    return jsonResponse({
+      token: viewToken,
+      expiresAt: new Date(expiresAt!).toISOString(),
+      order
+    });
+  } catch (error) {
+    console.error("Guest order lookup error:", error);
+    return jsonResponse({ error: "Could not look up the order. Please try again." }, 500);
+  }
+});
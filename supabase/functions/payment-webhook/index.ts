@@ -0,0 +1,58 @@
+// @ts-ignore: Deno imports
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore: Deno imports
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.2";
+import { getPaymentProvider, PaymentVerificationError } from "../_shared/payments/index.ts";
+
+// Receives payment notifications from the provider named in ?provider=
+// and records them on the order once verified.
+// Providers call this without a Supabase JWT, so deploy it with:
+//   supabase functions deploy payment-webhook --no-verify-jwt
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  throw new Error("Missing Supabase environment variables");
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: {
+    persistSession: false
+  }
+});
+
+serve(async (req) => {
+  try {
+    const provider = getPaymentProvider(new URL(req.url).searchParams.get("provider") ?? undefined);
+    const notification = await provider.verifyNotification(req);
+
+    const { error } = await supabase.rpc("record_payment_notification", {
+      p_order_id: notification.orderId,
+      p_provider: provider.id,
+      p_provider_reference: notification.providerReference,
+      p_status: notification.status,
+      p_amount: notification.amount,
+      p_payload: notification.payload
+    });
+
+    if (error) {
+      // Rejected transitions and amount mismatches will not succeed on a retry
+      if (error.code === "P0001") {
+        console.warn("Payment notification rejected:", error.message, notification);
+        return new Response(error.message, { status: 422 });
+      }
+      throw error;
+    }
+
+    return provider.acknowledge(notification);
+  } catch (error) {
+    if (error instanceof PaymentVerificationError) {
+      console.warn("Unverified payment notification:", error.message);
+      return new Response(error.message, { status: 400 });
+    }
+    // Anything else is worth the provider retrying
+    console.error("Payment webhook error:", error);
+    return new Response("Internal error", { status: 500 });
+  }
+});
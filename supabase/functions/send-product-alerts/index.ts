@@ -0,0 +1,224 @@
+// @ts-ignore: Deno imports
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore: Deno imports
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.2";
+
+// Sends back-in-stock and price-drop alerts on each shopper's preferred
+// channel: an email through Resend plus the in-app notification, or only the
+// in-app notification for push and system. Called by the database triggers in
+// the product alerts migration with { product_id } when something came back
+// in stock, or { product_id, previous_price } when the price went down.
+// Called without a product, as the hourly pg_cron job in that migration does,
+// it retries every back-in-stock alert that is due but was not sent.
+// Requires SITE_URL (the storefront's origin). Emails need RESEND_API_KEY and
+// ALERT_FROM_EMAIL; without them shoppers get the in-app notification only.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+const ALERT_FROM_EMAIL = Deno.env.get("ALERT_FROM_EMAIL");
+const SITE_URL = Deno.env.get("SITE_URL");
+const EMAIL_CONFIGURED = Boolean(RESEND_API_KEY && ALERT_FROM_EMAIL);
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !SITE_URL) {
+  throw new Error("Missing Supabase or SITE_URL environment variables");
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: {
+    persistSession: false
+  }
+});
+
+type Channel = "email" | "push" | "system";
+
+type Alert = {
+  userId: string;
+  email: string;
+  channel: Channel;
+  category: "back_in_stock" | "price_drop";
+  title: string;
+  message: string;
+  actionUrl: string;
+  actionText: string;
+  data: Record<string, unknown>;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
+
+const formatPrice = (price: number) => `R${price.toFixed(2)}`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const sendEmail = async (alert: Alert): Promise<string> => {
+  const link = `${SITE_URL.replace(/\/$/, "")}${alert.actionUrl}`;
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${RESEND_API_KEY}`,
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      from: ALERT_FROM_EMAIL,
+      to: alert.email,
+      subject: alert.title,
+      text: `${alert.message}\n\n${alert.actionText}: ${link}`,
+      html: `<p>${escapeHtml(alert.message)}</p><p><a href="${escapeHtml(link)}">${escapeHtml(alert.actionText)}</a></p>`
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Email provider responded ${response.status}: ${await response.text()}`);
+  }
+  const { id } = await response.json();
+  return id;
+};
+
+// Sends one alert; throws if the shopper could not be told
+const sendAlert = async (alert: Alert) => {
+  // Without an email provider the in-app notification is all that can be sent
+  const channel: Channel = alert.channel === "email" && !EMAIL_CONFIGURED ? "system" : alert.channel;
+  const emailId = channel === "email" ? await sendEmail(alert) : null;
+
+  const { data: notification, error } = await supabase
+    .from("notifications")
+    .insert({
+      user_id: alert.userId,
+      type: channel,
+      category: alert.category,
+      title: alert.title,
+      message: alert.message,
+      priority: 2,
+      action_url: alert.actionUrl,
+      action_text: alert.actionText,
+      data: alert.data
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    // Once the email is out the shopper has been told; only the in-app copy is missing
+    if (emailId) {
+      console.error(`Could not store the in-app copy of alert email ${emailId}:`, error);
+      return;
+    }
+    throw error;
+  }
+
+  if (emailId) {
+    await supabase.from("notification_deliveries").insert({
+      notification_id: notification.id,
+      delivery_method: "email",
+      status: "sent",
+      delivered_at: new Date().toISOString(),
+      external_id: emailId
+    });
+  }
+};
+
+const sendBackInStockAlerts = async (productId: string | null) => {
+  const { data: claimed, error } = await supabase.rpc("claim_back_in_stock_alerts", {
+    p_product_id: productId
+  });
+  if (error) throw error;
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const alert of claimed ?? []) {
+    const variant = alert.size && alert.color ? ` in ${alert.size} / ${alert.color}` : "";
+    try {
+      await sendAlert({
+        userId: alert.user_id,
+        email: alert.email,
+        channel: alert.channel,
+        category: "back_in_stock",
+        title: `${alert.product_name} is back in stock`,
+        message: `Good news: ${alert.product_name}${variant} is available again. Stock is limited, so don't wait too long.`,
+        actionUrl: `/product/${alert.product_id}`,
+        actionText: "Shop now",
+        data: { product_id: alert.product_id, size: alert.size, color: alert.color }
+      });
+
+      const { error: markError } = await supabase
+        .from("product_alerts")
+        .update({ notified_at: new Date().toISOString(), sending_at: null })
+        .eq("id", alert.id);
+      if (markError) throw markError;
+      sent++;
+    } catch (alertError) {
+      // Released so the next run tries this shopper again
+      console.error(`Could not send back-in-stock alert ${alert.id}:`, alertError);
+      await supabase.from("product_alerts").update({ sending_at: null }).eq("id", alert.id);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+};
+
+const sendPriceDropAlerts = async (productId: string, previousPrice: number) => {
+  const { data: product, error: productError } = await supabase
+    .from("products")
+    .select("id, name, price")
+    .eq("id", productId)
+    .single();
+  if (productError) throw productError;
+
+  const { data: recipients, error } = await supabase.rpc("get_price_drop_recipients", {
+    p_product_id: productId,
+    p_previous_price: previousPrice
+  });
+  if (error) throw error;
+
+  const price = Number(product.price);
+  let sent = 0;
+  let failed = 0;
+
+  for (const recipient of recipients ?? []) {
+    try {
+      await sendAlert({
+        userId: recipient.user_id,
+        email: recipient.email,
+        channel: recipient.channel,
+        category: "price_drop",
+        title: `Price drop on ${product.name}`,
+        message: `${product.name} from your wishlist is now ${formatPrice(price)} (was ${formatPrice(previousPrice)}).`,
+        actionUrl: `/product/${product.id}`,
+        actionText: "View product",
+        data: { product_id: product.id, previous_price: previousPrice, price }
+      });
+      sent++;
+    } catch (alertError) {
+      console.error(`Could not send price-drop alert to ${recipient.user_id}:`, alertError);
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+};
+
+serve(async (req) => {
+  // Only the database triggers and the scheduler (holding the service role key) may send alerts
+  if (req.headers.get("Authorization") !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const body = req.headers.get("Content-Type")?.includes("application/json") ? await req.json() : {};
+    const productId: string | null = body.product_id ?? null;
+
+    if (productId && body.previous_price !== undefined) {
+      return jsonResponse(await sendPriceDropAlerts(productId, Number(body.previous_price)));
+    }
+    return jsonResponse(await sendBackInStockAlerts(productId));
+  } catch (error) {
+    console.error("Product alert error:", error);
+    return jsonResponse({ error: "Could not send product alerts" }, 500);
+  }
+});
@@ -0,0 +1,86 @@
+// @ts-ignore: Deno imports
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+// @ts-ignore: Deno imports
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.2";
+import { getCourier, getTrackedCourierIds } from "../_shared/couriers/index.ts";
+
+// Asks each courier for the latest status of shipments that have not been
+// delivered yet, for couriers that do not push updates (or missed one).
+// Meant to run on a schedule, e.g. every 15 minutes from pg_cron with the
+// service role key as the bearer token.
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  throw new Error("Missing Supabase environment variables");
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: {
+    persistSession: false
+  }
+});
+
+// Shipments checked within this many minutes are skipped
+const RECHECK_MINUTES = 10;
+const BATCH_SIZE = 50;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
+
+serve(async (req) => {
+  // Only the scheduler (holding the service role key) may start a sync
+  if (req.headers.get("Authorization") !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const checkedBefore = new Date(Date.now() - RECHECK_MINUTES * 60000).toISOString();
+    const { data: shipments, error } = await supabase
+      .from("shipments")
+      .select("id, courier, tracking_number, created_at")
+      .neq("status", "delivered")
+      .in("courier", getTrackedCourierIds())
+      .or(`last_checked_at.is.null,last_checked_at.lt.${checkedBefore}`)
+      .order("last_checked_at", { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE);
+
+    if (error) throw error;
+
+    let recorded = 0;
+    let failed = 0;
+
+    for (const shipment of shipments ?? []) {
+      try {
+        const update = await getCourier(shipment.courier).track({
+          trackingNumber: shipment.tracking_number,
+          createdAt: shipment.created_at
+        });
+        if (!update) continue;
+
+        const { error: recordError } = await supabase.rpc("record_tracking_update", {
+          p_courier: shipment.courier,
+          p_tracking_number: shipment.tracking_number,
+          p_status: update.status,
+          p_detail: update.detail,
+          p_occurred_at: update.occurredAt
+        });
+        if (recordError) throw recordError;
+        recorded++;
+      } catch (shipmentError) {
+        // One courier being down should not hold up the rest
+        console.error(`Could not track shipment ${shipment.id}:`, shipmentError);
+        failed++;
+      }
+    }
+
+    return jsonResponse({ checked: shipments?.length ?? 0, recorded, failed });
+  } catch (error) {
+    console.error("Shipment sync error:", error);
+    return jsonResponse({ error: "Could not sync shipments" }, 500);
+  }
+});
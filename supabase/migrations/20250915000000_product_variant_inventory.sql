@@ -0,0 +1,240 @@
+-- Per-variant inventory for products
+-- Replaces the single products.in_stock flag with a stock count per size/color
+-- combination. Stock is reserved (decremented) when order items are inserted,
+-- so both the cart checkout procedure and guest checkout reject oversold variants.
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  size TEXT NOT NULL,
+  color TEXT NOT NULL,
+  stock_quantity INTEGER NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (product_id, size, color)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON public.product_variants(product_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can see variant availability (needed by the storefront)
+DROP POLICY IF EXISTS "Anyone can view product variants" ON public.product_variants;
+CREATE POLICY "Anyone can view product variants" ON public.product_variants
+  FOR SELECT USING (true);
+
+-- Only admins can change stock levels directly
+DROP POLICY IF EXISTS "Admins can manage product variants" ON public.product_variants;
+CREATE POLICY "Admins can manage product variants" ON public.product_variants
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_product_variants_updated_at ON public.product_variants;
+CREATE TRIGGER update_product_variants_updated_at
+  BEFORE UPDATE ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Backfill variants for existing products from their sizes x colors.
+-- We have no real counts yet, so in-stock products start with 10 units per
+-- variant and sold-out products with 0. Admins should correct these in the
+-- products tab.
+INSERT INTO public.product_variants (product_id, size, color, stock_quantity)
+SELECT
+  p.id,
+  s.size,
+  c.color,
+  CASE WHEN COALESCE(p.in_stock, true) THEN 10 ELSE 0 END
+FROM public.products p
+CROSS JOIN LATERAL unnest(COALESCE(p.sizes, ARRAY['S', 'M', 'L'])) AS s(size)
+CROSS JOIN LATERAL unnest(COALESCE(p.colors, ARRAY['Black', 'White'])) AS c(color)
+ON CONFLICT (product_id, size, color) DO NOTHING;
+
+-- Keep products.in_stock in sync with variant stock so existing queries and
+-- the "Out of Stock" badges keep working
+CREATE OR REPLACE FUNCTION public.sync_product_in_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID;
+BEGIN
+  v_product_id := COALESCE(NEW.product_id, OLD.product_id);
+
+  UPDATE public.products
+  SET in_stock = EXISTS (
+    SELECT 1 FROM public.product_variants
+    WHERE product_id = v_product_id AND stock_quantity > 0
+  )
+  WHERE id = v_product_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS sync_product_in_stock_on_variant_change ON public.product_variants;
+CREATE TRIGGER sync_product_in_stock_on_variant_change
+  AFTER INSERT OR UPDATE OF stock_quantity OR DELETE ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_product_in_stock();
+
+-- Atomically take stock for one variant. The conditional UPDATE locks the
+-- variant row, so two concurrent checkouts can never both take the last unit.
+-- Products without any variant rows are treated as untracked (legacy) stock.
+CREATE OR REPLACE FUNCTION public.reserve_variant_stock(
+  p_product_id UUID,
+  p_size TEXT,
+  p_color TEXT,
+  p_quantity INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_product_name TEXT;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Invalid quantity';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = p_product_id) THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.product_variants
+  SET stock_quantity = stock_quantity - p_quantity
+  WHERE product_id = p_product_id
+    AND size = p_size
+    AND color = p_color
+    AND stock_quantity >= p_quantity;
+
+  IF NOT FOUND THEN
+    SELECT name INTO v_product_name FROM public.products WHERE id = p_product_id;
+    RAISE EXCEPTION 'Insufficient stock for % (size %, color %)', COALESCE(v_product_name, p_product_id::TEXT), p_size, p_color
+      USING ERRCODE = 'P0001', HINT = 'out_of_stock';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the order item trigger below takes stock
+REVOKE EXECUTE ON FUNCTION public.reserve_variant_stock(UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Reserve stock whenever an order item is created. This covers both
+-- create_order_from_cart and guest checkout, and runs inside the same
+-- transaction as the insert, so a failed reservation rolls the item back.
+CREATE OR REPLACE FUNCTION public.reserve_stock_for_order_item()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.reserve_variant_stock(NEW.product_id, NEW.size, NEW.color, NEW.quantity);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reserve_stock_on_order_item_insert ON public.order_items;
+CREATE TRIGGER reserve_stock_on_order_item_insert
+  BEFORE INSERT ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reserve_stock_for_order_item();
+
+-- Recreate the cart checkout procedure so it locks the cart rows and fails as a
+-- whole when any variant is oversold (the reservation trigger raises).
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+  p_user_id UUID,
+  p_shipping_address JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_cart_id UUID;
+  v_order_id UUID;
+  v_cart_item RECORD;
+BEGIN
+  -- Check if user exists
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- Get user's cart
+  SELECT id INTO v_cart_id FROM public.cart WHERE user_id = p_user_id;
+  IF v_cart_id IS NULL THEN
+    RAISE EXCEPTION 'Cart not found';
+  END IF;
+
+  -- Check if cart has items
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = v_cart_id) THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  -- Create new order
+  INSERT INTO public.orders (user_id, status, total_amount, shipping_address)
+  VALUES (p_user_id, 'pending', 0, p_shipping_address)
+  RETURNING id INTO v_order_id;
+
+  -- Copy cart items to order items; each insert reserves its variant stock
+  FOR v_cart_item IN
+    SELECT ci.product_id, ci.quantity, ci.size, ci.color, p.price
+    FROM public.cart_items ci
+    JOIN public.products p ON ci.product_id = p.id
+    WHERE ci.cart_id = v_cart_id
+    FOR UPDATE OF ci
+  LOOP
+    INSERT INTO public.order_items (order_id, product_id, quantity, price_at_purchase, size, color)
+    VALUES (v_order_id, v_cart_item.product_id, v_cart_item.quantity, v_cart_item.price, v_cart_item.size, v_cart_item.color);
+  END LOOP;
+
+  -- Clear the cart
+  DELETE FROM public.cart_items WHERE cart_id = v_cart_id;
+
+  -- The order total will be automatically calculated by the update_order_total trigger
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT SELECT ON public.product_variants TO anon, authenticated;
+
+-- Saves the stock levels an admin entered for a product's variants. Each entry
+-- carries the stock the form was loaded with (null for a new size/color), and
+-- the save is rejected when that no longer matches, so units sold while the
+-- form was open are not written back. Variants not in the list are removed,
+-- so the table always mirrors sizes x colors.
+CREATE OR REPLACE FUNCTION public.save_product_variants(
+  p_product_id UUID,
+  p_variants JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_variant JSONB;
+  v_current INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change stock levels';
+  END IF;
+
+  -- Lock the product's variants so a checkout cannot take stock mid-save
+  PERFORM 1 FROM public.product_variants WHERE product_id = p_product_id FOR UPDATE;
+
+  FOR v_variant IN SELECT * FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB))
+  LOOP
+    SELECT stock_quantity INTO v_current
+    FROM public.product_variants
+    WHERE product_id = p_product_id
+      AND size = v_variant->>'size'
+      AND color = v_variant->>'color';
+
+    IF v_current IS DISTINCT FROM (v_variant->>'expected_stock')::INTEGER THEN
+      RAISE EXCEPTION 'Stock for size % in % changed to % while you were editing. Reload the product and enter the stock again',
+        v_variant->>'size', v_variant->>'color', COALESCE(v_current, 0);
+    END IF;
+
+    INSERT INTO public.product_variants (product_id, size, color, stock_quantity)
+    VALUES (p_product_id, v_variant->>'size', v_variant->>'color', GREATEST(0, FLOOR((v_variant->>'stock')::NUMERIC))::INTEGER)
+    ON CONFLICT (product_id, size, color) DO UPDATE SET stock_quantity = EXCLUDED.stock_quantity
+    WHERE product_variants.stock_quantity IS DISTINCT FROM EXCLUDED.stock_quantity;
+  END LOOP;
+
+  DELETE FROM public.product_variants pv
+  WHERE pv.product_id = p_product_id
+    AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(p_variants, '[]'::JSONB)) v
+      WHERE v->>'size' = pv.size AND v->>'color' = pv.color
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.save_product_variants(UUID, JSONB) TO authenticated;
@@ -0,0 +1,212 @@
+-- Native product reviews
+-- Each review belongs to one order item, so only customers who received the
+-- product (delivered order) can review it, and only once per purchased line.
+-- Reviews are moderated: only approved reviews are public and count towards
+-- the product's rating.
+
+CREATE TABLE IF NOT EXISTS public.product_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL UNIQUE REFERENCES public.order_items(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  reviewer_name TEXT NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title TEXT,
+  content TEXT NOT NULL,
+  photos TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  admin_response TEXT,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  responded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product_id ON public.product_reviews(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_user_id ON public.product_reviews(user_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_status ON public.product_reviews(status);
+
+-- Aggregate rating columns on products, maintained by trigger below
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS rating_average NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS review_count INTEGER NOT NULL DEFAULT 0;
+
+-- Enable Row Level Security
+ALTER TABLE public.product_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read approved reviews
+DROP POLICY IF EXISTS "Anyone can view approved reviews" ON public.product_reviews;
+CREATE POLICY "Anyone can view approved reviews" ON public.product_reviews
+  FOR SELECT USING (status = 'approved');
+
+-- Customers can always see their own reviews, whatever the moderation status
+DROP POLICY IF EXISTS "Users can view own reviews" ON public.product_reviews;
+CREATE POLICY "Users can view own reviews" ON public.product_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Admins moderate and respond to reviews
+DROP POLICY IF EXISTS "Admins can manage reviews" ON public.product_reviews;
+CREATE POLICY "Admins can manage reviews" ON public.product_reviews
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- No insert policy for customers: reviews are created through submit_product_review,
+-- which checks that the order item was bought by the caller and delivered.
+
+DROP TRIGGER IF EXISTS update_product_reviews_updated_at ON public.product_reviews;
+CREATE TRIGGER update_product_reviews_updated_at
+  BEFORE UPDATE ON public.product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recalculate a product's rating from its approved reviews
+CREATE OR REPLACE FUNCTION public.refresh_product_rating(p_product_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.products
+  SET
+    rating_average = COALESCE((
+      SELECT ROUND(AVG(rating)::NUMERIC, 2)
+      FROM public.product_reviews
+      WHERE product_id = p_product_id AND status = 'approved'
+    ), 0),
+    review_count = (
+      SELECT COUNT(*)
+      FROM public.product_reviews
+      WHERE product_id = p_product_id AND status = 'approved'
+    )
+  WHERE id = p_product_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the review trigger below recalculates ratings
+REVOKE EXECUTE ON FUNCTION public.refresh_product_rating(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_product_rating_on_review_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_product_rating(OLD.product_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.refresh_product_rating(NEW.product_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_product_rating_on_review_change ON public.product_reviews;
+CREATE TRIGGER update_product_rating_on_review_change
+  AFTER INSERT OR UPDATE OF rating, status OR DELETE ON public.product_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_product_rating_on_review_change();
+
+-- Submit a review for a purchased order item.
+-- Only the customer who placed the order can review, only once the order is
+-- delivered, and only once per order item.
+CREATE OR REPLACE FUNCTION public.submit_product_review(
+  p_order_item_id UUID,
+  p_rating INTEGER,
+  p_title TEXT,
+  p_content TEXT,
+  p_photos TEXT[] DEFAULT '{}'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID;
+  v_product_id UUID;
+  v_order_status TEXT;
+  v_order_user_id UUID;
+  v_reviewer_name TEXT;
+  v_review_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to leave a review';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating < 1 OR p_rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  IF p_content IS NULL OR length(trim(p_content)) = 0 THEN
+    RAISE EXCEPTION 'Review text is required';
+  END IF;
+
+  IF COALESCE(array_length(p_photos, 1), 0) > 4 THEN
+    RAISE EXCEPTION 'A review can have at most 4 photos';
+  END IF;
+
+  SELECT oi.product_id, o.status, o.user_id
+  INTO v_product_id, v_order_status, v_order_user_id
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE oi.id = p_order_item_id
+    AND o.deleted_at IS NULL;
+
+  IF v_product_id IS NULL OR v_order_user_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Only verified buyers can review this product';
+  END IF;
+
+  IF v_order_status <> 'delivered' THEN
+    RAISE EXCEPTION 'You can review this product once your order has been delivered';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.product_reviews WHERE order_item_id = p_order_item_id) THEN
+    RAISE EXCEPTION 'You have already reviewed this item';
+  END IF;
+
+  SELECT COALESCE(NULLIF(trim(name), ''), split_part(email, '@', 1))
+  INTO v_reviewer_name
+  FROM public.users
+  WHERE id = v_user_id;
+
+  INSERT INTO public.product_reviews (product_id, order_item_id, user_id, reviewer_name, rating, title, content, photos)
+  VALUES (
+    v_product_id,
+    p_order_item_id,
+    v_user_id,
+    COALESCE(v_reviewer_name, 'Customer'),
+    p_rating,
+    NULLIF(trim(p_title), ''),
+    trim(p_content),
+    COALESCE(p_photos, '{}')
+  )
+  RETURNING id INTO v_review_id;
+
+  RETURN v_review_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT SELECT ON public.product_reviews TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_product_review(UUID, INTEGER, TEXT, TEXT, TEXT[]) TO authenticated;
+
+-- Storage bucket for review photos. Customers upload into a folder named after
+-- their user id; everyone can view.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'review-photos',
+  'review-photos',
+  true,
+  5000000,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Public can view review photos" ON storage.objects;
+CREATE POLICY "Public can view review photos" ON storage.objects
+  FOR SELECT USING (bucket_id = 'review-photos');
+
+DROP POLICY IF EXISTS "Users can upload own review photos" ON storage.objects;
+CREATE POLICY "Users can upload own review photos" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'review-photos'
+    AND auth.role() = 'authenticated'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Admins can manage review photos" ON storage.objects;
+CREATE POLICY "Admins can manage review photos" ON storage.objects
+  FOR ALL USING (
+    bucket_id = 'review-photos'
+    AND EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
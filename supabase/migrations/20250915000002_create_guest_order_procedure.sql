@@ -0,0 +1,92 @@
+-- Server-side guest checkout
+-- Guest orders used to be inserted straight from the browser, with prices and
+-- the total taken from the client. This procedure mirrors create_order_from_cart:
+-- it prices every line from public.products, stores the chosen size/color and
+-- validates quantities, so a tampered request cannot change what is charged.
+
+CREATE OR REPLACE FUNCTION public.create_guest_order(
+  p_items JSONB,
+  p_shipping_address JSONB,
+  p_customer_email TEXT,
+  p_customer_name TEXT,
+  p_customer_phone TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_item JSONB;
+  v_product RECORD;
+  v_product_id UUID;
+  v_quantity INTEGER;
+  v_size TEXT;
+  v_color TEXT;
+BEGIN
+  IF p_customer_email IS NULL OR p_customer_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'A valid email address is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF jsonb_array_length(p_items) > 50 THEN
+    RAISE EXCEPTION 'Too many items in one order';
+  END IF;
+
+  -- Create the order; the signed-in user (if any, e.g. right after sign-up) owns it
+  INSERT INTO public.orders (user_id, status, total_amount, shipping_address, customer_email, customer_name, customer_phone)
+  VALUES (auth.uid(), 'pending', 0, p_shipping_address, lower(trim(p_customer_email)), trim(p_customer_name), trim(p_customer_phone))
+  RETURNING id INTO v_order_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    BEGIN
+      v_product_id := (v_item->>'product_id')::UUID;
+      v_quantity := (v_item->>'quantity')::INTEGER;
+    EXCEPTION WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+      RAISE EXCEPTION 'Invalid order item';
+    END;
+
+    v_size := v_item->>'size';
+    v_color := v_item->>'color';
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 10 THEN
+      RAISE EXCEPTION 'Quantity must be between 1 and 10';
+    END IF;
+
+    SELECT id, name, price, sizes, colors
+    INTO v_product
+    FROM public.products
+    WHERE id = v_product_id
+      AND COALESCE(is_active, true)
+      AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    IF COALESCE(array_length(v_product.sizes, 1), 0) > 0 AND (v_size IS NULL OR NOT v_size = ANY(v_product.sizes)) THEN
+      RAISE EXCEPTION 'Size % is not available for %', COALESCE(v_size, '(none)'), v_product.name;
+    END IF;
+
+    IF COALESCE(array_length(v_product.colors, 1), 0) > 0 AND (v_color IS NULL OR NOT v_color = ANY(v_product.colors)) THEN
+      RAISE EXCEPTION 'Color % is not available for %', COALESCE(v_color, '(none)'), v_product.name;
+    END IF;
+
+    -- Price comes from the catalog, never from the client; the insert reserves variant stock
+    INSERT INTO public.order_items (order_id, product_id, quantity, price_at_purchase, size, color)
+    VALUES (v_order_id, v_product.id, v_quantity, v_product.price, v_size, v_color);
+  END LOOP;
+
+  -- The order total will be automatically calculated by the update_order_total trigger
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_guest_order(JSONB, JSONB, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Orders and order items are now only created through the checkout procedures,
+-- so remove the policies that let the browser insert them directly.
+DROP POLICY IF EXISTS "Anyone can create guest orders" ON public.orders;
+DROP POLICY IF EXISTS "Anyone can create order items for guest orders" ON public.order_items;
@@ -0,0 +1,272 @@
+-- Shipping methods
+-- Delivery options (PAXI, PostNet, door-to-door) are managed by admins instead
+-- of being hard-coded in the checkout and invoices. The customer picks one at
+-- checkout; the method name and the fee actually charged are copied onto the
+-- order so later rate changes never alter existing orders or invoices.
+
+CREATE TABLE IF NOT EXISTS public.shipping_methods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  rate NUMERIC(10, 2) NOT NULL CHECK (rate >= 0),
+  free_shipping_threshold NUMERIC(10, 2) CHECK (free_shipping_threshold IS NULL OR free_shipping_threshold >= 0), -- NULL = never free
+  min_delivery_days INTEGER NOT NULL DEFAULT 1 CHECK (min_delivery_days >= 0),
+  max_delivery_days INTEGER NOT NULL DEFAULT 1,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT shipping_methods_delivery_days_check CHECK (max_delivery_days >= min_delivery_days)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_methods_active ON public.shipping_methods(is_active, sort_order);
+
+-- Enable Row Level Security
+ALTER TABLE public.shipping_methods ENABLE ROW LEVEL SECURITY;
+
+-- Shoppers (including guests) see the methods that are currently offered
+DROP POLICY IF EXISTS "Anyone can view active shipping methods" ON public.shipping_methods;
+CREATE POLICY "Anyone can view active shipping methods" ON public.shipping_methods
+  FOR SELECT USING (is_active = true);
+
+DROP POLICY IF EXISTS "Admins can manage shipping methods" ON public.shipping_methods;
+CREATE POLICY "Admins can manage shipping methods" ON public.shipping_methods
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_shipping_methods_updated_at ON public.shipping_methods;
+CREATE TRIGGER update_shipping_methods_updated_at
+  BEFORE UPDATE ON public.shipping_methods
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rates from the shipping information page; free delivery over R3500 as advertised
+INSERT INTO public.shipping_methods (code, name, description, rate, free_shipping_threshold, min_delivery_days, max_delivery_days, sort_order)
+VALUES
+  ('paxi-standard', 'PAXI Standard', 'Collect from any PEP store nationwide', 59.95, 3500, 7, 9, 10),
+  ('paxi-express', 'PAXI Express', 'Collect from any PEP store nationwide', 109.95, 3500, 3, 5, 20),
+  ('postnet-to-postnet', 'PostNet2PostNet', 'Collect from your nearest PostNet branch', 99.00, 3500, 2, 3, 30),
+  ('door-to-door', 'Door-to-Door Courier', 'Delivered to your address; same or next day in major cities', 150.00, 3500, 1, 2, 40)
+ON CONFLICT (code) DO NOTHING;
+
+-- The chosen method is kept on the order together with a snapshot of its name and fee
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS shipping_method_id UUID REFERENCES public.shipping_methods(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS shipping_method_name TEXT,
+  ADD COLUMN IF NOT EXISTS shipping_fee NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+-- Order totals now include the shipping fee stored on the order
+CREATE OR REPLACE FUNCTION public.calculate_order_total(order_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  total DECIMAL(10, 2);
+BEGIN
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO total
+  FROM public.order_items
+  WHERE order_items.order_id = calculate_order_total.order_id;
+
+  SELECT total + COALESCE(orders.shipping_fee, 0) INTO total
+  FROM public.orders
+  WHERE orders.id = calculate_order_total.order_id;
+
+  RETURN total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Fee for a method at a given subtotal: free at or above the method's threshold
+CREATE OR REPLACE FUNCTION public.get_shipping_fee(p_shipping_method_id UUID, p_subtotal NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_method RECORD;
+BEGIN
+  SELECT rate, free_shipping_threshold
+  INTO v_method
+  FROM public.shipping_methods
+  WHERE id = p_shipping_method_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Please choose an available shipping method';
+  END IF;
+
+  IF v_method.free_shipping_threshold IS NOT NULL AND p_subtotal >= v_method.free_shipping_threshold THEN
+    RETURN 0;
+  END IF;
+
+  RETURN v_method.rate;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Price shipping once all items are on the order, then refresh the total
+CREATE OR REPLACE FUNCTION public.apply_order_shipping(p_order_id UUID, p_shipping_method_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_subtotal NUMERIC;
+BEGIN
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO v_subtotal
+  FROM public.order_items
+  WHERE order_id = p_order_id;
+
+  UPDATE public.orders
+  SET shipping_method_id = p_shipping_method_id,
+      shipping_method_name = (SELECT name FROM public.shipping_methods WHERE id = p_shipping_method_id),
+      shipping_fee = public.get_shipping_fee(p_shipping_method_id, v_subtotal)
+  WHERE id = p_order_id;
+
+  UPDATE public.orders
+  SET total_amount = public.calculate_order_total(p_order_id)
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the checkout procedures below apply shipping to an order
+REVOKE EXECUTE ON FUNCTION public.apply_order_shipping(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Both checkout procedures gain a shipping method argument; drop the old
+-- signatures so PostgREST does not see two overloads
+DROP FUNCTION IF EXISTS public.create_order_from_cart(UUID, JSONB);
+DROP FUNCTION IF EXISTS public.create_guest_order(JSONB, JSONB, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_shipping_method_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_cart_id UUID;
+  v_order_id UUID;
+  v_cart_item RECORD;
+BEGIN
+  -- Only the signed-in customer can check out their own cart
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only check out your own cart';
+  END IF;
+
+  -- Check if user exists
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- Get user's cart
+  SELECT id INTO v_cart_id FROM public.cart WHERE user_id = p_user_id;
+  IF v_cart_id IS NULL THEN
+    RAISE EXCEPTION 'Cart not found';
+  END IF;
+
+  -- Check if cart has items
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = v_cart_id) THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  -- Create new order
+  INSERT INTO public.orders (user_id, status, total_amount, shipping_address)
+  VALUES (p_user_id, 'pending', 0, p_shipping_address)
+  RETURNING id INTO v_order_id;
+
+  -- Copy cart items to order items; each insert reserves its variant stock
+  FOR v_cart_item IN
+    SELECT ci.product_id, ci.quantity, ci.size, ci.color, p.price
+    FROM public.cart_items ci
+    JOIN public.products p ON ci.product_id = p.id
+    WHERE ci.cart_id = v_cart_id
+    FOR UPDATE OF ci
+  LOOP
+    INSERT INTO public.order_items (order_id, product_id, quantity, price_at_purchase, size, color)
+    VALUES (v_order_id, v_cart_item.product_id, v_cart_item.quantity, v_cart_item.price, v_cart_item.size, v_cart_item.color);
+  END LOOP;
+
+  -- Price shipping from the method's current rate; also sets the final total
+  PERFORM public.apply_order_shipping(v_order_id, p_shipping_method_id);
+
+  -- Clear the cart
+  DELETE FROM public.cart_items WHERE cart_id = v_cart_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.create_guest_order(
+  p_items JSONB,
+  p_shipping_address JSONB,
+  p_customer_email TEXT,
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_shipping_method_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_item JSONB;
+  v_product RECORD;
+  v_product_id UUID;
+  v_quantity INTEGER;
+  v_size TEXT;
+  v_color TEXT;
+BEGIN
+  IF p_customer_email IS NULL OR p_customer_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'A valid email address is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF jsonb_array_length(p_items) > 50 THEN
+    RAISE EXCEPTION 'Too many items in one order';
+  END IF;
+
+  -- Create the order; the signed-in user (if any, e.g. right after sign-up) owns it
+  INSERT INTO public.orders (user_id, status, total_amount, shipping_address, customer_email, customer_name, customer_phone)
+  VALUES (auth.uid(), 'pending', 0, p_shipping_address, lower(trim(p_customer_email)), trim(p_customer_name), trim(p_customer_phone))
+  RETURNING id INTO v_order_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    BEGIN
+      v_product_id := (v_item->>'product_id')::UUID;
+      v_quantity := (v_item->>'quantity')::INTEGER;
+    EXCEPTION WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+      RAISE EXCEPTION 'Invalid order item';
+    END;
+
+    v_size := v_item->>'size';
+    v_color := v_item->>'color';
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 10 THEN
+      RAISE EXCEPTION 'Quantity must be between 1 and 10';
+    END IF;
+
+    SELECT id, name, price, sizes, colors
+    INTO v_product
+    FROM public.products
+    WHERE id = v_product_id
+      AND COALESCE(is_active, true)
+      AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    IF COALESCE(array_length(v_product.sizes, 1), 0) > 0 AND (v_size IS NULL OR NOT v_size = ANY(v_product.sizes)) THEN
+      RAISE EXCEPTION 'Size % is not available for %', COALESCE(v_size, '(none)'), v_product.name;
+    END IF;
+
+    IF COALESCE(array_length(v_product.colors, 1), 0) > 0 AND (v_color IS NULL OR NOT v_color = ANY(v_product.colors)) THEN
+      RAISE EXCEPTION 'Color % is not available for %', COALESCE(v_color, '(none)'), v_product.name;
+    END IF;
+
+    -- Price comes from the catalog, never from the client; the insert reserves variant stock
+    INSERT INTO public.order_items (order_id, product_id, quantity, price_at_purchase, size, color)
+    VALUES (v_order_id, v_product.id, v_quantity, v_product.price, v_size, v_color);
+  END LOOP;
+
+  -- Price shipping from the method's current rate; also sets the final total
+  PERFORM public.apply_order_shipping(v_order_id, p_shipping_method_id);
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_order_from_cart(UUID, JSONB, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_guest_order(JSONB, JSONB, TEXT, TEXT, TEXT, UUID) TO anon, authenticated;
+GRANT SELECT ON public.shipping_methods TO anon, authenticated;
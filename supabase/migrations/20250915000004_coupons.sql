@@ -0,0 +1,415 @@
+-- Coupon codes
+-- Admin-defined codes for percentage, fixed amount and free-shipping discounts.
+-- A code can require a minimum spend, be limited to categories or products,
+-- be capped per code and per customer, and only be valid inside a time window.
+-- Codes are validated again inside order creation; the code and the discount
+-- granted are stored on the order and in coupon_redemptions.
+
+CREATE TABLE IF NOT EXISTS public.coupons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE CHECK (code = upper(code) AND length(code) BETWEEN 3 AND 32),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed_amount', 'free_shipping')),
+  discount_value NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  min_spend NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (min_spend >= 0),
+  categories TEXT[] NOT NULL DEFAULT '{}', -- empty = every category
+  product_ids UUID[] NOT NULL DEFAULT '{}', -- empty = every product
+  usage_limit INTEGER CHECK (usage_limit IS NULL OR usage_limit > 0), -- NULL = unlimited
+  per_customer_limit INTEGER CHECK (per_customer_limit IS NULL OR per_customer_limit > 0), -- NULL = unlimited
+  starts_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT coupons_percentage_check CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CONSTRAINT coupons_window_check CHECK (starts_at IS NULL OR expires_at IS NULL OR expires_at > starts_at)
+);
+
+-- One row per order that used a code; drives the usage limits and coupon analytics
+CREATE TABLE IF NOT EXISTS public.coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  customer_email TEXT,
+  discount_amount NUMERIC(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_id ON public.coupon_redemptions(coupon_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user_id ON public.coupon_redemptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_customer_email ON public.coupon_redemptions(lower(customer_email));
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS coupon_code TEXT,
+  ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10, 2) NOT NULL DEFAULT 0;
+
+-- Enable Row Level Security
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are not listed publicly; shoppers check a code through validate_coupon
+DROP POLICY IF EXISTS "Admins can manage coupons" ON public.coupons;
+CREATE POLICY "Admins can manage coupons" ON public.coupons
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP POLICY IF EXISTS "Admins can view coupon redemptions" ON public.coupon_redemptions;
+CREATE POLICY "Admins can view coupon redemptions" ON public.coupon_redemptions
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP POLICY IF EXISTS "Users can view own coupon redemptions" ON public.coupon_redemptions;
+CREATE POLICY "Users can view own coupon redemptions" ON public.coupon_redemptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_coupons_updated_at ON public.coupons;
+CREATE TRIGGER update_coupons_updated_at
+  BEFORE UPDATE ON public.coupons
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Order totals: items + shipping - discount, never below zero
+CREATE OR REPLACE FUNCTION public.calculate_order_total(order_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  total DECIMAL(10, 2);
+BEGIN
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO total
+  FROM public.order_items
+  WHERE order_items.order_id = calculate_order_total.order_id;
+
+  SELECT GREATEST(total + COALESCE(orders.shipping_fee, 0) - COALESCE(orders.discount_amount, 0), 0) INTO total
+  FROM public.orders
+  WHERE orders.id = calculate_order_total.order_id;
+
+  RETURN total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Check a code against a basket and work out the discount it gives.
+-- p_items is [{ product_id, quantity }]; prices and categories come from products.
+-- Raises a shopper-facing message when the code cannot be used.
+CREATE OR REPLACE FUNCTION public.evaluate_coupon(
+  p_code TEXT,
+  p_items JSONB,
+  p_shipping_fee NUMERIC,
+  p_user_id UUID,
+  p_customer_email TEXT
+)
+RETURNS TABLE (coupon_id UUID, code TEXT, discount_type TEXT, discount_amount NUMERIC) AS $$
+DECLARE
+  v_coupon public.coupons%ROWTYPE;
+  v_subtotal NUMERIC := 0;
+  v_eligible NUMERIC := 0;
+  v_used INTEGER;
+  v_discount NUMERIC;
+BEGIN
+  SELECT * INTO v_coupon
+  FROM public.coupons
+  WHERE coupons.code = upper(trim(p_code));
+
+  IF NOT FOUND OR NOT v_coupon.is_active THEN
+    RAISE EXCEPTION 'Discount code % is not valid', upper(trim(p_code));
+  END IF;
+
+  IF v_coupon.starts_at IS NOT NULL AND now() < v_coupon.starts_at THEN
+    RAISE EXCEPTION 'Discount code % is not active yet', v_coupon.code;
+  END IF;
+
+  IF v_coupon.expires_at IS NOT NULL AND now() >= v_coupon.expires_at THEN
+    RAISE EXCEPTION 'Discount code % has expired', v_coupon.code;
+  END IF;
+
+  -- Basket value, and the part of it the code applies to
+  SELECT
+    COALESCE(SUM(p.price * (item->>'quantity')::INTEGER), 0),
+    COALESCE(SUM(p.price * (item->>'quantity')::INTEGER) FILTER (
+      WHERE (cardinality(v_coupon.categories) = 0 OR p.category = ANY(v_coupon.categories))
+        AND (cardinality(v_coupon.product_ids) = 0 OR p.id = ANY(v_coupon.product_ids))
+    ), 0)
+  INTO v_subtotal, v_eligible
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) AS item
+  JOIN public.products p ON p.id = (item->>'product_id')::UUID;
+
+  IF v_subtotal < v_coupon.min_spend THEN
+    RAISE EXCEPTION 'Spend at least R% to use discount code %', to_char(v_coupon.min_spend, 'FM999999990.00'), v_coupon.code;
+  END IF;
+
+  IF v_eligible = 0 THEN
+    RAISE EXCEPTION 'Discount code % does not apply to the items in your cart', v_coupon.code;
+  END IF;
+
+  IF v_coupon.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_used FROM public.coupon_redemptions r WHERE r.coupon_id = v_coupon.id;
+    IF v_used >= v_coupon.usage_limit THEN
+      RAISE EXCEPTION 'Discount code % has reached its usage limit', v_coupon.code;
+    END IF;
+  END IF;
+
+  IF v_coupon.per_customer_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM public.coupon_redemptions r
+    WHERE r.coupon_id = v_coupon.id
+      AND ((p_user_id IS NOT NULL AND r.user_id = p_user_id)
+        OR (p_customer_email IS NOT NULL AND lower(r.customer_email) = lower(trim(p_customer_email))));
+    IF v_used >= v_coupon.per_customer_limit THEN
+      RAISE EXCEPTION 'You have already used discount code %', v_coupon.code;
+    END IF;
+  END IF;
+
+  v_discount := CASE v_coupon.discount_type
+    WHEN 'percentage' THEN round(v_eligible * v_coupon.discount_value / 100, 2)
+    WHEN 'fixed_amount' THEN LEAST(v_coupon.discount_value, v_eligible)
+    ELSE COALESCE(p_shipping_fee, 0)
+  END;
+
+  RETURN QUERY SELECT v_coupon.id, v_coupon.code, v_coupon.discount_type, v_discount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_coupon(TEXT, JSONB, NUMERIC, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Checkout preview: what a code would take off this basket with this shipping method.
+-- Order creation runs the same checks again, so this is informational only.
+CREATE OR REPLACE FUNCTION public.validate_coupon(
+  p_code TEXT,
+  p_items JSONB,
+  p_shipping_method_id UUID,
+  p_customer_email TEXT DEFAULT NULL
+)
+RETURNS TABLE (coupon_id UUID, code TEXT, discount_type TEXT, discount_amount NUMERIC) AS $$
+DECLARE
+  v_subtotal NUMERIC;
+  v_shipping_fee NUMERIC := 0;
+BEGIN
+  IF p_shipping_method_id IS NOT NULL THEN
+    SELECT COALESCE(SUM(p.price * (item->>'quantity')::INTEGER), 0) INTO v_subtotal
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) AS item
+    JOIN public.products p ON p.id = (item->>'product_id')::UUID;
+
+    v_shipping_fee := public.get_shipping_fee(p_shipping_method_id, v_subtotal);
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.evaluate_coupon(p_code, p_items, v_shipping_fee, auth.uid(), p_customer_email);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION public.validate_coupon(TEXT, JSONB, UUID, TEXT) TO anon, authenticated;
+
+-- Apply a code to an order that already has its items and shipping, record
+-- the redemption and refresh the total
+CREATE OR REPLACE FUNCTION public.apply_order_coupon(p_order_id UUID, p_coupon_code TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_order RECORD;
+  v_items JSONB;
+  v_result RECORD;
+BEGIN
+  -- Account orders have no customer_email; use the account's so per-customer
+  -- limits also catch the same shopper checking out as a guest
+  SELECT o.id, o.user_id, COALESCE(o.customer_email, u.email) AS customer_email, o.shipping_fee INTO v_order
+  FROM public.orders o
+  LEFT JOIN public.users u ON u.id = o.user_id
+  WHERE o.id = p_order_id;
+
+  SELECT jsonb_agg(jsonb_build_object('product_id', product_id, 'quantity', quantity)) INTO v_items
+  FROM public.order_items
+  WHERE order_id = p_order_id;
+
+  -- Lock the code so two orders cannot both take its last use
+  PERFORM 1 FROM public.coupons WHERE coupons.code = upper(trim(p_coupon_code)) FOR UPDATE;
+
+  SELECT * INTO v_result
+  FROM public.evaluate_coupon(p_coupon_code, v_items, v_order.shipping_fee, v_order.user_id, v_order.customer_email);
+
+  UPDATE public.orders
+  SET coupon_id = v_result.coupon_id,
+      coupon_code = v_result.code,
+      discount_amount = v_result.discount_amount
+  WHERE id = p_order_id;
+
+  INSERT INTO public.coupon_redemptions (coupon_id, order_id, user_id, customer_email, discount_amount)
+  VALUES (v_result.coupon_id, p_order_id, v_order.user_id, v_order.customer_email, v_result.discount_amount);
+
+  UPDATE public.orders
+  SET total_amount = public.calculate_order_total(p_order_id)
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_order_coupon(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Both checkout procedures take an optional coupon code
+DROP FUNCTION IF EXISTS public.create_order_from_cart(UUID, JSONB, UUID);
+DROP FUNCTION IF EXISTS public.create_guest_order(JSONB, JSONB, TEXT, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_shipping_method_id UUID,
+  p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_cart_id UUID;
+  v_order_id UUID;
+  v_cart_item RECORD;
+BEGIN
+  -- Only the signed-in customer can check out their own cart
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only check out your own cart';
+  END IF;
+
+  -- Check if user exists
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- Get user's cart
+  SELECT id INTO v_cart_id FROM public.cart WHERE user_id = p_user_id;
+  IF v_cart_id IS NULL THEN
+    RAISE EXCEPTION 'Cart not found';
+  END IF;
+
+  -- Check if cart has items
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = v_cart_id) THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  -- Create new order
+  INSERT INTO public.orders (user_id, status, total_amount, shipping_address)
+  VALUES (p_user_id, 'pending', 0, p_shipping_address)
+  RETURNING id INTO v_order_id;
+
+  -- Copy cart items to order items; each insert reserves its variant stock
+  FOR v_cart_item IN
+    SELECT ci.product_id, ci.quantity, ci.size, ci.color, p.price
+    FROM public.cart_items ci
+    JOIN public.products p ON ci.product_id = p.id
+    WHERE ci.cart_id = v_cart_id
+    FOR UPDATE OF ci
+  LOOP
+    INSERT INTO public.order_items (order_id, product_id, quantity, price_at_purchase, size, color)
+    VALUES (v_order_id, v_cart_item.product_id, v_cart_item.quantity, v_cart_item.price, v_cart_item.size, v_cart_item.color);
+  END LOOP;
+
+  -- Price shipping from the method's current rate; also sets the final total
+  PERFORM public.apply_order_shipping(v_order_id, p_shipping_method_id);
+
+  -- A code that no longer applies fails the whole order so the shopper can remove it
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    PERFORM public.apply_order_coupon(v_order_id, p_coupon_code);
+  END IF;
+
+  -- Clear the cart
+  DELETE FROM public.cart_items WHERE cart_id = v_cart_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION public.create_guest_order(
+  p_items JSONB,
+  p_shipping_address JSONB,
+  p_customer_email TEXT,
+  p_customer_name TEXT,
+  p_customer_phone TEXT,
+  p_shipping_method_id UUID,
+  p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_item JSONB;
+  v_product RECORD;
+  v_product_id UUID;
+  v_quantity INTEGER;
+  v_size TEXT;
+  v_color TEXT;
+BEGIN
+  IF p_customer_email IS NULL OR p_customer_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'A valid email address is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  IF jsonb_array_length(p_items) > 50 THEN
+    RAISE EXCEPTION 'Too many items in one order';
+  END IF;
+
+  -- Create the order; the signed-in user (if any, e.g. right after sign-up) owns it
+  INSERT INTO public.orders (user_id, status, total_amount, shipping_address, customer_email, customer_name, customer_phone)
+  VALUES (auth.uid(), 'pending', 0, p_shipping_address, lower(trim(p_customer_email)), trim(p_customer_name), trim(p_customer_phone))
+  RETURNING id INTO v_order_id;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    BEGIN
+      v_product_id := (v_item->>'product_id')::UUID;
+      v_quantity := (v_item->>'quantity')::INTEGER;
+    EXCEPTION WHEN invalid_text_representation OR numeric_value_out_of_range THEN
+      RAISE EXCEPTION 'Invalid order item';
+    END;
+
+    v_size := v_item->>'size';
+    v_color := v_item->>'color';
+
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 10 THEN
+      RAISE EXCEPTION 'Quantity must be between 1 and 10';
+    END IF;
+
+    SELECT id, name, price, sizes, colors
+    INTO v_product
+    FROM public.products
+    WHERE id = v_product_id
+      AND COALESCE(is_active, true)
+      AND deleted_at IS NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    IF COALESCE(array_length(v_product.sizes, 1), 0) > 0 AND (v_size IS NULL OR NOT v_size = ANY(v_product.sizes)) THEN
+      RAISE EXCEPTION 'Size % is not available for %', COALESCE(v_size, '(none)'), v_product.name;
+    END IF;
+
+    IF COALESCE(array_length(v_product.colors, 1), 0) > 0 AND (v_color IS NULL OR NOT v_color = ANY(v_product.colors)) THEN
+      RAISE EXCEPTION 'Color % is not available for %', COALESCE(v_color, '(none)'), v_product.name;
+    END IF;
+
+    -- Price comes from the catalog, never from the client; the insert reserves variant stock
+    INSERT INTO public.order_items (order_id, product_id, quantity, price_at_purchase, size, color)
+    VALUES (v_order_id, v_product.id, v_quantity, v_product.price, v_size, v_color);
+  END LOOP;
+
+  -- Price shipping from the method's current rate; also sets the final total
+  PERFORM public.apply_order_shipping(v_order_id, p_shipping_method_id);
+
+  -- A code that no longer applies fails the whole order so the shopper can remove it
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    PERFORM public.apply_order_coupon(v_order_id, p_coupon_code);
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_order_from_cart(UUID, JSONB, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_guest_order(JSONB, JSONB, TEXT, TEXT, TEXT, UUID, TEXT) TO anon, authenticated;
+
+-- Per-code usage for the admin coupon list
+CREATE OR REPLACE VIEW public.coupon_usage_stats AS
+SELECT
+  c.id AS coupon_id,
+  count(r.id)::INTEGER AS times_used,
+  COALESCE(SUM(r.discount_amount), 0) AS total_discount,
+  COALESCE(SUM(o.total_amount), 0) AS revenue
+FROM public.coupons c
+LEFT JOIN public.coupon_redemptions r ON r.coupon_id = c.id
+LEFT JOIN public.orders o ON o.id = r.order_id
+GROUP BY c.id;
+
+ALTER VIEW public.coupon_usage_stats SET (security_invoker = true);
+GRANT SELECT ON public.coupon_usage_stats TO authenticated;
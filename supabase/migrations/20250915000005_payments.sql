@@ -0,0 +1,156 @@
+-- Payment status
+-- Orders carry a payment_status next to their fulfilment status:
+--   awaiting -> paid | failed, failed -> paid (retried), paid -> refunded.
+-- Card payments go through a hosted checkout (see supabase/functions/create-payment);
+-- the provider's notification is verified by supabase/functions/payment-webhook,
+-- which records it through record_payment_notification. Every notification and
+-- manual change is kept in payment_events.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'awaiting'
+    CHECK (payment_status IN ('awaiting', 'paid', 'failed', 'refunded')),
+  ADD COLUMN IF NOT EXISTS payment_provider TEXT,
+  ADD COLUMN IF NOT EXISTS payment_reference TEXT, -- the provider's id for the payment
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_orders_payment_status ON public.orders(payment_status);
+
+-- Orders already moved past pending were only fulfilled once the money arrived
+UPDATE public.orders
+SET payment_status = 'paid', paid_at = COALESCE(paid_at, updated_at)
+WHERE payment_status = 'awaiting'
+  AND status IN ('processing', 'shipped', 'delivered');
+
+CREATE TABLE IF NOT EXISTS public.payment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL, -- 'payfast', 'local' or 'manual' for admin changes
+  provider_reference TEXT,
+  status TEXT NOT NULL CHECK (status IN ('awaiting', 'paid', 'failed', 'refunded')),
+  amount NUMERIC(10, 2),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb, -- the verified notification as received
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_order_id ON public.payment_events(order_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the functions below only
+DROP POLICY IF EXISTS "Admins can view payment events" ON public.payment_events;
+CREATE POLICY "Admins can view payment events" ON public.payment_events
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Moves an order to a new payment status, rejecting transitions that make no sense
+-- (e.g. a late "failed" notification for an order that was already paid)
+CREATE OR REPLACE FUNCTION public.transition_payment_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_provider TEXT,
+  p_provider_reference TEXT,
+  p_amount NUMERIC,
+  p_payload JSONB,
+  p_created_by UUID
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT id, total_amount, payment_status INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  -- Providers resend notifications; the same status twice is not an error
+  IF v_order.payment_status = p_status THEN
+    RETURN v_order.payment_status;
+  END IF;
+
+  IF NOT (
+    (v_order.payment_status = 'awaiting' AND p_status IN ('paid', 'failed')) OR
+    (v_order.payment_status = 'failed' AND p_status = 'paid') OR
+    (v_order.payment_status = 'paid' AND p_status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change payment from % to %', v_order.payment_status, p_status;
+  END IF;
+
+  IF p_status = 'paid' AND p_amount IS NOT NULL AND round(p_amount, 2) <> round(v_order.total_amount, 2) THEN
+    RAISE EXCEPTION 'Paid amount % does not match order total %', p_amount, v_order.total_amount;
+  END IF;
+
+  UPDATE public.orders
+  SET payment_status = p_status,
+      -- Manual changes keep the provider that took the payment
+      payment_provider = CASE WHEN p_provider = 'manual' THEN COALESCE(payment_provider, p_provider) ELSE p_provider END,
+      payment_reference = COALESCE(p_provider_reference, payment_reference),
+      paid_at = CASE WHEN p_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = p_order_id;
+
+  INSERT INTO public.payment_events (order_id, provider, provider_reference, status, amount, payload, created_by)
+  VALUES (p_order_id, p_provider, p_provider_reference, p_status, p_amount, COALESCE(p_payload, '{}'::jsonb), p_created_by);
+
+  RETURN p_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.transition_payment_status(UUID, TEXT, TEXT, TEXT, NUMERIC, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Called by the payment-webhook edge function (service role) once the
+-- provider's signature has been verified
+CREATE OR REPLACE FUNCTION public.record_payment_notification(
+  p_order_id UUID,
+  p_provider TEXT,
+  p_provider_reference TEXT,
+  p_status TEXT,
+  p_amount NUMERIC,
+  p_payload JSONB
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_status NOT IN ('paid', 'failed', 'refunded') THEN
+    RAISE EXCEPTION 'Unsupported payment status %', p_status;
+  END IF;
+
+  RETURN public.transition_payment_status(p_order_id, p_status, p_provider, p_provider_reference, p_amount, p_payload, NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_notification(UUID, TEXT, TEXT, TEXT, NUMERIC, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_notification(UUID, TEXT, TEXT, TEXT, NUMERIC, JSONB) TO service_role;
+
+-- Lets an admin record a payment the provider does not notify us about,
+-- e.g. a bank transfer that arrived or a refund made from the provider's dashboard
+CREATE OR REPLACE FUNCTION public.set_order_payment_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change payment status';
+  END IF;
+
+  RETURN public.transition_payment_status(
+    p_order_id, p_status, 'manual', NULL, NULL,
+    jsonb_build_object('note', p_note), auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.set_order_payment_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- Lets the payment return page show the outcome, including for guest orders.
+-- Order ids are random UUIDs and only the payment status is exposed.
+CREATE OR REPLACE FUNCTION public.get_order_payment_status(p_order_id UUID)
+RETURNS TEXT AS $$
+  SELECT payment_status FROM public.orders WHERE id = p_order_id AND deleted_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_order_payment_status(UUID) TO anon, authenticated;
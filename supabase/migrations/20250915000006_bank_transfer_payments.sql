@@ -0,0 +1,198 @@
+-- Bank transfer payments
+-- Every order gets a short unique reference (e.g. RM000123) for customers to
+-- use on their transfer. Customers upload proof of payment from their order
+-- history; admins reconcile transfers from a queue, which marks the order paid
+-- and moves it from pending to processing.
+
+CREATE SEQUENCE IF NOT EXISTS public.order_bank_reference_seq;
+
+-- Existing orders get a reference too, so older transfers can be matched
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS bank_reference TEXT NOT NULL UNIQUE
+    DEFAULT 'RM' || lpad(nextval('public.order_bank_reference_seq')::TEXT, 6, '0');
+
+CREATE TABLE IF NOT EXISTS public.payment_proofs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL, -- object in the payment-proofs bucket
+  file_name TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  uploaded_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'accepted', 'rejected')),
+  review_note TEXT, -- shown to the customer when a proof is rejected
+  reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_order_id ON public.payment_proofs(order_id);
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_status ON public.payment_proofs(status);
+
+-- Enable Row Level Security
+ALTER TABLE public.payment_proofs ENABLE ROW LEVEL SECURITY;
+
+-- Proofs are added and reviewed through the functions below
+DROP POLICY IF EXISTS "Users can view own payment proofs" ON public.payment_proofs;
+CREATE POLICY "Users can view own payment proofs" ON public.payment_proofs
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.orders WHERE orders.id = payment_proofs.order_id AND orders.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Admins can view payment proofs" ON public.payment_proofs;
+CREATE POLICY "Admins can view payment proofs" ON public.payment_proofs
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Private bucket for proofs of payment. Files live in a folder named after
+-- the order; customers can only upload to and read their own orders' folders.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'payment-proofs',
+  'payment-proofs',
+  false,
+  5000000,
+  ARRAY['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload proofs for own orders" ON storage.objects;
+CREATE POLICY "Users can upload proofs for own orders" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'payment-proofs'
+    AND auth.role() = 'authenticated'
+    AND EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id::TEXT = (storage.foldername(name))[1]
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view proofs for own orders" ON storage.objects;
+CREATE POLICY "Users can view proofs for own orders" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'payment-proofs'
+    AND EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE orders.id::TEXT = (storage.foldername(name))[1]
+        AND orders.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can manage payment proofs" ON storage.objects;
+CREATE POLICY "Admins can manage payment proofs" ON storage.objects
+  FOR ALL USING (
+    bucket_id = 'payment-proofs'
+    AND EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- Records an uploaded proof against one of the current user's bank transfer orders
+CREATE OR REPLACE FUNCTION public.submit_payment_proof(
+  p_order_id UUID,
+  p_file_path TEXT,
+  p_file_name TEXT,
+  p_content_type TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order RECORD;
+  v_proof_id UUID;
+BEGIN
+  SELECT id, status, payment_status, shipping_address INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND user_id = auth.uid() AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF v_order.shipping_address->>'paymentMethod' IS DISTINCT FROM 'bank-transfer' THEN
+    RAISE EXCEPTION 'Proof of payment is only needed for bank transfers';
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This order was cancelled';
+  END IF;
+
+  IF v_order.payment_status NOT IN ('awaiting', 'failed') THEN
+    RAISE EXCEPTION 'This order has already been paid';
+  END IF;
+
+  IF split_part(p_file_path, '/', 1) <> p_order_id::TEXT THEN
+    RAISE EXCEPTION 'Proof must be uploaded to the order''s folder';
+  END IF;
+
+  INSERT INTO public.payment_proofs (order_id, file_path, file_name, content_type, uploaded_by)
+  VALUES (p_order_id, p_file_path, p_file_name, p_content_type, auth.uid())
+  RETURNING id INTO v_proof_id;
+
+  RETURN v_proof_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.submit_payment_proof(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Marks a bank transfer as received: the order is paid, its outstanding proofs
+-- are accepted and a pending order moves on to processing
+CREATE OR REPLACE FUNCTION public.confirm_bank_transfer(
+  p_order_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_reference TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can confirm bank transfers';
+  END IF;
+
+  SELECT bank_reference INTO v_reference FROM public.orders WHERE id = p_order_id;
+
+  PERFORM public.transition_payment_status(
+    p_order_id, 'paid', 'bank-transfer', v_reference, NULL,
+    jsonb_build_object('note', p_note), auth.uid()
+  );
+
+  UPDATE public.payment_proofs
+  SET status = 'accepted', reviewed_by = auth.uid(), reviewed_at = now()
+  WHERE order_id = p_order_id AND status = 'submitted';
+
+  UPDATE public.orders
+  SET status = 'processing'
+  WHERE id = p_order_id AND status = 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.confirm_bank_transfer(UUID, TEXT) TO authenticated;
+
+-- Rejects a proof (e.g. unreadable, wrong amount) so the customer can upload another
+CREATE OR REPLACE FUNCTION public.reject_payment_proof(
+  p_proof_id UUID,
+  p_note TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review payment proofs';
+  END IF;
+
+  UPDATE public.payment_proofs
+  SET status = 'rejected', review_note = p_note, reviewed_by = auth.uid(), reviewed_at = now()
+  WHERE id = p_proof_id AND status = 'submitted';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This proof has already been reviewed';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.reject_payment_proof(UUID, TEXT) TO authenticated;
+
+-- Lets the page shown after checkout give transfer instructions, including
+-- for guest orders. Only the reference, amount and payment status are exposed.
+CREATE OR REPLACE FUNCTION public.get_order_bank_transfer(p_order_id UUID)
+RETURNS TABLE (bank_reference TEXT, amount NUMERIC, payment_status TEXT) AS $$
+  SELECT orders.bank_reference, orders.total_amount, orders.payment_status
+  FROM public.orders
+  WHERE orders.id = p_order_id AND orders.deleted_at IS NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_order_bank_transfer(UUID) TO anon, authenticated;
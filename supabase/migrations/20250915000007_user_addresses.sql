@@ -0,0 +1,96 @@
+-- Address book
+-- Customers keep several labelled delivery addresses ("Home", "Work") and pick
+-- one as their default, which checkout fills in for them. Orders still copy
+-- the address into shipping_address, so editing a saved address never changes
+-- a placed order.
+
+CREATE TABLE IF NOT EXISTS public.user_addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (length(trim(label)) > 0),
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  phone TEXT,
+  address TEXT NOT NULL,
+  city TEXT NOT NULL,
+  province TEXT NOT NULL CHECK (province IN ('EC', 'FS', 'GP', 'KZN', 'LP', 'MP', 'NC', 'NW', 'WC')),
+  postal_code TEXT NOT NULL CHECK (postal_code ~ '^[0-9]{4}$'),
+  country TEXT NOT NULL DEFAULT 'South Africa',
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_addresses_user_id ON public.user_addresses(user_id);
+-- At most one default per customer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_one_default
+  ON public.user_addresses(user_id) WHERE is_default;
+
+-- Enable Row Level Security
+ALTER TABLE public.user_addresses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own addresses" ON public.user_addresses;
+CREATE POLICY "Users can manage own addresses" ON public.user_addresses
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view addresses" ON public.user_addresses;
+CREATE POLICY "Admins can view addresses" ON public.user_addresses
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_user_addresses_updated_at ON public.user_addresses;
+CREATE TRIGGER update_user_addresses_updated_at
+  BEFORE UPDATE ON public.user_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A customer's first address becomes their default, and making another
+-- address the default clears the flag on the previous one
+CREATE OR REPLACE FUNCTION public.keep_single_default_address()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.user_addresses WHERE user_id = NEW.user_id
+  ) THEN
+    NEW.is_default := true;
+  END IF;
+
+  IF NEW.is_default THEN
+    UPDATE public.user_addresses
+    SET is_default = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS keep_single_default_address ON public.user_addresses;
+CREATE TRIGGER keep_single_default_address
+  BEFORE INSERT OR UPDATE OF is_default ON public.user_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_single_default_address();
+
+-- Deleting the default hands the flag to the most recently added address
+CREATE OR REPLACE FUNCTION public.replace_deleted_default_address()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.is_default THEN
+    UPDATE public.user_addresses
+    SET is_default = true
+    WHERE id = (
+      SELECT id FROM public.user_addresses
+      WHERE user_id = OLD.user_id
+      ORDER BY created_at DESC
+      LIMIT 1
+    );
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS replace_deleted_default_address ON public.user_addresses;
+CREATE TRIGGER replace_deleted_default_address
+  AFTER DELETE ON public.user_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.replace_deleted_default_address();
@@ -0,0 +1,335 @@
+-- Rewards points ledger
+-- Every change to a customer's points is an append-only ledger entry:
+--   earn    points for a delivered order (positive)
+--   redeem  points spent on a reward (negative)
+--   adjust  admin corrections and opening balances (either sign)
+--   expire  points that lapsed (negative)
+-- The balance is the sum of the ledger; rewards.points is kept equal to it so
+-- existing readers keep working. The membership tier follows the points
+-- earned over the customer's lifetime, so redeeming never lowers it.
+
+CREATE TABLE IF NOT EXISTS public.points_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('earn', 'redeem', 'adjust', 'expire')),
+  points INTEGER NOT NULL CHECK (points <> 0),
+  description TEXT NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL, -- code issued by a redemption
+  coupon_code TEXT, -- copied so customers can find their code again (coupons are admin-only)
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL, -- admin who made an adjustment
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT points_ledger_sign_check CHECK (
+    (event_type = 'earn' AND points > 0) OR
+    (event_type IN ('redeem', 'expire') AND points < 0) OR
+    event_type = 'adjust'
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_points_ledger_user_id ON public.points_ledger(user_id, created_at DESC);
+-- An order earns points once, however often it moves in and out of delivered
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_ledger_order_earn
+  ON public.points_ledger(order_id) WHERE event_type = 'earn';
+
+-- Enable Row Level Security
+ALTER TABLE public.points_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the functions below
+DROP POLICY IF EXISTS "Users can view own points history" ON public.points_ledger;
+CREATE POLICY "Users can view own points history" ON public.points_ledger
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view points history" ON public.points_ledger;
+CREATE POLICY "Admins can view points history" ON public.points_ledger
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Mistakes are corrected with an 'adjust' entry, never by editing history
+CREATE OR REPLACE FUNCTION public.prevent_points_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The points ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_points_ledger_changes ON public.points_ledger;
+CREATE TRIGGER prevent_points_ledger_changes
+  BEFORE UPDATE OR DELETE ON public.points_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_points_ledger_changes();
+
+-- Keeps rewards.points equal to the ledger balance
+CREATE OR REPLACE FUNCTION public.apply_points_ledger_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.rewards (user_id, points)
+  VALUES (NEW.user_id, NEW.points)
+  ON CONFLICT (user_id) DO UPDATE SET points = public.rewards.points + EXCLUDED.points;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_points_ledger_entry ON public.points_ledger;
+CREATE TRIGGER apply_points_ledger_entry
+  AFTER INSERT ON public.points_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_points_ledger_entry();
+
+-- One rewards row per customer, so the cached balance can be upserted
+DELETE FROM public.rewards r
+USING public.rewards newer
+WHERE r.user_id = newer.user_id AND (r.created_at, r.id) < (newer.created_at, newer.id);
+
+ALTER TABLE public.rewards DROP CONSTRAINT IF EXISTS rewards_user_id_key;
+ALTER TABLE public.rewards ADD CONSTRAINT rewards_user_id_key UNIQUE (user_id);
+
+-- Balances held before the ledger existed become opening entries. The
+-- balance trigger is paused so they are not added a second time.
+ALTER TABLE public.points_ledger DISABLE TRIGGER apply_points_ledger_entry;
+
+INSERT INTO public.points_ledger (user_id, event_type, points, description)
+SELECT user_id, 'adjust', points, 'Opening balance'
+FROM public.rewards
+WHERE points <> 0
+  AND NOT EXISTS (SELECT 1 FROM public.points_ledger l WHERE l.user_id = rewards.user_id);
+
+ALTER TABLE public.points_ledger ENABLE TRIGGER apply_points_ledger_entry;
+
+-- Earns 1 point for every R10 of a delivered order's total
+CREATE OR REPLACE FUNCTION public.add_reward_points()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_points INTEGER;
+BEGIN
+  IF NEW.status = 'delivered' AND (OLD.status IS NULL OR OLD.status != 'delivered') AND NEW.user_id IS NOT NULL THEN
+    v_points := FLOOR(NEW.total_amount / 10);
+
+    IF v_points > 0 THEN
+      INSERT INTO public.points_ledger (user_id, event_type, points, description, order_id)
+      VALUES (NEW.user_id, 'earn', v_points, 'Order #' || upper(right(NEW.id::TEXT, 8)) || ' delivered', NEW.id)
+      ON CONFLICT (order_id) WHERE event_type = 'earn' DO NOTHING;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bronze from the start, Silver from 500 and Gold from 1000 lifetime points
+CREATE OR REPLACE FUNCTION public.get_points_tier(p_lifetime_points INTEGER)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_lifetime_points >= 1000 THEN 'Gold'
+    WHEN p_lifetime_points >= 500 THEN 'Silver'
+    ELSE 'Bronze'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Current balance, lifetime points and tier of the signed-in customer
+CREATE OR REPLACE FUNCTION public.get_points_summary()
+RETURNS TABLE (balance INTEGER, lifetime_points INTEGER, tier TEXT) AS $$
+  SELECT
+    COALESCE(SUM(points), 0)::INTEGER,
+    COALESCE(SUM(points) FILTER (WHERE event_type = 'earn' OR (event_type = 'adjust' AND points > 0)), 0)::INTEGER,
+    public.get_points_tier(COALESCE(SUM(points) FILTER (WHERE event_type = 'earn' OR (event_type = 'adjust' AND points > 0)), 0)::INTEGER)
+  FROM public.points_ledger
+  WHERE user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_points_summary() TO authenticated;
+
+-- Rewards customers can spend points on. Each redemption issues a single-use
+-- coupon code, which is applied at checkout like any other code.
+CREATE TABLE IF NOT EXISTS public.points_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('fixed_amount', 'free_shipping')),
+  discount_value NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  valid_days INTEGER NOT NULL DEFAULT 90 CHECK (valid_days > 0), -- how long the issued code lasts
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.points_rewards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active points rewards" ON public.points_rewards;
+CREATE POLICY "Anyone can view active points rewards" ON public.points_rewards
+  FOR SELECT USING (is_active = true);
+
+DROP POLICY IF EXISTS "Admins can manage points rewards" ON public.points_rewards;
+CREATE POLICY "Admins can manage points rewards" ON public.points_rewards
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_points_rewards_updated_at ON public.points_rewards;
+CREATE TRIGGER update_points_rewards_updated_at
+  BEFORE UPDATE ON public.points_rewards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The rewards previously listed on the Rewards page
+INSERT INTO public.points_rewards (name, points_cost, discount_type, discount_value, sort_order)
+SELECT * FROM (VALUES
+  ('Free Standard Shipping', 50, 'free_shipping', 0::NUMERIC, 1),
+  ('R5 Off Next Purchase', 100, 'fixed_amount', 5::NUMERIC, 2),
+  ('Free Express Shipping', 150, 'free_shipping', 0::NUMERIC, 3),
+  ('R10 Off Next Purchase', 200, 'fixed_amount', 10::NUMERIC, 4),
+  ('R25 Off Next Purchase', 500, 'fixed_amount', 25::NUMERIC, 5)
+) AS seed(name, points_cost, discount_type, discount_value, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM public.points_rewards);
+
+-- Codes issued to one customer (points rewards) are
+-- paid for by that customer, so only their account can use them
+ALTER TABLE public.coupons
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES public.users(id) ON DELETE CASCADE; -- NULL = anyone
+
+-- Same checks as before, plus the owner of a personal code. Guests have no
+-- account, so they cannot use one.
+CREATE OR REPLACE FUNCTION public.evaluate_coupon(
+  p_code TEXT,
+  p_items JSONB,
+  p_shipping_fee NUMERIC,
+  p_user_id UUID,
+  p_customer_email TEXT
+)
+RETURNS TABLE (coupon_id UUID, code TEXT, discount_type TEXT, discount_amount NUMERIC) AS $$
+DECLARE
+  v_coupon public.coupons%ROWTYPE;
+  v_subtotal NUMERIC := 0;
+  v_eligible NUMERIC := 0;
+  v_used INTEGER;
+  v_discount NUMERIC;
+BEGIN
+  SELECT * INTO v_coupon
+  FROM public.coupons
+  WHERE coupons.code = upper(trim(p_code));
+
+  IF NOT FOUND OR NOT v_coupon.is_active THEN
+    RAISE EXCEPTION 'Discount code % is not valid', upper(trim(p_code));
+  END IF;
+
+  IF v_coupon.user_id IS NOT NULL AND v_coupon.user_id IS DISTINCT FROM p_user_id THEN
+    RAISE EXCEPTION 'Discount code % can only be used by the account it was issued to', v_coupon.code;
+  END IF;
+
+  IF v_coupon.starts_at IS NOT NULL AND now() < v_coupon.starts_at THEN
+    RAISE EXCEPTION 'Discount code % is not active yet', v_coupon.code;
+  END IF;
+
+  IF v_coupon.expires_at IS NOT NULL AND now() >= v_coupon.expires_at THEN
+    RAISE EXCEPTION 'Discount code % has expired', v_coupon.code;
+  END IF;
+
+  -- Basket value, and the part of it the code applies to
+  SELECT
+    COALESCE(SUM(p.price * (item->>'quantity')::INTEGER), 0),
+    COALESCE(SUM(p.price * (item->>'quantity')::INTEGER) FILTER (
+      WHERE (cardinality(v_coupon.categories) = 0 OR p.category = ANY(v_coupon.categories))
+        AND (cardinality(v_coupon.product_ids) = 0 OR p.id = ANY(v_coupon.product_ids))
+    ), 0)
+  INTO v_subtotal, v_eligible
+  FROM jsonb_array_elements(COALESCE(p_items, '[]'::JSONB)) AS item
+  JOIN public.products p ON p.id = (item->>'product_id')::UUID;
+
+  IF v_subtotal < v_coupon.min_spend THEN
+    RAISE EXCEPTION 'Spend at least R% to use discount code %', to_char(v_coupon.min_spend, 'FM999999990.00'), v_coupon.code;
+  END IF;
+
+  IF v_eligible = 0 THEN
+    RAISE EXCEPTION 'Discount code % does not apply to the items in your cart', v_coupon.code;
+  END IF;
+
+  IF v_coupon.usage_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_used FROM public.coupon_redemptions r WHERE r.coupon_id = v_coupon.id;
+    IF v_used >= v_coupon.usage_limit THEN
+      RAISE EXCEPTION 'Discount code % has reached its usage limit', v_coupon.code;
+    END IF;
+  END IF;
+
+  IF v_coupon.per_customer_limit IS NOT NULL THEN
+    SELECT count(*) INTO v_used
+    FROM public.coupon_redemptions r
+    WHERE r.coupon_id = v_coupon.id
+      AND ((p_user_id IS NOT NULL AND r.user_id = p_user_id)
+        OR (p_customer_email IS NOT NULL AND lower(r.customer_email) = lower(trim(p_customer_email))));
+    IF v_used >= v_coupon.per_customer_limit THEN
+      RAISE EXCEPTION 'You have already used discount code %', v_coupon.code;
+    END IF;
+  END IF;
+
+  v_discount := CASE v_coupon.discount_type
+    WHEN 'percentage' THEN round(v_eligible * v_coupon.discount_value / 100, 2)
+    WHEN 'fixed_amount' THEN LEAST(v_coupon.discount_value, v_eligible)
+    ELSE COALESCE(p_shipping_fee, 0)
+  END;
+
+  RETURN QUERY SELECT v_coupon.id, v_coupon.code, v_coupon.discount_type, v_discount;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_coupon(TEXT, JSONB, NUMERIC, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Spends the signed-in customer's points on a reward and returns the coupon
+-- code it issued. The rewards row is locked so two redemptions cannot both
+-- spend the same points.
+CREATE OR REPLACE FUNCTION public.redeem_points_reward(p_reward_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_reward RECORD;
+  v_balance INTEGER;
+  v_code TEXT;
+  v_coupon_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to redeem rewards';
+  END IF;
+
+  SELECT * INTO v_reward FROM public.points_rewards WHERE id = p_reward_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This reward is no longer available';
+  END IF;
+
+  PERFORM 1 FROM public.rewards WHERE user_id = v_user_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(points), 0) INTO v_balance FROM public.points_ledger WHERE user_id = v_user_id;
+  IF v_balance < v_reward.points_cost THEN
+    RAISE EXCEPTION 'You need % more points for this reward', v_reward.points_cost - v_balance;
+  END IF;
+
+  v_code := 'RWD' || upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 8));
+
+  INSERT INTO public.coupons (code, description, discount_type, discount_value, usage_limit, per_customer_limit, starts_at, expires_at, user_id)
+  VALUES (v_code, v_reward.name || ' (points reward)', v_reward.discount_type, v_reward.discount_value, 1, 1, now(), now() + make_interval(days => v_reward.valid_days), v_user_id)
+  RETURNING id INTO v_coupon_id;
+
+  INSERT INTO public.points_ledger (user_id, event_type, points, description, coupon_id, coupon_code)
+  VALUES (v_user_id, 'redeem', -v_reward.points_cost, 'Redeemed ' || v_reward.name, v_coupon_id, v_code);
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.redeem_points_reward(UUID) TO authenticated;
+
+-- Lets an admin correct a customer's balance; the reason is shown in their history
+CREATE OR REPLACE FUNCTION public.adjust_points(p_user_id UUID, p_points INTEGER, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can adjust points';
+  END IF;
+
+  IF p_reason IS NULL OR trim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  INSERT INTO public.points_ledger (user_id, event_type, points, description, created_by)
+  VALUES (p_user_id, 'adjust', p_points, trim(p_reason), auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.adjust_points(UUID, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,206 @@
+-- Points redemption at checkout
+-- Signed-in customers can spend points on their order: 1 cent per point, for
+-- at most 20% of the items subtotal. The points are checked and debited in the
+-- same transaction that creates the order, the discount is stored on the order
+-- next to the coupon discount, and cancelling the order returns the points.
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS points_redeemed INTEGER NOT NULL DEFAULT 0 CHECK (points_redeemed >= 0),
+  ADD COLUMN IF NOT EXISTS points_discount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (points_discount >= 0);
+
+-- Points returned for a cancelled order get their own event type
+ALTER TABLE public.points_ledger DROP CONSTRAINT IF EXISTS points_ledger_event_type_check;
+ALTER TABLE public.points_ledger ADD CONSTRAINT points_ledger_event_type_check
+  CHECK (event_type IN ('earn', 'redeem', 'adjust', 'expire', 'refund'));
+
+ALTER TABLE public.points_ledger DROP CONSTRAINT IF EXISTS points_ledger_sign_check;
+ALTER TABLE public.points_ledger ADD CONSTRAINT points_ledger_sign_check CHECK (
+  (event_type IN ('earn', 'refund') AND points > 0) OR
+  (event_type IN ('redeem', 'expire') AND points < 0) OR
+  event_type = 'adjust'
+);
+
+-- An order's points are returned once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_ledger_order_refund
+  ON public.points_ledger(order_id) WHERE event_type = 'refund';
+
+-- Order totals: items + shipping - coupon discount - points discount, never below zero
+CREATE OR REPLACE FUNCTION public.calculate_order_total(order_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+  total DECIMAL(10, 2);
+BEGIN
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO total
+  FROM public.order_items
+  WHERE order_items.order_id = calculate_order_total.order_id;
+
+  SELECT GREATEST(
+    total + COALESCE(orders.shipping_fee, 0) - COALESCE(orders.discount_amount, 0) - COALESCE(orders.points_discount, 0),
+    0
+  ) INTO total
+  FROM public.orders
+  WHERE orders.id = calculate_order_total.order_id;
+
+  RETURN total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Spend up to p_points of the order owner's points on an order that already
+-- has its items, shipping and coupon. Only the points needed to reach the 20%
+-- cap are taken; the rest stay in the customer's balance.
+CREATE OR REPLACE FUNCTION public.apply_order_points(p_order_id UUID, p_points INTEGER)
+RETURNS VOID AS $$
+DECLARE
+  v_order RECORD;
+  v_subtotal NUMERIC;
+  v_balance INTEGER;
+  v_discount NUMERIC;
+  v_points INTEGER;
+BEGIN
+  SELECT id, user_id, discount_amount INTO v_order FROM public.orders WHERE id = p_order_id;
+
+  IF v_order.user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your points';
+  END IF;
+
+  -- Lock the balance so two orders cannot spend the same points
+  PERFORM 1 FROM public.rewards WHERE user_id = v_order.user_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(points), 0) INTO v_balance FROM public.points_ledger WHERE user_id = v_order.user_id;
+  IF p_points > v_balance THEN
+    RAISE EXCEPTION 'You only have % points available', v_balance;
+  END IF;
+
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO v_subtotal
+  FROM public.order_items
+  WHERE order_id = p_order_id;
+
+  v_discount := LEAST(
+    p_points / 100.0,
+    round(v_subtotal * 0.2, 2),
+    GREATEST(v_subtotal - COALESCE(v_order.discount_amount, 0), 0)
+  );
+  v_discount := floor(v_discount * 100) / 100;
+  v_points := (v_discount * 100)::INTEGER;
+
+  IF v_points = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.orders
+  SET points_redeemed = v_points,
+      points_discount = v_discount
+  WHERE id = p_order_id;
+
+  INSERT INTO public.points_ledger (user_id, event_type, points, description, order_id)
+  VALUES (v_order.user_id, 'redeem', -v_points, 'Points used on order #' || upper(right(p_order_id::TEXT, 8)), p_order_id);
+
+  UPDATE public.orders
+  SET total_amount = public.calculate_order_total(p_order_id)
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.apply_order_points(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Account checkout now takes the number of points to spend
+DROP FUNCTION IF EXISTS public.create_order_from_cart(UUID, JSONB, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+  p_user_id UUID,
+  p_shipping_address JSONB,
+  p_shipping_method_id UUID,
+  p_coupon_code TEXT DEFAULT NULL,
+  p_points_to_redeem INTEGER DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_cart_id UUID;
+  v_order_id UUID;
+  v_cart_item RECORD;
+BEGIN
+  -- Only the signed-in customer can check out their own cart (and spend their points)
+  IF p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only check out your own cart';
+  END IF;
+
+  -- Check if user exists
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = p_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- Get user's cart
+  SELECT id INTO v_cart_id FROM public.cart WHERE user_id = p_user_id;
+  IF v_cart_id IS NULL THEN
+    RAISE EXCEPTION 'Cart not found';
+  END IF;
+
+  -- Check if cart has items
+  IF NOT EXISTS (SELECT 1 FROM public.cart_items WHERE cart_id = v_cart_id) THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  -- Create new order
+  INSERT INTO public.orders (user_id, status, total_amount, shipping_address)
+  VALUES (p_user_id, 'pending', 0, p_shipping_address)
+  RETURNING id INTO v_order_id;
+
+  -- Copy cart items to order items; each insert reserves its variant stock
+  FOR v_cart_item IN
+    SELECT ci.product_id, ci.quantity, ci.size, ci.color, p.price,
+      COALESCE(p.is_active, true) AND p.deleted_at IS NULL AS available
+    FROM public.cart_items ci
+    JOIN public.products p ON ci.product_id = p.id
+    WHERE ci.cart_id = v_cart_id
+    FOR UPDATE OF ci
+  LOOP
+    IF NOT v_cart_item.available THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    INSERT INTO public.order_items (order_id, product_id, quantity, price_at_purchase, size, color)
+    VALUES (v_order_id, v_cart_item.product_id, v_cart_item.quantity, v_cart_item.price, v_cart_item.size, v_cart_item.color);
+  END LOOP;
+
+  -- Price shipping from the method's current rate; also sets the final total
+  PERFORM public.apply_order_shipping(v_order_id, p_shipping_method_id);
+
+  -- A code that no longer applies fails the whole order so the shopper can remove it
+  IF NULLIF(trim(p_coupon_code), '') IS NOT NULL THEN
+    PERFORM public.apply_order_coupon(v_order_id, p_coupon_code);
+  END IF;
+
+  -- Points come off after the coupon, up to 20% of the items
+  IF COALESCE(p_points_to_redeem, 0) > 0 THEN
+    PERFORM public.apply_order_points(v_order_id, p_points_to_redeem);
+  END IF;
+
+  -- Clear the cart
+  DELETE FROM public.cart_items WHERE cart_id = v_cart_id;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_order_from_cart(UUID, JSONB, UUID, TEXT, INTEGER) TO authenticated;
+
+-- Returns the points spent on an order when it is cancelled
+CREATE OR REPLACE FUNCTION public.refund_order_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled'
+     AND NEW.points_redeemed > 0 AND NEW.user_id IS NOT NULL THEN
+    INSERT INTO public.points_ledger (user_id, event_type, points, description, order_id)
+    VALUES (NEW.user_id, 'refund', NEW.points_redeemed, 'Points returned: order #' || upper(right(NEW.id::TEXT, 8)) || ' cancelled', NEW.id)
+    ON CONFLICT (order_id) WHERE event_type = 'refund' DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refund_order_points_on_cancel ON public.orders;
+CREATE TRIGGER refund_order_points_on_cancel
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refund_order_points();
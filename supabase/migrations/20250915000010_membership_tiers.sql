@@ -0,0 +1,324 @@
+-- Membership tier engine
+-- Tiers are rows admins can edit: a member qualifies for a tier by spending
+-- at least min_spend_12m on delivered orders, or earning at least
+-- min_points_12m points, over the last 12 months. Each tier carries perks that
+-- the database applies itself: an earn multiplier on delivered orders, free
+-- shipping at checkout and early access to products before their release.
+
+CREATE TABLE IF NOT EXISTS public.membership_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  min_spend_12m NUMERIC(10, 2) CHECK (min_spend_12m >= 0), -- null = spend does not qualify
+  min_points_12m INTEGER CHECK (min_points_12m >= 0),      -- null = points do not qualify
+  earn_multiplier NUMERIC(4, 2) NOT NULL DEFAULT 1 CHECK (earn_multiplier >= 1),
+  free_shipping BOOLEAN NOT NULL DEFAULT false,
+  early_access BOOLEAN NOT NULL DEFAULT false,
+  benefits TEXT[] NOT NULL DEFAULT '{}', -- extra perks listed on the Rewards page only
+  color TEXT NOT NULL DEFAULT '#9ca3af',
+  rank INTEGER NOT NULL UNIQUE, -- higher ranks win when a member qualifies for several tiers
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.membership_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view membership tiers" ON public.membership_tiers;
+CREATE POLICY "Anyone can view membership tiers" ON public.membership_tiers
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage membership tiers" ON public.membership_tiers;
+CREATE POLICY "Admins can manage membership tiers" ON public.membership_tiers
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_membership_tiers_updated_at ON public.membership_tiers;
+CREATE TRIGGER update_membership_tiers_updated_at
+  BEFORE UPDATE ON public.membership_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The tiers previously hard-coded on the Rewards page. Bronze has no
+-- thresholds, so every member holds at least Bronze.
+INSERT INTO public.membership_tiers (name, min_spend_12m, min_points_12m, earn_multiplier, free_shipping, early_access, benefits, color, rank)
+SELECT * FROM (VALUES
+  ('Bronze', NULL::NUMERIC, NULL::INTEGER, 1::NUMERIC, false, false, ARRAY['Birthday discount'], '#ea580c', 1),
+  ('Silver', 5000::NUMERIC, 500, 1.5::NUMERIC, true, false, ARRAY[]::TEXT[], '#9ca3af', 2),
+  ('Gold', 10000::NUMERIC, 1000, 2::NUMERIC, true, true, ARRAY['VIP support', 'Exclusive events'], '#eab308', 3)
+) AS seed(name, min_spend_12m, min_points_12m, earn_multiplier, free_shipping, early_access, benefits, color, rank)
+WHERE NOT EXISTS (SELECT 1 FROM public.membership_tiers);
+
+-- The tier each member currently holds, kept up to date by evaluate_membership_tier
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS membership_tier_id UUID REFERENCES public.membership_tiers(id) ON DELETE SET NULL;
+
+-- Tier upgrades and downgrades. The storefront notifies the member and then
+-- marks the change as notified.
+CREATE TABLE IF NOT EXISTS public.membership_tier_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  from_tier TEXT NOT NULL,
+  to_tier TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('upgrade', 'downgrade')),
+  spend_12m NUMERIC(10, 2) NOT NULL,
+  points_12m INTEGER NOT NULL,
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_membership_tier_changes_user_pending
+  ON public.membership_tier_changes(user_id) WHERE notified_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.membership_tier_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tier changes" ON public.membership_tier_changes;
+CREATE POLICY "Users can view own tier changes" ON public.membership_tier_changes
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view all tier changes" ON public.membership_tier_changes;
+CREATE POLICY "Admins can view all tier changes" ON public.membership_tier_changes
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Tier notifications need their own categories
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_category_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_category_check CHECK (category IN (
+  'order_created', 'order_shipped', 'order_delivered', 'order_cancelled', 'security_alert',
+  'system_maintenance', 'new_product', 'price_change', 'tier_upgrade', 'tier_downgrade'
+));
+
+-- Spend on delivered orders and points earned over the last 12 months
+CREATE OR REPLACE FUNCTION public.get_member_activity_12m(p_user_id UUID)
+RETURNS TABLE (spend_12m NUMERIC, points_12m INTEGER) AS $$
+  SELECT
+    (SELECT COALESCE(SUM(total_amount), 0)
+     FROM public.orders
+     WHERE user_id = p_user_id AND status = 'delivered' AND created_at >= now() - INTERVAL '12 months'),
+    (SELECT COALESCE(SUM(points), 0)::INTEGER
+     FROM public.points_ledger
+     WHERE user_id = p_user_id
+       AND (event_type = 'earn' OR (event_type = 'adjust' AND points > 0))
+       AND created_at >= now() - INTERVAL '12 months');
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_member_activity_12m(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Works out the tier a member qualifies for today, stores it on the user and
+-- records the change when it moved. Returns the tier id, or null if no tier
+-- applies. A member's first tier is assigned silently.
+CREATE OR REPLACE FUNCTION public.evaluate_membership_tier(p_user_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_activity RECORD;
+  v_current RECORD;
+  v_new RECORD;
+BEGIN
+  SELECT * INTO v_activity FROM public.get_member_activity_12m(p_user_id);
+
+  SELECT t.id, t.name, t.rank INTO v_current
+  FROM public.users u
+  LEFT JOIN public.membership_tiers t ON t.id = u.membership_tier_id
+  WHERE u.id = p_user_id
+  FOR UPDATE OF u;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id, name, rank INTO v_new
+  FROM public.membership_tiers
+  WHERE (min_spend_12m IS NULL AND min_points_12m IS NULL)
+     OR v_activity.spend_12m >= min_spend_12m
+     OR v_activity.points_12m >= min_points_12m
+  ORDER BY rank DESC
+  LIMIT 1;
+
+  IF v_new.id IS NOT DISTINCT FROM v_current.id THEN
+    RETURN v_new.id;
+  END IF;
+
+  UPDATE public.users SET membership_tier_id = v_new.id WHERE id = p_user_id;
+
+  IF v_current.id IS NOT NULL AND v_new.id IS NOT NULL THEN
+    INSERT INTO public.membership_tier_changes (user_id, from_tier, to_tier, direction, spend_12m, points_12m)
+    VALUES (
+      p_user_id, v_current.name, v_new.name,
+      CASE WHEN v_new.rank > v_current.rank THEN 'upgrade' ELSE 'downgrade' END,
+      v_activity.spend_12m, v_activity.points_12m
+    );
+  END IF;
+
+  RETURN v_new.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_membership_tier(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Existing members start on the tier their last 12 months earn them
+SELECT public.evaluate_membership_tier(id) FROM public.users;
+
+-- The signed-in member's tier, its perks and the activity behind it. Tiers
+-- can lapse as old orders leave the 12-month window, so this re-evaluates.
+CREATE OR REPLACE FUNCTION public.get_membership_status()
+RETURNS TABLE (
+  tier_id UUID,
+  tier TEXT,
+  spend_12m NUMERIC,
+  points_12m INTEGER,
+  earn_multiplier NUMERIC,
+  free_shipping BOOLEAN,
+  early_access BOOLEAN,
+  color TEXT
+) AS $$
+DECLARE
+  v_tier_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_tier_id := public.evaluate_membership_tier(auth.uid());
+
+  RETURN QUERY
+  SELECT t.id, t.name, a.spend_12m, a.points_12m,
+         COALESCE(t.earn_multiplier, 1), COALESCE(t.free_shipping, false), COALESCE(t.early_access, false), t.color
+  FROM public.get_member_activity_12m(auth.uid()) a
+  LEFT JOIN public.membership_tiers t ON t.id = v_tier_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_membership_status() TO authenticated;
+
+-- Marks the signed-in member's tier changes as notified
+CREATE OR REPLACE FUNCTION public.acknowledge_tier_changes(p_change_ids UUID[])
+RETURNS VOID AS $$
+  UPDATE public.membership_tier_changes
+  SET notified_at = now()
+  WHERE id = ANY(p_change_ids) AND user_id = auth.uid() AND notified_at IS NULL;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.acknowledge_tier_changes(UUID[]) TO authenticated;
+
+-- Balance and lifetime points from the ledger; the tier is the stored membership tier
+CREATE OR REPLACE FUNCTION public.get_points_summary()
+RETURNS TABLE (balance INTEGER, lifetime_points INTEGER, tier TEXT) AS $$
+  SELECT
+    COALESCE(SUM(l.points), 0)::INTEGER,
+    COALESCE(SUM(l.points) FILTER (WHERE l.event_type = 'earn' OR (l.event_type = 'adjust' AND l.points > 0)), 0)::INTEGER,
+    (SELECT t.name FROM public.users u JOIN public.membership_tiers t ON t.id = u.membership_tier_id WHERE u.id = auth.uid())
+  FROM public.points_ledger l
+  WHERE l.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_points_summary() TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_points_tier(INTEGER);
+
+-- Earns 1 point for every R10 of a delivered order's total, times the
+-- member's tier multiplier, then re-evaluates the tier with the new order
+CREATE OR REPLACE FUNCTION public.add_reward_points()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_multiplier NUMERIC;
+  v_points INTEGER;
+BEGIN
+  IF NEW.status = 'delivered' AND (OLD.status IS NULL OR OLD.status != 'delivered') AND NEW.user_id IS NOT NULL THEN
+    SELECT COALESCE(t.earn_multiplier, 1) INTO v_multiplier
+    FROM public.users u
+    LEFT JOIN public.membership_tiers t ON t.id = u.membership_tier_id
+    WHERE u.id = NEW.user_id;
+
+    v_points := FLOOR(FLOOR(NEW.total_amount / 10) * COALESCE(v_multiplier, 1));
+
+    IF v_points > 0 THEN
+      INSERT INTO public.points_ledger (user_id, event_type, points, description, order_id)
+      VALUES (
+        NEW.user_id, 'earn', v_points,
+        'Order #' || upper(right(NEW.id::TEXT, 8)) || ' delivered' ||
+          CASE WHEN v_multiplier > 1 THEN ' (' || rtrim(rtrim(v_multiplier::TEXT, '0'), '.') || 'x tier bonus)' ELSE '' END,
+        NEW.id
+      )
+      ON CONFLICT (order_id) WHERE event_type = 'earn' DO NOTHING;
+    END IF;
+
+    PERFORM public.evaluate_membership_tier(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Price shipping once all items are on the order, then refresh the total.
+-- Members whose tier includes free shipping are not charged for delivery.
+CREATE OR REPLACE FUNCTION public.apply_order_shipping(p_order_id UUID, p_shipping_method_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_subtotal NUMERIC;
+  v_user_id UUID;
+  v_free_shipping BOOLEAN := false;
+BEGIN
+  SELECT COALESCE(SUM(price_at_purchase * quantity), 0) INTO v_subtotal
+  FROM public.order_items
+  WHERE order_id = p_order_id;
+
+  SELECT user_id INTO v_user_id FROM public.orders WHERE id = p_order_id;
+  IF v_user_id IS NOT NULL THEN
+    SELECT free_shipping INTO v_free_shipping
+    FROM public.membership_tiers
+    WHERE id = public.evaluate_membership_tier(v_user_id);
+  END IF;
+
+  UPDATE public.orders
+  SET shipping_method_id = p_shipping_method_id,
+      shipping_method_name = (SELECT name FROM public.shipping_methods WHERE id = p_shipping_method_id),
+      shipping_fee = CASE
+        WHEN COALESCE(v_free_shipping, false) THEN 0
+        ELSE public.get_shipping_fee(p_shipping_method_id, v_subtotal)
+      END
+  WHERE id = p_order_id;
+
+  UPDATE public.orders
+  SET total_amount = public.calculate_order_total(p_order_id)
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Products can be held back for early-access tiers until a release date
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS early_access_until TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+-- Before release, only members whose tier has early access can order the
+-- product. Runs for both account and guest checkout, like stock reservation.
+CREATE OR REPLACE FUNCTION public.check_early_access_for_order_item()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product RECORD;
+  v_user_id UUID;
+  v_early_access BOOLEAN;
+BEGIN
+  SELECT name, early_access_until INTO v_product FROM public.products WHERE id = NEW.product_id;
+
+  IF v_product.early_access_until IS NULL OR v_product.early_access_until <= now() THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM public.orders WHERE id = NEW.order_id;
+  IF v_user_id IS NOT NULL THEN
+    SELECT early_access INTO v_early_access
+    FROM public.membership_tiers
+    WHERE id = public.evaluate_membership_tier(v_user_id);
+  END IF;
+
+  IF NOT COALESCE(v_early_access, false) THEN
+    RAISE EXCEPTION '% is in early access for members until %', v_product.name, to_char(v_product.early_access_until, 'DD Mon YYYY')
+      USING ERRCODE = 'P0001', HINT = 'early_access';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS check_early_access_on_order_item_insert ON public.order_items;
+CREATE TRIGGER check_early_access_on_order_item_insert
+  BEFORE INSERT ON public.order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_early_access_for_order_item();
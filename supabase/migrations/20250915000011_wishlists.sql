@@ -0,0 +1,25 @@
+-- Wishlists
+-- Signed-in customers keep a wishlist that follows them across devices.
+-- Guests keep theirs in the browser; it is merged into this table when they
+-- sign in, the same way the guest cart is.
+
+CREATE TABLE IF NOT EXISTS public.wishlist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (user_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wishlist_items_product_id ON public.wishlist_items(product_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.wishlist_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own wishlist" ON public.wishlist_items;
+CREATE POLICY "Users can manage own wishlist" ON public.wishlist_items
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view wishlists" ON public.wishlist_items;
+CREATE POLICY "Admins can view wishlists" ON public.wishlist_items
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
@@ -0,0 +1,207 @@
+-- Back-in-stock and price-drop alerts
+-- Shoppers can ask to be told when a sold-out product (or one size/color of
+-- it) comes back. Wishlisted products alert their owners when the price is
+-- lowered. Triggers on stock and price changes call the send-product-alerts
+-- edge function, which emails or notifies each shopper on their preferred
+-- channel, so restocks from returns and cancellations alert shoppers too.
+-- The triggers read the project URL and service role key from Vault:
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+CREATE TABLE IF NOT EXISTS public.product_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  size TEXT, -- null with color for products without per-variant stock
+  color TEXT,
+  sending_at TIMESTAMP WITH TIME ZONE, -- claimed by a send that has not finished yet
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- One open alert per shopper and variant; once notified they can subscribe again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_alerts_open
+  ON public.product_alerts(user_id, product_id, COALESCE(size, ''), COALESCE(color, ''))
+  WHERE notified_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_product_alerts_product_id ON public.product_alerts(product_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.product_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own product alerts" ON public.product_alerts;
+CREATE POLICY "Users can manage own product alerts" ON public.product_alerts
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view product alerts" ON public.product_alerts;
+CREATE POLICY "Admins can view product alerts" ON public.product_alerts
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Alert notifications need their own categories
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_category_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_category_check CHECK (category IN (
+  'order_created', 'order_shipped', 'order_delivered', 'order_cancelled', 'security_alert',
+  'system_maintenance', 'new_product', 'price_change', 'tier_upgrade', 'tier_downgrade',
+  'back_in_stock', 'price_drop'
+));
+
+-- Email unless the shopper turned it off, then push, then in-app only.
+-- Shoppers without a preferences row get the table defaults (email on).
+CREATE OR REPLACE FUNCTION public.get_preferred_notification_channel(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN COALESCE(np.email_notifications, true) THEN 'email'
+    WHEN COALESCE(np.push_notifications, true) THEN 'push'
+    ELSE 'system'
+  END
+  FROM (SELECT p_user_id AS user_id) u
+  LEFT JOIN public.notification_preferences np ON np.user_id = u.user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_preferred_notification_channel(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Claims open alerts (for one product, or all when p_product_id is null)
+-- whose size/color is in stock again, and returns them with what is needed to
+-- send them. A claim stops a second send picking the same alert up; it lapses
+-- after 15 minutes so alerts whose send failed or never finished are retried.
+-- The edge function sets notified_at once the shopper has been told.
+DROP FUNCTION IF EXISTS public.claim_back_in_stock_alerts(UUID);
+CREATE OR REPLACE FUNCTION public.claim_back_in_stock_alerts(p_product_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  id UUID, user_id UUID, email TEXT, channel TEXT,
+  product_id UUID, product_name TEXT, size TEXT, color TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.product_alerts a
+  SET sending_at = now()
+  FROM public.products p, public.users u
+  WHERE p.id = a.product_id
+    AND u.id = a.user_id
+    AND (p_product_id IS NULL OR a.product_id = p_product_id)
+    AND a.notified_at IS NULL
+    AND (a.sending_at IS NULL OR a.sending_at < now() - INTERVAL '15 minutes')
+    AND COALESCE(p.is_active, true)
+    AND CASE
+      WHEN a.size IS NULL OR a.color IS NULL THEN COALESCE(p.in_stock, false)
+      ELSE EXISTS (
+        SELECT 1 FROM public.product_variants v
+        WHERE v.product_id = a.product_id AND v.size = a.size AND v.color = a.color AND v.stock_quantity > 0
+      )
+    END
+  RETURNING a.id, a.user_id, u.email, public.get_preferred_notification_channel(a.user_id),
+    a.product_id, p.name, a.size, a.color;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.claim_back_in_stock_alerts(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Shoppers with the product on their wishlist, if its price is now below
+-- p_previous_price
+DROP FUNCTION IF EXISTS public.get_price_drop_recipients(UUID, NUMERIC);
+CREATE OR REPLACE FUNCTION public.get_price_drop_recipients(p_product_id UUID, p_previous_price NUMERIC)
+RETURNS TABLE (user_id UUID, email TEXT, channel TEXT) AS $$
+  SELECT w.user_id, u.email, public.get_preferred_notification_channel(w.user_id)
+  FROM public.wishlist_items w
+  JOIN public.products p ON p.id = w.product_id
+  JOIN public.users u ON u.id = w.user_id
+  WHERE w.product_id = p_product_id
+    AND p.price < p_previous_price
+    AND COALESCE(p.is_active, true);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_price_drop_recipients(UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Asks the send-product-alerts edge function to send a product's alerts.
+-- pg_net only makes the request once the transaction commits, so the function
+-- sees the new stock or price. Until both Vault secrets exist nothing is sent;
+-- the hourly job at the end of this file then picks the alerts up.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.request_product_alerts(p_body JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF NULLIF(v_url, '') IS NULL OR NULLIF(v_key, '') IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := rtrim(v_url, '/') || '/functions/v1/send-product-alerts',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || v_key),
+    body := p_body
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.request_product_alerts(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- A variant going from sold out to in stock, whether through an admin save, a
+-- received return or a cancelled order
+CREATE OR REPLACE FUNCTION public.notify_variant_back_in_stock()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.product_alerts
+    WHERE product_id = NEW.product_id AND size = NEW.size AND color = NEW.color AND notified_at IS NULL
+  ) THEN
+    PERFORM public.request_product_alerts(jsonb_build_object('product_id', NEW.product_id));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_variant_back_in_stock ON public.product_variants;
+CREATE TRIGGER notify_variant_back_in_stock
+  AFTER UPDATE OF stock_quantity ON public.product_variants
+  FOR EACH ROW
+  WHEN (COALESCE(OLD.stock_quantity, 0) <= 0 AND NEW.stock_quantity > 0)
+  EXECUTE FUNCTION public.notify_variant_back_in_stock();
+
+DROP TRIGGER IF EXISTS notify_new_variant_in_stock ON public.product_variants;
+CREATE TRIGGER notify_new_variant_in_stock
+  AFTER INSERT ON public.product_variants
+  FOR EACH ROW
+  WHEN (NEW.stock_quantity > 0)
+  EXECUTE FUNCTION public.notify_variant_back_in_stock();
+
+-- Products without per-variant stock come back when in_stock is switched on;
+-- a lower price alerts the shoppers wishlisting the product
+CREATE OR REPLACE FUNCTION public.notify_product_alerts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.in_stock, false) AND NOT COALESCE(OLD.in_stock, false) AND EXISTS (
+    SELECT 1 FROM public.product_alerts
+    WHERE product_id = NEW.id AND (size IS NULL OR color IS NULL) AND notified_at IS NULL
+  ) THEN
+    PERFORM public.request_product_alerts(jsonb_build_object('product_id', NEW.id));
+  END IF;
+
+  IF NEW.price < OLD.price AND EXISTS (SELECT 1 FROM public.wishlist_items WHERE product_id = NEW.id) THEN
+    PERFORM public.request_product_alerts(jsonb_build_object(
+      'product_id', NEW.id,
+      'previous_price', OLD.price
+    ));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS notify_product_alerts ON public.products;
+CREATE TRIGGER notify_product_alerts
+  AFTER UPDATE OF in_stock, price ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_product_alerts();
+
+-- Every hour, retry back-in-stock alerts whose send failed or never happened
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'send-product-alerts',
+  '0 * * * *',
+  $$SELECT public.request_product_alerts('{}'::JSONB)$$
+);
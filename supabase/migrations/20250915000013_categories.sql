@@ -0,0 +1,98 @@
+-- Product categories
+-- Categories used to be fixed by a CHECK constraint on products.category and
+-- repeated in the storefront code. They now live in their own table, managed
+-- by admins, with a URL slug, hero image, sort order and optional parent.
+-- products.category keeps holding the display name and references the table,
+-- so renaming a category carries over to its products.
+
+CREATE TABLE IF NOT EXISTS public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL UNIQUE,
+  hero_image_url TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT categories_parent_check CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON public.categories(parent_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- The storefront (including guests) builds its navigation from categories
+DROP POLICY IF EXISTS "Anyone can view categories" ON public.categories;
+CREATE POLICY "Anyone can view categories" ON public.categories
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage categories" ON public.categories;
+CREATE POLICY "Admins can manage categories" ON public.categories
+  FOR ALL USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP TRIGGER IF EXISTS update_categories_updated_at ON public.categories;
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The categories previously allowed by the CHECK constraint
+INSERT INTO public.categories (slug, name, sort_order)
+VALUES
+  ('dresses', 'Dresses', 10),
+  ('casual', 'Casual', 20),
+  ('shoes', 'Shoes', 30),
+  ('outwear', 'Outwear', 40),
+  ('party', 'Party', 50),
+  ('accessories', 'Accessories', 60)
+ON CONFLICT (name) DO NOTHING;
+
+-- A category cannot be deleted while products use it; renames follow through
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS products_category_check;
+ALTER TABLE public.products DROP CONSTRAINT IF EXISTS products_category_fkey;
+ALTER TABLE public.products
+  ADD CONSTRAINT products_category_fkey FOREIGN KEY (category)
+  REFERENCES public.categories(name) ON UPDATE CASCADE ON DELETE RESTRICT;
+
+-- Stop a category from becoming its own ancestor
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id FROM public.categories c JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be placed under one of its own subcategories';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_category_parent_on_update ON public.categories;
+CREATE TRIGGER check_category_parent_on_update
+  BEFORE UPDATE OF parent_id ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_category_parent();
+
+-- Coupons limited to categories store their names; keep them in step with renames
+CREATE OR REPLACE FUNCTION public.rename_category_in_coupons()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.coupons
+  SET categories = array_replace(categories, OLD.name, NEW.name)
+  WHERE OLD.name = ANY(categories);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS rename_category_in_coupons_on_update ON public.categories;
+CREATE TRIGGER rename_category_in_coupons_on_update
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.rename_category_in_coupons();
@@ -0,0 +1,135 @@
+-- Product search
+-- Storefront search used to be a substring match in the browser, which missed
+-- plurals ("dresses"), misspellings ("jaket") and colors. Products now carry a
+-- full-text search vector plus a trigram-indexed text for fuzzy matching, and
+-- search_products ranks the results. Searches that find nothing are logged so
+-- admins can see what shoppers look for but cannot find.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE public.products ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+-- Name outranks category and colors, which outrank the description.
+-- Maintained by a trigger because array_to_string is not immutable and so
+-- cannot be used in a generated column.
+CREATE OR REPLACE FUNCTION public.update_product_search_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.category, '') || ' ' || COALESCE(array_to_string(NEW.colors, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'C');
+  NEW.search_text := lower(
+    COALESCE(NEW.name, '') || ' ' || COALESCE(NEW.category, '') || ' ' || COALESCE(array_to_string(NEW.colors, ' '), '')
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_product_search_fields ON public.products;
+CREATE TRIGGER update_product_search_fields
+  BEFORE INSERT OR UPDATE OF name, category, colors, description ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_product_search_fields();
+
+-- Backfill existing products through the trigger
+UPDATE public.products SET name = name;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm ON public.products USING GIN (search_text extensions.gin_trgm_ops);
+
+-- Queries that returned no products
+CREATE TABLE IF NOT EXISTS public.search_misses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  query TEXT NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_misses_created_at ON public.search_misses(created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.search_misses ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by search_products
+DROP POLICY IF EXISTS "Admins can view search misses" ON public.search_misses;
+CREATE POLICY "Admins can view search misses" ON public.search_misses
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Active products matching p_query, best match first. A product matches on
+-- full-text search (which handles plurals), on a prefix of every word (so
+-- results show up while typing) or on trigram similarity to its name,
+-- category or colors (which catches misspellings). p_log_miss is set for
+-- submitted searches, not for suggestions fetched while typing.
+CREATE OR REPLACE FUNCTION public.search_products(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 24,
+  p_log_miss BOOLEAN DEFAULT false
+)
+RETURNS TABLE (product_id UUID, rank REAL) AS $$
+DECLARE
+  v_query TEXT := lower(trim(COALESCE(p_query, '')));
+  v_full_query tsquery;
+  v_prefix_query tsquery;
+  v_found INTEGER;
+BEGIN
+  IF length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_full_query := websearch_to_tsquery('english', v_query);
+  -- Words are reduced to letters and digits, so they are safe to_tsquery input
+  v_prefix_query := to_tsquery('english', array_to_string(ARRAY(
+    SELECT word || ':*'
+    FROM regexp_split_to_table(v_query, '[^a-z0-9]+') AS word
+    WHERE word <> ''
+  ), ' & '));
+
+  RETURN QUERY
+  SELECT p.id,
+    (ts_rank(p.search_vector, v_full_query) * 2
+      + ts_rank(p.search_vector, v_prefix_query)
+      + word_similarity(v_query, p.search_text))::REAL AS score
+  FROM public.products p
+  WHERE COALESCE(p.is_active, true)
+    AND (
+      p.search_vector @@ v_full_query
+      OR p.search_vector @@ v_prefix_query
+      OR v_query <% p.search_text
+    )
+  ORDER BY score DESC, p.name
+  LIMIT GREATEST(LEAST(COALESCE(p_limit, 24), 100), 1);
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+
+  IF p_log_miss AND v_found = 0 THEN
+    INSERT INTO public.search_misses (query, user_id)
+    VALUES (left(v_query, 200), auth.uid());
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4;
+
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, INTEGER, BOOLEAN) TO anon, authenticated;
+
+-- Most frequent zero-result searches over the last p_days days
+CREATE OR REPLACE FUNCTION public.get_search_misses(p_days INTEGER DEFAULT 30)
+RETURNS TABLE (query TEXT, searches BIGINT, last_searched_at TIMESTAMP WITH TIME ZONE) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view search misses';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.query, COUNT(*), MAX(m.created_at)
+  FROM public.search_misses m
+  WHERE m.created_at >= now() - make_interval(days => GREATEST(COALESCE(p_days, 30), 1))
+  GROUP BY m.query
+  ORDER BY COUNT(*) DESC, MAX(m.created_at) DESC
+  LIMIT 50;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_search_misses(INTEGER) TO authenticated;
@@ -0,0 +1,208 @@
+-- Paginated catalog
+-- The storefront used to download every product (with its images JSON) on
+-- each visit and filter and sort in the browser. The catalog now asks for one
+-- page at a time, filtered and sorted here, with a keyset cursor so pages stay
+-- stable while scrolling. get_catalog_version lets browsers keep a cached copy
+-- between visits and only download again once something changed.
+
+-- Changes whenever a product, or one of its sizes/colors, is added, edited or
+-- removed. Stock levels are left out: every sale changes them, which would
+-- throw the cache away all day. Product pages and the cart read live stock.
+CREATE OR REPLACE FUNCTION public.get_catalog_version()
+RETURNS TEXT AS $$
+  SELECT concat_ws(':',
+    (SELECT COUNT(*) FROM public.products),
+    (SELECT extract(epoch FROM MAX(updated_at)) FROM public.products),
+    (SELECT COUNT(*) FROM public.product_variants)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_catalog_version() TO anon, authenticated;
+
+-- Active products in the given categories (null for all) that match p_query
+-- (blank for no search), with their search rank
+CREATE OR REPLACE FUNCTION public.get_catalog_products(
+  p_categories TEXT[],
+  p_query TEXT,
+  p_log_miss BOOLEAN DEFAULT false
+)
+RETURNS TABLE (product_id UUID, search_rank REAL) AS $$
+BEGIN
+  IF COALESCE(trim(p_query), '') = '' THEN
+    RETURN QUERY
+    SELECT p.id, NULL::REAL
+    FROM public.products p
+    WHERE COALESCE(p.is_active, true)
+      AND (p_categories IS NULL OR p.category = ANY(p_categories));
+  ELSE
+    RETURN QUERY
+    SELECT s.product_id, s.rank
+    FROM public.search_products(p_query, 100, p_log_miss) s
+    JOIN public.products p ON p.id = s.product_id
+    WHERE p_categories IS NULL OR p.category = ANY(p_categories);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.get_catalog_products(TEXT[], TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- One page of the catalog. Rows come back in the shape of
+-- products.select('*, product_variants (size, color, stock_quantity)').
+-- sort_key is returned as text so the cursor survives the trip through
+-- JavaScript numbers unchanged; pass the last row's sort_key and id as
+-- p_after_key and p_after_id to get the next page.
+CREATE OR REPLACE FUNCTION public.get_catalog_page(
+  p_categories TEXT[] DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_sizes TEXT[] DEFAULT NULL,
+  p_colors TEXT[] DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_on_sale BOOLEAN DEFAULT false,
+  p_sort TEXT DEFAULT 'featured',
+  p_after_key TEXT DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (product JSONB, sort_key TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    (to_jsonb(p) - 'search_vector' - 'search_text') || jsonb_build_object(
+      'product_variants', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('size', v.size, 'color', v.color, 'stock_quantity', v.stock_quantity))
+        FROM public.product_variants v
+        WHERE v.product_id = p.id
+      ), '[]'::jsonb)
+    ),
+    k.sort_key::TEXT
+  FROM public.get_catalog_products(p_categories, p_query) c
+  JOIN public.products p ON p.id = c.product_id
+  -- Every sort is ascending on sort_key, then id, so one cursor comparison serves them all.
+  -- "Featured" is best match first while searching and newest first otherwise.
+  CROSS JOIN LATERAL (
+    SELECT (CASE p_sort
+      WHEN 'price-low' THEN p.price
+      WHEN 'price-high' THEN -p.price
+      WHEN 'rating' THEN -COALESCE(p.rating_average, 0)
+      WHEN 'newest' THEN -extract(epoch FROM p.created_at)
+      ELSE COALESCE(-c.search_rank::NUMERIC, -extract(epoch FROM p.created_at))
+    END)::NUMERIC AS sort_key
+  ) k
+  -- A size/color filter needs one variant in stock that matches both, so
+  -- "M in black" does not match a product with only M in white and black in L
+  WHERE (
+      (COALESCE(cardinality(p_sizes), 0) = 0 AND COALESCE(cardinality(p_colors), 0) = 0)
+      OR EXISTS (
+        SELECT 1 FROM public.product_variants v
+        WHERE v.product_id = p.id
+          AND v.stock_quantity > 0
+          AND (COALESCE(cardinality(p_sizes), 0) = 0 OR v.size = ANY(p_sizes))
+          AND (COALESCE(cardinality(p_colors), 0) = 0 OR v.color = ANY(p_colors))
+      )
+    )
+    AND (p_min_price IS NULL OR p.price >= p_min_price)
+    AND (p_max_price IS NULL OR p.price <= p_max_price)
+    AND (NOT COALESCE(p_on_sale, false) OR p.original_price > p.price)
+    AND (p_after_id IS NULL OR (k.sort_key, p.id) > (p_after_key::NUMERIC, p_after_id))
+  ORDER BY k.sort_key, p.id
+  LIMIT GREATEST(LEAST(COALESCE(p_limit, 24), 100), 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_catalog_page(TEXT[], TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, BOOLEAN, TEXT, TEXT, UUID, INTEGER) TO anon, authenticated;
+
+-- Filter options for the same selection as get_catalog_page. Each size and
+-- color count applies the other active filters only ("M or L" within a facet,
+-- "M in black" across facets) and, like the page, counts a product only when a
+-- variant in stock has that size and a matching color. The price bounds ignore
+-- the filters so the slider keeps its range. Submitted searches without results are logged here,
+-- as this is called once per search rather than once per page.
+CREATE OR REPLACE FUNCTION public.get_catalog_facets(
+  p_categories TEXT[] DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_sizes TEXT[] DEFAULT NULL,
+  p_colors TEXT[] DEFAULT NULL,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_on_sale BOOLEAN DEFAULT false
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  WITH base AS (
+    SELECT p.*,
+      ((p_min_price IS NULL OR p.price >= p_min_price) AND (p_max_price IS NULL OR p.price <= p_max_price)) AS price_ok,
+      COALESCE(p.original_price > p.price, false) AS on_sale
+    FROM public.get_catalog_products(p_categories, p_query, true) c
+    JOIN public.products p ON p.id = c.product_id
+  ),
+  matched AS (
+    SELECT *, (NOT COALESCE(p_on_sale, false) OR on_sale) AS sale_ok FROM base
+  ),
+  -- The size/color pairs in stock, and whether each passes the size and color filters
+  stocked AS (
+    SELECT v.product_id, v.size, v.color,
+      (COALESCE(cardinality(p_sizes), 0) = 0 OR v.size = ANY(p_sizes)) AS size_ok,
+      (COALESCE(cardinality(p_colors), 0) = 0 OR v.color = ANY(p_colors)) AS color_ok
+    FROM public.product_variants v
+    JOIN matched m ON m.id = v.product_id
+    WHERE v.stock_quantity > 0
+  ),
+  filtered AS (
+    SELECT m.*,
+      (
+        (COALESCE(cardinality(p_sizes), 0) = 0 AND COALESCE(cardinality(p_colors), 0) = 0)
+        OR EXISTS (SELECT 1 FROM stocked st WHERE st.product_id = m.id AND st.size_ok AND st.color_ok)
+      ) AS variant_ok
+    FROM matched m
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM filtered WHERE variant_ok AND price_ok AND sale_ok),
+    'sizes', (
+      SELECT COALESCE(jsonb_object_agg(o.size, (
+        SELECT COUNT(DISTINCT st.product_id)
+        FROM stocked st
+        JOIN filtered f ON f.id = st.product_id
+        WHERE st.size = o.size AND st.color_ok AND f.price_ok AND f.sale_ok
+      )), '{}'::jsonb)
+      FROM (SELECT DISTINCT unnest(sizes) AS size FROM matched) o
+    ),
+    'colors', (
+      SELECT COALESCE(jsonb_object_agg(o.color, (
+        SELECT COUNT(DISTINCT st.product_id)
+        FROM stocked st
+        JOIN filtered f ON f.id = st.product_id
+        WHERE st.color = o.color AND st.size_ok AND f.price_ok AND f.sale_ok
+      )), '{}'::jsonb)
+      FROM (SELECT DISTINCT unnest(colors) AS color FROM matched) o
+    ),
+    'on_sale', (SELECT COUNT(*) FROM filtered WHERE on_sale AND variant_ok AND price_ok),
+    'min_price', (SELECT COALESCE(floor(MIN(price)), 0) FROM matched),
+    'max_price', (SELECT COALESCE(ceil(MAX(price)), 0) FROM matched)
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_catalog_facets(TEXT[], TEXT, TEXT[], TEXT[], NUMERIC, NUMERIC, BOOLEAN) TO anon, authenticated;
+
+-- Active product count per category, with the newest product's first image as
+-- a cover, so category tiles do not need to download the products themselves
+CREATE OR REPLACE FUNCTION public.get_category_stats()
+RETURNS TABLE (category TEXT, product_count INTEGER, cover_image TEXT) AS $$
+  SELECT
+    p.category,
+    COUNT(*)::INTEGER,
+    (array_agg(i.image ORDER BY p.created_at DESC) FILTER (WHERE i.image IS NOT NULL))[1]
+  FROM public.products p
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(NULLIF(CASE WHEN jsonb_typeof(p.images) = 'array' THEN p.images->>0 END, ''), NULLIF(p.image_url, '')) AS image
+  ) i
+  WHERE COALESCE(p.is_active, true)
+  GROUP BY p.category;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_category_stats() TO anon, authenticated;
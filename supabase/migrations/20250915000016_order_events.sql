@@ -0,0 +1,156 @@
+-- Order status history
+-- orders.status only held the latest status, so nobody could tell when an
+-- order was processed or shipped. Every status an order enters is now
+-- recorded in order_events with its time, who made the change and an
+-- optional note and tracking number, for the customer's order timeline and
+-- the admin order view.
+
+CREATE TABLE IF NOT EXISTS public.order_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  previous_status TEXT, -- null for the order being placed
+  actor_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('customer', 'admin', 'system')),
+  note TEXT,
+  tracking_number TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON public.order_events(order_id, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.order_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by the trigger below only
+DROP POLICY IF EXISTS "Users can view own order events" ON public.order_events;
+CREATE POLICY "Users can view own order events" ON public.order_events
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.orders WHERE orders.id = order_events.order_id AND orders.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Admins can view order events" ON public.order_events;
+CREATE POLICY "Admins can view order events" ON public.order_events
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Records placing an order and each status change. The note and tracking
+-- number come from update_order_status through transaction-local settings,
+-- so changes made elsewhere (checkout, payment webhooks) are recorded too.
+CREATE OR REPLACE FUNCTION public.record_order_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor_id UUID := auth.uid();
+  v_actor_role TEXT;
+BEGIN
+  IF v_actor_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.users WHERE users.id = v_actor_id AND users.role = 'admin') THEN
+    v_actor_role := 'admin';
+  ELSIF v_actor_id IS NOT NULL OR TG_OP = 'INSERT' THEN
+    v_actor_role := 'customer'; -- guests place orders without signing in
+  ELSE
+    v_actor_role := 'system';
+  END IF;
+
+  INSERT INTO public.order_events (order_id, status, previous_status, actor_id, actor_role, note, tracking_number)
+  VALUES (
+    NEW.id,
+    NEW.status,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    v_actor_id,
+    v_actor_role,
+    NULLIF(current_setting('rosemama.order_event_note', true), ''),
+    NULLIF(current_setting('rosemama.order_event_tracking_number', true), '')
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_order_event_on_insert ON public.orders;
+CREATE TRIGGER record_order_event_on_insert
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_event();
+
+DROP TRIGGER IF EXISTS record_order_event_on_status_change ON public.orders;
+CREATE TRIGGER record_order_event_on_status_change
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.record_order_event();
+
+-- Existing orders: every order was placed as pending. Their later steps were
+-- not recorded, so only the current status is added, at the order's last
+-- update time.
+INSERT INTO public.order_events (order_id, status, previous_status, actor_id, actor_role, note, created_at)
+SELECT o.id, 'pending', NULL, NULL, 'customer', NULL, o.created_at
+FROM public.orders o
+WHERE NOT EXISTS (SELECT 1 FROM public.order_events e WHERE e.order_id = o.id);
+
+INSERT INTO public.order_events (order_id, status, previous_status, actor_id, actor_role, note, created_at)
+SELECT o.id, o.status, 'pending', NULL, 'system', 'Recorded before status history was kept; time is approximate', o.updated_at
+FROM public.orders o
+WHERE o.status <> 'pending'
+  AND NOT EXISTS (SELECT 1 FROM public.order_events e WHERE e.order_id = o.id AND e.status = o.status);
+
+-- Status changes an admin may make; mirrors getNextStatus in the admin orders
+-- table. Cancelled and delivered orders are final: cancelling releases stock
+-- and marks paid orders for refund, and delivered goods come back as returns.
+CREATE TABLE IF NOT EXISTS public.order_status_transitions (
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+INSERT INTO public.order_status_transitions (from_status, to_status) VALUES
+  ('pending', 'processing'),
+  ('pending', 'cancelled'),
+  ('processing', 'shipped'),
+  ('processing', 'cancelled'),
+  ('shipped', 'delivered')
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE public.order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view order status transitions" ON public.order_status_transitions;
+CREATE POLICY "Anyone can view order status transitions" ON public.order_status_transitions
+  FOR SELECT USING (true);
+
+-- Moves an order to a new status with an optional note and tracking number
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL,
+  p_tracking_number TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_current_status TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can update order status';
+  END IF;
+
+  SELECT status INTO v_current_status FROM public.orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_current_status = p_status THEN
+    RAISE EXCEPTION 'Order is already %', p_status;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.order_status_transitions
+    WHERE from_status = v_current_status AND to_status = p_status
+  ) THEN
+    RAISE EXCEPTION 'Cannot change a % order to %', v_current_status, p_status;
+  END IF;
+
+  PERFORM set_config('rosemama.order_event_note', COALESCE(trim(p_note), ''), true);
+  PERFORM set_config('rosemama.order_event_tracking_number', COALESCE(trim(p_tracking_number), ''), true);
+
+  UPDATE public.orders SET status = p_status WHERE id = p_order_id;
+
+  PERFORM set_config('rosemama.order_event_note', '', true);
+  PERFORM set_config('rosemama.order_event_tracking_number', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.update_order_status(UUID, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,252 @@
+-- Shipments
+-- An order is sent in one or more shipments, each with its courier, tracking
+-- number, label reference and the order items (and quantities) it carries.
+-- Couriers report progress through supabase/functions/courier-webhook or are
+-- polled by supabase/functions/sync-shipments; both record it through
+-- record_tracking_update, which moves the order to shipped once a parcel is
+-- on its way and to delivered once everything has arrived.
+
+CREATE TABLE IF NOT EXISTS public.shipments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  courier TEXT NOT NULL, -- adapter id in supabase/functions/_shared/couriers, or a courier tracked by hand
+  tracking_number TEXT NOT NULL,
+  label_reference TEXT, -- the courier's waybill or label id
+  status TEXT NOT NULL DEFAULT 'label_created'
+    CHECK (status IN ('label_created', 'in_transit', 'out_for_delivery', 'delivered', 'exception')),
+  status_detail TEXT, -- the courier's own wording for the latest update
+  shipped_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (courier, tracking_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.shipment_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  UNIQUE (shipment_id, order_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_order_id ON public.shipments(order_id);
+CREATE INDEX IF NOT EXISTS idx_shipments_open ON public.shipments(last_checked_at) WHERE status <> 'delivered';
+CREATE INDEX IF NOT EXISTS idx_shipment_items_order_item_id ON public.shipment_items(order_item_id);
+
+DROP TRIGGER IF EXISTS update_shipments_updated_at ON public.shipments;
+CREATE TRIGGER update_shipments_updated_at
+  BEFORE UPDATE ON public.shipments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipment_items ENABLE ROW LEVEL SECURITY;
+
+-- Shipments are created and updated by the functions below only
+DROP POLICY IF EXISTS "Users can view own shipments" ON public.shipments;
+CREATE POLICY "Users can view own shipments" ON public.shipments
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.orders WHERE orders.id = shipments.order_id AND orders.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Admins can view shipments" ON public.shipments;
+CREATE POLICY "Admins can view shipments" ON public.shipments
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- For labels created by mistake; the order's status is left as it is
+DROP POLICY IF EXISTS "Admins can delete shipments" ON public.shipments;
+CREATE POLICY "Admins can delete shipments" ON public.shipments
+  FOR DELETE USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+DROP POLICY IF EXISTS "Users can view own shipment items" ON public.shipment_items;
+CREATE POLICY "Users can view own shipment items" ON public.shipment_items
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.shipments
+    JOIN public.orders ON orders.id = shipments.order_id
+    WHERE shipments.id = shipment_items.shipment_id AND orders.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Admins can view shipment items" ON public.shipment_items;
+CREATE POLICY "Admins can view shipment items" ON public.shipment_items
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Moves an order along once its shipments have progressed: to shipped when
+-- any parcel is with the courier, to delivered when every item has been
+-- shipped and every shipment has arrived. Orders moved on by hand are left alone.
+CREATE OR REPLACE FUNCTION public.sync_order_with_shipments(p_order_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_status TEXT;
+  v_shipment RECORD;
+BEGIN
+  SELECT status INTO v_status FROM public.orders WHERE id = p_order_id FOR UPDATE;
+
+  IF v_status = 'processing' THEN
+    SELECT courier, tracking_number INTO v_shipment
+    FROM public.shipments
+    WHERE order_id = p_order_id AND status IN ('in_transit', 'out_for_delivery', 'delivered')
+    ORDER BY shipped_at NULLS LAST
+    LIMIT 1;
+
+    IF FOUND THEN
+      PERFORM set_config('rosemama.order_event_note', format('Handed to %s', v_shipment.courier), true);
+      PERFORM set_config('rosemama.order_event_tracking_number', v_shipment.tracking_number, true);
+      UPDATE public.orders SET status = 'shipped' WHERE id = p_order_id;
+      v_status := 'shipped';
+    END IF;
+  END IF;
+
+  IF v_status = 'shipped'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.shipments WHERE order_id = p_order_id AND status <> 'delivered'
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.order_items oi
+      WHERE oi.order_id = p_order_id
+        AND oi.quantity > COALESCE((SELECT SUM(si.quantity) FROM public.shipment_items si WHERE si.order_item_id = oi.id), 0)
+    )
+  THEN
+    PERFORM set_config('rosemama.order_event_note', 'Delivered by the courier', true);
+    PERFORM set_config('rosemama.order_event_tracking_number', '', true);
+    UPDATE public.orders SET status = 'delivered' WHERE id = p_order_id;
+    v_status := 'delivered';
+  END IF;
+
+  PERFORM set_config('rosemama.order_event_note', '', true);
+  PERFORM set_config('rosemama.order_event_tracking_number', '', true);
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.sync_order_with_shipments(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Creates a shipment for an order that is being fulfilled. p_items is a list
+-- of {order_item_id, quantity}; leave it empty to ship everything not yet shipped.
+CREATE OR REPLACE FUNCTION public.create_shipment(
+  p_order_id UUID,
+  p_courier TEXT,
+  p_tracking_number TEXT,
+  p_label_reference TEXT DEFAULT NULL,
+  p_items JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_status TEXT;
+  v_shipment_id UUID;
+  v_item RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create shipments';
+  END IF;
+
+  IF COALESCE(trim(p_courier), '') = '' OR COALESCE(trim(p_tracking_number), '') = '' THEN
+    RAISE EXCEPTION 'A courier and tracking number are required';
+  END IF;
+
+  SELECT status INTO v_status FROM public.orders WHERE id = p_order_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_status NOT IN ('processing', 'shipped') THEN
+    RAISE EXCEPTION 'Orders can only be shipped while processing or shipped, not %', v_status;
+  END IF;
+
+  INSERT INTO public.shipments (order_id, courier, tracking_number, label_reference, created_by)
+  VALUES (p_order_id, trim(p_courier), trim(p_tracking_number), NULLIF(trim(p_label_reference), ''), auth.uid())
+  RETURNING id INTO v_shipment_id;
+
+  FOR v_item IN
+    SELECT
+      oi.id,
+      oi.quantity - COALESCE((SELECT SUM(si.quantity) FROM public.shipment_items si WHERE si.order_item_id = oi.id), 0) AS remaining,
+      requested.quantity AS requested
+    FROM public.order_items oi
+    LEFT JOIN (
+      SELECT (item->>'order_item_id')::UUID AS order_item_id, (item->>'quantity')::INTEGER AS quantity
+      FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) item
+    ) requested ON requested.order_item_id = oi.id
+    WHERE oi.order_id = p_order_id
+      AND (jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 OR requested.order_item_id IS NOT NULL)
+  LOOP
+    IF v_item.requested IS NOT NULL AND v_item.requested < 1 THEN
+      RAISE EXCEPTION 'Shipped quantities must be at least 1';
+    END IF;
+    IF v_item.requested IS NOT NULL AND v_item.requested > v_item.remaining THEN
+      RAISE EXCEPTION 'Only % of an item are left to ship', v_item.remaining;
+    END IF;
+
+    IF COALESCE(v_item.requested, v_item.remaining) > 0 THEN
+      INSERT INTO public.shipment_items (shipment_id, order_item_id, quantity)
+      VALUES (v_shipment_id, v_item.id, COALESCE(v_item.requested, v_item.remaining));
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) > (SELECT COUNT(*) FROM public.shipment_items WHERE shipment_id = v_shipment_id) THEN
+    RAISE EXCEPTION 'Some items are not part of this order';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.shipment_items WHERE shipment_id = v_shipment_id) THEN
+    RAISE EXCEPTION 'Every item in this order has already been shipped';
+  END IF;
+
+  RETURN v_shipment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_shipment(UUID, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+-- Called by the courier-webhook and sync-shipments edge functions (service
+-- role) with the courier's latest status for a tracking number. Delivered
+-- shipments stay delivered; repeated updates only refresh last_checked_at.
+CREATE OR REPLACE FUNCTION public.record_tracking_update(
+  p_courier TEXT,
+  p_tracking_number TEXT,
+  p_status TEXT,
+  p_detail TEXT DEFAULT NULL,
+  p_occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_shipment RECORD;
+  v_occurred_at TIMESTAMP WITH TIME ZONE := COALESCE(p_occurred_at, now());
+BEGIN
+  IF p_status NOT IN ('label_created', 'in_transit', 'out_for_delivery', 'delivered', 'exception') THEN
+    RAISE EXCEPTION 'Unsupported shipment status %', p_status;
+  END IF;
+
+  SELECT id, order_id, status INTO v_shipment
+  FROM public.shipments
+  WHERE courier = p_courier AND tracking_number = p_tracking_number
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No % shipment with tracking number %', p_courier, p_tracking_number;
+  END IF;
+
+  IF v_shipment.status = 'delivered' OR v_shipment.status = p_status THEN
+    UPDATE public.shipments SET last_checked_at = now() WHERE id = v_shipment.id;
+    RETURN v_shipment.status;
+  END IF;
+
+  UPDATE public.shipments
+  SET status = p_status,
+      status_detail = NULLIF(trim(p_detail), ''),
+      shipped_at = CASE WHEN p_status IN ('in_transit', 'out_for_delivery', 'delivered') THEN COALESCE(shipped_at, v_occurred_at) ELSE shipped_at END,
+      delivered_at = CASE WHEN p_status = 'delivered' THEN v_occurred_at ELSE delivered_at END,
+      last_checked_at = now()
+  WHERE id = v_shipment.id;
+
+  PERFORM public.sync_order_with_shipments(v_shipment.order_id);
+
+  RETURN p_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.record_tracking_update(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_tracking_update(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
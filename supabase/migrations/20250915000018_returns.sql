@@ -0,0 +1,397 @@
+-- Returns and exchanges
+-- Customers ask to return or exchange an item of a delivered order within the
+-- 30 days of the returns policy, with a reason and optional photos. Requests
+-- move requested -> approved | rejected, approved -> received -> resolved.
+-- Approving adds the return label reference; receiving puts the stock back;
+-- resolving records a refund or store credit against the original order, or
+-- sends out the exchange size/color.
+
+CREATE SEQUENCE IF NOT EXISTS public.return_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.return_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rma_number TEXT NOT NULL UNIQUE DEFAULT 'RMA' || lpad(nextval('public.return_number_seq')::TEXT, 6, '0'),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  request_type TEXT NOT NULL CHECK (request_type IN ('return', 'exchange')),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reason TEXT NOT NULL CHECK (reason IN ('wrong_size', 'damaged', 'not_as_described', 'changed_mind', 'other')),
+  details TEXT,
+  photo_paths TEXT[] NOT NULL DEFAULT '{}', -- objects in the private return-photos bucket
+  exchange_size TEXT,
+  exchange_color TEXT,
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'resolved')),
+  admin_note TEXT, -- shown to the customer
+  return_label_reference TEXT,
+  restocked_quantity INTEGER NOT NULL DEFAULT 0,
+  resolution TEXT CHECK (resolution IN ('refund', 'store_credit', 'exchange')),
+  resolution_amount NUMERIC(10, 2) CHECK (resolution_amount IS NULL OR resolution_amount >= 0),
+  store_credit_coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL,
+  store_credit_code TEXT, -- copied so customers can find their code again (coupons are admin-only)
+  reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT return_requests_exchange_check CHECK (
+    request_type = 'return' OR exchange_size IS NOT NULL OR exchange_color IS NOT NULL
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_return_requests_order_id ON public.return_requests(order_id);
+CREATE INDEX IF NOT EXISTS idx_return_requests_status ON public.return_requests(status, created_at);
+
+DROP TRIGGER IF EXISTS update_return_requests_updated_at ON public.return_requests;
+CREATE TRIGGER update_return_requests_updated_at
+  BEFORE UPDATE ON public.return_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Money given back on an order through returns, next to its payment status
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0);
+
+-- Enable Row Level Security
+ALTER TABLE public.return_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created and moved along by the functions below only
+DROP POLICY IF EXISTS "Users can view own return requests" ON public.return_requests;
+CREATE POLICY "Users can view own return requests" ON public.return_requests
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM public.orders WHERE orders.id = return_requests.order_id AND orders.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS "Admins can view return requests" ON public.return_requests;
+CREATE POLICY "Admins can view return requests" ON public.return_requests
+  FOR SELECT USING (EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin'));
+
+-- Private bucket for photos of returned items. Files live in a folder named
+-- after the customer, who can only upload to and read their own folder.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'return-photos',
+  'return-photos',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload own return photos" ON storage.objects;
+CREATE POLICY "Users can upload own return photos" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'return-photos'
+    AND auth.role() = 'authenticated'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Users can view own return photos" ON storage.objects;
+CREATE POLICY "Users can view own return photos" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'return-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Admins can manage return photos" ON storage.objects;
+CREATE POLICY "Admins can manage return photos" ON storage.objects
+  FOR ALL USING (
+    bucket_id = 'return-photos'
+    AND EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin')
+  );
+
+-- Opens a return or exchange request for an item of one of the current
+-- user's delivered orders
+CREATE OR REPLACE FUNCTION public.request_return(
+  p_order_item_id UUID,
+  p_request_type TEXT,
+  p_quantity INTEGER,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL,
+  p_photo_paths TEXT[] DEFAULT '{}',
+  p_exchange_size TEXT DEFAULT NULL,
+  p_exchange_color TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_item RECORD;
+  v_delivered_at TIMESTAMP WITH TIME ZONE;
+  v_requested INTEGER;
+  v_return_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to request a return';
+  END IF;
+
+  SELECT oi.id, oi.order_id, oi.product_id, oi.quantity, oi.size, oi.color, o.status, o.updated_at
+  INTO v_item
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE oi.id = p_order_item_id AND o.user_id = auth.uid() AND o.deleted_at IS NULL
+  -- Held until commit so requests sent at the same time are counted one after the other
+  FOR UPDATE OF oi;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item not found';
+  END IF;
+
+  IF v_item.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Returns can be requested once your order has been delivered';
+  END IF;
+
+  SELECT MAX(created_at) INTO v_delivered_at
+  FROM public.order_events
+  WHERE order_id = v_item.order_id AND status = 'delivered';
+
+  IF COALESCE(v_delivered_at, v_item.updated_at) < now() - INTERVAL '30 days' THEN
+    RAISE EXCEPTION 'Returns must be requested within 30 days of delivery';
+  END IF;
+
+  IF p_request_type NOT IN ('return', 'exchange') THEN
+    RAISE EXCEPTION 'Choose a return or an exchange';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity), 0) INTO v_requested
+  FROM public.return_requests
+  WHERE order_item_id = p_order_item_id AND status <> 'rejected';
+
+  IF p_quantity IS NULL OR p_quantity < 1 OR p_quantity > v_item.quantity - v_requested THEN
+    RAISE EXCEPTION 'You can return up to % of this item', GREATEST(v_item.quantity - v_requested, 0);
+  END IF;
+
+  IF p_request_type = 'exchange' THEN
+    IF COALESCE(p_exchange_size, v_item.size) IS NOT DISTINCT FROM v_item.size
+      AND COALESCE(p_exchange_color, v_item.color) IS NOT DISTINCT FROM v_item.color THEN
+      RAISE EXCEPTION 'Choose a different size or color to exchange for';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.product_variants
+      WHERE product_id = v_item.product_id
+        AND size = COALESCE(p_exchange_size, v_item.size)
+        AND color = COALESCE(p_exchange_color, v_item.color)
+        AND stock_quantity >= p_quantity
+    ) THEN
+      RAISE EXCEPTION 'That size and color is out of stock';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_photo_paths, '{}')) path
+    WHERE split_part(path, '/', 1) <> auth.uid()::TEXT
+  ) THEN
+    RAISE EXCEPTION 'Photos must be uploaded to your own folder';
+  END IF;
+
+  IF cardinality(COALESCE(p_photo_paths, '{}')) > 4 THEN
+    RAISE EXCEPTION 'You can add up to 4 photos';
+  END IF;
+
+  INSERT INTO public.return_requests (
+    order_id, order_item_id, user_id, request_type, quantity, reason, details, photo_paths,
+    exchange_size, exchange_color
+  )
+  VALUES (
+    v_item.order_id, v_item.id, auth.uid(), p_request_type, p_quantity, p_reason,
+    NULLIF(trim(p_details), ''), COALESCE(p_photo_paths, '{}'),
+    CASE WHEN p_request_type = 'exchange' THEN COALESCE(p_exchange_size, v_item.size) END,
+    CASE WHEN p_request_type = 'exchange' THEN COALESCE(p_exchange_color, v_item.color) END
+  )
+  RETURNING id INTO v_return_id;
+
+  RETURN v_return_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.request_return(UUID, TEXT, INTEGER, TEXT, TEXT, TEXT[], TEXT, TEXT) TO authenticated;
+
+-- Approves (with the label the customer should use) or rejects a request
+CREATE OR REPLACE FUNCTION public.review_return(
+  p_return_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL,
+  p_label_reference TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review returns';
+  END IF;
+
+  IF NOT p_approve AND COALESCE(trim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'Tell the customer why the return was rejected';
+  END IF;
+
+  UPDATE public.return_requests
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      admin_note = NULLIF(trim(p_note), ''),
+      return_label_reference = CASE WHEN p_approve THEN NULLIF(trim(p_label_reference), '') END,
+      approved_at = CASE WHEN p_approve THEN now() END,
+      reviewed_by = auth.uid()
+  WHERE id = p_return_id AND status = 'requested';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This return has already been reviewed';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.review_return(UUID, BOOLEAN, TEXT, TEXT) TO authenticated;
+
+-- Marks an approved return as back in the warehouse. Unless the items are
+-- not fit to sell again, their variant's stock goes back up.
+CREATE OR REPLACE FUNCTION public.receive_return(
+  p_return_id UUID,
+  p_restock BOOLEAN DEFAULT true
+)
+RETURNS VOID AS $$
+DECLARE
+  v_return RECORD;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can receive returns';
+  END IF;
+
+  SELECT r.id, r.status, r.quantity, oi.product_id, oi.size, oi.color INTO v_return
+  FROM public.return_requests r
+  JOIN public.order_items oi ON oi.id = r.order_item_id
+  WHERE r.id = p_return_id
+  FOR UPDATE OF r;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_return.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved returns can be received';
+  END IF;
+
+  UPDATE public.return_requests
+  SET status = 'received', received_at = now(), reviewed_by = auth.uid()
+  WHERE id = p_return_id;
+
+  IF NOT p_restock THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.product_variants
+  SET stock_quantity = stock_quantity + v_return.quantity
+  WHERE product_id = v_return.product_id AND size = v_return.size AND color = v_return.color;
+
+  -- Products without variants have untracked stock
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.return_requests SET restocked_quantity = v_return.quantity WHERE id = p_return_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.receive_return(UUID, BOOLEAN) TO authenticated;
+
+-- Settles a received return against the original order:
+--   refund        p_amount (default: what was paid for the items) is added to
+--                 orders.refunded_amount and kept in payment_events; once the
+--                 whole order is refunded its payment status becomes refunded
+--   store_credit  a single-use code for p_amount, valid for a year
+--   exchange      the new size/color is taken from stock to be sent out
+-- Returns the store credit code, if one was issued.
+CREATE OR REPLACE FUNCTION public.resolve_return(
+  p_return_id UUID,
+  p_resolution TEXT,
+  p_amount NUMERIC DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_return RECORD;
+  v_amount NUMERIC(10, 2);
+  v_code TEXT;
+  v_coupon_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE users.id = auth.uid() AND users.role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resolve returns';
+  END IF;
+
+  SELECT r.id, r.rma_number, r.status, r.request_type, r.quantity, r.order_id, r.exchange_size, r.exchange_color,
+    oi.product_id, oi.price_at_purchase, o.user_id, o.total_amount, o.refunded_amount, o.payment_status
+  INTO v_return
+  FROM public.return_requests r
+  JOIN public.order_items oi ON oi.id = r.order_item_id
+  JOIN public.orders o ON o.id = r.order_id
+  WHERE r.id = p_return_id
+  FOR UPDATE OF r, o;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+  IF v_return.status <> 'received' THEN
+    RAISE EXCEPTION 'Returns are resolved once the items have been received';
+  END IF;
+  IF p_resolution NOT IN ('refund', 'store_credit', 'exchange') THEN
+    RAISE EXCEPTION 'Unsupported resolution %', p_resolution;
+  END IF;
+
+  IF p_resolution = 'exchange' THEN
+    IF v_return.request_type <> 'exchange' THEN
+      RAISE EXCEPTION 'The customer asked for a return, not an exchange';
+    END IF;
+
+    PERFORM public.reserve_variant_stock(v_return.product_id, v_return.exchange_size, v_return.exchange_color, v_return.quantity);
+  ELSE
+    v_amount := round(COALESCE(p_amount, v_return.price_at_purchase * v_return.quantity), 2);
+    IF v_amount <= 0 THEN
+      RAISE EXCEPTION 'The amount must be more than zero';
+    END IF;
+  END IF;
+
+  IF p_resolution = 'refund' THEN
+    IF v_return.payment_status NOT IN ('paid', 'refunded') THEN
+      RAISE EXCEPTION 'This order has not been paid';
+    END IF;
+    IF v_amount > v_return.total_amount - v_return.refunded_amount THEN
+      RAISE EXCEPTION 'Only R% of this order is left to refund', v_return.total_amount - v_return.refunded_amount;
+    END IF;
+
+    UPDATE public.orders SET refunded_amount = refunded_amount + v_amount WHERE id = v_return.order_id;
+
+    IF v_return.refunded_amount + v_amount >= v_return.total_amount THEN
+      PERFORM public.transition_payment_status(
+        v_return.order_id, 'refunded', 'manual', v_return.rma_number, v_amount,
+        jsonb_build_object('return_id', p_return_id), auth.uid()
+      );
+    ELSE
+      INSERT INTO public.payment_events (order_id, provider, provider_reference, status, amount, payload, created_by)
+      VALUES (
+        v_return.order_id, 'manual', v_return.rma_number, 'refunded', v_amount,
+        jsonb_build_object('return_id', p_return_id, 'partial', true), auth.uid()
+      );
+    END IF;
+  ELSIF p_resolution = 'store_credit' THEN
+    -- The credit code only works for the customer it was issued to
+    IF v_return.user_id IS NULL THEN
+      RAISE EXCEPTION 'This customer no longer has an account, so refund the return instead';
+    END IF;
+
+    v_code := 'CRD' || upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 8));
+
+    INSERT INTO public.coupons (code, description, discount_type, discount_value, usage_limit, per_customer_limit, starts_at, expires_at, user_id)
+    VALUES (v_code, 'Store credit for return ' || v_return.rma_number, 'fixed_amount', v_amount, 1, 1, now(), now() + INTERVAL '1 year', v_return.user_id)
+    RETURNING id INTO v_coupon_id;
+  END IF;
+
+  UPDATE public.return_requests
+  SET status = 'resolved',
+      resolution = p_resolution,
+      resolution_amount = v_amount,
+      store_credit_coupon_id = v_coupon_id,
+      store_credit_code = v_code,
+      resolved_at = now(),
+      reviewed_by = auth.uid()
+  WHERE id = p_return_id;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.resolve_return(UUID, TEXT, NUMERIC) TO authenticated;
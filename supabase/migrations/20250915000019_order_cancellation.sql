@@ -0,0 +1,276 @@
+-- Order cancellation
+-- Customers can now cancel their own order while it is pending or processing
+-- and nothing has been handed to a courier. However an order is cancelled,
+-- its unshipped stock goes back on sale, its coupon use is released, points
+-- spent on it are returned (see refund_order_points) and points earned on it
+-- are taken back, and a paid order is marked refund_due until an admin
+-- records the refund. The customer and the admins are notified through
+-- trigger_order_notification.
+
+-- refund_due: the order was cancelled after it was paid and the money still
+-- has to be sent back
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_payment_status_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_payment_status_check
+  CHECK (payment_status IN ('awaiting', 'paid', 'failed', 'refund_due', 'refunded'));
+
+ALTER TABLE public.payment_events DROP CONSTRAINT IF EXISTS payment_events_status_check;
+ALTER TABLE public.payment_events ADD CONSTRAINT payment_events_status_check
+  CHECK (status IN ('awaiting', 'paid', 'failed', 'refund_due', 'refunded'));
+
+-- Same transitions as before plus paid -> refund_due -> refunded. A payment
+-- that arrives after its order was cancelled (e.g. a late bank transfer) is
+-- recorded and then marked for refund straight away.
+CREATE OR REPLACE FUNCTION public.transition_payment_status(
+  p_order_id UUID,
+  p_status TEXT,
+  p_provider TEXT,
+  p_provider_reference TEXT,
+  p_amount NUMERIC,
+  p_payload JSONB,
+  p_created_by UUID
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT id, status, total_amount, payment_status INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  -- Providers resend notifications; the same status twice is not an error
+  IF v_order.payment_status = p_status THEN
+    RETURN v_order.payment_status;
+  END IF;
+
+  IF NOT (
+    (v_order.payment_status = 'awaiting' AND p_status IN ('paid', 'failed')) OR
+    (v_order.payment_status = 'failed' AND p_status = 'paid') OR
+    (v_order.payment_status = 'paid' AND p_status IN ('refund_due', 'refunded')) OR
+    (v_order.payment_status = 'refund_due' AND p_status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change payment from % to %', v_order.payment_status, p_status;
+  END IF;
+
+  IF p_status = 'paid' AND p_amount IS NOT NULL AND round(p_amount, 2) <> round(v_order.total_amount, 2) THEN
+    RAISE EXCEPTION 'Paid amount % does not match order total %', p_amount, v_order.total_amount;
+  END IF;
+
+  UPDATE public.orders
+  SET payment_status = p_status,
+      -- Manual changes keep the provider that took the payment
+      payment_provider = CASE WHEN p_provider = 'manual' THEN COALESCE(payment_provider, p_provider) ELSE p_provider END,
+      payment_reference = COALESCE(p_provider_reference, payment_reference),
+      paid_at = CASE WHEN p_status = 'paid' THEN now() ELSE paid_at END
+  WHERE id = p_order_id;
+
+  INSERT INTO public.payment_events (order_id, provider, provider_reference, status, amount, payload, created_by)
+  VALUES (p_order_id, p_provider, p_provider_reference, p_status, p_amount, COALESCE(p_payload, '{}'::jsonb), p_created_by);
+
+  IF p_status = 'paid' AND v_order.status = 'cancelled' THEN
+    RETURN public.transition_payment_status(
+      p_order_id, 'refund_due', 'manual', NULL, v_order.total_amount,
+      jsonb_build_object('reason', 'paid_after_cancellation'), NULL
+    );
+  END IF;
+
+  RETURN p_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.transition_payment_status(UUID, TEXT, TEXT, TEXT, NUMERIC, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Undoes what a cancelled order took:
+-- * stock goes back only if the order was cancelled before it shipped
+--   (pending or processing); items already handed to a courier, with or
+--   without a shipment record, come back through a return instead
+-- * its coupon redemption is deleted, so the code's usage limits (and a
+--   single-use code bought with points) are free again. The order keeps its
+--   coupon_code and discount_amount as a record of what was charged.
+-- * points earned on delivery are taken back
+-- * a paid order is marked for refund
+CREATE OR REPLACE FUNCTION public.reverse_cancelled_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item RECORD;
+  v_earned INTEGER;
+BEGIN
+  IF OLD.status IN ('pending', 'processing') THEN
+    FOR v_item IN
+      SELECT oi.product_id, oi.size, oi.color,
+        oi.quantity - COALESCE((SELECT SUM(si.quantity) FROM public.shipment_items si WHERE si.order_item_id = oi.id), 0) AS unshipped
+      FROM public.order_items oi
+      WHERE oi.order_id = NEW.id
+    LOOP
+      IF v_item.unshipped > 0 THEN
+        UPDATE public.product_variants
+        SET stock_quantity = stock_quantity + v_item.unshipped
+        WHERE product_id = v_item.product_id AND size = v_item.size AND color = v_item.color;
+      END IF;
+    END LOOP;
+  END IF;
+
+  DELETE FROM public.coupon_redemptions WHERE order_id = NEW.id;
+
+  IF NEW.user_id IS NOT NULL THEN
+    SELECT points INTO v_earned
+    FROM public.points_ledger
+    WHERE order_id = NEW.id AND event_type = 'earn';
+
+    IF v_earned IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM public.points_ledger
+      WHERE order_id = NEW.id AND event_type = 'adjust' AND points < 0
+    ) THEN
+      INSERT INTO public.points_ledger (user_id, event_type, points, description, order_id)
+      VALUES (NEW.user_id, 'adjust', -v_earned, 'Points earned on order #' || upper(right(NEW.id::TEXT, 8)) || ' removed: order cancelled', NEW.id);
+
+      PERFORM public.evaluate_membership_tier(NEW.user_id);
+    END IF;
+  END IF;
+
+  IF NEW.payment_status = 'paid' THEN
+    PERFORM public.transition_payment_status(
+      NEW.id, 'refund_due', 'manual', NULL, NEW.total_amount,
+      jsonb_build_object('reason', 'order_cancelled'), auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reverse_cancelled_order_on_cancel ON public.orders;
+CREATE TRIGGER reverse_cancelled_order_on_cancel
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.reverse_cancelled_order();
+
+-- Lets a customer cancel their own order before it is shipped
+CREATE OR REPLACE FUNCTION public.cancel_order(
+  p_order_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_order RECORD;
+BEGIN
+  SELECT id, user_id, status INTO v_order
+  FROM public.orders
+  WHERE id = p_order_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_order.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This order has already been cancelled';
+  END IF;
+  IF v_order.status NOT IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'This order has already been shipped and can no longer be cancelled';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.shipments WHERE order_id = p_order_id) THEN
+    RAISE EXCEPTION 'Part of this order is already with the courier. Please contact us to cancel it';
+  END IF;
+
+  PERFORM set_config('rosemama.order_event_note', COALESCE(trim(p_reason), ''), true);
+
+  UPDATE public.orders SET status = 'cancelled' WHERE id = p_order_id;
+
+  PERFORM set_config('rosemama.order_event_note', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, TEXT) TO authenticated;
+
+-- Order notifications: guest orders have nobody to notify in-app, and
+-- cancellations now also go to the admins, saying who cancelled and whether
+-- a refund is owed. NEW.payment_status is still the status the order was
+-- cancelled with, before reverse_cancelled_order marks it refund_due.
+CREATE OR REPLACE FUNCTION trigger_order_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  order_user_id UUID;
+  notification_title VARCHAR(255);
+  notification_message TEXT;
+  order_number TEXT := upper(right(NEW.id::TEXT, 8));
+  cancelled_by_customer BOOLEAN;
+  refund_owed BOOLEAN;
+  admin_record RECORD;
+BEGIN
+  -- Get the user_id for the order
+  order_user_id := NEW.user_id;
+
+  IF NEW.status = 'cancelled' THEN
+    cancelled_by_customer := auth.uid() IS NOT NULL AND auth.uid() = NEW.user_id;
+    refund_owed := NEW.payment_status = 'paid';
+
+    FOR admin_record IN SELECT id FROM public.users WHERE role = 'admin' LOOP
+      PERFORM create_notification(
+        admin_record.id,
+        'order',
+        'order_cancelled',
+        'Order #' || order_number || ' cancelled',
+        CASE WHEN cancelled_by_customer THEN 'The customer cancelled order #' ELSE 'Order #' END
+          || order_number || CASE WHEN cancelled_by_customer THEN '.' ELSE ' was cancelled.' END
+          || CASE WHEN OLD.status IN ('pending', 'processing') THEN ' Its stock has been released.' ELSE '' END
+          || CASE WHEN refund_owed THEN ' It was paid, so R' || NEW.total_amount || ' needs to be refunded.' ELSE '' END,
+        jsonb_build_object('order_id', NEW.id, 'total_amount', NEW.total_amount, 'cancelled_by_customer', cancelled_by_customer, 'refund_owed', refund_owed),
+        CASE WHEN refund_owed THEN 3 ELSE 2 END,
+        NULL,
+        NULL
+      );
+    END LOOP;
+  END IF;
+
+  IF order_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Create notification based on order status
+  CASE NEW.status
+    WHEN 'confirmed' THEN
+      notification_title := 'Order Confirmed';
+      notification_message := 'Your order #' || NEW.id || ' has been confirmed and is being processed.';
+    WHEN 'shipped' THEN
+      notification_title := 'Order Shipped';
+      notification_message := 'Your order #' || NEW.id || ' has been shipped and is on its way to you.';
+    WHEN 'delivered' THEN
+      notification_title := 'Order Delivered';
+      notification_message := 'Your order #' || NEW.id || ' has been delivered. Thank you for shopping with us!';
+    WHEN 'cancelled' THEN
+      notification_title := 'Order Cancelled';
+      notification_message := CASE WHEN cancelled_by_customer
+          THEN 'You cancelled order #' || NEW.id || '.'
+          ELSE 'Your order #' || NEW.id || ' has been cancelled.' END
+        || CASE WHEN refund_owed
+          THEN ' Your payment will be refunded to the account you paid from.'
+          ELSE '' END
+        || CASE WHEN NEW.points_redeemed > 0
+          THEN ' The points you used have been returned to your balance.'
+          ELSE '' END
+        || ' If you have any questions, please contact support.';
+    ELSE
+      RETURN NEW; -- No notification for other statuses
+  END CASE;
+
+  -- Create the notification
+  PERFORM create_notification(
+    order_user_id,
+    'order',
+    'order_' || NEW.status,
+    notification_title,
+    notification_message,
+    jsonb_build_object('order_id', NEW.id, 'total_amount', NEW.total_amount),
+    2, -- Medium priority
+    '/orders/' || NEW.id,
+    'View Order'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,27 @@
+-- Guest order lookup
+-- Guests have no account to see their orders in. The guest-order-lookup edge
+-- function finds a guest order by its order or invoice number and the email
+-- used at checkout, then hands out a short-lived signed view of it. Orders
+-- stay unreadable to anonymous clients; only the service role can search them.
+
+CREATE INDEX IF NOT EXISTS idx_orders_guest_email ON public.orders(lower(customer_email)) WHERE user_id IS NULL;
+
+-- p_order_number is the full order id or the 8 characters shown as
+-- #XXXXXXXX / INV-XXXXXXXX, already stripped of its prefix
+CREATE OR REPLACE FUNCTION public.find_guest_order(p_order_number TEXT, p_email TEXT)
+RETURNS UUID AS $$
+  SELECT id
+  FROM public.orders
+  WHERE user_id IS NULL
+    AND deleted_at IS NULL
+    AND lower(customer_email) = lower(trim(p_email))
+    AND (
+      id::TEXT = lower(trim(p_order_number)) OR
+      upper(right(id::TEXT, 8)) = upper(trim(p_order_number))
+    )
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.find_guest_order(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_guest_order(TEXT, TEXT) TO service_role;
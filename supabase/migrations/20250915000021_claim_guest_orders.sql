@@ -0,0 +1,89 @@
+-- Claiming guest orders
+-- Orders placed as a guest keep the checkout email but no user_id, so they
+-- stay invisible once that shopper creates an account. A signed-in customer
+-- whose email is verified is offered the guest orders placed with that email
+-- and can link them to their account. Linked orders show in their order
+-- history, can be reviewed and returned like any other order, and delivered
+-- ones earn points when they are linked, at the customer's current tier
+-- multiplier (the tier they had when the order was placed is not known).
+
+-- Guest orders the signed-in customer can claim. Nothing is offered until the
+-- email is verified, since anyone can sign up with someone else's address.
+CREATE OR REPLACE FUNCTION public.get_claimable_guest_orders()
+RETURNS TABLE (id UUID, status TEXT, total_amount NUMERIC, created_at TIMESTAMP WITH TIME ZONE) AS $$
+  SELECT o.id, o.status, o.total_amount, o.created_at
+  FROM public.orders o
+  JOIN auth.users u ON u.id = auth.uid()
+  WHERE o.user_id IS NULL
+    AND o.deleted_at IS NULL
+    AND u.email_confirmed_at IS NOT NULL
+    AND lower(o.customer_email) = lower(u.email)
+  ORDER BY o.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_claimable_guest_orders() TO authenticated;
+
+-- Links every claimable guest order to the signed-in customer. Delivered
+-- orders earn 1 point per R10 at the customer's current tier multiplier, the
+-- same as add_reward_points, and the tier is then re-evaluated with them.
+-- Orders still on their way earn their points on delivery as usual.
+CREATE OR REPLACE FUNCTION public.claim_guest_orders()
+RETURNS TABLE (orders_claimed INTEGER, points_earned INTEGER) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_multiplier NUMERIC;
+  v_order RECORD;
+  v_points INTEGER;
+  v_claimed INTEGER := 0;
+  v_earned INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to link your orders';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = v_user_id AND email_confirmed_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Please verify your email address before linking past orders';
+  END IF;
+
+  SELECT COALESCE(t.earn_multiplier, 1) INTO v_multiplier
+  FROM public.users u
+  LEFT JOIN public.membership_tiers t ON t.id = u.membership_tier_id
+  WHERE u.id = v_user_id;
+
+  FOR v_order IN
+    UPDATE public.orders o
+    SET user_id = v_user_id
+    FROM public.get_claimable_guest_orders() c
+    WHERE o.id = c.id
+    RETURNING o.id, o.status, o.total_amount
+  LOOP
+    v_claimed := v_claimed + 1;
+
+    IF v_order.status = 'delivered' THEN
+      v_points := FLOOR(FLOOR(v_order.total_amount / 10) * COALESCE(v_multiplier, 1));
+
+      IF v_points > 0 THEN
+        INSERT INTO public.points_ledger (user_id, event_type, points, description, order_id)
+        VALUES (
+          v_user_id, 'earn', v_points,
+          'Order #' || upper(right(v_order.id::TEXT, 8)) || ' delivered (guest order linked to your account)',
+          v_order.id
+        )
+        ON CONFLICT (order_id) WHERE event_type = 'earn' DO NOTHING;
+
+        IF FOUND THEN
+          v_earned := v_earned + v_points;
+        END IF;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_claimed > 0 THEN
+    PERFORM public.evaluate_membership_tier(v_user_id);
+  END IF;
+
+  RETURN QUERY SELECT v_claimed, v_earned;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.claim_guest_orders() TO authenticated;
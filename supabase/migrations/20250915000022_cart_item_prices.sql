@@ -0,0 +1,27 @@
+-- Cart line prices
+-- Each cart line keeps the price the product had when it was added, so the
+-- cart can tell the shopper the price changed since, on whichever device they
+-- open it. Checkout still charges the live price.
+
+ALTER TABLE public.cart_items ADD COLUMN IF NOT EXISTS price_at_add NUMERIC(10, 2);
+
+-- Lines already in carts start from today's price
+UPDATE public.cart_items ci
+SET price_at_add = p.price
+FROM public.products p
+WHERE p.id = ci.product_id AND ci.price_at_add IS NULL;
+
+-- The database stamps new lines with the product price, whatever the browser sent
+CREATE OR REPLACE FUNCTION public.set_cart_item_price_at_add()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT price INTO NEW.price_at_add FROM public.products WHERE id = NEW.product_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_cart_item_price_at_add ON public.cart_items;
+CREATE TRIGGER set_cart_item_price_at_add
+  BEFORE INSERT ON public.cart_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_cart_item_price_at_add();